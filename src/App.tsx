@@ -17,6 +17,14 @@ import { MapView } from "./components/MapView";
 import { Wallet } from "./components/Wallet";
 import { Profile } from "./components/Profile";
 import Community from "./components/Community";
+import Competitions from "./components/Competitions";
+import Leaderboard from "./components/Leaderboard";
+import { startOutboxSync, subscribeOutbox } from "@/lib/outbox";
+import { resolveProfileId } from "@/lib/offline-store";
+import { settleZoneContests } from "@/lib/zone-contest";
+import { finalizeCompetitions } from "@/lib/competitions";
+import { captureInviteFromUrl } from "@/lib/group-membership";
+import { getUnreadNotifications, markNotificationsRead, subscribeToNotifications } from "@/services/notificationService";
 import "maplibre-gl/dist/maplibre-gl.css";
 
 const queryClient = new QueryClient();
@@ -37,6 +45,9 @@ const App = () => {
   useEffect(() => {
     const init = async () => {
       try {
+        // Hold on to a club invite link through the login redirect
+        captureInviteFromUrl();
+
         // 1) If URL has id_token (OAuth redirect), extract and store
         const paramsHash = window.location.hash || window.location.search;
         let idToken = null;
@@ -107,6 +118,51 @@ const App = () => {
     init().catch(console.error);
   }, []);
 
+  // Replay runs, XP and zone claims recorded while offline
+  useEffect(() => {
+    const unsubscribe = subscribeOutbox(event => {
+      if (event.type === 'synced') toast.success(event.message);
+      if (event.type === 'conflict') toast.error(event.message);
+    });
+    const stopSync = startOutboxSync();
+    
+    return () => {
+      unsubscribe();
+      stopSync();
+    };
+  }, []);
+
+  // Settle finished zone contests and competitions, then show notifications
+  useEffect(() => {
+    if (!isLoggedIn) return;
+    
+    let cancelled = false;
+    let unsubscribe = () => {};
+    
+    const showNotifications = async (profileId: string) => {
+      const unread = await getUnreadNotifications(profileId);
+      unread.forEach(notification => toast(notification.title, { description: notification.body || undefined }));
+      await markNotificationsRead(unread.map(notification => notification.id));
+    };
+    
+    resolveProfileId().then(async profileId => {
+      if (!profileId || cancelled) return;
+      
+      await settleZoneContests(profileId);
+      await finalizeCompetitions();
+      await showNotifications(profileId);
+      
+      if (!cancelled) {
+        unsubscribe = subscribeToNotifications(profileId, () => showNotifications(profileId));
+      }
+    }).catch(console.error);
+    
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [isLoggedIn]);
+
   const handleZkLogin = async () => {
     try {
       await loginWithGoogle();
@@ -282,7 +338,7 @@ const App = () => {
           {/* Main Content */}
           <main className="container mx-auto px-4 py-6">
             <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-              <TabsList className="grid w-full grid-cols-5 mb-6">
+              <TabsList className="grid w-full grid-cols-6 mb-6">
                 <TabsTrigger value="dashboard" className="flex items-center gap-2">
                   <HomeIcon className="h-4 w-4" />
                   <span className="hidden sm:inline">Dashboard</span>
@@ -295,6 +351,10 @@ const App = () => {
                   <WalletIcon className="h-4 w-4" />
                   <span className="hidden sm:inline">Wallet</span>
                 </TabsTrigger>
+                <TabsTrigger value="compete" className="flex items-center gap-2">
+                  <Trophy className="h-4 w-4" />
+                  <span className="hidden sm:inline">Compete</span>
+                </TabsTrigger>
                 <TabsTrigger value="community" className="flex items-center gap-2">
                   <Users className="h-4 w-4" />
                   <span className="hidden sm:inline">Community</span>
@@ -306,7 +366,7 @@ const App = () => {
               </TabsList>
 
               <TabsContent value="dashboard">
-                <Dashboard />
+                <Dashboard onStartRun={() => setActiveTab("map")} />
               </TabsContent>
 
               <TabsContent value="map">
@@ -337,6 +397,21 @@ const App = () => {
                 )}
               </TabsContent>
 
+              <TabsContent value="compete">
+                <Tabs defaultValue="leaderboards">
+                  <TabsList className="grid w-full grid-cols-2 mb-4">
+                    <TabsTrigger value="leaderboards">Leaderboards</TabsTrigger>
+                    <TabsTrigger value="competitions">Competitions</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="leaderboards">
+                    <Leaderboard />
+                  </TabsContent>
+                  <TabsContent value="competitions">
+                    <Competitions />
+                  </TabsContent>
+                </Tabs>
+              </TabsContent>
+
               <TabsContent value="community">
                 <Community />
               </TabsContent>
@@ -349,7 +424,7 @@ const App = () => {
 
           {/* Bottom Navigation for Mobile */}
           <div className="fixed bottom-0 left-0 right-0 bg-card border-t md:hidden">
-            <div className="grid grid-cols-5 p-2">
+            <div className="grid grid-cols-6 p-2">
               <Button
                 variant={activeTab === "dashboard" ? "default" : "ghost"}
                 size="sm"
@@ -377,6 +452,15 @@ const App = () => {
                 <WalletIcon className="h-5 w-5" />
                 <span className="text-xs">Wallet</span>
               </Button>
+              <Button
+                variant={activeTab === "compete" ? "default" : "ghost"}
+                size="sm"
+                onClick={() => setActiveTab("compete")}
+                className="flex flex-col items-center gap-1 h-auto py-2"
+              >
+                <Trophy className="h-5 w-5" />
+                <span className="text-xs">Compete</span>
+              </Button>
               <Button
                 variant={activeTab === "community" ? "default" : "ghost"}
                 size="sm"
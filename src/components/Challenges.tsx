@@ -0,0 +1,105 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Target, CalendarDays, Award, CheckCircle2, Zap } from "lucide-react";
+import {
+  ActiveChallenge,
+  ChallengePeriod,
+  getActiveChallenges,
+  subscribeToChallenges,
+  formatChallengeProgress,
+  formatChallengeTimeLeft
+} from "@/lib/challenges";
+
+interface ChallengesProps {
+  profileId?: string;
+}
+
+const SECTIONS: { period: ChallengePeriod; title: string; description: string; icon: typeof Target }[] = [
+  { period: "daily", title: "Daily Challenges", description: "A fresh set every day", icon: Target },
+  { period: "weekly", title: "Weekly Challenges", description: "Bigger goals that reset every Monday", icon: CalendarDays },
+  { period: "once", title: "Achievements", description: "Unlock achievements as you progress", icon: Award }
+];
+
+export default function Challenges({ profileId }: ChallengesProps) {
+  const [challenges, setChallenges] = useState<ActiveChallenge[]>([]);
+
+  useEffect(() => {
+    if (!profileId) return;
+
+    const refresh = () => getActiveChallenges(profileId).then(setChallenges);
+    refresh();
+    return subscribeToChallenges(profileId, refresh);
+  }, [profileId]);
+
+  if (!profileId) {
+    return (
+      <Card className="glass-card backdrop-blur-xl">
+        <CardContent className="p-6 text-center text-muted-foreground">
+          Sign in to take on challenges.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      {SECTIONS.map(({ period, title, description, icon: Icon }) => {
+        const section = challenges.filter(challenge => challenge.period === period);
+        if (section.length === 0) return null;
+
+        return (
+          <Card key={period} className="glass-card backdrop-blur-xl">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Icon className="h-5 w-5 text-accent" />
+                {title}
+              </CardTitle>
+              <CardDescription>{description}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {section.map(challenge => (
+                <div
+                  key={challenge.id}
+                  className={`p-4 rounded-lg border ${
+                    challenge.completed ? "bg-accent/10 border-accent/30" : "bg-muted/10 border-border/30"
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="flex-1">
+                      <p className="font-medium">{challenge.title}</p>
+                      {challenge.description && (
+                        <p className="text-xs text-muted-foreground">{challenge.description}</p>
+                      )}
+                    </div>
+                    {challenge.completed ? (
+                      <Badge variant="secondary" className="flex items-center gap-1">
+                        <CheckCircle2 className="h-3 w-3" />
+                        +{challenge.xpAwarded} XP
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" className="flex items-center gap-1">
+                        <Zap className="h-3 w-3" />
+                        {challenge.xp_reward} XP
+                      </Badge>
+                    )}
+                  </div>
+                  {!challenge.completed && (
+                    <div className="mt-3 space-y-1">
+                      <Progress value={(challenge.progress / challenge.max_progress) * 100} className="h-2" />
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>{formatChallengeProgress(challenge)}</span>
+                        <span>{formatChallengeTimeLeft(challenge)}</span>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </>
+  );
+}
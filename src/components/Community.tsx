@@ -1,10 +1,12 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { 
   Heart, 
   MessageCircle, 
@@ -14,167 +16,160 @@ import {
   MapPin,
   Clock,
   TrendingUp,
-  Upload
+  Trophy,
+  UserPlus,
+  UserCheck
 } from "lucide-react";
 import { toast } from "sonner";
-import { supabase } from "@/integrations/supabase/client";
 import { motion } from "framer-motion";
 import { getCurrentUserInfo } from "@/lib/zklogin";
-import { upsertUser } from "@/services/userService";
-
-interface Post {
-  id: string;
-  user_id: string;
-  username: string;
-  avatar_url?: string;
-  content: string;
-  image_url?: string;
-  location?: string;
-  likes: number;
-  reposts: number;
-  comments: Comment[];
-  created_at: string;
-  has_liked?: boolean;
-  has_reposted?: boolean;
+import { resolveProfileId } from "@/lib/offline-store";
+import { upsertUser, setFollowing } from "@/services/userService";
+import { getUserRuns } from "@/services/runService";
+import {
+  FeedPost,
+  FeedTab,
+  FeedCursor,
+  NearbyArea,
+  createPost,
+  getFeed,
+  toggleLike,
+  addComment,
+  subscribeToPosts,
+  getShareableZones
+} from "@/services/postService";
+import PostAttachment from "@/components/PostAttachment";
+
+const NO_ATTACHMENT = "none";
+
+interface AttachmentOption {
+  value: string; // "run:<id>" or "zone:<id>"
+  label: string;
 }
 
-interface Comment {
-  id: string;
-  user_id: string;
-  username: string;
-  avatar_url?: string;
-  content: string;
-  created_at: string;
+const FEED_TABS: { value: FeedTab; label: string }[] = [
+  { value: "following", label: "Following" },
+  { value: "nearby", label: "Nearby" },
+  { value: "groups", label: "Groups" },
+  { value: "global", label: "Global" }
+];
+
+const EMPTY_FEED_MESSAGES: Record<FeedTab, string> = {
+  following: "Follow runners to see their posts here.",
+  nearby: "No runs or zones have been shared near you yet.",
+  groups: "Join a group to see posts from its members.",
+  global: "No posts yet. Be the first to share!"
+};
+
+const NEARBY_RADII_KM = [5, 10, 25, 50];
+
+// Put a fresh first page in front of the older pages already loaded
+function mergeLatest(latest: FeedPost[], loaded: FeedPost[]): FeedPost[] {
+  const oldest = latest[latest.length - 1];
+  if (!oldest) return latest;
+
+  return [
+    ...latest,
+    ...loaded.filter(post => post.created_at < oldest.created_at || (post.created_at === oldest.created_at && post.id < oldest.id))
+  ];
 }
 
 export default function Community() {
-  const [posts, setPosts] = useState<Post[]>([]);
+  const [tab, setTab] = useState<FeedTab>("global");
+  const [nearbyArea, setNearbyArea] = useState<NearbyArea | null>(null);
+  const [posts, setPosts] = useState<FeedPost[]>([]);
+  const [nextCursor, setNextCursor] = useState<FeedCursor | null>(null);
+  const [feedLoading, setFeedLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [myProfileId, setMyProfileId] = useState<string | null>(null);
   const [newPost, setNewPost] = useState("");
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string>("");
+  const [attachmentOptions, setAttachmentOptions] = useState<AttachmentOption[]>([]);
+  const [selectedAttachment, setSelectedAttachment] = useState(NO_ATTACHMENT);
   const [loading, setLoading] = useState(false);
   const [commentText, setCommentText] = useState<{ [key: string]: string }>({});
   const [showComments, setShowComments] = useState<{ [key: string]: boolean }>({});
+  const refreshLatestRef = useRef<() => void>(() => {});
 
   useEffect(() => {
-    loadPosts();
-    setupRealtimeSubscription();
+    loadAttachmentOptions();
   }, []);
 
-  const setupRealtimeSubscription = () => {
-    const channel = supabase
-      .channel('community-posts')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'community_posts'
-        },
-        () => {
-          loadPosts();
-        }
-      )
-      .subscribe();
+  useEffect(() => {
+    let cancelled = false;
+    setPosts([]);
+    setNextCursor(null);
+
+    if (tab === "nearby" && !nearbyArea) {
+      setFeedLoading(false);
+      return;
+    }
+
+    setFeedLoading(true);
+    getFeed(tab, null, nearbyArea || undefined).then(page => {
+      if (cancelled) return;
+      setPosts(page.posts);
+      setNextCursor(page.nextCursor);
+      setFeedLoading(false);
+    });
+
+    const unsubscribe = subscribeToPosts(() => refreshLatestRef.current());
 
     return () => {
-      supabase.removeChannel(channel);
+      cancelled = true;
+      unsubscribe();
     };
-  };
+  }, [tab, nearbyArea]);
 
-  const loadPosts = async () => {
-    try {
-      // First get posts
-      const { data: postsData, error: postsError } = await supabase
-        .from('community_posts')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (postsError) throw postsError;
+  const refreshLatest = async () => {
+    const page = await getFeed(tab, null, nearbyArea || undefined);
+    setPosts(loaded => mergeLatest(page.posts, loaded));
+  };
+  refreshLatestRef.current = refreshLatest;
 
-      if (!postsData) {
-        setPosts([]);
-        return;
-      }
+  const loadMore = async () => {
+    if (!nextCursor) return;
 
-      // Get user profiles
-      const userIds = [...new Set(postsData.map(p => p.user_id))];
-      const { data: profiles } = await supabase
-        .from('profiles')
-        .select('id, username, avatar_url')
-        .in('id', userIds);
-
-      // Get likes
-      const postIds = postsData.map(p => p.id);
-      const { data: likes } = await supabase
-        .from('post_likes')
-        .select('post_id, user_id')
-        .in('post_id', postIds);
-
-      // Get comments
-      const { data: comments } = await supabase
-        .from('post_comments')
-        .select('*')
-        .in('post_id', postIds)
-        .order('created_at', { ascending: true });
-
-      // Get comment user profiles
-      const commentUserIds = [...new Set(comments?.map(c => c.user_id) || [])];
-      const { data: commentProfiles } = await supabase
-        .from('profiles')
-        .select('id, username, avatar_url')
-        .in('id', commentUserIds);
-
-      const { data: { user } } = await supabase.auth.getUser();
-      const userProfile = user ? await getUserProfile(user.id) : null;
-
-      // Format posts with all related data
-      const formattedPosts = postsData.map(post => {
-        const profile = profiles?.find(p => p.id === post.user_id);
-        const postLikes = likes?.filter(l => l.post_id === post.id) || [];
-        const postComments = comments?.filter(c => c.post_id === post.id) || [];
-
-        return {
-          id: post.id,
-          user_id: post.user_id,
-          username: profile?.username || 'Anonymous',
-          avatar_url: profile?.avatar_url,
-          content: post.content,
-          image_url: post.image_url,
-          location: post.location,
-          likes: post.likes_count || 0,
-          reposts: post.reposts_count || 0,
-          comments: postComments.map(c => {
-            const commentProfile = commentProfiles?.find(p => p.id === c.user_id);
-            return {
-              id: c.id,
-              user_id: c.user_id,
-              username: commentProfile?.username || 'Anonymous',
-              avatar_url: commentProfile?.avatar_url,
-              content: c.content,
-              created_at: c.created_at
-            };
-          }),
-          created_at: post.created_at,
-          has_liked: postLikes.some(l => l.user_id === userProfile?.id),
-          has_reposted: false
-        };
-      });
+    setLoadingMore(true);
+    const page = await getFeed(tab, nextCursor, nearbyArea || undefined);
+    setPosts(loaded => [...loaded, ...page.posts.filter(post => !loaded.some(existing => existing.id === post.id))]);
+    setNextCursor(page.nextCursor);
+    setLoadingMore(false);
+  };
 
-      setPosts(formattedPosts);
-    } catch (error) {
-      console.error('Error loading posts:', error);
-      toast.error("Failed to load posts");
-    }
+  const handleTabChange = (value: string) => {
+    setTab(value as FeedTab);
+    if (value !== "nearby" || nearbyArea) return;
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => setNearbyArea({
+        lat: position.coords.latitude,
+        lng: position.coords.longitude,
+        radiusKm: NEARBY_RADII_KM[1]
+      }),
+      () => toast.error("Allow location access to see posts near you")
+    );
   };
 
-  const getUserProfile = async (userId: string) => {
-    const { data } = await supabase
-      .from('profiles')
-      .select('id')
-      .eq('user_id', userId)
-      .single();
-    return data;
+  const loadAttachmentOptions = async () => {
+    const userInfo = getCurrentUserInfo();
+    const profileId = await resolveProfileId();
+    setMyProfileId(profileId);
+    if (!userInfo?.email || !profileId) return;
+
+    const [runs, zones] = await Promise.all([getUserRuns(userInfo.email), getShareableZones(profileId)]);
+
+    setAttachmentOptions([
+      ...runs.slice(0, 20).map(run => ({
+        value: `run:${run.id}`,
+        label: `Run · ${new Date(run.recorded_at || run.created_at).toLocaleDateString()}`
+      })),
+      ...zones.map(zone => ({
+        value: `zone:${zone.id}`,
+        label: `Zone · ${zone.name || `${Math.round(zone.area).toLocaleString()} m²`}`
+      }))
+    ]);
   };
 
   const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -200,11 +195,6 @@ export default function Community() {
       return;
     }
 
-    if (!newPost.trim() && !selectedImage) {
-      toast.error("Please add some content or an image");
-      return;
-    }
-
     setLoading(true);
     try {
       // Ensure user exists in database
@@ -214,112 +204,80 @@ export default function Community() {
         return;
       }
 
-      // Use zkLogin email for posts
-      const userInfo = getCurrentUserInfo();
-      if (!userInfo?.email) {
-        toast.error("Please login to post");
+      const [kind, id] = selectedAttachment.split(":");
+      const result = await createPost({
+        content: newPost,
+        image: selectedImage || undefined,
+        runId: kind === "run" ? id : undefined,
+        zoneId: kind === "zone" ? id : undefined
+      });
+
+      if (!result.success) {
+        toast.error(result.error || "Failed to post");
         return;
       }
 
-      const { error } = await supabase
-        .from('posts')
-        .insert({
-          user_email: userInfo.email,
-          content: newPost
-        });
-
-      if (error) throw error;
-
       toast.success("Posted successfully!");
       setNewPost("");
       setSelectedImage(null);
       setImagePreview("");
-      loadPosts();
-    } catch (error: any) {
-      console.error('Error posting:', error);
-      toast.error(error.message || "Failed to post");
+      setSelectedAttachment(NO_ATTACHMENT);
+      refreshLatest();
     } finally {
       setLoading(false);
     }
   };
 
-  const handleLike = async (postId: string) => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) {
-      toast.error("Please login to like");
-      return;
-    }
-
-    try {
-      const profile = await getUserProfile(user.id);
-      if (!profile) throw new Error("Profile not found");
-
-      const post = posts.find(p => p.id === postId);
-      if (!post) return;
-
-      if (post.has_liked) {
-        // Unlike
-        await supabase
-          .from('post_likes')
-          .delete()
-          .eq('post_id', postId)
-          .eq('user_id', profile.id);
-
-        await supabase
-          .from('community_posts')
-          .update({ likes_count: Math.max(0, post.likes - 1) })
-          .eq('id', postId);
-      } else {
-        // Like
-        await supabase
-          .from('post_likes')
-          .insert({ post_id: postId, user_id: profile.id });
-
-        await supabase
-          .from('community_posts')
-          .update({ likes_count: post.likes + 1 })
-          .eq('id', postId);
-      }
+  const updatePosts = (matches: (post: FeedPost) => boolean, update: (post: FeedPost) => Partial<FeedPost>) => {
+    setPosts(loaded => loaded.map(post => matches(post) ? { ...post, ...update(post) } : post));
+  };
 
-      loadPosts();
-    } catch (error) {
-      console.error('Error liking post:', error);
-      toast.error("Failed to like post");
+  const handleLike = async (post: FeedPost) => {
+    const result = await toggleLike(post);
+    if (!result.success) {
+      toast.error(result.error || "Failed to like post");
+      return;
     }
+    updatePosts(p => p.id === post.id, p => ({
+      has_liked: !p.has_liked,
+      likes: Math.max(0, p.likes + (p.has_liked ? -1 : 1))
+    }));
   };
 
-  const handleComment = async (postId: string) => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) {
-      toast.error("Please login to comment");
+  const handleFollow = async (post: FeedPost) => {
+    const result = await setFollowing(post.user_id, !post.is_following);
+    if (!result.success) {
+      toast.error(result.error || "Failed to update follow");
       return;
     }
+    toast.success(post.is_following ? `Unfollowed ${post.username}` : `Following ${post.username}`);
+    updatePosts(p => p.user_id === post.user_id, () => ({ is_following: !post.is_following }));
+  };
 
+  const handleComment = async (postId: string) => {
     const comment = commentText[postId];
     if (!comment?.trim()) {
       toast.error("Please enter a comment");
       return;
     }
 
-    try {
-      const profile = await getUserProfile(user.id);
-      if (!profile) throw new Error("Profile not found");
-
-      await supabase
-        .from('post_comments')
-        .insert({
-          post_id: postId,
-          user_id: profile.id,
-          content: comment
-        });
-
-      toast.success("Comment added!");
-      setCommentText({ ...commentText, [postId]: "" });
-      loadPosts();
-    } catch (error) {
-      console.error('Error commenting:', error);
-      toast.error("Failed to add comment");
+    const result = await addComment(postId, comment);
+    if (!result.success) {
+      toast.error(result.error || "Failed to add comment");
+      return;
     }
+
+    toast.success("Comment added!");
+    setCommentText({ ...commentText, [postId]: "" });
+    updatePosts(p => p.id === postId, p => ({
+      comments: [...p.comments, {
+        id: `local-${Date.now()}`,
+        user_id: myProfileId || "",
+        username: "You",
+        content: comment.trim(),
+        created_at: new Date().toISOString()
+      }]
+    }));
   };
 
   const formatTime = (timestamp: string) => {
@@ -392,11 +350,24 @@ export default function Community() {
                     </span>
                   </Button>
                 </label>
+                {attachmentOptions.length > 0 && (
+                  <Select value={selectedAttachment} onValueChange={setSelectedAttachment}>
+                    <SelectTrigger className="h-9 w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_ATTACHMENT}>No run or zone</SelectItem>
+                      {attachmentOptions.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
               </div>
               
               <Button
                 onClick={handlePost}
-                disabled={loading || (!newPost.trim() && !selectedImage)}
+                disabled={loading || (!newPost.trim() && !selectedImage && selectedAttachment === NO_ATTACHMENT)}
                 variant="gradient"
               >
                 {loading ? "Posting..." : "Post"}
@@ -405,6 +376,36 @@ export default function Community() {
           </CardContent>
         </Card>
 
+        {/* Feed Tabs */}
+        <div className="space-y-2">
+          <Tabs value={tab} onValueChange={handleTabChange}>
+            <TabsList className="grid w-full grid-cols-4">
+              {FEED_TABS.map(option => (
+                <TabsTrigger key={option.value} value={option.value}>{option.label}</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          {tab === "nearby" && nearbyArea && (
+            <div className="flex items-center justify-end gap-2 text-sm text-muted-foreground">
+              <MapPin className="h-4 w-4" />
+              Within
+              <Select
+                value={String(nearbyArea.radiusKm)}
+                onValueChange={(value) => setNearbyArea({ ...nearbyArea, radiusKm: Number(value) })}
+              >
+                <SelectTrigger className="h-8 w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {NEARBY_RADII_KM.map(radius => (
+                    <SelectItem key={radius} value={String(radius)}>{radius} km</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
         {/* Posts Feed */}
         <div className="space-y-4">
           {posts.map((post) => (
@@ -426,6 +427,12 @@ export default function Community() {
                     <div className="flex-1">
                       <div className="flex items-center gap-2">
                         <span className="font-semibold">{post.username}</span>
+                        {post.is_announcement && (
+                          <Badge variant="secondary" className="text-[10px]">
+                            <Trophy className="h-3 w-3 mr-1" />
+                            Competition
+                          </Badge>
+                        )}
                         <span className="text-xs text-muted-foreground">
                           {formatTime(post.created_at)}
                         </span>
@@ -437,11 +444,27 @@ export default function Community() {
                         </div>
                       )}
                     </div>
+                    {myProfileId && post.user_id !== myProfileId && !post.is_announcement && (
+                      <Button
+                        variant={post.is_following ? "outline" : "secondary"}
+                        size="sm"
+                        onClick={() => handleFollow(post)}
+                      >
+                        {post.is_following ? (
+                          <UserCheck className="h-4 w-4 mr-1" />
+                        ) : (
+                          <UserPlus className="h-4 w-4 mr-1" />
+                        )}
+                        {post.is_following ? "Following" : "Follow"}
+                      </Button>
+                    )}
                   </div>
 
                   {/* Post Content */}
-                  <p className="text-foreground whitespace-pre-wrap">{post.content}</p>
+                  {post.content && <p className="text-foreground whitespace-pre-wrap">{post.content}</p>}
                   
+                  {post.attachment && <PostAttachment attachment={post.attachment} />}
+
                   {post.image_url && (
                     <img 
                       src={post.image_url} 
@@ -456,7 +479,7 @@ export default function Community() {
                       <Button
                         variant="ghost"
                         size="sm"
-                        onClick={() => handleLike(post.id)}
+                        onClick={() => handleLike(post)}
                         className={post.has_liked ? "text-red-500" : ""}
                       >
                         <Heart className={`h-4 w-4 mr-1 ${post.has_liked ? "fill-current" : ""}`} />
@@ -539,11 +562,23 @@ export default function Community() {
           ))}
         </div>
 
-        {posts.length === 0 && (
+        {nextCursor && (
+          <Button variant="outline" className="w-full" onClick={loadMore} disabled={loadingMore}>
+            {loadingMore ? "Loading..." : "Load more"}
+          </Button>
+        )}
+
+        {feedLoading && (
+          <p className="text-center text-muted-foreground py-8">Loading posts...</p>
+        )}
+
+        {!feedLoading && posts.length === 0 && (
           <Card className="glass-card backdrop-blur-sm">
             <CardContent className="text-center py-12">
               <TrendingUp className="h-12 w-12 text-muted-foreground/20 mx-auto mb-4" />
-              <p className="text-muted-foreground">No posts yet. Be the first to share!</p>
+              <p className="text-muted-foreground">
+                {tab === "nearby" && !nearbyArea ? "Allow location access to see posts near you." : EMPTY_FEED_MESSAGES[tab]}
+              </p>
             </CardContent>
           </Card>
         )}
@@ -0,0 +1,192 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Trophy, Calendar, Users, Gift, ChevronDown, ChevronUp, Medal } from "lucide-react";
+import { toast } from "sonner";
+import { resolveProfileId } from "@/lib/offline-store";
+import {
+  CompetitionEntry,
+  CompetitionPhase,
+  CompetitionStanding,
+  getCompetitions,
+  getCompetitionStandings,
+  joinCompetition,
+  finalizeCompetitions,
+  formatCompetitionScore,
+  describeCompetitionType
+} from "@/lib/competitions";
+
+const PHASE_LABELS: Record<CompetitionPhase, string> = {
+  live: "Live",
+  upcoming: "Upcoming",
+  scoring: "Final scoring",
+  final: "Final"
+};
+
+export default function Competitions() {
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [competitions, setCompetitions] = useState<CompetitionEntry[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [standings, setStandings] = useState<CompetitionStanding[]>([]);
+  const [joining, setJoining] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      const id = await resolveProfileId();
+      setProfileId(id);
+      await finalizeCompetitions();
+      setCompetitions(await getCompetitions(id || undefined));
+      setLoading(false);
+    };
+
+    load().catch(console.error);
+  }, []);
+
+  useEffect(() => {
+    if (!expanded) return;
+    getCompetitionStandings(expanded).then(setStandings);
+  }, [expanded]);
+
+  const handleJoin = async (competition: CompetitionEntry) => {
+    if (!profileId) {
+      toast.error("Sign in to enter competitions");
+      return;
+    }
+
+    setJoining(competition.id);
+    const result = await joinCompetition(profileId, competition.id);
+    setJoining(null);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to register");
+      return;
+    }
+
+    toast.success(`You're in "${competition.title}"!`);
+    setCompetitions(await getCompetitions(profileId));
+    if (expanded === competition.id) setStandings(await getCompetitionStandings(competition.id));
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <Trophy className="h-12 w-12 text-muted-foreground/20 mx-auto mb-3 animate-pulse" />
+        <p className="text-muted-foreground">Loading competitions...</p>
+      </div>
+    );
+  }
+
+  if (competitions.length === 0) {
+    return (
+      <Card className="glass-card backdrop-blur-xl">
+        <CardContent className="text-center py-12">
+          <Trophy className="h-12 w-12 text-muted-foreground/20 mx-auto mb-3" />
+          <p className="text-muted-foreground">No competitions right now</p>
+          <p className="text-sm text-muted-foreground mt-1">Check back soon for sponsored events.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {competitions.map((competition) => (
+        <Card key={competition.id} className="glass-card backdrop-blur-xl overflow-hidden">
+          {competition.image_url && (
+            <img src={competition.image_url} alt={competition.title} className="w-full h-32 object-cover" />
+          )}
+          <CardHeader>
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <Trophy className="h-5 w-5 text-accent" />
+                  {competition.title}
+                </CardTitle>
+                {competition.sponsor && (
+                  <CardDescription>Sponsored by {competition.sponsor}</CardDescription>
+                )}
+              </div>
+              <Badge variant={competition.phase === "live" ? "default" : "outline"}>
+                {PHASE_LABELS[competition.phase]}
+              </Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {competition.description && (
+              <p className="text-sm text-muted-foreground">{competition.description}</p>
+            )}
+
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <span className="flex items-center gap-1">
+                <Gift className="h-4 w-4 text-accent" />
+                {competition.prize}
+              </span>
+              <span className="flex items-center gap-1">
+                <Medal className="h-4 w-4 text-primary" />
+                {describeCompetitionType(competition.type)}
+              </span>
+              <span className="flex items-center gap-1 text-muted-foreground">
+                <Calendar className="h-4 w-4" />
+                {new Date(competition.start_date).toLocaleDateString()} – {new Date(competition.end_date).toLocaleDateString()}
+              </span>
+              <span className="flex items-center gap-1 text-muted-foreground">
+                <Users className="h-4 w-4" />
+                {competition.participants} registered
+              </span>
+            </div>
+
+            {competition.me ? (
+              <div className="flex items-center justify-between p-3 rounded-lg bg-accent/10 border border-accent/30 text-sm">
+                <span>{competition.me.rank ? `You're #${competition.me.rank}` : "You're registered"}</span>
+                <span className="font-semibold">{formatCompetitionScore(competition.type, competition.me.score)}</span>
+              </div>
+            ) : (competition.phase === "live" || competition.phase === "upcoming") && (
+              <Button
+                variant="gradient"
+                className="w-full"
+                disabled={joining === competition.id}
+                onClick={() => handleJoin(competition)}
+              >
+                {joining === competition.id ? "Registering..." : "Register"}
+              </Button>
+            )}
+
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full"
+              onClick={() => setExpanded(expanded === competition.id ? null : competition.id)}
+            >
+              {competition.phase === "final" ? "Final standings" : "Standings"}
+              {expanded === competition.id ? <ChevronUp className="ml-1 h-4 w-4" /> : <ChevronDown className="ml-1 h-4 w-4" />}
+            </Button>
+
+            {expanded === competition.id && (
+              <div className="space-y-2">
+                {standings.length === 0 && (
+                  <p className="text-sm text-center text-muted-foreground">No one has registered yet</p>
+                )}
+                {standings.map((standing) => (
+                  <div
+                    key={standing.id}
+                    className={`flex items-center justify-between text-sm p-2 rounded ${
+                      standing.user_id === profileId ? "bg-accent/10" : ""
+                    }`}
+                  >
+                    <span className="flex items-center gap-2">
+                      <span className="w-6 text-muted-foreground">#{standing.rank ?? "–"}</span>
+                      {standing.username}
+                    </span>
+                    <span className="font-medium">{formatCompetitionScore(competition.type, standing.score)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
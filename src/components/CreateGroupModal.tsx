@@ -5,11 +5,12 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
-import { MapPin, Trophy, Users, Calendar } from "lucide-react";
+import { MapPin, Trophy, Users, Calendar, Lock } from "lucide-react";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
 import { getCurrentUserInfo } from "@/lib/zklogin";
 import { upsertUser } from "@/services/userService";
+import { DEFAULT_CLUB_COLOR } from "@/lib/group-territory";
 
 interface CreateGroupModalProps {
   open: boolean;
@@ -33,7 +34,9 @@ export default function CreateGroupModal({ open, onClose, userId, onGroupCreated
     startDate: "",
     endDate: "",
     latitude: "",
-    longitude: ""
+    longitude: "",
+    color: DEFAULT_CLUB_COLOR,
+    isPrivate: false
   });
 
   const getCurrentLocation = () => {
@@ -77,9 +80,6 @@ export default function CreateGroupModal({ open, onClose, userId, onGroupCreated
     setLoading(true);
     try {
 
-      // Generate join code
-      const joinCode = Math.random().toString(36).substring(2, 8).toUpperCase();
-
       // Create metadata with reward and location info
       const metadata: any = {
         hasReward: formData.hasReward,
@@ -99,7 +99,7 @@ export default function CreateGroupModal({ open, onClose, userId, onGroupCreated
         return;
       }
 
-      const { data: group, error } = await supabase
+      const { error } = await supabase
         .from("groups")
         .insert({
           name: formData.name,
@@ -108,23 +108,15 @@ export default function CreateGroupModal({ open, onClose, userId, onGroupCreated
             lat: parseFloat(formData.latitude) || 41.0082, 
             lng: parseFloat(formData.longitude) || 28.9784 
           },
-          owner_email: userInfo.email
-        })
-        .select()
-        .single();
+          owner_email: userInfo.email,
+          color: formData.color,
+          is_private: formData.isPrivate
+        });
 
       if (error) throw error;
 
-      // Auto-join creator to the group
-      await supabase
-        .from("group_members")
-        .insert({
-          group_id: group.id,
-          user_id: user.id,
-          role: "admin"
-        });
-
-      toast.success(`Group "${formData.name}" created! Join code: ${joinCode}`);
+      // The database makes the creator the owner; invites are created from Manage
+      toast.success(`Group "${formData.name}" created!`);
       onGroupCreated();
       onClose();
     } catch (error: any) {
@@ -241,15 +233,43 @@ export default function CreateGroupModal({ open, onClose, userId, onGroupCreated
             </div>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="weeklyGoal">Weekly Goal (km)</Label>
-            <Input
-              id="weeklyGoal"
-              type="number"
-              min="1"
-              max="1000"
-              value={formData.weeklyGoal}
-              onChange={(e) => setFormData(prev => ({ ...prev, weeklyGoal: parseInt(e.target.value) }))}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="weeklyGoal">Weekly Goal (km)</Label>
+              <Input
+                id="weeklyGoal"
+                type="number"
+                min="1"
+                max="1000"
+                value={formData.weeklyGoal}
+                onChange={(e) => setFormData(prev => ({ ...prev, weeklyGoal: parseInt(e.target.value) }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="color">Club Colour</Label>
+              <Input
+                id="color"
+                type="color"
+                value={formData.color}
+                onChange={(e) => setFormData(prev => ({ ...prev, color: e.target.value.toUpperCase() }))}
+                className="h-10 p-1"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between p-4 rounded-lg border border-border/50">
+            <div className="flex items-center gap-2">
+              <Lock className="h-5 w-5 text-primary" />
+              <div>
+                <Label htmlFor="isPrivate">Private Group</Label>
+                <p className="text-xs text-muted-foreground">Runners need an invite or an admin's approval to join</p>
+              </div>
+            </div>
+            <Switch
+              id="isPrivate"
+              checked={formData.isPrivate}
+              onCheckedChange={(checked) => setFormData(prev => ({ ...prev, isPrivate: checked }))}
             />
           </div>
 
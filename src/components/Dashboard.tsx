@@ -6,14 +6,17 @@ import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { 
   Trophy, Users, MapPin, TrendingUp, Clock, Activity, 
-  Target, Award, Zap, Globe, ChevronRight, Plus,
-  UserPlus, Calendar, Flag, Mountain, Info, Play
+  Target, Zap, ChevronRight, Plus,
+  UserPlus, Calendar, Info, Play, Share2
 } from "lucide-react";
 import { motion } from "framer-motion";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import GroupsManager from "./GroupsManager";
+import LobbyRace from "./LobbyRace";
+import Challenges from "./Challenges";
 import { getCurrentUserInfo } from "@/lib/zklogin";
+import { createPost } from "@/services/postService";
 
 
 interface DashboardProps {
@@ -114,6 +117,15 @@ export default function Dashboard({ userId, onStartRun }: DashboardProps) {
     }
   };
 
+  const handleShareRun = async (runId: string) => {
+    const result = await createPost({ runId });
+    if (result.success) {
+      toast.success("Run shared to the community");
+    } else {
+      toast.error(result.error || "Failed to share run");
+    }
+  };
+
   const calculateLevel = (xp: number) => {
     return Math.floor(xp / 1000) + 1;
   };
@@ -260,10 +272,11 @@ export default function Dashboard({ userId, onStartRun }: DashboardProps) {
 
       {/* Main Content - Immediately Visible */}
       <Tabs defaultValue="overview" className="space-y-2">
-        <TabsList className="grid w-full grid-cols-4 glass-card">
+        <TabsList className="grid w-full grid-cols-5 glass-card">
           <TabsTrigger value="overview" className="text-[11px] py-2">Overview</TabsTrigger>
           <TabsTrigger value="runs" className="text-[11px] py-2">Recent Runs</TabsTrigger>
           <TabsTrigger value="groups" className="text-[11px] py-2">Groups</TabsTrigger>
+          <TabsTrigger value="race" className="text-[11px] py-2">Race</TabsTrigger>
           <TabsTrigger value="achievements" className="text-[11px] py-2">Achievements</TabsTrigger>
         </TabsList>
 
@@ -415,9 +428,14 @@ export default function Dashboard({ userId, onStartRun }: DashboardProps) {
                           </div>
                         </div>
                       </div>
-                      <Button variant="ghost" size="sm">
-                        View Details
-                      </Button>
+                      <div className="flex items-center gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => handleShareRun(run.id)}>
+                          <Share2 className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm">
+                          View Details
+                        </Button>
+                      </div>
                     </div>
                   ))}
                 </div>
@@ -438,53 +456,12 @@ export default function Dashboard({ userId, onStartRun }: DashboardProps) {
           <GroupsManager userId={profile?.id} />
         </TabsContent>
 
+        <TabsContent value="race">
+          <LobbyRace profileId={profile?.id} onRaceStart={onStartRun} />
+        </TabsContent>
+
         <TabsContent value="achievements" className="space-y-4">
-          <Card className="glass-card backdrop-blur-xl">
-            <CardHeader>
-              <CardTitle>Achievements</CardTitle>
-              <CardDescription>Unlock achievements as you progress</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {[
-                  { icon: Trophy, name: "First Run", desc: "Complete your first run", earned: true },
-                  { icon: Flag, name: "Territory Lord", desc: "Claim 10 territories", earned: true },
-                  { icon: Mountain, name: "Marathon Runner", desc: "Run 42.2 km total", earned: false },
-                  { icon: Users, name: "Team Player", desc: "Join 3 groups", earned: false },
-                  { icon: Award, name: "Streak Master", desc: "7 day run streak", earned: false },
-                  { icon: Globe, name: "World Explorer", desc: "Run in 5 cities", earned: false }
-                ].map((achievement, idx) => (
-                  <div 
-                    key={idx}
-                    className={`p-4 rounded-lg border ${
-                      achievement.earned 
-                        ? "bg-accent/10 border-accent/30" 
-                        : "bg-muted/10 border-border/30 opacity-60"
-                    }`}
-                  >
-                    <div className="flex items-start gap-3">
-                      <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
-                        achievement.earned ? "bg-accent/20" : "bg-muted/20"
-                      }`}>
-                        <achievement.icon className={`h-5 w-5 ${
-                          achievement.earned ? "text-accent" : "text-muted-foreground"
-                        }`} />
-                      </div>
-                      <div className="flex-1">
-                        <p className="font-medium">{achievement.name}</p>
-                        <p className="text-xs text-muted-foreground">{achievement.desc}</p>
-                      </div>
-                      {achievement.earned && (
-                        <Badge variant="secondary" className="ml-auto">
-                          Earned
-                        </Badge>
-                      )}
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
+          <Challenges profileId={profile?.id} />
         </TabsContent>
       </Tabs>
     </div>
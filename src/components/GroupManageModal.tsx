@@ -0,0 +1,350 @@
+import { useState, useEffect, useCallback } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Crown, Shield, UserMinus, Ban, Check, X, Link } from "lucide-react";
+import { toast } from "sonner";
+import {
+  ClubAuditEntry,
+  ClubBan,
+  ClubInvite,
+  ClubJoinRequest,
+  ClubMember,
+  ClubRole,
+  createClubInvite,
+  decideJoinRequest,
+  getClubAuditLog,
+  getClubBans,
+  getClubInvites,
+  getClubMembers,
+  getJoinRequests,
+  inviteLink,
+  removeClubMember,
+  revokeClubInvite,
+  setClubMemberRole,
+  transferClubOwnership,
+  unbanClubMember
+} from "@/lib/group-membership";
+
+interface GroupManageModalProps {
+  open: boolean;
+  onClose: () => void;
+  group: { id: string; name: string; color: string } | null;
+  profileId: string | null;
+  role: ClubRole | null;
+  onChanged: () => void;
+}
+
+const INVITE_DURATIONS = [
+  { hours: 24, label: "1 day" },
+  { hours: 72, label: "3 days" },
+  { hours: 168, label: "1 week" },
+  { hours: 720, label: "30 days" }
+];
+
+const AUDIT_LABELS: Record<string, string> = {
+  created: "created the club",
+  joined: "joined",
+  joined_with_invite: "joined with an invite",
+  join_requested: "asked to join",
+  join_approved: "approved",
+  join_rejected: "declined",
+  left: "left",
+  invite_created: "created an invite",
+  invite_revoked: "revoked an invite",
+  role_changed: "changed the role of",
+  kicked: "removed",
+  banned: "banned",
+  unbanned: "unbanned",
+  ownership_transferred: "handed the club to",
+  rent_share_changed: "changed the rent share of"
+};
+
+export default function GroupManageModal({ open, onClose, group, profileId, role, onChanged }: GroupManageModalProps) {
+  const [members, setMembers] = useState<ClubMember[]>([]);
+  const [requests, setRequests] = useState<ClubJoinRequest[]>([]);
+  const [invites, setInvites] = useState<ClubInvite[]>([]);
+  const [bans, setBans] = useState<ClubBan[]>([]);
+  const [auditLog, setAuditLog] = useState<ClubAuditEntry[]>([]);
+  const [inviteHours, setInviteHours] = useState("72");
+  const [inviteMaxUses, setInviteMaxUses] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const isOwner = role === "owner";
+
+  const load = useCallback(async () => {
+    if (!group) return;
+
+    const [nextMembers, nextRequests, nextInvites, nextBans, nextLog] = await Promise.all([
+      getClubMembers(group.id),
+      getJoinRequests(group.id),
+      getClubInvites(group.id),
+      getClubBans(group.id),
+      getClubAuditLog(group.id)
+    ]);
+    setMembers(nextMembers);
+    setRequests(nextRequests);
+    setInvites(nextInvites);
+    setBans(nextBans);
+    setAuditLog(nextLog);
+  }, [group]);
+
+  useEffect(() => {
+    if (open) load();
+  }, [open, load]);
+
+  // Run a moderation action, then refresh the modal and the club list
+  const run = async (action: () => Promise<{ success: boolean; error?: string }>, message: string) => {
+    setBusy(true);
+    const result = await action();
+    setBusy(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Something went wrong");
+      return;
+    }
+    toast.success(message);
+    await load();
+    onChanged();
+  };
+
+  if (!group || !profileId) return null;
+
+  const canRemove = (member: ClubMember) =>
+    member.profileId !== profileId && member.role !== "owner" && (isOwner || member.role === "member");
+
+  const removeMember = (member: ClubMember, ban: boolean) => {
+    if (!confirm(`${ban ? "Ban" : "Remove"} ${member.username} from ${group.name}?`)) return;
+    const reason = ban ? prompt("Reason (optional)") || undefined : undefined;
+
+    run(
+      () => removeClubMember(profileId, group.id, member.profileId, ban, reason),
+      `${member.username} ${ban ? "banned" : "removed"}`
+    );
+  };
+
+  const transferOwnership = (member: ClubMember) => {
+    if (!confirm(`Hand ${group.name} to ${member.username}? You will stay on as an admin.`)) return;
+    run(() => transferClubOwnership(profileId, group.id, member.profileId), `${member.username} now owns the club`);
+  };
+
+  const createInvite = () => {
+    const maxUses = parseInt(inviteMaxUses);
+    run(
+      () => createClubInvite(profileId, group.id, Number(inviteHours), maxUses > 0 ? maxUses : undefined),
+      "Invite created"
+    );
+  };
+
+  const copyInvite = async (invite: ClubInvite) => {
+    await navigator.clipboard.writeText(inviteLink(invite.code));
+    toast.success("Invite link copied");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <span className="h-3 w-3 rounded-full" style={{ backgroundColor: group.color }} />
+            Manage {group.name}
+          </DialogTitle>
+          <DialogDescription>
+            Admins handle requests, invites and members. Only the owner can change roles or hand the club over.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="members">
+          <TabsList className="grid w-full grid-cols-4 mb-4">
+            <TabsTrigger value="members">Members</TabsTrigger>
+            <TabsTrigger value="requests">
+              Requests{requests.length > 0 && ` (${requests.length})`}
+            </TabsTrigger>
+            <TabsTrigger value="invites">Invites</TabsTrigger>
+            <TabsTrigger value="activity">Activity</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="members" className="space-y-2">
+            {members.map(member => (
+              <div key={member.profileId} className="flex items-center gap-3 p-2 rounded-lg bg-muted/10">
+                <Avatar className="h-8 w-8">
+                  <AvatarImage src={member.avatarUrl || undefined} />
+                  <AvatarFallback>{member.username.slice(0, 2).toUpperCase()}</AvatarFallback>
+                </Avatar>
+                <span className="flex-1 truncate">{member.username}</span>
+                {member.role !== "member" && (
+                  <Badge variant={member.role === "owner" ? "default" : "secondary"} className="capitalize">
+                    {member.role}
+                  </Badge>
+                )}
+                {isOwner && member.role !== "owner" && (
+                  <>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      title={member.role === "admin" ? "Make member" : "Make admin"}
+                      disabled={busy}
+                      onClick={() => run(
+                        () => setClubMemberRole(profileId, group.id, member.profileId, member.role === "admin" ? "member" : "admin"),
+                        `${member.username} is now ${member.role === "admin" ? "a member" : "an admin"}`
+                      )}
+                    >
+                      <Shield className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" title="Make owner" disabled={busy} onClick={() => transferOwnership(member)}>
+                      <Crown className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+                {canRemove(member) && (
+                  <>
+                    <Button size="icon" variant="ghost" title="Remove" disabled={busy} onClick={() => removeMember(member, false)}>
+                      <UserMinus className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" title="Ban" disabled={busy} onClick={() => removeMember(member, true)}>
+                      <Ban className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))}
+
+            {bans.length > 0 && (
+              <div className="pt-4 space-y-2">
+                <h3 className="font-semibold text-sm">Banned</h3>
+                {bans.map(ban => (
+                  <div key={ban.profileId} className="flex items-center gap-3 p-2 rounded-lg bg-muted/10">
+                    <div className="flex-1 min-w-0">
+                      <p className="truncate">{ban.username}</p>
+                      {ban.reason && <p className="text-xs text-muted-foreground truncate">{ban.reason}</p>}
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={busy}
+                      onClick={() => run(() => unbanClubMember(profileId, group.id, ban.profileId), `${ban.username} unbanned`)}
+                    >
+                      Unban
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="requests" className="space-y-2">
+            {requests.length === 0 ? (
+              <p className="text-center text-sm text-muted-foreground py-6">No pending requests</p>
+            ) : requests.map(request => (
+              <div key={request.id} className="flex items-center gap-3 p-2 rounded-lg bg-muted/10">
+                <Avatar className="h-8 w-8">
+                  <AvatarImage src={request.avatarUrl || undefined} />
+                  <AvatarFallback>{request.username.slice(0, 2).toUpperCase()}</AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <p className="truncate">{request.username}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {request.message || new Date(request.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  title="Approve"
+                  disabled={busy}
+                  onClick={() => run(() => decideJoinRequest(profileId, request.id, true), `${request.username} joined the club`)}
+                >
+                  <Check className="h-4 w-4 text-green-500" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  title="Decline"
+                  disabled={busy}
+                  onClick={() => run(() => decideJoinRequest(profileId, request.id, false), "Request declined")}
+                >
+                  <X className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="invites" className="space-y-4">
+            <div className="flex gap-2">
+              <Select value={inviteHours} onValueChange={setInviteHours}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INVITE_DURATIONS.map(duration => (
+                    <SelectItem key={duration.hours} value={String(duration.hours)}>
+                      {duration.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min="1"
+                placeholder="Max uses"
+                value={inviteMaxUses}
+                onChange={(e) => setInviteMaxUses(e.target.value)}
+                className="w-28"
+              />
+              <Button variant="gradient" className="flex-1" disabled={busy} onClick={createInvite}>
+                <Link className="mr-2 h-4 w-4" />
+                Create invite
+              </Button>
+            </div>
+
+            {invites.map(invite => (
+              <div key={invite.id} className="flex items-center gap-3 p-2 rounded-lg bg-muted/10">
+                <div className="flex-1 min-w-0">
+                  <p className="font-mono">{invite.code}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Expires {new Date(invite.expires_at).toLocaleString()}
+                    {" · "}
+                    {invite.max_uses ? `${invite.uses}/${invite.max_uses} used` : `${invite.uses} used`}
+                  </p>
+                </div>
+                <Button size="icon" variant="ghost" title="Copy link" onClick={() => copyInvite(invite)}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  title="Revoke"
+                  disabled={busy}
+                  onClick={() => run(() => revokeClubInvite(profileId, invite.id), "Invite revoked")}
+                >
+                  <X className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="activity" className="space-y-2">
+            {auditLog.map(entry => (
+              <div key={entry.id} className="p-2 rounded-lg bg-muted/10 text-sm">
+                <p>
+                  <span className="font-medium">{entry.actor}</span>
+                  {" "}{AUDIT_LABELS[entry.action] || entry.action.replace(/_/g, " ")}
+                  {entry.target && <span className="font-medium"> {entry.target}</span>}
+                  {entry.action === "role_changed" && ` to ${entry.metadata.new_role}`}
+                  {typeof entry.metadata.reason === "string" && ` (${entry.metadata.reason})`}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {new Date(entry.createdAt).toLocaleString()}
+                </p>
+              </div>
+            ))}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Hexagon, Coins } from "lucide-react";
+import { toast } from "sonner";
+import { resolveProfileId } from "@/lib/offline-store";
+import {
+  ClubRentShare,
+  ClubZone,
+  getClubRentShares,
+  getMyZones,
+  assignZoneToClub,
+  setClubRentShare
+} from "@/lib/group-territory";
+
+interface GroupTerritoryModalProps {
+  open: boolean;
+  onClose: () => void;
+  group: { id: string; name: string; color: string } | null;
+  isOwner: boolean;
+}
+
+export default function GroupTerritoryModal({ open, onClose, group, isOwner }: GroupTerritoryModalProps) {
+  const [shares, setShares] = useState<ClubRentShare[]>([]);
+  const [zones, setZones] = useState<ClubZone[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open || !group) return;
+    let cancelled = false;
+    setLoading(true);
+
+    resolveProfileId().then(async (profileId) => {
+      const [nextShares, nextZones] = await Promise.all([
+        getClubRentShares(group.id),
+        profileId ? getMyZones(profileId) : Promise.resolve([])
+      ]);
+      if (cancelled) return;
+      setShares(nextShares);
+      setZones(nextZones);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, group]);
+
+  const toggleZone = async (zone: ClubZone, pooled: boolean) => {
+    if (!group) return;
+
+    const result = await assignZoneToClub(zone.id, pooled ? group.id : null);
+    if (!result.success) {
+      toast.error(result.error || "Failed to update zone");
+      return;
+    }
+
+    toast.success(pooled ? `"${zone.name}" now belongs to ${group.name}` : `"${zone.name}" left ${group.name}`);
+    setZones(current => current.map(z => z.id === zone.id ? { ...z, groupId: pooled ? group.id : null } : z));
+  };
+
+  const saveShare = async (member: ClubRentShare, value: string) => {
+    if (!group) return;
+
+    const share = Number(value);
+    if (!Number.isFinite(share) || share < 0 || share > 100 || share === member.rent_share) return;
+
+    const result = await setClubRentShare(group.id, member.profile_id, share);
+    if (!result.success) {
+      toast.error(result.error || "Failed to update rent share");
+      return;
+    }
+    setShares(await getClubRentShares(group.id));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <span className="h-3 w-3 rounded-full" style={{ backgroundColor: group?.color }} />
+            {group?.name} territory
+          </DialogTitle>
+          <DialogDescription>
+            Club zones are drawn in the club colour. Members with a share, or a week in the club, run through them rent free, and rent from everyone else is split by share.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-center text-muted-foreground py-8">Loading...</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <h3 className="flex items-center gap-2 font-semibold">
+                <Coins className="h-4 w-4 text-accent" />
+                Rent shares
+              </h3>
+              {shares.map(member => (
+                <div key={member.profile_id} className="flex items-center gap-3 p-2 rounded-lg bg-muted/10">
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={member.avatar_url || undefined} />
+                    <AvatarFallback>{(member.username || "R").slice(0, 2).toUpperCase()}</AvatarFallback>
+                  </Avatar>
+                  <span className="flex-1 truncate">{member.username}</span>
+                  {isOwner && (
+                    <Input
+                      type="number"
+                      min="0"
+                      max="100"
+                      defaultValue={member.rent_share}
+                      onBlur={(e) => saveShare(member, e.target.value)}
+                      className="w-20 h-8"
+                    />
+                  )}
+                  <span className="w-12 text-right text-sm text-muted-foreground">
+                    {Math.round(member.share_fraction * 100)}%
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="flex items-center gap-2 font-semibold">
+                <Hexagon className="h-4 w-4 text-primary" />
+                Your zones
+              </h3>
+              {zones.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Capture a zone to add it to the club.</p>
+              ) : zones.map(zone => (
+                <div key={zone.id} className="flex items-center gap-3 p-2 rounded-lg bg-muted/10">
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate font-medium">{zone.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {Math.round(zone.area).toLocaleString()} m²
+                      {zone.groupId && zone.groupId !== group?.id && " · in another club"}
+                    </p>
+                  </div>
+                  <Switch
+                    checked={zone.groupId === group?.id}
+                    onCheckedChange={(pooled) => toggleZone(zone, pooled)}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,14 +1,27 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Users, Plus, Search, Globe, MapPin, Trophy, Calendar, Target, TrendingUp } from "lucide-react";
+import { Users, Plus, Search, Globe, MapPin, Trophy, Calendar, Target, TrendingUp, Hexagon, Lock, Settings, LogOut, Clock } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
 import { toast } from "sonner";
 import CreateGroupModal from "./CreateGroupModal";
+import GroupTerritoryModal from "./GroupTerritoryModal";
+import GroupManageModal from "./GroupManageModal";
 import { getCurrentUserInfo } from "@/lib/zklogin";
+import { resolveProfileId } from "@/lib/offline-store";
+import {
+  ClubRole,
+  canManageClub,
+  getMyPendingClubs,
+  joinClub,
+  joinClubWithInvite,
+  leaveClub,
+  takePendingInvite
+} from "@/lib/group-membership";
 
 interface GroupsManagerProps {
   userId?: string;
@@ -21,12 +34,13 @@ export default function GroupsManager({ userId }: GroupsManagerProps) {
   const [loading, setLoading] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [activeTab, setActiveTab] = useState("all");
+  const [territoryGroup, setTerritoryGroup] = useState<Tables<"groups"> | null>(null);
+  const [manageGroup, setManageGroup] = useState<Tables<"groups"> | null>(null);
+  const [myRoles, setMyRoles] = useState<Record<string, ClubRole>>({});
+  const [pendingGroups, setPendingGroups] = useState<string[]>([]);
+  const [profileId, setProfileId] = useState<string | null>(null);
 
-  useEffect(() => {
-    loadGroups();
-  }, [userId]);
-
-  const loadGroups = async () => {
+  const loadGroups = useCallback(async () => {
     setLoading(true);
     try {
       const { data } = await supabase
@@ -43,88 +57,104 @@ export default function GroupsManager({ userId }: GroupsManagerProps) {
         if (userInfo?.email) {
           const { data: memberData } = await supabase
             .from("group_members")
-            .select("group_id")
+            .select("group_id, role")
             .eq("user_email", userInfo.email);
           
           if (memberData) {
             setMyGroups(memberData.map(m => m.group_id));
+            setMyRoles(Object.fromEntries(memberData.map(m => [m.group_id, m.role as ClubRole])));
           }
         }
+
+        const currentProfileId = await resolveProfileId();
+        setProfileId(currentProfileId);
+        if (currentProfileId) {
+          setPendingGroups(await getMyPendingClubs(currentProfileId));
+        }
       }
     } catch (error) {
       console.error("Error loading groups:", error);
     } finally {
       setLoading(false);
     }
-  };
+  }, [userId]);
 
   const joinGroup = async (groupId: string) => {
-    if (!userId) {
+    const currentProfileId = await resolveProfileId();
+    if (!userId || !currentProfileId) {
       toast.error("Please login to join groups");
       return;
     }
 
-    try {
-      // Get user's profile ID
-      const { data: profile } = await supabase
-        .from("profiles")
-        .select("id")
-        .eq("user_id", userId)
-        .single();
+    const result = await joinClub(currentProfileId, groupId);
+    if (!result.success) {
+      toast.error(result.error || "Failed to join group");
+      return;
+    }
 
-      if (!profile) {
-        throw new Error("Profile not found");
-      }
+    if (result.status === "requested") {
+      toast.success("Join request sent. An admin will review it.");
+    } else {
+      toast.success("Joined group successfully!");
+    }
+    loadGroups();
+  };
 
-      const { error } = await supabase
-        .from("group_members")
-        .insert({ group_id: groupId, user_id: profile.id });
+  const joinWithInvite = useCallback(async (code: string) => {
+    const currentProfileId = await resolveProfileId();
+    if (!currentProfileId) {
+      toast.error("Please login to join groups");
+      return;
+    }
 
-      if (error) throw error;
+    const result = await joinClubWithInvite(currentProfileId, code);
+    if (!result.success) {
+      toast.error(result.error || "Invalid invite code");
+      return;
+    }
 
-      // Member count will be handled by database triggers or computed from group_members
+    toast.success("Joined group successfully!");
+    setActiveTab("my-groups");
+    loadGroups();
+  }, [loadGroups]);
 
-      toast.success("Joined group successfully!");
-      setMyGroups([...myGroups, groupId]);
-      loadGroups();
-    } catch (error: any) {
-      toast.error(error.message || "Failed to join group");
-    }
-  };
+  useEffect(() => {
+    loadGroups();
+
+    // Opened from an invite link
+    const code = userId ? takePendingInvite() : null;
+    if (code) joinWithInvite(code);
+  }, [userId, loadGroups, joinWithInvite]);
 
   const joinWithCode = async () => {
-    const code = prompt("Enter group join code:");
+    const code = prompt("Enter invite code:");
     if (!code) return;
+    await joinWithInvite(code);
+  };
 
-    try {
-      const { data: groups, error } = await supabase
-        .from("groups")
-        .select("id")
-        .eq("name", code); // Use name for now as join_code doesn't exist
-      
-      const group = groups?.[0];
+  const leaveGroup = async (group: Tables<"groups">) => {
+    if (!profileId || !confirm(`Leave ${group.name}?`)) return;
 
-      if (group) {
-        await joinGroup(group.id);
-      } else {
-        toast.error("Invalid join code");
-      }
-    } catch (error) {
-      toast.error("Invalid join code");
+    const result = await leaveClub(profileId, group.id);
+    if (!result.success) {
+      toast.error(result.error || "Failed to leave group");
+      return;
     }
+    toast.success(`You left ${group.name}`);
+    loadGroups();
   };
 
   const filteredGroups = groups.filter(group => {
     const matchesSearch = 
       group.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      group.city.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      group.country.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      group.city?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      group.country?.toLowerCase().includes(searchTerm.toLowerCase()) ||
       group.running_area?.toLowerCase().includes(searchTerm.toLowerCase());
 
     if (activeTab === "my-groups") {
       return matchesSearch && myGroups.includes(group.id);
     } else if (activeTab === "community") {
-      return matchesSearch && group.is_public;
+      return matchesSearch && !group.is_private;
     }
     return matchesSearch;
   });
@@ -144,7 +174,7 @@ export default function GroupsManager({ userId }: GroupsManagerProps) {
                 size="sm"
                 onClick={joinWithCode}
               >
-                Join with Code
+                Join with Invite
               </Button>
               <Button 
                 variant="gradient" 
@@ -182,10 +212,12 @@ export default function GroupsManager({ userId }: GroupsManagerProps) {
                     <div className="flex items-start justify-between">
                       <div className="flex-1">
                         <div className="flex items-center gap-2 mb-2">
+                          <span className="h-3 w-3 rounded-full" style={{ backgroundColor: group.color }} />
                           <h3 className="font-semibold text-lg">{group.name}</h3>
-                          {group.join_code && (
-                            <Badge variant="outline" className="font-mono text-xs">
-                              {group.join_code}
+                          {group.is_private && (
+                            <Badge variant="outline" className="text-xs">
+                              <Lock className="mr-1 h-3 w-3" />
+                              Private
                             </Badge>
                           )}
                         </div>
@@ -217,9 +249,32 @@ export default function GroupsManager({ userId }: GroupsManagerProps) {
                       </div>
                       <div className="ml-4">
                         {myGroups.includes(group.id) ? (
-                          <Badge variant="secondary">
-                            <Users className="mr-1 h-3 w-3" />
-                            Joined
+                          <div className="flex flex-col items-end gap-2">
+                            <Badge variant="secondary" className="capitalize">
+                              <Users className="mr-1 h-3 w-3" />
+                              {myRoles[group.id] === "member" ? "Joined" : myRoles[group.id]}
+                            </Badge>
+                            <Button size="sm" variant="outline" onClick={() => setTerritoryGroup(group)}>
+                              <Hexagon className="mr-1 h-3 w-3" />
+                              Territory
+                            </Button>
+                            {canManageClub(myRoles[group.id]) && (
+                              <Button size="sm" variant="outline" onClick={() => setManageGroup(group)}>
+                                <Settings className="mr-1 h-3 w-3" />
+                                Manage
+                              </Button>
+                            )}
+                            {myRoles[group.id] !== "owner" && (
+                              <Button size="sm" variant="ghost" onClick={() => leaveGroup(group)}>
+                                <LogOut className="mr-1 h-3 w-3" />
+                                Leave
+                              </Button>
+                            )}
+                          </div>
+                        ) : pendingGroups.includes(group.id) ? (
+                          <Badge variant="outline">
+                            <Clock className="mr-1 h-3 w-3" />
+                            Requested
                           </Badge>
                         ) : (
                           <Button
@@ -228,8 +283,8 @@ export default function GroupsManager({ userId }: GroupsManagerProps) {
                             onClick={() => joinGroup(group.id)}
                             disabled={group.current_members >= group.max_members}
                           >
-                            <Plus className="mr-1 h-3 w-3" />
-                            Join
+                            {group.is_private ? <Lock className="mr-1 h-3 w-3" /> : <Plus className="mr-1 h-3 w-3" />}
+                            {group.is_private ? "Ask to Join" : "Join"}
                           </Button>
                         )}
                       </div>
@@ -269,6 +324,22 @@ export default function GroupsManager({ userId }: GroupsManagerProps) {
         userId={userId}
         onGroupCreated={loadGroups}
       />
+
+      <GroupTerritoryModal
+        open={!!territoryGroup}
+        onClose={() => setTerritoryGroup(null)}
+        group={territoryGroup}
+        isOwner={!!territoryGroup && myRoles[territoryGroup.id] === "owner"}
+      />
+
+      <GroupManageModal
+        open={!!manageGroup}
+        onClose={() => setManageGroup(null)}
+        group={manageGroup}
+        profileId={profileId}
+        role={manageGroup ? myRoles[manageGroup.id] ?? null : null}
+        onChanged={loadGroups}
+      />
     </>
   );
 }
\ No newline at end of file
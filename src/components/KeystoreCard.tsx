@@ -0,0 +1,261 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Lock, Unlock, KeyRound, Download, Upload, Eye, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import { SUI_NETWORK } from "@/lib/auto-wallet";
+import {
+  KeystoreInfo,
+  KEYSTORE_CONFIG,
+  getKeystoreInfo,
+  unlockKeystore,
+  lockKeystore,
+  setKeystoreProtection,
+  revealRecoveryPhrase,
+  createKeystoreBackup,
+  restoreKeystore,
+  subscribeKeystore
+} from "@/lib/keystore";
+
+type KeystoreAction = "unlock" | "set-passphrase" | "use-device" | "reveal" | "backup" | "restore";
+
+const ACTION_TITLES: Record<KeystoreAction, string> = {
+  "unlock": "Unlock Wallet",
+  "set-passphrase": "Protect With Passphrase",
+  "use-device": "Use Device Key",
+  "reveal": "Recovery Phrase",
+  "backup": "Encrypted Backup",
+  "restore": "Restore Wallet"
+};
+
+interface KeystoreCardProps {
+  userId: string;
+  onWalletChange?: (address: string) => void;
+}
+
+const KeystoreCard = ({ userId, onWalletChange }: KeystoreCardProps) => {
+  const [info, setInfo] = useState<KeystoreInfo | null>(null);
+  const [action, setAction] = useState<KeystoreAction | null>(null);
+  const [passphrase, setPassphrase] = useState("");
+  const [newPassphrase, setNewPassphrase] = useState("");
+  const [restoreInput, setRestoreInput] = useState("");
+  const [phrase, setPhrase] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const refresh = () => getKeystoreInfo(userId).then(setInfo);
+    refresh();
+    return subscribeKeystore((changedUserId) => {
+      if (changedUserId === userId) refresh();
+    });
+  }, [userId]);
+
+  const openAction = (next: KeystoreAction) => {
+    setPassphrase("");
+    setNewPassphrase("");
+    setRestoreInput("");
+    setPhrase(null);
+    setAction(next);
+  };
+
+  const needsPassphrase = info?.protection === "passphrase";
+
+  const handleSubmit = async () => {
+    if (!action) return;
+    setBusy(true);
+
+    try {
+      const current = needsPassphrase ? passphrase : undefined;
+
+      if (action === "unlock") {
+        const result = await unlockKeystore(userId, passphrase);
+        if (!result.success) throw new Error(result.error);
+        toast.success("Wallet unlocked");
+      } else if (action === "set-passphrase") {
+        const result = await setKeystoreProtection(userId, "passphrase", current, newPassphrase);
+        if (!result.success) throw new Error(result.error);
+        toast.success("Wallet is now protected by your passphrase");
+      } else if (action === "use-device") {
+        const result = await setKeystoreProtection(userId, "device", current);
+        if (!result.success) throw new Error(result.error);
+        toast.success("Wallet now unlocks automatically on this device");
+      } else if (action === "reveal") {
+        const result = await revealRecoveryPhrase(userId, current);
+        if (!result.success || !result.phrase) throw new Error(result.error);
+        setPhrase(result.phrase);
+        return;
+      } else if (action === "backup") {
+        const result = await createKeystoreBackup(userId, newPassphrase, current);
+        if (!result.success || !result.backup) throw new Error(result.error);
+        const url = URL.createObjectURL(new Blob([result.backup], { type: "application/json" }));
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = `strun-wallet-${info?.address.slice(0, 8)}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+        toast.success("Encrypted backup downloaded");
+      } else if (action === "restore") {
+        const input = restoreInput.trim();
+        const source = input.startsWith("{")
+          ? { backup: input, backupPassphrase: passphrase }
+          : { phrase: input, network: SUI_NETWORK };
+        const result = await restoreKeystore(userId, source, newPassphrase ? "passphrase" : "device", newPassphrase || undefined);
+        if (!result.success || !result.address) throw new Error(result.error);
+        onWalletChange?.(result.address);
+        toast.success("Wallet restored");
+      }
+
+      setAction(null);
+      setInfo(await getKeystoreInfo(userId));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Keystore operation failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestoreFile = async (file?: File) => {
+    if (file) setRestoreInput(await file.text());
+  };
+
+  const isRestoringBackup = restoreInput.trim().startsWith("{");
+
+  return (
+    <>
+      <Card className="p-4 bg-card/50 border-white/10 backdrop-blur-sm space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            {info?.unlocked ? <Unlock className="w-5 h-5 text-accent" /> : <Lock className="w-5 h-5 text-muted-foreground" />}
+            <div>
+              <p className="font-semibold text-foreground">Wallet Keystore</p>
+              <p className="text-xs text-muted-foreground">
+                {!info
+                  ? "No wallet key on this device"
+                  : `${info.unlocked ? "Unlocked" : "Locked"} · ${info.protection === "passphrase" ? "Passphrase" : "Device key"}`}
+              </p>
+            </div>
+          </div>
+          {info && (info.unlocked ? (
+            <Button size="sm" variant="outline" onClick={() => lockKeystore(userId)}>
+              <Lock className="w-4 h-4 mr-1" /> Lock
+            </Button>
+          ) : (
+            <Button size="sm" variant="gradient" onClick={() => openAction("unlock")}>
+              <Unlock className="w-4 h-4 mr-1" /> Unlock
+            </Button>
+          ))}
+        </div>
+
+        {info?.unlocked && (
+          <>
+            <p className="text-xs text-muted-foreground">
+              Locks automatically after {KEYSTORE_CONFIG.SESSION_TIMEOUT_MS / 60000} minutes without use.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              {info.protection === "device" ? (
+                <Button size="sm" variant="outline" onClick={() => openAction("set-passphrase")}>
+                  <KeyRound className="w-4 h-4 mr-1" /> Set Passphrase
+                </Button>
+              ) : (
+                <Button size="sm" variant="outline" onClick={() => openAction("use-device")}>
+                  <ShieldCheck className="w-4 h-4 mr-1" /> Use Device Key
+                </Button>
+              )}
+              <Button size="sm" variant="outline" onClick={() => openAction("reveal")} disabled={info.secretType !== "mnemonic"}>
+                <Eye className="w-4 h-4 mr-1" /> Recovery Phrase
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => openAction("backup")}>
+                <Download className="w-4 h-4 mr-1" /> Backup
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => openAction("restore")}>
+                <Upload className="w-4 h-4 mr-1" /> Restore
+              </Button>
+            </div>
+          </>
+        )}
+
+        {!info && (
+          <Button size="sm" variant="outline" className="w-full" onClick={() => openAction("restore")}>
+            <Upload className="w-4 h-4 mr-1" /> Restore From Backup
+          </Button>
+        )}
+      </Card>
+
+      <Dialog open={action !== null} onOpenChange={(open) => !open && setAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{action && ACTION_TITLES[action]}</DialogTitle>
+            <DialogDescription>
+              {action === "unlock" && "Enter your wallet passphrase to sign transactions."}
+              {action === "set-passphrase" && `Your key will be encrypted with this passphrase (at least ${KEYSTORE_CONFIG.MIN_PASSPHRASE_LENGTH} characters). It cannot be recovered if you forget it.`}
+              {action === "use-device" && "Your key will be encrypted with a key that never leaves this device, and unlock without a passphrase."}
+              {action === "reveal" && "Anyone with these words controls your wallet. Write them down and keep them offline."}
+              {action === "backup" && "The backup file is encrypted with its own passphrase. You need both to restore the wallet."}
+              {action === "restore" && "Paste a recovery phrase or load a backup file. This replaces the wallet key on this device."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {phrase ? (
+            <div className="grid grid-cols-3 gap-2 font-mono text-sm">
+              {phrase.split(" ").map((word, index) => (
+                <div key={index} className="p-2 rounded bg-muted">
+                  <span className="text-muted-foreground mr-1">{index + 1}.</span>{word}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {action === "restore" && (
+                <>
+                  <Textarea
+                    placeholder="Recovery phrase or backup file contents"
+                    value={restoreInput}
+                    onChange={(e) => setRestoreInput(e.target.value)}
+                    rows={4}
+                  />
+                  <Input type="file" accept="application/json,.json" onChange={(e) => handleRestoreFile(e.target.files?.[0])} />
+                </>
+              )}
+              {(action === "unlock" || (action !== "restore" && needsPassphrase) || (action === "restore" && isRestoringBackup)) && (
+                <Input
+                  type="password"
+                  placeholder={action === "restore" ? "Backup passphrase" : "Wallet passphrase"}
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && action === "unlock" && handleSubmit()}
+                />
+              )}
+              {(action === "set-passphrase" || action === "backup" || action === "restore") && (
+                <Input
+                  type="password"
+                  placeholder={
+                    action === "backup" ? "New backup passphrase"
+                      : action === "restore" ? "Wallet passphrase (optional, leave empty to use a device key)"
+                      : "New wallet passphrase"
+                  }
+                  value={newPassphrase}
+                  onChange={(e) => setNewPassphrase(e.target.value)}
+                />
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            {phrase ? (
+              <Button onClick={() => setAction(null)}>Done</Button>
+            ) : (
+              <Button variant="gradient" onClick={handleSubmit} disabled={busy}>
+                {busy ? "Working..." : action && ACTION_TITLES[action]}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default KeystoreCard;
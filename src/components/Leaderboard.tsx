@@ -0,0 +1,221 @@
+import { useState, useEffect, useRef } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BarChart3, ArrowUp, ArrowDown, Minus, EyeOff, LocateFixed } from "lucide-react";
+import {
+  LeaderboardCategory,
+  LeaderboardPeriod,
+  LeaderboardPage,
+  LeaderboardRow,
+  getLeaderboard,
+  getLeaderboardCountries,
+  rankMovement,
+  formatLeaderboardValue
+} from "@/lib/leaderboard";
+import { ClubStanding, getClubStandings } from "@/lib/group-territory";
+
+// Clubs are ranked by the land they hold now, so they have no periods or countries
+type BoardCategory = LeaderboardCategory | "clubs";
+
+const CATEGORIES: { value: BoardCategory; label: string }[] = [
+  { value: "distance", label: "Distance" },
+  { value: "area", label: "Area" },
+  { value: "xp", label: "XP" },
+  { value: "zones", label: "Zones" },
+  { value: "clubs", label: "Clubs" }
+];
+
+const ALL_COUNTRIES = "all";
+
+function RankMovement({ row }: { row: LeaderboardRow }) {
+  const movement = rankMovement(row);
+
+  if (movement > 0) {
+    return (
+      <span className="flex items-center text-xs text-green-500">
+        <ArrowUp className="h-3 w-3" />
+        {movement}
+      </span>
+    );
+  }
+  if (movement < 0) {
+    return (
+      <span className="flex items-center text-xs text-red-500">
+        <ArrowDown className="h-3 w-3" />
+        {-movement}
+      </span>
+    );
+  }
+  return <Minus className="h-3 w-3 text-muted-foreground" />;
+}
+
+export default function Leaderboard() {
+  const [category, setCategory] = useState<BoardCategory>("distance");
+  const [period, setPeriod] = useState<LeaderboardPeriod>("weekly");
+  const [country, setCountry] = useState(ALL_COUNTRIES);
+  const [countries, setCountries] = useState<string[]>([]);
+  const [board, setBoard] = useState<LeaderboardPage>({ rows: [], me: null });
+  const [clubs, setClubs] = useState<ClubStanding[]>([]);
+  const [loading, setLoading] = useState(true);
+  const meRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    if (category === "clubs") {
+      getClubStandings().then(next => {
+        if (cancelled) return;
+        setClubs(next);
+        setLoading(false);
+      });
+    } else {
+      getLeaderboard(category, period, country === ALL_COUNTRIES ? undefined : country).then(next => {
+        if (cancelled) return;
+        setBoard(next);
+        setLoading(false);
+      });
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [category, period, country]);
+
+  useEffect(() => {
+    if (category === "clubs") return;
+    getLeaderboardCountries(category, period).then(setCountries);
+  }, [category, period]);
+
+  const isClubs = category === "clubs";
+  const meOnPage = !isClubs && board.me && board.rows.some(row => row.id === board.me?.id);
+
+  const renderRow = (row: LeaderboardRow, pinned = false) => (
+    <div
+      key={pinned ? "me" : row.id}
+      ref={row.is_me && !pinned ? meRef : undefined}
+      className={`flex items-center gap-3 p-3 rounded-lg ${
+        row.is_me ? "bg-accent/10 border border-accent/30" : "bg-muted/10"
+      }`}
+    >
+      <span className="w-8 text-center font-bold">{row.rank}</span>
+      <div className="w-6 flex justify-center">
+        <RankMovement row={row} />
+      </div>
+      <Avatar className="h-8 w-8">
+        {!row.is_anonymous && <AvatarImage src={row.avatar_url || undefined} />}
+        <AvatarFallback>
+          {row.is_anonymous ? <EyeOff className="h-4 w-4" /> : (row.username || "R").slice(0, 2).toUpperCase()}
+        </AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0">
+        <p className={`truncate ${row.is_anonymous ? "text-muted-foreground italic" : "font-medium"}`}>
+          {row.is_me ? "You" : row.is_anonymous ? "Anonymous runner" : row.username}
+        </p>
+        {row.country && <p className="text-xs text-muted-foreground">{row.country}</p>}
+      </div>
+      <span className="font-semibold text-sm">{formatLeaderboardValue(category as LeaderboardCategory, row.value)}</span>
+    </div>
+  );
+
+  const renderClub = (club: ClubStanding) => (
+    <div key={club.id} className="flex items-center gap-3 p-3 rounded-lg bg-muted/10">
+      <span className="w-8 text-center font-bold">{club.rank}</span>
+      <span className="h-4 w-4 rounded-full shrink-0" style={{ backgroundColor: club.color || undefined }} />
+      <div className="flex-1 min-w-0">
+        <p className="truncate font-medium">{club.name}</p>
+        <p className="text-xs text-muted-foreground">
+          {club.zones} {club.zones === 1 ? "zone" : "zones"} · {club.members} members · {club.weekly_rent} XP rent this week
+        </p>
+      </div>
+      <span className="font-semibold text-sm">{formatLeaderboardValue("area", club.area)}</span>
+    </div>
+  );
+
+  return (
+    <Card className="glass-card backdrop-blur-xl">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5 text-accent" />
+            Leaderboards
+          </CardTitle>
+          {meOnPage && (
+            <Button variant="ghost" size="sm" onClick={() => meRef.current?.scrollIntoView({ behavior: "smooth", block: "center" })}>
+              <LocateFixed className="mr-1 h-4 w-4" />
+              Me
+            </Button>
+          )}
+        </div>
+        <CardDescription>Updated after every run</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isClubs && (
+          <Tabs value={period} onValueChange={(value) => setPeriod(value as LeaderboardPeriod)}>
+            <TabsList className="grid w-full grid-cols-4">
+              <TabsTrigger value="daily">Today</TabsTrigger>
+              <TabsTrigger value="weekly">Week</TabsTrigger>
+              <TabsTrigger value="monthly">Month</TabsTrigger>
+              <TabsTrigger value="all_time">All time</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        )}
+
+        <div className="flex gap-2">
+          <div className="grid grid-cols-5 gap-1 flex-1">
+            {CATEGORIES.map(option => (
+              <Button
+                key={option.value}
+                size="sm"
+                variant={category === option.value ? "default" : "outline"}
+                onClick={() => setCategory(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+          {!isClubs && (
+            <Select value={country} onValueChange={setCountry}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_COUNTRIES}>Global</SelectItem>
+                {countries.map(code => (
+                  <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {loading ? (
+          <p className="text-center text-muted-foreground py-8">Loading leaderboard...</p>
+        ) : isClubs ? (
+          clubs.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No club holds any zones yet. Pool yours from the Groups tab!</p>
+          ) : (
+            <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+              {clubs.map(renderClub)}
+            </div>
+          )
+        ) : board.rows.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No one is on this board yet. Go for a run!</p>
+        ) : (
+          <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+            {board.rows.map(row => renderRow(row))}
+          </div>
+        )}
+
+        {!loading && !isClubs && board.me && !meOnPage && (
+          <div className="pt-2 border-t border-border/30">
+            {renderRow(board.me, true)}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
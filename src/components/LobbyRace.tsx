@@ -0,0 +1,297 @@
+import { useState, useEffect, useRef } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Flag, Users, Copy, Play, LogOut, Trophy, Zap, Timer } from "lucide-react";
+import { toast } from "sonner";
+import {
+  LobbyState,
+  createLobby,
+  joinLobby,
+  leaveLobby,
+  startLobby,
+  finishLobby,
+  getActiveLobby,
+  getLobbyState,
+  subscribeToLobby,
+  describeLobbyTarget
+} from "@/lib/lobby-race";
+
+interface LobbyRaceProps {
+  profileId?: string;
+  onRaceStart?: () => void;
+}
+
+export default function LobbyRace({ profileId, onRaceStart }: LobbyRaceProps) {
+  const [lobbyId, setLobbyId] = useState<string | null>(null);
+  const [state, setState] = useState<LobbyState | null>(null);
+  const [name, setName] = useState("");
+  const [targetType, setTargetType] = useState<"distance" | "area">("distance");
+  const [targetValue, setTargetValue] = useState(5);
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const onRaceStartRef = useRef(onRaceStart);
+  onRaceStartRef.current = onRaceStart;
+
+  // Pick up a lobby the runner is already in
+  useEffect(() => {
+    if (!profileId) return;
+    getActiveLobby(profileId).then(lobby => {
+      if (lobby) setLobbyId(lobby.id);
+    });
+  }, [profileId]);
+
+  useEffect(() => {
+    if (!lobbyId) {
+      setState(null);
+      return;
+    }
+
+    let previousStatus: string | null = null;
+    const refresh = async () => {
+      const next = await getLobbyState(lobbyId);
+      if (!next) return;
+
+      if (previousStatus === "waiting" && next.lobby.status === "running") {
+        toast.success("The race has started!", {
+          action: { label: "Run", onClick: () => onRaceStartRef.current?.() }
+        });
+      }
+      previousStatus = next.lobby.status;
+      setState(next);
+    };
+
+    refresh();
+    return subscribeToLobby(lobbyId, refresh);
+  }, [lobbyId]);
+
+  const run = async (action: () => Promise<{ success: boolean; error?: string }>, message?: string) => {
+    setBusy(true);
+    const result = await action();
+    setBusy(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Something went wrong");
+      return false;
+    }
+    if (message) toast.success(message);
+    return true;
+  };
+
+  const handleCreate = async () => {
+    if (!profileId || targetValue <= 0) return;
+
+    const target = targetType === "distance" ? { distance: targetValue * 1000 } : { area: targetValue };
+    setBusy(true);
+    const result = await createLobby(profileId, name, target);
+    setBusy(false);
+
+    if (!result.success || !result.lobby) {
+      toast.error(result.error || "Failed to create lobby");
+      return;
+    }
+    setLobbyId(result.lobby.id);
+    toast.success(`Lobby created. Share code ${result.lobby.code}`);
+  };
+
+  const handleJoin = async () => {
+    if (!profileId || !code.trim()) return;
+
+    setBusy(true);
+    const result = await joinLobby(profileId, code);
+    setBusy(false);
+
+    if (!result.success || !result.lobbyId) {
+      toast.error(result.error || "Failed to join lobby");
+      return;
+    }
+    setLobbyId(result.lobbyId);
+    setCode("");
+  };
+
+  const copyCode = () => {
+    if (!state) return;
+    navigator.clipboard.writeText(state.lobby.code);
+    toast.success("Lobby code copied!");
+  };
+
+  if (!profileId) {
+    return (
+      <Card className="glass-card backdrop-blur-xl">
+        <CardContent className="p-6 text-center text-muted-foreground">
+          Sign in to race with friends.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!state) {
+    return (
+      <Card className="glass-card backdrop-blur-xl">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Flag className="h-5 w-5 text-accent" />
+            Private Race
+          </CardTitle>
+          <CardDescription>Race friends to a distance or to claim an area first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="join">
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="join">Join</TabsTrigger>
+              <TabsTrigger value="create">Create</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="join" className="space-y-3">
+              <Input
+                placeholder="Lobby code"
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                maxLength={6}
+                className="font-mono tracking-widest text-center"
+              />
+              <Button className="w-full" variant="gradient" onClick={handleJoin} disabled={busy || !code.trim()}>
+                <Users className="mr-2 h-4 w-4" />
+                Join Lobby
+              </Button>
+            </TabsContent>
+
+            <TabsContent value="create" className="space-y-3">
+              <Input placeholder="Lobby name" value={name} onChange={(e) => setName(e.target.value)} />
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  variant={targetType === "distance" ? "default" : "outline"}
+                  onClick={() => { setTargetType("distance"); setTargetValue(5); }}
+                >
+                  Distance
+                </Button>
+                <Button
+                  variant={targetType === "area" ? "default" : "outline"}
+                  onClick={() => { setTargetType("area"); setTargetValue(10000); }}
+                >
+                  Area
+                </Button>
+              </div>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={targetType === "distance" ? 0.5 : 100}
+                  step={targetType === "distance" ? 0.5 : 500}
+                  value={targetValue}
+                  onChange={(e) => setTargetValue(Number(e.target.value))}
+                />
+                <span className="text-sm text-muted-foreground w-10">{targetType === "distance" ? "km" : "m²"}</span>
+              </div>
+              <Button className="w-full" variant="gradient" onClick={handleCreate} disabled={busy || targetValue <= 0}>
+                <Flag className="mr-2 h-4 w-4" />
+                Create Lobby
+              </Button>
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { lobby, runners } = state;
+  const isHost = lobby.creator_id === profileId;
+
+  return (
+    <Card className="glass-card backdrop-blur-xl">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Flag className="h-5 w-5 text-accent" />
+            {lobby.name}
+          </CardTitle>
+          <Badge variant={lobby.status === "running" ? "default" : "outline"}>{lobby.status}</Badge>
+        </div>
+        <CardDescription>
+          First to {describeLobbyTarget(lobby)}
+          {lobby.start_time && ` · started ${new Date(lobby.start_time).toLocaleTimeString()}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {lobby.status === "waiting" && (
+          <button
+            className="w-full p-3 rounded-lg border border-dashed border-accent/50 flex items-center justify-center gap-2"
+            onClick={copyCode}
+          >
+            <span className="font-mono text-2xl tracking-widest">{lobby.code}</span>
+            <Copy className="h-4 w-4 text-muted-foreground" />
+          </button>
+        )}
+
+        <div className="space-y-3">
+          {runners.map((runner, index) => (
+            <div key={runner.id} className="space-y-1">
+              <div className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-2">
+                  <span className="w-5 text-muted-foreground">{runner.rank || index + 1}.</span>
+                  <span className={runner.user_id === profileId ? "font-semibold" : ""}>{runner.username}</span>
+                  {runner.user_id === lobby.creator_id && <Badge variant="outline" className="text-[10px]">host</Badge>}
+                </span>
+                <span className="flex items-center gap-2 text-muted-foreground">
+                  {runner.finished_at && <Timer className="h-3 w-3" />}
+                  {lobby.status === "finished" && runner.xp_awarded > 0 && (
+                    <span className="flex items-center gap-1 text-accent">
+                      <Zap className="h-3 w-3" />
+                      {runner.xp_awarded} XP
+                    </span>
+                  )}
+                  {lobby.target_distance
+                    ? `${((runner.distance_completed || 0) / 1000).toFixed(2)} km`
+                    : `${Math.round(runner.area_completed || 0)} m²`}
+                </span>
+              </div>
+              {lobby.status !== "waiting" && <Progress value={runner.progress * 100} />}
+            </div>
+          ))}
+        </div>
+
+        {lobby.status === "waiting" && (
+          <div className="grid grid-cols-2 gap-2">
+            <Button variant="outline" disabled={busy} onClick={async () => {
+              if (await run(() => leaveLobby(profileId, lobby.id))) setLobbyId(null);
+            }}>
+              <LogOut className="mr-2 h-4 w-4" />
+              Leave
+            </Button>
+            {isHost ? (
+              <Button variant="gradient" disabled={busy || runners.length < 2} onClick={() => run(() => startLobby(profileId, lobby.id))}>
+                <Play className="mr-2 h-4 w-4" />
+                Start Race
+              </Button>
+            ) : (
+              <p className="text-sm text-muted-foreground self-center text-center">Waiting for the host…</p>
+            )}
+          </div>
+        )}
+
+        {lobby.status === "running" && (
+          <div className="grid grid-cols-2 gap-2">
+            <Button variant="gradient" onClick={onRaceStart}>
+              <Play className="mr-2 h-4 w-4" />
+              Go Run
+            </Button>
+            {isHost && (
+              <Button variant="outline" disabled={busy} onClick={() => run(() => finishLobby(profileId, lobby.id), "Race ended")}>
+                <Trophy className="mr-2 h-4 w-4" />
+                End Race
+              </Button>
+            )}
+          </div>
+        )}
+
+        {(lobby.status === "finished" || lobby.status === "cancelled") && (
+          <Button variant="outline" className="w-full" onClick={() => setLobbyId(null)}>
+            {lobby.status === "finished" ? "New Race" : "Lobby cancelled. Back"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
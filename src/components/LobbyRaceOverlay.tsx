@@ -0,0 +1,115 @@
+import { useState, useEffect, useRef } from "react";
+import { Card } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Flag } from "lucide-react";
+import { toast } from "sonner";
+import { resolveProfileId } from "@/lib/offline-store";
+import {
+  LOBBY_CONFIG,
+  LobbyState,
+  getActiveLobby,
+  getLobbyState,
+  subscribeToLobby,
+  reportLobbyProgress,
+  describeLobbyTarget
+} from "@/lib/lobby-race";
+
+interface LobbyRaceOverlayProps {
+  isRunning: boolean;
+  distance: number; // meters in the current run
+  area: number; // m² of the largest loop closed in the current run
+}
+
+// Live standings of the private race the runner is in, shown over the run map
+export function LobbyRaceOverlay({ isRunning, distance, area }: LobbyRaceOverlayProps) {
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [state, setState] = useState<LobbyState | null>(null);
+
+  // Only distance covered after the race started counts; earlier runs in the race carry over
+  const latestRef = useRef({ distance, area });
+  latestRef.current = { distance, area };
+  const baselineRef = useRef<number | null>(null);
+  const carriedRef = useRef(0);
+  const reportedRef = useRef(0);
+
+  const lobbyId = state?.lobby.id;
+  const racing = state?.lobby.status === "running";
+
+  useEffect(() => {
+    if (!isRunning) return;
+
+    let cancelled = false;
+    resolveProfileId().then(async id => {
+      if (!id || cancelled) return;
+      setProfileId(id);
+      const lobby = await getActiveLobby(id);
+      if (!cancelled && lobby) setState(await getLobbyState(lobby.id));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isRunning]);
+
+  useEffect(() => {
+    if (!lobbyId) return;
+
+    return subscribeToLobby(lobbyId, async () => {
+      const next = await getLobbyState(lobbyId);
+      if (!next) return;
+      if (next.lobby.status === "finished") {
+        const me = next.runners.find(runner => runner.user_id === profileId);
+        toast.success(`Race over: you placed #${me?.rank ?? "?"}${me?.xp_awarded ? ` and earned ${me.xp_awarded} XP` : ""}`);
+      }
+      setState(next);
+    });
+  }, [lobbyId, profileId]);
+
+  // Push progress on a fixed interval while racing
+  useEffect(() => {
+    if (!racing || !isRunning || !profileId || !lobbyId) {
+      if (!isRunning && baselineRef.current !== null) {
+        carriedRef.current = reportedRef.current;
+        baselineRef.current = null;
+      }
+      return;
+    }
+
+    if (baselineRef.current === null) baselineRef.current = latestRef.current.distance;
+
+    const push = () => {
+      const { distance: current, area: loopArea } = latestRef.current;
+      reportedRef.current = carriedRef.current + Math.max(0, current - (baselineRef.current ?? 0));
+      reportLobbyProgress(profileId, lobbyId, reportedRef.current, loopArea);
+    };
+
+    const interval = setInterval(push, LOBBY_CONFIG.PROGRESS_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      push();
+    };
+  }, [racing, isRunning, profileId, lobbyId]);
+
+  if (!state || state.lobby.status !== "running") return null;
+
+  return (
+    <Card className="absolute top-52 right-4 z-10 w-56 p-3 bg-card/90 backdrop-blur-sm space-y-2">
+      <div className="flex items-center gap-2 text-sm font-semibold">
+        <Flag className="h-4 w-4 text-accent" />
+        <span className="truncate">{state.lobby.name}</span>
+      </div>
+      <p className="text-xs text-muted-foreground">First to {describeLobbyTarget(state.lobby)}</p>
+      {state.runners.map((runner, index) => (
+        <div key={runner.id} className="space-y-1">
+          <div className="flex justify-between text-xs">
+            <span className={runner.user_id === profileId ? "font-semibold" : ""}>
+              {index + 1}. {runner.username}
+            </span>
+            <span>{Math.round(runner.progress * 100)}%</span>
+          </div>
+          <Progress value={runner.progress * 100} className="h-1.5" />
+        </div>
+      ))}
+    </Card>
+  );
+}
@@ -0,0 +1,200 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { Download } from "lucide-react";
+import OfflineMapsDialog from "@/components/OfflineMapsDialog";
+import {
+  LatLng,
+  MapBounds,
+  MapEngine,
+  MapEngineId,
+  MapTerritory,
+  RunTracker,
+  RunTrackerCallbacks,
+  MAP_ENGINE_CONFIG,
+  createMapEngine,
+  createRunTracker,
+  getMapEngineId
+} from "@/lib/map-engine";
+
+interface MapEngineViewProps extends RunTrackerCallbacks {
+  isRunning?: boolean;
+  existingTerritories?: MapTerritory[];
+  onViewportChange?: (bounds: MapBounds) => void;
+}
+
+export const MapEngineView: React.FC<MapEngineViewProps> = ({
+  isRunning = false,
+  existingTerritories = [],
+  onViewportChange,
+  ...callbacks
+}) => {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const engineRef = useRef<MapEngine | null>(null);
+  const trackerRef = useRef<RunTracker | null>(null);
+  const callbacksRef = useRef<RunTrackerCallbacks>(callbacks);
+  const territoriesRef = useRef(existingTerritories);
+  const positionRef = useRef<LatLng | null>(null);
+  const viewportRef = useRef(onViewportChange);
+  territoriesRef.current = existingTerritories;
+  viewportRef.current = onViewportChange;
+
+  // The captured zone is drawn as soon as the loop closes
+  callbacksRef.current = {
+    ...callbacks,
+    onTerritoryComplete: (territory) => {
+      engineRef.current?.setCapture(territory.path);
+      callbacks.onTerritoryComplete?.(territory);
+    }
+  };
+
+  const [engineId, setEngineId] = useState<MapEngineId>(getMapEngineId);
+  const [ready, setReady] = useState(false);
+  const [totalDistance, setTotalDistance] = useState(0);
+  const [offlineOpen, setOfflineOpen] = useState(false);
+
+  const getBounds = useCallback(() => engineRef.current?.getBounds() ?? null, []);
+
+  if (!trackerRef.current) {
+    trackerRef.current = createRunTracker(() => callbacksRef.current);
+  }
+
+  // Mount the engine picked in settings, falling back to the default if it fails
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let cancelled = false;
+    let engine: MapEngine | null = null;
+
+    createMapEngine(engineId)
+      .then(async (created) => {
+        engine = created;
+        await created.mount(container, positionRef.current || MAP_ENGINE_CONFIG.CENTER);
+        if (cancelled) return;
+
+        engineRef.current = created;
+        created.setTerritories(territoriesRef.current);
+        created.onViewChange((bounds) => viewportRef.current?.(bounds));
+        const bounds = created.getBounds();
+        if (bounds) viewportRef.current?.(bounds);
+        setReady(true);
+
+        navigator.geolocation?.getCurrentPosition(
+          (pos) => {
+            const point = { lat: pos.coords.latitude, lng: pos.coords.longitude };
+            positionRef.current = point;
+            created.setUserPosition(point);
+            created.panTo(point);
+          },
+          (err) => console.error("Initial location error:", err),
+          { enableHighAccuracy: true }
+        );
+      })
+      .catch((error) => {
+        console.error(`Failed to load the ${engineId} map:`, error);
+        if (!cancelled && engineId !== MAP_ENGINE_CONFIG.DEFAULT) {
+          toast.error("Could not load the selected map. Using the default map instead.");
+          setEngineId(MAP_ENGINE_CONFIG.DEFAULT);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      engine?.destroy();
+      engineRef.current = null;
+      container.replaceChildren();
+      setReady(false);
+    };
+  }, [engineId]);
+
+  // Draw territories and keep the tracker's enter/exit checks on the same list
+  useEffect(() => {
+    trackerRef.current?.setTerritories(existingTerritories);
+    if (ready) engineRef.current?.setTerritories(existingTerritories);
+  }, [existingTerritories, ready]);
+
+  // Follow the runner while a run is on
+  useEffect(() => {
+    if (!isRunning || !navigator.geolocation) return;
+
+    const tracker = trackerRef.current;
+    tracker?.reset();
+    setTotalDistance(0);
+    engineRef.current?.setRoute([]);
+    engineRef.current?.setCapture([]);
+
+    const watchId = navigator.geolocation.watchPosition(
+      (pos) => {
+        const fix = {
+          lat: pos.coords.latitude,
+          lng: pos.coords.longitude,
+          accuracy: pos.coords.accuracy ?? 999,
+          timestamp: pos.timestamp
+        };
+
+        const path = tracker?.addFix(fix);
+        if (!path) return;
+
+        const point = path[path.length - 1];
+        positionRef.current = point;
+        setTotalDistance(tracker?.distance() ?? 0);
+
+        const engine = engineRef.current;
+        engine?.setRoute(path);
+        engine?.setUserPosition(point);
+        engine?.panTo(point);
+      },
+      (err) => console.error("Geolocation error:", err),
+      { enableHighAccuracy: true, maximumAge: 500, timeout: 10000 }
+    );
+
+    // Close any zone visits still open when the run ends
+    return () => {
+      navigator.geolocation.clearWatch(watchId);
+      tracker?.exitTerritories();
+    };
+  }, [isRunning]);
+
+  return (
+    <div className="relative w-full h-full" style={{ minHeight: '100vh' }}>
+      <div ref={containerRef} className="absolute inset-0" style={{ width: '100%', height: '100%' }} />
+
+      {/* Map controls overlay */}
+      <div className="absolute top-4 right-4 bg-background/90 backdrop-blur-sm rounded-lg p-2 shadow-lg flex flex-col">
+        <button
+          onClick={() => {
+            if (positionRef.current) {
+              engineRef.current?.panTo(positionRef.current, MAP_ENGINE_CONFIG.FOCUS_ZOOM);
+            }
+          }}
+          className="p-2 rounded hover:bg-muted transition-colors"
+          title="Center on current location"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+          </svg>
+        </button>
+        {engineId === "maplibre" && ready && (
+          <button
+            onClick={() => setOfflineOpen(true)}
+            className="p-2 rounded hover:bg-muted transition-colors"
+            title="Offline maps"
+          >
+            <Download className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+
+      {/* Running stats overlay */}
+      {isRunning && (
+        <div className="absolute bottom-20 left-4 bg-background/90 backdrop-blur-sm rounded-lg p-3 shadow-lg">
+          <div className="text-sm text-muted-foreground">Distance</div>
+          <div className="text-lg font-bold">{(totalDistance / 1000).toFixed(2)} km</div>
+        </div>
+      )}
+
+      <OfflineMapsDialog open={offlineOpen} onClose={() => setOfflineOpen(false)} getBounds={getBounds} />
+    </div>
+  );
+};
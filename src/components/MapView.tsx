@@ -1,21 +1,32 @@
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { motion, AnimatePresence } from "framer-motion";
 import { Play, Square, Battery, Radio, Navigation, MapPin, TrendingUp, Map, AlertTriangle, Coins, Shield, Zap } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
-import { MapLibreView } from "./MapLibreView";
+import { MapEngineView } from "./MapEngineView";
 import { toast } from "sonner";
 import strunLogo from "@/assets/strun-logo-new.png";
 import { getCurrentUserInfo } from "@/lib/zklogin";
-import { supabase } from "@/integrations/supabase/client";
-import { mintLandNFT, isZoneMinted } from "@/lib/sui-land-contract";
-import { detectZoneFromTrace, validateRunTrace, computeZoneId, formatZoneMetadata } from "@/lib/zone-detection";
-import { awardXP, payZoneRent, applyUnauthorizedEntryPenalty, calculateRunXP, XP_CONFIG } from "@/lib/xp-economics";
+import { detectZoneFromTrace } from "@/lib/zone-detection";
+import { LatLng, MapBounds } from "@/lib/map-engine";
+import { boundsContain, padBounds } from "@/lib/spatial-index";
+import { awardRunXP, syncProfileTimezone, XP_CONFIG, XPAwardResult } from "@/lib/xp-economics";
+import { analyzeRunTrace } from "@/lib/anti-cheat";
 import { walrusClient } from "@/lib/walrus-client";
+import { getRecentRunRoutes, insertRun, RunData } from "@/services/runService";
+import { getRegionsInBounds, getRegionsNear } from "@/services/regionService";
+import { createPost } from "@/services/postService";
+import { RunSession, createRunSession, appendSessionPoint, getActiveRunSession, clearRunSession, resolveProfileId, isNetworkError } from "@/lib/offline-store";
+import { enqueue } from "@/lib/outbox";
+import { claimZone, previewZoneClaim, ZoneClaim } from "@/lib/zone-claim";
+import { OverlapResolution } from "@/lib/zone-overlap";
+import { getRegionHealth, describeZoneHealth, RegionHealth } from "@/lib/zone-decay";
+import { recordZoneVisitEvent, payVisitRent, penalizeVisit, ZoneVisit, ZoneVisitEvent } from "@/lib/zone-visits";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Progress } from "@/components/ui/progress";
+import { LobbyRaceOverlay } from "./LobbyRaceOverlay";
 
 interface MapViewProps {
   isRunning: boolean;
@@ -33,6 +44,28 @@ interface MapViewProps {
   };
 }
 
+// Run summary text when the daily earning cap cut the award short
+function formatDailyLimitNotice(requested: number, awarded: number, resetsAt?: string): string {
+  const resets = resetsAt
+    ? ` Resets at ${new Date(resetsAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}.`
+    : "";
+  return `Daily XP limit reached: ${awarded} of ${requested} XP credited.${resets}`;
+}
+
+// Mint modal text for what the overlap policy will do with this claim
+function describeOverlapResolution(resolution: OverlapResolution): string {
+  if (resolution.action === "reject") return `${resolution.reason}. This zone cannot be minted.`;
+  if (resolution.action === "contest") return "Minting will open a contest against the current owners instead.";
+  return `Overlapping land will be cut away. You will mint ${resolution.zone.area.toFixed(0)} m².`;
+}
+
+// How far past the viewport, as a fraction of its size, territories are fetched
+const TERRITORY_FETCH_PADDING = 0.5;
+// During a run, zones this close to the runner are always loaded, however the map is zoomed
+const RUN_TERRITORY_RADIUS_M = 1500;
+// Time to pay rent or leave a rival zone; the server's zone_rent_grace_s has the final say
+const RENT_GRACE_MS = 30 * 1000;
+
 interface Territory {
   id: string;
   name: string;
@@ -40,7 +73,9 @@ interface Territory {
   area: number;
   owner?: string;
   rentPrice?: number;
-  color?: string;
+  color?: string; // the club colour for club zones
+  club?: string;
+  health?: RegionHealth;
 }
 
 export function MapView({ 
@@ -68,13 +103,32 @@ export function MapView({
   const [detectedZone, setDetectedZone] = useState<any>(null);
   const [minting, setMinting] = useState(false);
   const [rentAcceptTimer, setRentAcceptTimer] = useState<NodeJS.Timeout | null>(null);
-  const [unauthorizedEntries, setUnauthorizedEntries] = useState<Set<string>>(new Set());
+  const [dailyLimit, setDailyLimit] = useState<{ requested: number; awarded: number; resetsAt?: string } | null>(null);
   
   // Mint form data
   const [zoneName, setZoneName] = useState("");
   const [zoneDescription, setZoneDescription] = useState("");
   const [zoneRentPrice, setZoneRentPrice] = useState(10);
   const [mintProgress, setMintProgress] = useState(0);
+  const [overlapPreview, setOverlapPreview] = useState<OverlapResolution | null>(null);
+  
+  // Locally persisted run, and the distance it had covered before a resume
+  const sessionRef = useRef<RunSession | null>(null);
+  const distanceOffsetRef = useRef(0);
+  const onStartRunRef = useRef(onStartRun);
+  onStartRunRef.current = onStartRun;
+  
+  // Who is running and which run, for the zone visit log; kept after a stop so the final exits match
+  const profileIdRef = useRef<string | null>(null);
+  const runIdRef = useRef<string | null>(null);
+  const runDistanceRef = useRef(0);
+  const rentVisitRef = useRef<string | null>(null);
+  
+  // What the map shows, and the padded area the current territories were fetched for
+  const viewportRef = useRef<MapBounds | null>(null);
+  const fetchedBoundsRef = useRef<MapBounds | null>(null);
+  const territoryRequestRef = useRef(0);
+  const runnerPositionRef = useRef<LatLng | null>(null);
 
   // Timer effect
   useEffect(() => {
@@ -104,45 +158,121 @@ export function MapView({
     };
   }, [isRunning, runStartTime]);
 
-  // Load existing territories
+  // Load the territories around the viewport; small pans stay inside the padded area already fetched
+  const loadTerritories = useCallback(async () => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    
+    const area = padBounds(viewport, TERRITORY_FETCH_PADDING);
+    const request = ++territoryRequestRef.current;
+    
+    try {
+      const runner = runnerPositionRef.current;
+      const [inView, nearRunner] = await Promise.all([
+        getRegionsInBounds(area),
+        runner ? getRegionsNear(runner, RUN_TERRITORY_RADIUS_M) : []
+      ]);
+      if (!inView) return;
+      
+      const inViewIds = new Set(inView.map(region => region.id));
+      const regions = [...inView, ...(nearRunner || []).filter(region => !inViewIds.has(region.id))];
+      
+      const health = await getRegionHealth(regions.map(region => region.id));
+      if (request !== territoryRequestRef.current) return; // a newer viewport won
+      
+      // Decayed zones charge less rent
+      fetchedBoundsRef.current = area;
+      setTerritories(regions.map(region => ({
+        id: region.id,
+        name: region.name,
+        path: region.coordinates as Array<{ lat: number; lng: number }>,
+        area: region.area,
+        owner: region.owner_username || 'Unknown',
+        rentPrice: health[region.id]?.effective_rent ?? region.rent_price,
+        color: region.group_color || region.color || '#FF6B6B',
+        club: region.group_name || undefined,
+        health: health[region.id]
+      })));
+    } catch (error) {
+      console.error("Failed to load territories:", error);
+    }
+  }, []);
+  
+  const handleViewportChange = (bounds: MapBounds) => {
+    viewportRef.current = bounds;
+    if (!fetchedBoundsRef.current || !boundsContain(fetchedBoundsRef.current, bounds)) {
+      loadTerritories();
+    }
+  };
+  
   useEffect(() => {
-    const loadTerritories = async () => {
-      try {
-        // Get all regions from database
-        const { data: regions, error } = await supabase
-          .from('regions')
-          .select('*, profiles!owner_id(username, avatar_url)');
-        
-        if (error) {
-          console.error("Failed to load regions:", error);
-          return;
-        }
+    const interval = setInterval(loadTerritories, 30000); // Refresh every 30 seconds
+    return () => clearInterval(interval);
+  }, [loadTerritories]);
+
+  // Resume a run that was interrupted by a crash, reload or tab switch
+  useEffect(() => {
+    getActiveRunSession()
+      .then(active => {
+        if (!active) return;
+        const { session, points } = active;
         
-        // Format regions for map display
-        const formattedTerritories = regions?.map(region => ({
-          id: region.id,
-          name: region.name,
-          path: region.coordinates as Array<{ lat: number; lng: number }>,
-          area: region.area,
-          owner: region.profiles?.username || 'Unknown',
-          rentPrice: region.rent_price,
-          color: region.color || '#FF6B6B'
-        })) || [];
+        sessionRef.current = session;
+        distanceOffsetRef.current = session.distance;
+        profileIdRef.current = session.profileId;
+        runIdRef.current = session.id;
+        runDistanceRef.current = session.distance;
+        setRunTrace({
+          points,
+          distance: session.distance,
+          duration: (Date.now() - session.startTime) / 1000,
+          avgSpeed: 0,
+          maxSpeed: Math.max(0, ...points.map(p => p.speed || 0))
+        });
+        setRunStartTime(session.startTime);
+        setCurrentDistance(session.distance);
+        setRunCompleted(false);
+        setShowStats(true);
         
-        setTerritories(formattedTerritories);
-      } catch (error) {
-        console.error("Failed to load territories:", error);
-      }
-    };
+        onStartRunRef.current();
+        toast.info(`Resumed your run from ${new Date(session.startTime).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`);
+      })
+      .catch(error => console.error("Failed to restore run session:", error));
+  }, []);
+
+  // Check the detected zone against existing regions while the mint modal is open
+  useEffect(() => {
+    if (!showMintModal || !detectedZone) {
+      setOverlapPreview(null);
+      return;
+    }
     
-    loadTerritories();
-    const interval = setInterval(loadTerritories, 30000); // Refresh every 30 seconds
+    let cancelled = false;
+    resolveProfileId()
+      .then(profileId => profileId ? previewZoneClaim(detectedZone, profileId) : null)
+      .then(preview => {
+        if (!cancelled) setOverlapPreview(preview);
+      })
+      .catch(error => console.warn("Could not check zone overlaps:", error));
     
-    return () => clearInterval(interval);
-  }, []);
+    return () => {
+      cancelled = true;
+    };
+  }, [showMintModal, detectedZone]);
 
   const handleStartRun = async () => {
     try {
+      // Persist the run on the device so it survives a dropped connection or reload
+      distanceOffsetRef.current = 0;
+      const profileId = await resolveProfileId();
+      sessionRef.current = await createRunSession(profileId).catch(error => {
+        console.error("Run will not be persisted locally:", error);
+        return null;
+      });
+      profileIdRef.current = profileId;
+      runIdRef.current = sessionRef.current?.id || crypto.randomUUID();
+      runDistanceRef.current = 0;
+      
       // Initialize run trace
       setRunTrace({
         points: [],
@@ -153,6 +283,7 @@ export function MapView({
       });
       
       setXpEarned(0);
+      setDailyLimit(null);
       setCurrentDistance(0);
       setRunCompleted(false);
       setCompletedPath([]);
@@ -169,100 +300,125 @@ export function MapView({
   const handleStopRun = async () => {
     try {
       if (runTrace && runTrace.points.length > 0) {
-        // Validate run trace for anti-cheat
-        const validation = validateRunTrace(runTrace);
+        const distanceKm = currentDistance / 1000;
+        
+        // Profile for awarding, cached locally so this works offline
+        const session = sessionRef.current;
+        const profileId = session?.profileId || await resolveProfileId();
+        const clientRunId = session?.id || runIdRef.current || crypto.randomUUID();
+        runIdRef.current = clientRunId;
+        
+        // Walrus is best effort; the run itself is saved to the database
+        let blobId: string | null = null;
+        try {
+          blobId = await walrusClient.storeRunningSession({
+            userId: profileId || '',
+            startTime: runStartTime || Date.now(),
+            endTime: Date.now(),
+            distance: currentDistance,
+            route: runTrace.points.map((p: any) => ({
+              lat: p.lat,
+              lng: p.lng,
+              timestamp: p.timestamp
+            }))
+          });
+          console.log("Run saved to Walrus:", blobId);
+        } catch (error) {
+          console.warn("Skipping Walrus backup of run:", error);
+        }
+        
+        const run: RunData = {
+          route: runTrace.points.map(({ lat, lng }: { lat: number; lng: number }) => [lng, lat] as [number, number]),
+          timestamps: runTrace.points.map(({ timestamp }: { timestamp: number }) => timestamp),
+          walrusCid: blobId || undefined,
+          recordedAt: new Date(runStartTime || Date.now()),
+          clientRunId
+        };
+        
+        // Save the run and let the server score it and work out its XP (capped by the
+        // daily earning limit); anything that cannot be sent waits in the outbox
+        let savedRunId: string | null = null;
+        if (navigator.onLine) {
+          try {
+            savedRunId = (await insertRun(run)).id;
+          } catch (error) {
+            if (!isNetworkError(error)) throw error;
+          }
+        }
+        
+        if (!savedRunId) {
+          await enqueue('save_run', run);
+        }
+        
+        let award: XPAwardResult = { success: false, retryable: true };
+        if (savedRunId) {
+          if (profileId) await syncProfileTimezone(profileId);
+          award = await awardRunXP(savedRunId);
+        }
         
-        if (!validation.valid) {
-          toast.error("Run validation failed: " + validation.issues[0]);
-          // Still allow stopping but mark as unverified
+        if (award.retryable) {
+          await enqueue('run_xp', { clientRunId });
+          toast.info("You're offline. XP for this run will be credited once you reconnect.");
         }
         
-        // Detect zone from trace
-        const zone = detectZoneFromTrace(runTrace);
+        // The server's verdict once it has the run; until then the local check stands in
+        const userInfo = getCurrentUserInfo();
+        const verdict = award.verification
+          || analyzeRunTrace(runTrace, userInfo?.email ? await getRecentRunRoutes(userInfo.email) : []);
+        const heldForReview = verdict.status !== 'verified';
         
-        if (zone) {
+        const awardedXP = award.awarded || 0;
+        setXpEarned(awardedXP);
+        setDailyLimit(award.capped ? {
+          requested: award.requested || awardedXP,
+          awarded: awardedXP,
+          resetsAt: award.resetsAt
+        } : null);
+        
+        if (award.capped) {
+          toast.warning(formatDailyLimitNotice(award.requested || awardedXP, awardedXP, award.resetsAt));
+        }
+        
+        // Suspicious runs earn nothing and cannot claim a zone until reviewed
+        const zone = heldForReview ? null : detectZoneFromTrace(runTrace);
+        
+        if (heldForReview) {
+          toast.warning(`Run held for review: ${verdict.reasons[0]?.message || "unusual GPS data"}`);
+        } else if (zone) {
           setDetectedZone(zone);
           setCanClaim(true);
           setTerritoryPath(zone.polygon || []);
           setTerritoryArea(zone.area);
           setCompletedPath(zone.polygon || []);
           
-          // Calculate XP earned
-          const distanceKm = currentDistance / 1000;
-          const duration = (Date.now() - (runStartTime || 0)) / 1000 / 3600; // hours
-          const earnedXP = calculateRunXP(distanceKm, duration);
-          setXpEarned(earnedXP);
-          
           toast.success(`Zone detected! Area: ${zone.area.toFixed(0)}m². You can mint it as NFT!`);
           setShowMintModal(true);
         } else {
           // Just a regular run, no zone created
-          const distanceKm = currentDistance / 1000;
-          const duration = (Date.now() - (runStartTime || 0)) / 1000 / 3600;
-          const earnedXP = calculateRunXP(distanceKm, duration);
-          
-          // Award XP for the run
-          const { data: authUser } = await supabase.auth.getUser();
-          if (authUser?.user) {
-            const { data: profile } = await supabase
-              .from('profiles')
-              .select('id')
-              .eq('user_id', authUser.user.id)
-              .single();
-            
-            if (profile) {
-              await awardXP(
-                profile.id,
-                earnedXP,
-                'run',
-                `Completed ${distanceKm.toFixed(2)}km run`
-              );
-            }
-          }
-          
-          toast.success(`Run completed! Distance: ${distanceKm.toFixed(2)}km, XP earned: ${earnedXP}`);
+          toast.success(`Run completed! Distance: ${distanceKm.toFixed(2)}km, XP earned: ${awardedXP}`);
         }
         
-        // Get profile for saving
-        const { data: authUser2 } = await supabase.auth.getUser();
-        const { data: userProfile } = await supabase
-          .from('profiles')
-          .select('id')
-          .eq('user_id', authUser2?.user?.id || '')
-          .single();
-        
-        // Save run to Walrus
-        const runData = {
-          userId: userProfile?.id || '',
-          startTime: runStartTime || Date.now(),
-          endTime: Date.now(),
-          distance: currentDistance,
-          route: runTrace.points.map((p: any) => ({
-            lat: p.lat,
-            lng: p.lng,
-            timestamp: p.timestamp
-          })),
-          xpEarned,
-          territoriesClaimed: detectedZone ? [detectedZone.id] : []
-        };
-        
-        const blobId = await walrusClient.storeRunningSession(runData);
-        console.log("Run saved to Walrus:", blobId);
+        // Running through rival zones can open a contest; owners defend theirs the same way
+        if (profileId && !heldForReview) {
+          await enqueue('zone_activity', {
+            profileId,
+            clientRunId,
+            points: runTrace.points.map(({ lat, lng }: { lat: number; lng: number }) => ({ lat, lng }))
+          });
+        }
         
-        // Save run to Supabase
-        const { data: authUser } = await supabase.auth.getUser();
-        if (authUser?.user) {
-          const { data: profile } = await supabase
-            .from('profiles')
-            .select('id')
-            .eq('user_id', authUser.user.id)
-            .single();
-          
-          // Save run properly but don't insert yet - let the parent handle it
+        if (profileId) {
           setShowStats(false);
         }
       }
       
+      // The run now lives in the outbox
+      if (sessionRef.current) {
+        await clearRunSession(sessionRef.current.id);
+        sessionRef.current = null;
+      }
+      distanceOffsetRef.current = 0;
+      
       setRunCompleted(true);
       onStopRun();
     } catch (error) {
@@ -272,17 +428,16 @@ export function MapView({
     }
   };
 
-  const handlePathUpdate = (path: [number, number][]) => {
-    // Convert LatLng format to { lat, lng } format
-    const convertedPath = path.map(p => ({ lat: p[0], lng: p[1] }));
-    setTerritoryPath(convertedPath);
+  const handlePathUpdate = (path: LatLng[]) => {
+    setTerritoryPath(path);
+    runnerPositionRef.current = isRunning && path.length > 0 ? path[path.length - 1] : null;
     
     // Update run trace
     if (isRunning && runTrace && path.length > 0) {
       const lastPoint = path[path.length - 1];
       const newPoint = {
-        lat: lastPoint[0],
-        lng: lastPoint[1],
+        lat: lastPoint.lat,
+        lng: lastPoint.lng,
         timestamp: Date.now(),
         accuracy: 10, // Default accuracy
         speed: runningStats.pace
@@ -296,82 +451,113 @@ export function MapView({
         avgSpeed: runningStats.pace,
         maxSpeed: Math.max(runTrace.maxSpeed, runningStats.pace)
       });
+      
+      if (sessionRef.current) {
+        appendSessionPoint(sessionRef.current.id, newPoint, currentDistance)
+          .catch(error => console.error("Failed to persist GPS point:", error));
+      }
     }
   };
 
   const handleDistanceUpdate = (distance: number) => {
-    setCurrentDistance(distance);
+    // The map restarts its count after a resume
+    runDistanceRef.current = distanceOffsetRef.current + distance;
+    setCurrentDistance(runDistanceRef.current);
   };
 
-  const handleTerritoryComplete = async (territory: { path: [number, number][]; area: number }) => {
-    // Convert LatLng format to { lat, lng } format
-    const convertedPath = territory.path.map(p => ({ lat: p[0], lng: p[1] }));
-    setTerritoryPath(convertedPath);
+  const handleTerritoryComplete = async (territory: { path: LatLng[]; area: number }) => {
+    setTerritoryPath(territory.path);
     setTerritoryArea(territory.area);
     setCanClaim(true);
-    setCompletedPath(convertedPath);
+    setCompletedPath(territory.path);
     
     if (detectedZone) {
       setShowMintModal(true);
     }
   };
 
-  const handleEnterExistingTerritory = async (territoryId: string) => {
-    // Check if already in unauthorized list
-    if (unauthorizedEntries.has(territoryId)) {
-      return; // Already penalized
-    }
+  // Log a zone enter or exit. Enters go straight to the server, which answers whether rent
+  // is due; anything that cannot be sent waits in the outbox behind earlier events
+  const logZoneVisit = async (kind: ZoneVisitEvent["kind"], regionId: string, point: LatLng): Promise<ZoneVisit | null> => {
+    const profileId = profileIdRef.current;
+    const clientRunId = runIdRef.current;
+    if (!profileId || !clientRunId) return null;
     
-    // Find the territory by ID
-    const territory = territories.find(t => t.id === territoryId);
-    if (!territory) return;
-    
-    // Get current user
-    const { data: authUser } = await supabase.auth.getUser();
-    if (!authUser?.user) return;
-    
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('id')
-      .eq('user_id', authUser.user.id)
-      .single();
+    const event: ZoneVisitEvent = {
+      kind,
+      profileId,
+      clientRunId,
+      regionId,
+      point: { lat: point.lat, lng: point.lng },
+      at: Date.now(),
+      runDistance: runDistanceRef.current
+    };
     
-    if (!profile) return;
+    if (kind === "enter" && navigator.onLine) {
+      try {
+        return await recordZoneVisitEvent(event);
+      } catch (error) {
+        if (!isNetworkError(error)) {
+          console.warn("Zone visit was not recorded:", error);
+          return null;
+        }
+      }
+    }
     
-    // Check if user owns this territory
-    const { data: region } = await supabase
-      .from('regions')
-      .select('owner_id')
-      .eq('id', territoryId)
-      .single();
+    await enqueue("zone_visit", event);
+    return null;
+  };
+
+  // Owners, their club and unowned zones are free; the server says when rent is due
+  const handleEnterExistingTerritory = async (territoryId: string, point: LatLng) => {
+    const visit = await logZoneVisit("enter", territoryId, point);
+    if (visit?.rentStatus !== "due") return;
     
-    if (region?.owner_id === profile.id) {
-      return; // Owner can enter freely
-    }
+    const territory = territories.find(t => t.id === territoryId);
+    if (!territory) return;
     
+    rentVisitRef.current = visit.visitId;
     setRentTerritory(territory);
     setShowRentModal(true);
     
-    // Start 30-second timer for accepting rent
+    // Unpaid after the grace period: the penalty is charged unless the runner has left.
+    // The server charges it too when the visit closes, so stopping the run or going
+    // offline doesn't skip it
     const timer = setTimeout(async () => {
-      if (showRentModal && rentTerritory?.id === territory.id) {
-        // User didn't accept in time - apply penalty
-        setShowRentModal(false);
-        setUnauthorizedEntries(prev => new Set(prev).add(territory.id));
-        
-        await applyUnauthorizedEntryPenalty(
-          profile.id,
-          territory.id,
-          territory.rentPrice || XP_CONFIG.ZONE_RENT_PERCENTAGE * 100
-        );
-        
-        toast.error("Unauthorized entry penalty applied!");
+      const profileId = profileIdRef.current;
+      if (rentVisitRef.current !== visit.visitId || !profileId) return;
+      
+      rentVisitRef.current = null;
+      setShowRentModal(false);
+      setRentTerritory(null);
+      
+      const { success, penalty, shortfall, error } = await penalizeVisit(profileId, visit.visitId);
+      if (!success) {
+        console.warn("Entry penalty not applied:", error);
+      } else if (shortfall) {
+        toast.error(`Penalty: Balance set to 0. You owe ${shortfall} XP.`);
+      } else {
+        toast.error(`Penalty applied: ${penalty} XP deducted for unauthorized entry`);
       }
-    }, 30000);
+    }, RENT_GRACE_MS);
     
     setRentAcceptTimer(timer);
   };
 
+  // Leaving before the rent deadline clears the pending penalty
+  const handleExitExistingTerritory = (territoryId: string, point: LatLng) => {
+    void logZoneVisit("exit", territoryId, point);
+    if (rentTerritory?.id !== territoryId) return;
+    
+    rentVisitRef.current = null;
+    if (rentAcceptTimer) {
+      clearTimeout(rentAcceptTimer);
+      setRentAcceptTimer(null);
+    }
+    setShowRentModal(false);
+    setRentTerritory(null);
+  };
+
   const handleMintZone = async () => {
     if (!detectedZone || !zoneName) {
       toast.error("Please provide a name for your zone");
@@ -382,134 +568,56 @@ export function MapView({
     setMintProgress(10);
     
     try {
-      // Get current user
-      const { data: authUser } = await supabase.auth.getUser();
-      if (!authUser?.user) throw new Error("Not authenticated");
-      
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('user_id', authUser.user.id)
-        .single();
-      
-      if (!profile) throw new Error("Profile not found");
-      
-      setMintProgress(20);
+      const profileId = await resolveProfileId();
+      if (!profileId) throw new Error("Profile not found");
       
-      // Check if zone already minted
-      const { zoneId } = computeZoneId(detectedZone.bbox, detectedZone.zoom);
-      const alreadyMinted = await isZoneMinted(
-        detectedZone.bbox.latMin,
-        detectedZone.bbox.lonMin,
-        detectedZone.zoom
-      );
-      
-      if (alreadyMinted) {
-        toast.error("This zone has already been minted!");
-        setMinting(false);
-        return;
-      }
-      
-      setMintProgress(40);
-      
-      // Format metadata
-      const metadata = formatZoneMetadata(detectedZone, profile.username || profile.email, {
+      const claim: ZoneClaim = {
+        profileId,
+        zone: detectedZone,
         name: zoneName,
         description: zoneDescription,
         rentPrice: zoneRentPrice,
-        createdBy: profile.id,
         runStats: {
           distance: currentDistance,
           duration: Date.now() - (runStartTime || 0),
           xpEarned
-        }
-      });
-      
-      setMintProgress(60);
-      
-      // Store metadata in Walrus
-      const metadataBlobId = await walrusClient.storeBlob(JSON.stringify(metadata));
-      console.log("Metadata stored in Walrus:", metadataBlobId);
-      
-      setMintProgress(80);
-      
-      // Mint NFT on Sui
-      const coordinates = detectedZone.polygon || [
-        { lat: detectedZone.bbox.latMin, lng: detectedZone.bbox.lonMin },
-        { lat: detectedZone.bbox.latMax, lng: detectedZone.bbox.lonMin },
-        { lat: detectedZone.bbox.latMax, lng: detectedZone.bbox.lonMax },
-        { lat: detectedZone.bbox.latMin, lng: detectedZone.bbox.lonMax }
-      ];
-      
-      const nftId = await mintLandNFT(
-        coordinates,
-        detectedZone.zoom,
-        zoneName,
-        zoneDescription
-      );
+        },
+        clientRunId: runIdRef.current || undefined
+      };
       
-      setMintProgress(90);
+      // If the insert fails after minting, the queued retry carries the NFT
+      let pendingClaim = claim;
+      const result = await claimZone(claim, setMintProgress, minted => {
+        pendingClaim = minted;
+      });
       
-      // Save to database
-      await supabase
-        .from('regions')
-        .insert({
-          id: zoneId,
-          name: zoneName,
-          description: zoneDescription,
-          coordinates: detectedZone.polygon,
-          area: detectedZone.area,
-          owner_id: profile.id,
-          rent_price: zoneRentPrice,
-          nft_id: nftId,
-          metadata: metadata,
-          color: `#${Math.floor(Math.random()*16777215).toString(16)}`
+      if (result.retryable) {
+        await enqueue('claim_zone', pendingClaim);
+        toast.info(`You're offline. "${zoneName}" will be minted once you reconnect.`);
+      } else if (!result.success) {
+        toast.error(result.conflict ? result.error : "Failed to mint zone: " + result.error);
+        return;
+      } else if (result.contestIds?.length) {
+        toast.success(`Contest opened for "${zoneName}". The current owners have been challenged.`);
+      } else {
+        const mintedZoneId = result.zoneId;
+        toast.success(result.clipped
+          ? `Zone "${zoneName}" minted without the overlapping land. NFT ID: ${result.nftId}`
+          : `Zone "${zoneName}" minted successfully! NFT ID: ${result.nftId}`, {
+          action: mintedZoneId ? {
+            label: "Share",
+            onClick: async () => {
+              const shared = await createPost({ zoneId: mintedZoneId });
+              if (shared.success) toast.success("Zone shared to the community");
+              else toast.error(shared.error || "Failed to share zone");
+            }
+          } : undefined
         });
-      
-      // Award XP for zone creation
-      await awardXP(
-        profile.id,
-        XP_CONFIG.XP_PER_ZONE_CREATION,
-        'zone',
-        `Created zone: ${zoneName}`
-      );
-      
-      // Check if first zone for bonus
-      const { count } = await supabase
-        .from('regions')
-        .select('*', { count: 'exact', head: true })
-        .eq('owner_id', profile.id);
-      
-      if (count === 1) {
-        await awardXP(
-          profile.id,
-          XP_CONFIG.XP_BONUS_FIRST_ZONE,
-          'bonus',
-          'First zone bonus!'
-        );
+        
+        // Reload territories
+        loadTerritories();
       }
       
-      setMintProgress(100);
-      
-      toast.success(`Zone "${zoneName}" minted successfully! NFT ID: ${nftId}`);
-      
-      // Reload territories
-      const { data: regions } = await supabase
-        .from('regions')
-        .select('*, profiles!owner_id(username, avatar_url)');
-      
-      const formattedTerritories = regions?.map(region => ({
-        id: region.id,
-        name: region.name,
-        path: region.coordinates as Array<{ lat: number; lng: number }>,
-        area: region.area,
-        owner: region.profiles?.username || 'Unknown',
-        rentPrice: region.rent_price,
-        color: region.color || '#FF6B6B'
-      })) || [];
-      
-      setTerritories(formattedTerritories);
-      
       // Reset states
       setShowMintModal(false);
       setCanClaim(false);
@@ -527,7 +635,9 @@ export function MapView({
   };
 
   const handlePayRent = async () => {
-    if (!rentTerritory) return;
+    const visitId = rentVisitRef.current;
+    const profileId = profileIdRef.current;
+    if (!rentTerritory || !visitId || !profileId) return;
     
     try {
       // Clear timer since user accepted
@@ -535,57 +645,13 @@ export function MapView({
         clearTimeout(rentAcceptTimer);
         setRentAcceptTimer(null);
       }
+      rentVisitRef.current = null;
       
-      // Get current user
-      const { data: authUser } = await supabase.auth.getUser();
-      if (!authUser?.user) throw new Error("Not authenticated");
-      
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('id')
-        .eq('user_id', authUser.user.id)
-        .single();
-      
-      if (!profile) throw new Error("Profile not found");
-      
-      // Get territory owner
-      const { data: region } = await supabase
-        .from('regions')
-        .select('owner_id')
-        .eq('id', rentTerritory.id)
-        .single();
-      
-      if (!region?.owner_id) throw new Error("Territory owner not found");
-      
-      // Process payment
-      const rentAmount = rentTerritory.rentPrice || 10;
-      const { success, error } = await payZoneRent(
-        profile.id,
-        region.owner_id,
-        rentTerritory.id,
-        rentAmount
-      );
+      // Rent is charged against the visit (owner and price are resolved server-side)
+      const { success, amount, error } = await payVisitRent(profileId, visitId);
       
       if (success) {
-        toast.success(`Rent paid: ${rentAmount} XP`);
-        
-        // Record visit - get current values first then update
-        const { data: currentRegion } = await supabase
-          .from('regions')
-          .select('visitors, total_earnings')
-          .eq('id', rentTerritory.id)
-          .single();
-        
-        if (currentRegion) {
-          await supabase
-            .from('regions')
-            .update({
-              visitors: (currentRegion.visitors || 0) + 1,
-              last_visited: new Date().toISOString(),
-              total_earnings: (currentRegion.total_earnings || 0) + rentAmount
-            })
-            .eq('id', rentTerritory.id);
-        }
+        toast.success(`Rent paid: ${amount} XP`);
       } else {
         toast.error(error || "Failed to pay rent");
       }
@@ -624,24 +690,20 @@ export function MapView({
       </div>
 
       {/* Map */}
-      <MapLibreView
+      <MapEngineView
         isRunning={isRunning}
         onPathUpdate={handlePathUpdate}
         onDistanceUpdate={handleDistanceUpdate}
         onTerritoryComplete={handleTerritoryComplete}
         onEnterExistingTerritory={handleEnterExistingTerritory}
-        existingTerritories={territories.map(t => ({
-          id: t.id,
-          name: t.name,
-          coordinates: {
-            type: "Polygon",
-            coordinates: [t.path.map(p => [p.lng, p.lat])]
-          },
-          owner_id: t.owner,
-          rent_price: t.rentPrice || 5
-        }))}
+        onExitExistingTerritory={handleExitExistingTerritory}
+        existingTerritories={territories}
+        onViewportChange={handleViewportChange}
       />
 
+      {/* Private race standings */}
+      <LobbyRaceOverlay isRunning={isRunning} distance={currentDistance} area={territoryArea} />
+
       {/* Stats Overlay */}
       <AnimatePresence>
         {showStats && (
@@ -756,12 +818,20 @@ export function MapView({
                   <p className="text-sm text-gray-400 mt-1">
                     Owner: {rentTerritory.owner}
                   </p>
+                  {rentTerritory.club && (
+                    <p className="text-sm mt-1" style={{ color: rentTerritory.color }}>
+                      Club zone: {rentTerritory.club} (rent is shared with the club)
+                    </p>
+                  )}
                 </div>
                 <div className="bg-gray-800 rounded-lg p-4">
                   <p className="text-sm text-gray-400">Rent Cost</p>
                   <p className="text-2xl font-bold text-cyan-400">
                     {rentTerritory.rentPrice} XP
                   </p>
+                  {rentTerritory.health && rentTerritory.health.health !== null && rentTerritory.health.health < 1 && (
+                    <p className="text-xs text-gray-400 mt-1">{describeZoneHealth(rentTerritory.health)}</p>
+                  )}
                 </div>
                 <div className="bg-yellow-900/20 border border-yellow-600/30 rounded-lg p-3">
                   <p className="text-sm text-yellow-400">
@@ -827,6 +897,32 @@ export function MapView({
               </div>
             )}
             
+            {overlapPreview && overlapPreview.overlaps.length > 0 && (
+              <div className="bg-orange-900/20 border border-orange-600/30 rounded-lg p-3 space-y-2">
+                <p className="text-sm font-semibold text-orange-400 flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4" />
+                  Overlaps existing zones
+                </p>
+                <ul className="space-y-1 text-xs text-gray-300">
+                  {overlapPreview.overlaps.map(overlap => (
+                    <li key={overlap.regionId} className="flex justify-between">
+                      <span>{overlap.name}</span>
+                      <span>{overlap.area.toFixed(0)} m² ({(overlap.share * 100).toFixed(0)}%)</span>
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-xs text-orange-300">{describeOverlapResolution(overlapPreview)}</p>
+              </div>
+            )}
+            
+            {dailyLimit && (
+              <div className="bg-yellow-900/20 border border-yellow-600/30 rounded-lg p-3">
+                <p className="text-sm text-yellow-400">
+                  {formatDailyLimitNotice(dailyLimit.requested, dailyLimit.awarded, dailyLimit.resetsAt)}
+                </p>
+              </div>
+            )}
+            
             <div className="space-y-3">
               <div>
                 <Label htmlFor="zone-name" className="text-gray-300">Zone Name *</Label>
@@ -894,7 +990,7 @@ export function MapView({
           <div className="flex gap-3">
             <Button
               onClick={handleMintZone}
-              disabled={!zoneName || minting}
+              disabled={!zoneName || minting || overlapPreview?.action === "reject"}
               className="flex-1 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 disabled:opacity-50"
             >
               {minting ? (
@@ -902,7 +998,7 @@ export function MapView({
               ) : (
                 <>
                   <MapPin className="mr-2 h-4 w-4" />
-                  Mint Zone NFT
+                  {overlapPreview?.action === "contest" ? "Open Contest" : "Mint Zone NFT"}
                 </>
               )}
             </Button>
@@ -0,0 +1,219 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, RefreshCw, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { MapBounds } from "@/lib/map-engine";
+import {
+  OfflinePack,
+  PackProgress,
+  OFFLINE_CONFIG,
+  deletePack,
+  downloadPack,
+  estimatePack,
+  getStorageEstimate,
+  isPackExpired,
+  listPacks,
+  refreshPack
+} from "@/lib/offline-tiles";
+
+interface OfflineMapsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  getBounds: () => MapBounds | null;
+}
+
+const DETAIL_LEVELS = [
+  { maxZoom: 14, label: "Basic" },
+  { maxZoom: 15, label: "Streets" },
+  { maxZoom: 16, label: "Trails" }
+];
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 * 1024
+    ? `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export default function OfflineMapsDialog({ open, onClose, getBounds }: OfflineMapsDialogProps) {
+  const [packs, setPacks] = useState<OfflinePack[]>([]);
+  const [bounds, setBounds] = useState<MapBounds | null>(null);
+  const [name, setName] = useState("");
+  const [maxZoom, setMaxZoom] = useState(String(OFFLINE_CONFIG.MAX_ZOOM));
+  const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+  const [progress, setProgress] = useState<PackProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const load = useCallback(async () => {
+    const [nextPacks, nextStorage] = await Promise.all([listPacks(), getStorageEstimate()]);
+    setPacks(nextPacks);
+    setStorage(nextStorage);
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    setBounds(getBounds());
+    load();
+  }, [open, getBounds, load]);
+
+  const estimate = bounds ? estimatePack(bounds, OFFLINE_CONFIG.MIN_ZOOM, Number(maxZoom)) : null;
+  const downloading = progress !== null;
+
+  // Download or refresh a pack with a progress bar that can be cancelled
+  const run = async (action: (onProgress: (p: PackProgress) => void, signal: AbortSignal) => Promise<{ success: boolean; error?: string; pack?: OfflinePack }>) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: 0, bytes: 0 });
+
+    const result = await action(setProgress, controller.signal);
+    abortRef.current = null;
+    setProgress(null);
+    await load();
+
+    if (!result.success) {
+      toast.error(result.error || "Download failed");
+    } else if (result.pack?.failedCount) {
+      toast.warning(`Map saved, but ${result.pack.failedCount} tiles could not be downloaded. Try refreshing it later.`);
+    } else {
+      toast.success("Map saved for offline use");
+    }
+  };
+
+  const saveCurrentArea = () => {
+    if (!bounds) return;
+    run((onProgress, signal) => downloadPack(
+      { name: name.trim() || `Area ${new Date().toLocaleDateString()}`, bounds, minZoom: OFFLINE_CONFIG.MIN_ZOOM, maxZoom: Number(maxZoom) },
+      onProgress,
+      signal
+    ));
+    setName("");
+  };
+
+  const removePack = async (pack: OfflinePack) => {
+    if (!confirm(`Delete the offline map "${pack.name}"?`)) return;
+
+    const result = await deletePack(pack.id);
+    if (!result.success) {
+      toast.error(result.error || "Could not delete the map");
+      return;
+    }
+    toast.success("Offline map deleted");
+    load();
+  };
+
+  const statusBadge = (pack: OfflinePack) => {
+    if (pack.status === "downloading") return <Badge variant="secondary">Downloading</Badge>;
+    if (pack.status === "failed") return <Badge variant="destructive">Failed</Badge>;
+    if (isPackExpired(pack)) return <Badge variant="outline">Expired</Badge>;
+    return <Badge>Ready</Badge>;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && !downloading && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Offline Maps</DialogTitle>
+          <DialogDescription>
+            Save the area on screen so the map keeps working when you run out of coverage.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 rounded-lg border p-3">
+          <Input
+            placeholder="Name, e.g. Belgrad Forest"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            disabled={downloading}
+          />
+          <div className="flex items-center gap-2">
+            <Select value={maxZoom} onValueChange={setMaxZoom} disabled={downloading}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DETAIL_LEVELS.map(level => (
+                  <SelectItem key={level.maxZoom} value={String(level.maxZoom)}>
+                    {level.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex-1 text-sm text-muted-foreground">
+              {estimate
+                ? `~${formatBytes(estimate.bytes)} · ${estimate.tiles} tiles`
+                : "Open the map first"}
+            </div>
+          </div>
+          {estimate?.tooLarge && (
+            <p className="text-sm text-destructive">
+              This area is too large. Zoom in or pick a lower detail level.
+            </p>
+          )}
+          {storage && storage.quota > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {formatBytes(storage.usage)} of {formatBytes(storage.quota)} storage used
+            </p>
+          )}
+
+          {progress ? (
+            <div className="space-y-2">
+              <Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} className="h-2" />
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span>{progress.done}/{progress.total || "…"} · {formatBytes(progress.bytes)}</span>
+                <Button size="sm" variant="ghost" onClick={() => abortRef.current?.abort()}>
+                  <X className="w-4 h-4 mr-1" />
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button className="w-full" onClick={saveCurrentArea} disabled={!estimate || estimate.tooLarge}>
+              <Download className="w-4 h-4 mr-2" />
+              Save This Area
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {packs.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No offline maps yet</p>
+          ) : (
+            packs.map(pack => (
+              <div key={pack.id} className="flex items-center justify-between rounded-lg border p-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{pack.name}</span>
+                    {statusBadge(pack)}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatBytes(pack.bytes)} · expires {new Date(pack.expiresAt).toLocaleDateString()}
+                  </div>
+                  {pack.status === "failed" && pack.error && (
+                    <div className="text-xs text-destructive truncate">{pack.error}</div>
+                  )}
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Download again"
+                    disabled={downloading}
+                    onClick={() => run((onProgress, signal) => refreshPack(pack, onProgress, signal))}
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" title="Delete" disabled={downloading} onClick={() => removePack(pack)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
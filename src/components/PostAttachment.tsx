@@ -0,0 +1,52 @@
+import { Route, Hexagon } from "lucide-react";
+import { PostAttachment as Attachment } from "@/services/postService";
+
+const SIZE = 100;
+const PADDING = 8;
+
+// Project [lng, lat] points into the snapshot box, keeping the aspect ratio
+function toSvgPoints(points: [number, number][]): string {
+  if (points.length === 0) return "";
+
+  const lngs = points.map(([lng]) => lng);
+  const lats = points.map(([, lat]) => lat);
+  const minLng = Math.min(...lngs);
+  const minLat = Math.min(...lats);
+  const span = Math.max(Math.max(...lngs) - minLng, Math.max(...lats) - minLat) || 1;
+  const scale = (SIZE - PADDING * 2) / span;
+
+  return points
+    .map(([lng, lat]) => `${(PADDING + (lng - minLng) * scale).toFixed(1)},${(SIZE - PADDING - (lat - minLat) * scale).toFixed(1)}`)
+    .join(" ");
+}
+
+export default function PostAttachment({ attachment }: { attachment: Attachment }) {
+  const isRun = attachment.type === "run";
+  const points = isRun
+    ? toSvgPoints(attachment.route)
+    : toSvgPoints(attachment.outline.map(({ lat, lng }) => [lng, lat] as [number, number]));
+
+  return (
+    <div className="flex items-center gap-4 rounded-lg border border-border/40 bg-muted/20 p-3">
+      <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="h-24 w-24 shrink-0 rounded-md bg-background/60">
+        {isRun ? (
+          <polyline points={points} fill="none" stroke="hsl(var(--accent))" strokeWidth={3} strokeLinejoin="round" strokeLinecap="round" />
+        ) : (
+          <polygon points={points} fill="hsl(var(--primary) / 0.25)" stroke="hsl(var(--primary))" strokeWidth={2} strokeLinejoin="round" />
+        )}
+      </svg>
+      <div className="space-y-1 text-sm">
+        <p className="flex items-center gap-1 font-semibold">
+          {isRun ? <Route className="h-4 w-4 text-accent" /> : <Hexagon className="h-4 w-4 text-primary" />}
+          {isRun ? "Run" : attachment.name || "Zone"}
+        </p>
+        {isRun && (
+          <p className="text-muted-foreground">
+            {(attachment.distance / 1000).toFixed(2)} km · {new Date(attachment.date).toLocaleDateString()}
+          </p>
+        )}
+        <p className="text-muted-foreground">{Math.round(attachment.area).toLocaleString()} m²</p>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { LogOut, Trophy, Map, Activity, Clock, Target, Award, Settings, User, Heart, Smartphone, Edit2, Copy, Check, Upload, Users } from "lucide-react";
+import { LogOut, Trophy, Map, Activity, Clock, Target, Award, Settings, User, Heart, Smartphone, Edit2, Copy, Check, Upload, Users, FileUp, Download, Swords } from "lucide-react";
 import { motion } from "framer-motion";
 import { useState, useEffect, useRef } from "react";
 import { toast } from "sonner";
@@ -10,6 +10,16 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { importRunFile, getUserRuns, RunImportResult } from "@/services/runService";
+import { XP_CONFIG } from "@/lib/xp-economics";
+import { getCurrentUserInfo } from "@/lib/zklogin";
+import { runsToGPX, runsToGeoJSON, regionsToGeoJSON, regionsToKML, downloadFile, ExportableRegion } from "@/lib/data-export";
+import { Tables } from "@/integrations/supabase/types";
+import { getActiveContests, ActiveContest } from "@/lib/zone-contest";
+import { getRegionHealth, describeZoneHealth, RegionHealth } from "@/lib/zone-decay";
+import { getZoneVisitors, ZoneVisitor } from "@/lib/zone-visits";
+import { Progress } from "@/components/ui/progress";
 
 interface ProfileProps {
   user?: {
@@ -40,6 +50,15 @@ export function Profile({ user, onLogout }: ProfileProps) {
   const [uploading, setUploading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [referralLink, setReferralLink] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [lastImport, setLastImport] = useState<RunImportResult | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [runs, setRuns] = useState<Tables<'runs'>[]>([]);
+  const [ownedRegions, setOwnedRegions] = useState<ExportableRegion[]>([]);
+  const [exportRunId, setExportRunId] = useState("all");
+  const [contests, setContests] = useState<ActiveContest[]>([]);
+  const [zoneHealth, setZoneHealth] = useState<Record<string, RegionHealth>>({});
+  const [zoneVisitors, setZoneVisitors] = useState<ZoneVisitor[]>([]);
 
   // Default values if user is null
   const userStats = user?.stats || {
@@ -53,6 +72,14 @@ export function Profile({ user, onLogout }: ProfileProps) {
     fetchProfile();
   }, []);
 
+  useEffect(() => {
+    if (profile?.id) {
+      fetchExportData(profile.id);
+      getActiveContests(profile.id).then(setContests);
+      getZoneVisitors(profile.id, 20).then(setZoneVisitors);
+    }
+  }, [profile?.id]);
+
   const fetchProfile = async () => {
     const { data: authUser } = await supabase.auth.getUser();
     if (authUser?.user) {
@@ -82,6 +109,48 @@ export function Profile({ user, onLogout }: ProfileProps) {
     }
   };
 
+  const fetchExportData = async (profileId: string) => {
+    const userInfo = getCurrentUserInfo();
+    const [userRuns, { data: regions }] = await Promise.all([
+      userInfo?.email ? getUserRuns(userInfo.email) : Promise.resolve([]),
+      supabase
+        .from('regions')
+        .select('id, name, coordinates, rent_price, nft_id, area, metadata')
+        .eq('owner_id', profileId)
+    ]);
+    setRuns(userRuns);
+    setOwnedRegions(regions || []);
+    setZoneHealth(regions?.length ? await getRegionHealth(regions.map(region => region.id)) : {});
+  };
+
+  const handleExportRuns = (format: 'gpx' | 'geojson') => {
+    const selected = exportRunId === "all" ? runs : runs.filter(run => run.id === exportRunId);
+    if (selected.length === 0) {
+      toast.error("No runs to export");
+      return;
+    }
+
+    const name = exportRunId === "all" ? "strun-runs" : `strun-run-${selected[0].date}`;
+    if (format === 'gpx') {
+      downloadFile(`${name}.gpx`, runsToGPX(selected), "application/gpx+xml");
+    } else {
+      downloadFile(`${name}.geojson`, runsToGeoJSON(selected), "application/geo+json");
+    }
+  };
+
+  const handleExportZones = (format: 'geojson' | 'kml') => {
+    if (ownedRegions.length === 0) {
+      toast.error("You don't own any zones yet");
+      return;
+    }
+
+    if (format === 'kml') {
+      downloadFile("strun-zones.kml", regionsToKML(ownedRegions), "application/vnd.google-earth.kml+xml");
+    } else {
+      downloadFile("strun-zones.geojson", regionsToGeoJSON(ownedRegions), "application/geo+json");
+    }
+  };
+
   const handleAvatarUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -122,6 +191,31 @@ export function Profile({ user, onLogout }: ProfileProps) {
     }
   };
 
+  const handleRunImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const result = await importRunFile(file);
+      setLastImport(result);
+
+      if (result.verification.status !== 'verified') {
+        toast.warning(`Run imported and held for review: ${result.verification.reasons[0]?.message || "unusual GPS data"}`);
+      } else if (result.xp.awarded) {
+        toast.success(`Run imported! ${result.xp.awarded} XP earned`);
+      } else {
+        toast.success("Run imported");
+      }
+    } catch (error) {
+      console.error("Import error:", error);
+      toast.error(error.message || "Failed to import run");
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const achievements = [
     { icon: Activity, title: "Total Runs", value: userStats.totalRuns, color: "text-primary" },
     { icon: Map, title: "Distance", value: `${(userStats.distance / 1000).toFixed(1)}km`, color: "text-accent" },
@@ -384,6 +478,195 @@ export function Profile({ user, onLogout }: ProfileProps) {
           </div>
         </Card>
 
+        {/* Run Import */}
+        <Card className="p-4 bg-card/50 border-white/10 backdrop-blur-sm">
+          <h3 className="text-lg font-semibold text-foreground mb-3 flex items-center gap-2">
+            <FileUp className="w-5 h-5 text-primary" />
+            Import Runs
+          </h3>
+          <div className="space-y-3">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".gpx,.tcx,.fit"
+              onChange={handleRunImport}
+              className="hidden"
+            />
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => importInputRef.current?.click()}
+              disabled={importing}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {importing ? "Importing..." : "Import GPX, TCX or FIT"}
+            </Button>
+            {lastImport && (
+              <div className="p-3 bg-background/50 rounded-lg text-sm space-y-1">
+                <p className="text-foreground">
+                  {(lastImport.distance / 1000).toFixed(2)}km {lastImport.format.toUpperCase()} run
+                  {lastImport.run.recorded_at && ` from ${new Date(lastImport.run.recorded_at).toLocaleDateString()}`}
+                </p>
+                <p className="text-muted-foreground">
+                  {lastImport.verification.status !== 'verified'
+                    ? "Held for review, no XP until it is verified"
+                    : lastImport.xp.reason === 'too_old'
+                      ? "Too old to earn XP"
+                      : `${lastImport.xp.awarded || 0} XP earned${lastImport.xp.capped ? " (daily limit reached)" : ""}`}
+                </p>
+                {lastImport.zone && (
+                  <p className="text-muted-foreground">
+                    Closed loop of {lastImport.zone.area.toFixed(0)}m² found. Zones can only be claimed on live runs.
+                  </p>
+                )}
+                {lastImport.issues.map(issue => (
+                  <p key={issue} className="text-xs text-yellow-500">{issue}</p>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Imported runs earn {XP_CONFIG.IMPORT_XP_PER_KM} XP per km if recorded in the last {XP_CONFIG.IMPORT_MAX_AGE_DAYS} days
+            </p>
+          </div>
+        </Card>
+
+        {/* Zone Contests */}
+        {contests.length > 0 && (
+          <Card className="p-4 bg-card/50 border-white/10 backdrop-blur-sm">
+            <h3 className="text-lg font-semibold text-foreground mb-3 flex items-center gap-2">
+              <Swords className="w-5 h-5 text-primary" />
+              Zone Contests
+            </h3>
+            <div className="space-y-3">
+              {contests.map(contest => (
+                <div key={contest.id} className="p-3 rounded-lg bg-white/5 border border-white/10 space-y-1">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-semibold text-foreground">{contest.regionName}</p>
+                    <span className="text-xs text-muted-foreground">
+                      {contest.role === 'challenger' ? 'Attacking' : 'Defending'}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    You {(contest.myDistance / 1000).toFixed(2)}km vs rival {(contest.rivalDistance / 1000).toFixed(2)}km inside the zone
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Resolves {new Date(contest.resolves_at).toLocaleString()}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {/* Zone Upkeep */}
+        {ownedRegions.length > 0 && (
+          <Card className="p-4 bg-card/50 border-white/10 backdrop-blur-sm">
+            <h3 className="text-lg font-semibold text-foreground mb-1 flex items-center gap-2">
+              <Map className="w-5 h-5 text-primary" />
+              Zone Upkeep
+            </h3>
+            <p className="text-xs text-muted-foreground mb-3">
+              Zones decay unless you run inside them. Run through a zone to restore it.
+            </p>
+            <div className="space-y-3">
+              {ownedRegions.map(region => (
+                <div key={region.id} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-foreground">{region.name}</span>
+                    <span className="text-muted-foreground">
+                      {Math.round((zoneHealth[region.id]?.health ?? 1) * 100)}%
+                    </span>
+                  </div>
+                  <Progress value={(zoneHealth[region.id]?.health ?? 1) * 100} className="h-1.5" />
+                  <p className="text-xs text-muted-foreground">{describeZoneHealth(zoneHealth[region.id])}</p>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {/* Zone Visitors */}
+        {ownedRegions.length > 0 && (
+          <Card className="p-4 bg-card/50 border-white/10 backdrop-blur-sm">
+            <h3 className="text-lg font-semibold text-foreground mb-1 flex items-center gap-2">
+              <Users className="w-5 h-5 text-primary" />
+              Zone Visitors
+            </h3>
+            <p className="text-xs text-muted-foreground mb-3">
+              Runners who crossed your zones recently.
+            </p>
+            {zoneVisitors.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No visitors yet</p>
+            ) : (
+              <div className="space-y-2">
+                {zoneVisitors.map(visit => (
+                  <div key={visit.visit_id} className="flex items-center justify-between text-sm">
+                    <div className="min-w-0">
+                      <p className="text-foreground truncate">
+                        {visit.visitor_username || "Runner"} · {visit.region_name}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(visit.entered_at).toLocaleString([], { dateStyle: "short", timeStyle: "short" })}
+                        {visit.exited_at
+                          ? ` · ${Math.max(1, Math.round((visit.dwell_s || 0) / 60))} min · ${Math.round(visit.distance_m || 0)}m`
+                          : " · still inside"}
+                      </p>
+                    </div>
+                    <span className="text-xs text-muted-foreground capitalize">
+                      {visit.rent_status === "none" ? visit.access : visit.rent_status}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+        )}
+
+        {/* Data Export */}
+        <Card className="p-4 bg-card/50 border-white/10 backdrop-blur-sm">
+          <h3 className="text-lg font-semibold text-foreground mb-3 flex items-center gap-2">
+            <Download className="w-5 h-5 text-primary" />
+            Export Data
+          </h3>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Runs</Label>
+              <Select value={exportRunId} onValueChange={setExportRunId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All runs ({runs.length})</SelectItem>
+                  {runs.map(run => (
+                    <SelectItem key={run.id} value={run.id}>
+                      {new Date(run.created_at || run.date).toLocaleString()}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="grid grid-cols-2 gap-2">
+                <Button size="sm" variant="outline" onClick={() => handleExportRuns('gpx')}>
+                  GPX
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => handleExportRuns('geojson')}>
+                  GeoJSON
+                </Button>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>My zones ({ownedRegions.length})</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <Button size="sm" variant="outline" onClick={() => handleExportZones('geojson')}>
+                  GeoJSON
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => handleExportZones('kml')}>
+                  KML
+                </Button>
+              </div>
+            </div>
+          </div>
+        </Card>
+
         {/* Achievements Grid */}
         <div>
           <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
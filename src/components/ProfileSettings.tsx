@@ -18,7 +18,8 @@ import {
   Globe, 
   Shield,
   Users,
-  Gift
+  Gift,
+  Map
 } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
@@ -28,6 +29,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { MAP_ENGINES, MapEngineId, getMapEngineId, setMapEngineId } from "@/lib/map-engine";
 
 interface ProfileSettingsProps {
   profileId: string;
@@ -51,6 +53,7 @@ export function ProfileSettings({
   const [uploading, setUploading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [referralLink, setReferralLink] = useState('');
+  const [mapEngine, setMapEngine] = useState<MapEngineId>(getMapEngineId);
   
   // Settings state
   const [settings, setSettings] = useState({
@@ -394,6 +397,33 @@ export function ProfileSettings({
                 </SelectContent>
               </Select>
             </div>
+
+            {/* Map engine, kept per device */}
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Map className="w-4 h-4 text-muted-foreground" />
+                <Label htmlFor="mapEngine">Map</Label>
+              </div>
+              <Select
+                value={mapEngine}
+                onValueChange={(value) => {
+                  setMapEngineId(value as MapEngineId);
+                  setMapEngine(value as MapEngineId);
+                  toast.success('Map updated. It will be used the next time you open the map.');
+                }}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MAP_ENGINES.map(engine => (
+                    <SelectItem key={engine.id} value={engine.id} disabled={!engine.available}>
+                      {engine.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
         </Card>
       </TabsContent>
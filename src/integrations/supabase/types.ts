@@ -50,34 +50,72 @@ export type Database = {
         }
         Relationships: []
       }
+      challenge_rotations: {
+        Row: {
+          challenge_id: string
+          created_at: string
+          period: string
+          period_start: string
+        }
+        Insert: {
+          challenge_id: string
+          created_at?: string
+          period: string
+          period_start: string
+        }
+        Update: {
+          challenge_id?: string
+          created_at?: string
+          period?: string
+          period_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "challenge_rotations_challenge_id_fkey"
+            columns: ["challenge_id"]
+            isOneToOne: false
+            referencedRelation: "challenges"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       challenges: {
         Row: {
+          active: boolean
           category: string | null
           created_at: string | null
           description: string | null
           icon: string | null
           id: string
           max_progress: number
+          metric: string
+          period: string
           title: string
           xp_reward: number
         }
         Insert: {
+          active?: boolean
           category?: string | null
           created_at?: string | null
           description?: string | null
           icon?: string | null
           id?: string
           max_progress: number
+          metric?: string
+          period?: string
           title: string
           xp_reward: number
         }
         Update: {
+          active?: boolean
           category?: string | null
           created_at?: string | null
           description?: string | null
           icon?: string | null
           id?: string
           max_progress?: number
+          metric?: string
+          period?: string
           title?: string
           xp_reward?: number
         }
@@ -85,39 +123,74 @@ export type Database = {
       }
       community_posts: {
         Row: {
+          attachment: Json | null
           content: string | null
           created_at: string
           id: string
           image_url: string | null
+          lat: number | null
           likes_count: number | null
+          lng: number | null
           location: string | null
+          metadata: Json
+          post_type: string
+          region_id: string | null
           reposts_count: number | null
+          run_id: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          attachment?: Json | null
           content?: string | null
           created_at?: string
           id?: string
           image_url?: string | null
+          lat?: number | null
           likes_count?: number | null
+          lng?: number | null
           location?: string | null
+          metadata?: Json
+          post_type?: string
+          region_id?: string | null
           reposts_count?: number | null
+          run_id?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          attachment?: Json | null
           content?: string | null
           created_at?: string
           id?: string
           image_url?: string | null
+          lat?: number | null
           likes_count?: number | null
+          lng?: number | null
           location?: string | null
+          metadata?: Json
+          post_type?: string
+          region_id?: string | null
           reposts_count?: number | null
+          run_id?: string | null
           updated_at?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "community_posts_region_id_fkey"
+            columns: ["region_id"]
+            isOneToOne: false
+            referencedRelation: "regions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "community_posts_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "runs"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "community_posts_user_id_fkey"
             columns: ["user_id"]
@@ -148,6 +221,7 @@ export type Database = {
           joined_at: string | null
           rank: number | null
           score: number | null
+          scored_at: string | null
           user_id: string | null
         }
         Insert: {
@@ -156,6 +230,7 @@ export type Database = {
           joined_at?: string | null
           rank?: number | null
           score?: number | null
+          scored_at?: string | null
           user_id?: string | null
         }
         Update: {
@@ -164,6 +239,7 @@ export type Database = {
           joined_at?: string | null
           rank?: number | null
           score?: number | null
+          scored_at?: string | null
           user_id?: string | null
         }
         Relationships: [
@@ -202,6 +278,7 @@ export type Database = {
           created_at: string | null
           description: string | null
           end_date: string
+          finalized_at: string | null
           id: string
           image_url: string | null
           prize: string
@@ -214,6 +291,7 @@ export type Database = {
           created_at?: string | null
           description?: string | null
           end_date: string
+          finalized_at?: string | null
           id?: string
           image_url?: string | null
           prize: string
@@ -226,6 +304,7 @@ export type Database = {
           created_at?: string | null
           description?: string | null
           end_date?: string
+          finalized_at?: string | null
           id?: string
           image_url?: string | null
           prize?: string
@@ -236,26 +315,333 @@ export type Database = {
         }
         Relationships: []
       }
+      economy_settings: {
+        Row: {
+          description: string | null
+          key: string
+          updated_at: string | null
+          value: number
+        }
+        Insert: {
+          description?: string | null
+          key: string
+          updated_at?: string | null
+          value: number
+        }
+        Update: {
+          description?: string | null
+          key?: string
+          updated_at?: string | null
+          value?: number
+        }
+        Relationships: []
+      }
+      follows: {
+        Row: {
+          created_at: string
+          follower_id: string
+          following_id: string
+        }
+        Insert: {
+          created_at?: string
+          follower_id: string
+          following_id: string
+        }
+        Update: {
+          created_at?: string
+          follower_id?: string
+          following_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "follows_follower_id_fkey"
+            columns: ["follower_id"]
+            isOneToOne: false
+            referencedRelation: "leaderboard_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "follows_follower_id_fkey"
+            columns: ["follower_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "follows_follower_id_fkey"
+            columns: ["follower_id"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "follows_following_id_fkey"
+            columns: ["following_id"]
+            isOneToOne: false
+            referencedRelation: "leaderboard_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "follows_following_id_fkey"
+            columns: ["following_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "follows_following_id_fkey"
+            columns: ["following_id"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      group_bans: {
+        Row: {
+          banned_by: string | null
+          created_at: string
+          group_id: string
+          profile_id: string
+          reason: string | null
+        }
+        Insert: {
+          banned_by?: string | null
+          created_at?: string
+          group_id: string
+          profile_id: string
+          reason?: string | null
+        }
+        Update: {
+          banned_by?: string | null
+          created_at?: string
+          group_id?: string
+          profile_id?: string
+          reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_bans_banned_by_fkey"
+            columns: ["banned_by"]
+            isOneToOne: false
+            referencedRelation: "leaderboard_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_bans_banned_by_fkey"
+            columns: ["banned_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_bans_banned_by_fkey"
+            columns: ["banned_by"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_bans_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_bans_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "leaderboard_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_bans_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_bans_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      group_invites: {
+        Row: {
+          code: string
+          created_at: string
+          created_by: string | null
+          expires_at: string
+          group_id: string
+          id: string
+          max_uses: number | null
+          revoked_at: string | null
+          uses: number
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          created_by?: string | null
+          expires_at: string
+          group_id: string
+          id?: string
+          max_uses?: number | null
+          revoked_at?: string | null
+          uses?: number
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string
+          group_id?: string
+          id?: string
+          max_uses?: number | null
+          revoked_at?: string | null
+          uses?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_invites_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "leaderboard_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_invites_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_invites_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_invites_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      group_join_requests: {
+        Row: {
+          created_at: string
+          decided_at: string | null
+          decided_by: string | null
+          group_id: string
+          id: string
+          message: string | null
+          profile_id: string
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          group_id: string
+          id?: string
+          message?: string | null
+          profile_id: string
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          group_id?: string
+          id?: string
+          message?: string | null
+          profile_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_join_requests_decided_by_fkey"
+            columns: ["decided_by"]
+            isOneToOne: false
+            referencedRelation: "leaderboard_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_join_requests_decided_by_fkey"
+            columns: ["decided_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_join_requests_decided_by_fkey"
+            columns: ["decided_by"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_join_requests_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_join_requests_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "leaderboard_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_join_requests_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_join_requests_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       group_members: {
         Row: {
           group_id: string | null
           id: string
           joined_at: string | null
-          role: string | null
+          rent_share: number
+          role: string
           user_email: string | null
         }
         Insert: {
           group_id?: string | null
           id?: string
           joined_at?: string | null
-          role?: string | null
+          rent_share?: number
+          role?: string
           user_email?: string | null
         }
         Update: {
           group_id?: string | null
           id?: string
           joined_at?: string | null
-          role?: string | null
+          rent_share?: number
+          role?: string
           user_email?: string | null
         }
         Relationships: [
@@ -277,28 +663,34 @@ export type Database = {
       }
       groups: {
         Row: {
+          color: string
           created_at: string | null
           description: string | null
           id: string
           image_walrus_cid: string | null
+          is_private: boolean
           location: Json
           name: string
           owner_email: string
         }
         Insert: {
+          color?: string
           created_at?: string | null
           description?: string | null
           id?: string
           image_walrus_cid?: string | null
+          is_private?: boolean
           location: Json
           name: string
           owner_email: string
         }
         Update: {
+          color?: string
           created_at?: string | null
           description?: string | null
           id?: string
           image_walrus_cid?: string | null
+          is_private?: boolean
           location?: Json
           name?: string
           owner_email?: string
@@ -320,6 +712,7 @@ export type Database = {
           created_at: string | null
           id: string
           period: string
+          period_start: string | null
           previous_rank: number | null
           rank: number | null
           updated_at: string | null
@@ -332,6 +725,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           period: string
+          period_start?: string | null
           previous_rank?: number | null
           rank?: number | null
           updated_at?: string | null
@@ -344,6 +738,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           period?: string
+          period_start?: string | null
           previous_rank?: number | null
           rank?: number | null
           updated_at?: string | null
@@ -378,26 +773,41 @@ export type Database = {
         Row: {
           area_completed: number | null
           distance_completed: number | null
+          finished_at: string | null
           id: string
           joined_at: string | null
           lobby_id: string | null
+          progress_at: string | null
+          rank: number | null
+          updated_at: string | null
           user_id: string | null
+          xp_awarded: number
         }
         Insert: {
           area_completed?: number | null
           distance_completed?: number | null
+          finished_at?: string | null
           id?: string
           joined_at?: string | null
           lobby_id?: string | null
+          progress_at?: string | null
+          rank?: number | null
+          updated_at?: string | null
           user_id?: string | null
+          xp_awarded?: number
         }
         Update: {
           area_completed?: number | null
           distance_completed?: number | null
+          finished_at?: string | null
           id?: string
           joined_at?: string | null
           lobby_id?: string | null
+          progress_at?: string | null
+          rank?: number | null
+          updated_at?: string | null
           user_id?: string | null
+          xp_awarded?: number
         }
         Relationships: [
           {
@@ -430,20 +840,75 @@ export type Database = {
           },
         ]
       }
-      post_comments: {
+      notifications: {
         Row: {
-          content: string
+          body: string | null
           created_at: string
+          data: Json
           id: string
-          post_id: string
-          user_id: string
+          profile_id: string
+          read_at: string | null
+          title: string
+          type: string
         }
         Insert: {
-          content: string
+          body?: string | null
           created_at?: string
+          data?: Json
           id?: string
-          post_id: string
-          user_id: string
+          profile_id: string
+          read_at?: string | null
+          title: string
+          type: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          data?: Json
+          id?: string
+          profile_id?: string
+          read_at?: string | null
+          title?: string
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "leaderboard_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_comments: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          post_id: string
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          post_id: string
+          user_id: string
         }
         Update: {
           content?: string
@@ -533,7 +998,7 @@ export type Database = {
           },
         ]
       }
-      posts: {
+      posts_legacy: {
         Row: {
           content: string | null
           created_at: string | null
@@ -650,6 +1115,8 @@ export type Database = {
           referral_count: number | null
           referral_xp_earned: number | null
           referred_by: string | null
+          timezone: string
+          timezone_changed_at: string | null
           total_area: number | null
           total_distance: number | null
           total_runs: number | null
@@ -658,6 +1125,7 @@ export type Database = {
           username: string
           wallet_address: string | null
           xp: number | null
+          xp_debt: number
         }
         Insert: {
           avatar_url?: string | null
@@ -672,6 +1140,8 @@ export type Database = {
           referral_count?: number | null
           referral_xp_earned?: number | null
           referred_by?: string | null
+          timezone?: string
+          timezone_changed_at?: string | null
           total_area?: number | null
           total_distance?: number | null
           total_runs?: number | null
@@ -680,6 +1150,7 @@ export type Database = {
           username: string
           wallet_address?: string | null
           xp?: number | null
+          xp_debt?: number
         }
         Update: {
           avatar_url?: string | null
@@ -694,6 +1165,8 @@ export type Database = {
           referral_count?: number | null
           referral_xp_earned?: number | null
           referred_by?: string | null
+          timezone?: string
+          timezone_changed_at?: string | null
           total_area?: number | null
           total_distance?: number | null
           total_runs?: number | null
@@ -702,6 +1175,7 @@ export type Database = {
           username?: string
           wallet_address?: string | null
           xp?: number | null
+          xp_debt?: number
         }
         Relationships: []
       }
@@ -713,6 +1187,8 @@ export type Database = {
           coordinates: Json
           created_at: string | null
           description: string | null
+          geom: unknown | null
+          group_id: string | null
           id: string
           last_visited: string | null
           metadata: Json | null
@@ -720,6 +1196,7 @@ export type Database = {
           nft_id: string | null
           owner_id: string | null
           rent_price: number | null
+          run_id: string | null
           total_earnings: number | null
           updated_at: string | null
           visitors: number | null
@@ -731,6 +1208,8 @@ export type Database = {
           coordinates: Json
           created_at?: string | null
           description?: string | null
+          geom?: unknown | null
+          group_id?: string | null
           id?: string
           last_visited?: string | null
           metadata?: Json | null
@@ -738,6 +1217,7 @@ export type Database = {
           nft_id?: string | null
           owner_id?: string | null
           rent_price?: number | null
+          run_id?: string | null
           total_earnings?: number | null
           updated_at?: string | null
           visitors?: number | null
@@ -749,6 +1229,8 @@ export type Database = {
           coordinates?: Json
           created_at?: string | null
           description?: string | null
+          geom?: unknown | null
+          group_id?: string | null
           id?: string
           last_visited?: string | null
           metadata?: Json | null
@@ -756,11 +1238,19 @@ export type Database = {
           nft_id?: string | null
           owner_id?: string | null
           rent_price?: number | null
+          run_id?: string | null
           total_earnings?: number | null
           updated_at?: string | null
           visitors?: number | null
         }
         Relationships: [
+          {
+            foreignKeyName: "regions_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "groups"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "regions_owner_id_fkey"
             columns: ["owner_id"]
@@ -782,46 +1272,80 @@ export type Database = {
             referencedRelation: "public_profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "regions_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "runs"
+            referencedColumns: ["id"]
+          },
         ]
       }
       runs: {
         Row: {
+          anti_cheat_reasons: Json
+          anti_cheat_score: number | null
+          area_geom: unknown | null
           area_m2: number | null
-          bbox: Json | null
+          assessed_at: string | null
+          client_run_id: string | null
           created_at: string | null
           date: string
           id: string
+          import_hash: string | null
           nft_minted: boolean | null
           nft_token_id: string | null
-          polygon: Json | null
+          recorded_at: string | null
+          reviewed_at: string | null
           route: Json
+          route_geom: unknown | null
+          source: string
           user_email: string
+          verification_status: string
           walrus_cid: string | null
         }
         Insert: {
+          anti_cheat_reasons?: Json
+          anti_cheat_score?: number | null
+          area_geom?: unknown | null
           area_m2?: number | null
-          bbox?: Json | null
+          assessed_at?: string | null
+          client_run_id?: string | null
           created_at?: string | null
           date?: string
           id?: string
+          import_hash?: string | null
           nft_minted?: boolean | null
           nft_token_id?: string | null
-          polygon?: Json | null
+          recorded_at?: string | null
+          reviewed_at?: string | null
           route: Json
+          route_geom?: unknown | null
+          source?: string
           user_email: string
+          verification_status?: string
           walrus_cid?: string | null
         }
         Update: {
+          anti_cheat_reasons?: Json
+          anti_cheat_score?: number | null
+          area_geom?: unknown | null
           area_m2?: number | null
-          bbox?: Json | null
+          assessed_at?: string | null
+          client_run_id?: string | null
           created_at?: string | null
           date?: string
           id?: string
+          import_hash?: string | null
           nft_minted?: boolean | null
           nft_token_id?: string | null
-          polygon?: Json | null
+          recorded_at?: string | null
+          reviewed_at?: string | null
           route?: Json
+          route_geom?: unknown | null
+          source?: string
           user_email?: string
+          verification_status?: string
           walrus_cid?: string | null
         }
         Relationships: [
@@ -930,9 +1454,11 @@ export type Database = {
           completed_at: string | null
           created_at: string | null
           id: string
+          period_start: string | null
           progress: number | null
           updated_at: string | null
           user_id: string | null
+          xp_awarded: number
         }
         Insert: {
           challenge_id?: string | null
@@ -940,9 +1466,11 @@ export type Database = {
           completed_at?: string | null
           created_at?: string | null
           id?: string
+          period_start?: string | null
           progress?: number | null
           updated_at?: string | null
           user_id?: string | null
+          xp_awarded?: number
         }
         Update: {
           challenge_id?: string | null
@@ -950,9 +1478,11 @@ export type Database = {
           completed_at?: string | null
           created_at?: string | null
           id?: string
+          period_start?: string | null
           progress?: number | null
           updated_at?: string | null
           user_id?: string | null
+          xp_awarded?: number
         }
         Relationships: [
           {
@@ -1079,11 +1609,69 @@ export type Database = {
         }
         Relationships: []
       }
+      xp_debt_events: {
+        Row: {
+          amount: number
+          created_at: string | null
+          debt_after: number
+          entry_id: string | null
+          id: string
+          metadata: Json | null
+          reason: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          debt_after: number
+          entry_id?: string | null
+          id?: string
+          metadata?: Json | null
+          reason: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          debt_after?: number
+          entry_id?: string | null
+          id?: string
+          metadata?: Json | null
+          reason?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "xp_debt_events_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "leaderboard_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "xp_debt_events_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "xp_debt_events_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       xp_transactions: {
         Row: {
           amount: number
+          balance_after: number | null
+          counterparty_id: string | null
           created_at: string | null
           description: string | null
+          entry_id: string | null
           id: string
           metadata: Json | null
           type: string
@@ -1091,8 +1679,11 @@ export type Database = {
         }
         Insert: {
           amount: number
+          balance_after?: number | null
+          counterparty_id?: string | null
           created_at?: string | null
           description?: string | null
+          entry_id?: string | null
           id?: string
           metadata?: Json | null
           type: string
@@ -1100,8 +1691,11 @@ export type Database = {
         }
         Update: {
           amount?: number
+          balance_after?: number | null
+          counterparty_id?: string | null
           created_at?: string | null
           description?: string | null
+          entry_id?: string | null
           id?: string
           metadata?: Json | null
           type?: string
@@ -1109,6 +1703,287 @@ export type Database = {
         }
         Relationships: []
       }
+      zklogin_salts: {
+        Row: {
+          address: string
+          aud: string
+          created_at: string
+          iss: string
+          legacy: boolean
+          salt: string
+          sub: string
+        }
+        Insert: {
+          address: string
+          aud: string
+          created_at?: string
+          iss: string
+          legacy?: boolean
+          salt: string
+          sub: string
+        }
+        Update: {
+          address?: string
+          aud?: string
+          created_at?: string
+          iss?: string
+          legacy?: boolean
+          salt?: string
+          sub?: string
+        }
+        Relationships: []
+      }
+      zone_activity: {
+        Row: {
+          client_run_id: string | null
+          created_at: string
+          distance_m: number
+          id: string
+          loops: number
+          profile_id: string
+          region_id: string
+        }
+        Insert: {
+          client_run_id?: string | null
+          created_at?: string
+          distance_m?: number
+          id?: string
+          loops?: number
+          profile_id: string
+          region_id: string
+        }
+        Update: {
+          client_run_id?: string | null
+          created_at?: string
+          distance_m?: number
+          id?: string
+          loops?: number
+          profile_id?: string
+          region_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "zone_activity_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "leaderboard_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "zone_activity_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "zone_activity_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "zone_activity_region_id_fkey"
+            columns: ["region_id"]
+            isOneToOne: false
+            referencedRelation: "regions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      zone_contests: {
+        Row: {
+          awarded_region_id: string | null
+          challenger_distance: number | null
+          challenger_id: string
+          claim: Json
+          defender_distance: number | null
+          defender_id: string | null
+          id: string
+          nft_transfer_status: string
+          opened_at: string
+          overlap_area: number | null
+          reason: string
+          region_id: string
+          resolved_at: string | null
+          resolves_at: string
+          status: string
+        }
+        Insert: {
+          awarded_region_id?: string | null
+          challenger_distance?: number | null
+          challenger_id: string
+          claim?: Json
+          defender_distance?: number | null
+          defender_id?: string | null
+          id?: string
+          nft_transfer_status?: string
+          opened_at?: string
+          overlap_area?: number | null
+          reason?: string
+          region_id: string
+          resolved_at?: string | null
+          resolves_at: string
+          status?: string
+        }
+        Update: {
+          awarded_region_id?: string | null
+          challenger_distance?: number | null
+          challenger_id?: string
+          claim?: Json
+          defender_distance?: number | null
+          defender_id?: string | null
+          id?: string
+          nft_transfer_status?: string
+          opened_at?: string
+          overlap_area?: number | null
+          reason?: string
+          region_id?: string
+          resolved_at?: string | null
+          resolves_at?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "zone_contests_awarded_region_id_fkey"
+            columns: ["awarded_region_id"]
+            isOneToOne: false
+            referencedRelation: "regions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "zone_contests_challenger_id_fkey"
+            columns: ["challenger_id"]
+            isOneToOne: false
+            referencedRelation: "leaderboard_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "zone_contests_challenger_id_fkey"
+            columns: ["challenger_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "zone_contests_challenger_id_fkey"
+            columns: ["challenger_id"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "zone_contests_defender_id_fkey"
+            columns: ["defender_id"]
+            isOneToOne: false
+            referencedRelation: "leaderboard_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "zone_contests_defender_id_fkey"
+            columns: ["defender_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "zone_contests_defender_id_fkey"
+            columns: ["defender_id"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "zone_contests_region_id_fkey"
+            columns: ["region_id"]
+            isOneToOne: false
+            referencedRelation: "regions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      zone_visits: {
+        Row: {
+          access: string
+          client_run_id: string
+          created_at: string
+          distance_m: number | null
+          dwell_s: number | null
+          entered_at: string
+          entered_run_m: number
+          entry_point: unknown | null
+          exit_point: unknown | null
+          exited_at: string | null
+          id: string
+          profile_id: string
+          region_id: string
+          rent_entry_id: string | null
+          rent_status: string
+        }
+        Insert: {
+          access: string
+          client_run_id: string
+          created_at?: string
+          distance_m?: number | null
+          entered_at: string
+          entered_run_m?: number
+          entry_point?: unknown | null
+          exit_point?: unknown | null
+          exited_at?: string | null
+          id?: string
+          profile_id: string
+          region_id: string
+          rent_entry_id?: string | null
+          rent_status?: string
+        }
+        Update: {
+          access?: string
+          client_run_id?: string
+          created_at?: string
+          distance_m?: number | null
+          entered_at?: string
+          entered_run_m?: number
+          entry_point?: unknown | null
+          exit_point?: unknown | null
+          exited_at?: string | null
+          id?: string
+          profile_id?: string
+          region_id?: string
+          rent_entry_id?: string | null
+          rent_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "zone_visits_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "leaderboard_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "zone_visits_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "zone_visits_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "zone_visits_region_id_fkey"
+            columns: ["region_id"]
+            isOneToOne: false
+            referencedRelation: "regions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       anonymous_leaderboard: {
@@ -1123,6 +1998,37 @@ export type Database = {
         }
         Relationships: []
       }
+      group_standings: {
+        Row: {
+          area: number | null
+          color: string | null
+          id: string | null
+          members: number | null
+          name: string | null
+          rank: number | null
+          weekly_rent: number | null
+          zones: number | null
+        }
+        Relationships: []
+      }
+      leaderboard_rankings: {
+        Row: {
+          avatar_url: string | null
+          category: string | null
+          country: string | null
+          id: string | null
+          is_anonymous: boolean | null
+          is_me: boolean | null
+          period: string | null
+          period_start: string | null
+          previous_rank: number | null
+          profile_id: string | null
+          rank: number | null
+          username: string | null
+          value: number | null
+        }
+        Relationships: []
+      }
       leaderboard_stats: {
         Row: {
           avatar_url: string | null
@@ -1180,8 +2086,46 @@ export type Database = {
         }
         Relationships: []
       }
+      region_health: {
+        Row: {
+          defended_at: string | null
+          effective_rent: number | null
+          health: number | null
+          id: string | null
+          owner_id: string | null
+          reclaimable: boolean | null
+          rent_ceiling: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      adjust_xp_debt: {
+        Args: {
+          p_amount: number
+          p_entry_id?: string
+          p_metadata?: Json
+          p_profile_id: string
+          p_reason: string
+        }
+        Returns: number
+      }
+      apply_entry_penalty: {
+        Args: { p_profile_id: string; p_region_id: string }
+        Returns: Json
+      }
+      assign_zone_to_group: {
+        Args: { p_group_id?: string; p_region_id: string }
+        Returns: undefined
+      }
+      award_imported_run_xp: {
+        Args: { p_run_id: string }
+        Returns: Json
+      }
+      award_run_xp: {
+        Args: { p_run_id: string }
+        Returns: Json
+      }
       award_xp: {
         Args: {
           p_amount: number
@@ -1190,8 +2134,152 @@ export type Database = {
           p_type: string
           p_user_id: string
         }
+        Returns: Json
+      }
+      competition_score: {
+        Args: { p_competition_id: string; p_profile_id: string }
+        Returns: number
+      }
+      confirm_contest_nft_transfer: {
+        Args: { p_contest_id: string; p_profile_id: string }
+        Returns: undefined
+      }
+      create_group_invite: {
+        Args: {
+          p_expires_in_hours?: number
+          p_group_id: string
+          p_max_uses?: number
+          p_profile_id: string
+        }
+        Returns: {
+          code: string
+          created_at: string
+          created_by: string | null
+          expires_at: string
+          group_id: string
+          id: string
+          max_uses: number | null
+          revoked_at: string | null
+          uses: number
+        }
+      }
+      create_lobby: {
+        Args: {
+          p_name: string
+          p_profile_id: string
+          p_target_area?: number
+          p_target_distance?: number
+        }
+        Returns: {
+          code: string
+          created_at: string | null
+          creator_id: string | null
+          end_time: string | null
+          id: string
+          name: string
+          start_time: string | null
+          status: string | null
+          target_area: number | null
+          target_distance: number | null
+          updated_at: string | null
+        }
+      }
+      current_challenges: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          challenge_id: string
+          period: string
+          period_start: string
+          ends_at: string
+        }[]
+      }
+      decide_join_request: {
+        Args: {
+          p_approve: boolean
+          p_profile_id: string
+          p_request_id: string
+        }
+        Returns: undefined
+      }
+      economy_setting: {
+        Args: { p_default: number; p_key: string }
+        Returns: number
+      }
+      finalize_due_competitions: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      finish_lobby: {
+        Args: { p_lobby_id: string; p_profile_id: string }
+        Returns: undefined
+      }
+      garnish_xp_debt: {
+        Args: {
+          p_income: number
+          p_profile_id: string
+          p_source_entry_id: string
+        }
+        Returns: number
+      }
+      geojson_geometry: {
+        Args: { p_geojson: Json }
+        Returns: unknown
+      }
+      get_community_feed: {
+        Args: {
+          p_before?: string
+          p_before_id?: string
+          p_lat?: number
+          p_limit?: number
+          p_lng?: number
+          p_radius_km?: number
+          p_tab?: string
+        }
+        Returns: {
+          id: string
+          user_id: string
+          username: string
+          avatar_url: string
+          content: string
+          image_url: string
+          location: string
+          likes_count: number
+          reposts_count: number
+          post_type: string
+          attachment: Json
+          created_at: string
+          has_liked: boolean
+          is_following: boolean
+          comments: Json
+        }[]
+      }
+      get_daily_earnings: {
+        Args: { p_profile_id: string }
+        Returns: Json
+      }
+      group_rent_shares: {
+        Args: { p_group_id: string }
+        Returns: {
+          profile_id: string
+          username: string
+          avatar_url: string
+          role: string
+          rent_share: number
+          share_fraction: number
+        }[]
+      }
+      group_role: {
+        Args: { p_group_id: string; p_profile_id: string }
         Returns: string
       }
+      has_group_rent_waiver: {
+        Args: { p_group_id: string; p_profile_id: string }
+        Returns: boolean
+      }
+      is_group_member: {
+        Args: { p_group_id: string; p_profile_id: string }
+        Returns: boolean
+      }
       is_lobby_participant: {
         Args: { lobby_uuid: string }
         Returns: boolean
@@ -1200,6 +2288,292 @@ export type Database = {
         Args: { profile_user_id: string }
         Returns: boolean
       }
+      join_competition: {
+        Args: { p_competition_id: string; p_profile_id: string }
+        Returns: string
+      }
+      join_group: {
+        Args: {
+          p_group_id: string
+          p_message?: string
+          p_profile_id: string
+        }
+        Returns: string
+      }
+      join_group_with_invite: {
+        Args: { p_code: string; p_profile_id: string }
+        Returns: string
+      }
+      join_lobby: {
+        Args: { p_code: string; p_profile_id: string }
+        Returns: string
+      }
+      leave_group: {
+        Args: { p_group_id: string; p_profile_id: string }
+        Returns: undefined
+      }
+      leave_lobby: {
+        Args: { p_lobby_id: string; p_profile_id: string }
+        Returns: undefined
+      }
+      my_group_role: {
+        Args: { p_group_id: string }
+        Returns: string
+      }
+      notify: {
+        Args: {
+          p_body: string
+          p_data?: Json
+          p_profile_id: string
+          p_title: string
+          p_type: string
+        }
+        Returns: undefined
+      }
+      open_zone_contest: {
+        Args: {
+          p_claim: Json
+          p_overlap_area: number
+          p_profile_id: string
+          p_region_id: string
+        }
+        Returns: string
+      }
+      pay_zone_rent: {
+        Args: { p_profile_id: string; p_region_id: string }
+        Returns: Json
+      }
+      post_xp_entry: {
+        Args: {
+          p_amount: number
+          p_description: string
+          p_from: string
+          p_metadata?: Json
+          p_to: string
+          p_type: string
+        }
+        Returns: string
+      }
+      process_referral_bonus: {
+        Args: { p_referrer_id: string }
+        Returns: undefined
+      }
+      record_zone_activity: {
+        Args: {
+          p_client_run_id: string
+          p_profile_id: string
+          p_region_id: string
+        }
+        Returns: string
+      }
+      record_zone_enter: {
+        Args: {
+          p_client_run_id: string
+          p_entered_at: string
+          p_lat: number
+          p_lng: number
+          p_profile_id: string
+          p_region_id: string
+          p_run_distance_m: number
+        }
+        Returns: Json
+      }
+      record_zone_exit: {
+        Args: {
+          p_client_run_id: string
+          p_exited_at: string
+          p_lat: number
+          p_lng: number
+          p_profile_id: string
+          p_region_id: string
+          p_run_distance_m: number
+        }
+        Returns: string
+      }
+      region_at_point: {
+        Args: { p_lat: number; p_lng: number }
+        Returns: {
+          group_id: string
+          id: string
+          name: string
+          owner_id: string
+        }[]
+      }
+      region_geometry: {
+        Args: { p_coordinates: Json }
+        Returns: unknown
+      }
+      regions_in_bbox: {
+        Args: {
+          p_east: number
+          p_limit?: number
+          p_north: number
+          p_south: number
+          p_west: number
+        }
+        Returns: {
+          area: number
+          color: string
+          coordinates: Json
+          group_color: string
+          group_id: string
+          group_name: string
+          id: string
+          name: string
+          owner_id: string
+          owner_username: string
+          rent_price: number
+        }[]
+      }
+      regions_intersecting: {
+        Args: { p_geometry: Json }
+        Returns: {
+          coordinates: Json
+          id: string
+          metadata: Json
+          name: string
+          overlap_m2: number
+          owner_id: string
+        }[]
+      }
+      regions_within_radius: {
+        Args: {
+          p_lat: number
+          p_limit?: number
+          p_lng: number
+          p_radius_m: number
+        }
+        Returns: {
+          area: number
+          color: string
+          coordinates: Json
+          group_color: string
+          group_id: string
+          group_name: string
+          id: string
+          name: string
+          owner_id: string
+          owner_username: string
+          rent_price: number
+        }[]
+      }
+      remove_group_member: {
+        Args: {
+          p_ban?: boolean
+          p_group_id: string
+          p_member_id: string
+          p_profile_id: string
+          p_reason?: string
+        }
+        Returns: undefined
+      }
+      report_lobby_progress: {
+        Args: {
+          p_area?: number
+          p_distance: number
+          p_lobby_id: string
+          p_profile_id: string
+        }
+        Returns: string
+      }
+      require_own_profile: {
+        Args: { p_profile_id: string }
+        Returns: string
+      }
+      resolve_due_zone_contests: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      revoke_group_invite: {
+        Args: { p_invite_id: string; p_profile_id: string }
+        Returns: undefined
+      }
+      route_length_m: {
+        Args: { p_route: Json }
+        Returns: number
+      }
+      run_geometry: {
+        Args: { p_polygon?: Json; p_route: Json }
+        Returns: {
+          area_geom: unknown
+          route_geom: unknown
+        }[]
+      }
+      safe_timezone: {
+        Args: { p_timezone: string }
+        Returns: string
+      }
+      set_group_member_role: {
+        Args: {
+          p_group_id: string
+          p_member_id: string
+          p_profile_id: string
+          p_role: string
+        }
+        Returns: undefined
+      }
+      set_group_rent_share: {
+        Args: {
+          p_group_id: string
+          p_member_id: string
+          p_share: number
+        }
+        Returns: undefined
+      }
+      set_profile_timezone: {
+        Args: { p_profile_id: string; p_timezone: string }
+        Returns: Json
+      }
+      settle_zone_visit: {
+        Args: {
+          p_action: string
+          p_profile_id: string
+          p_visit_id: string
+        }
+        Returns: Json
+      }
+      spend_xp: {
+        Args: {
+          p_amount: number
+          p_description: string
+          p_metadata?: Json
+          p_profile_id: string
+          p_type: string
+        }
+        Returns: Json
+      }
+      start_lobby: {
+        Args: { p_lobby_id: string; p_profile_id: string }
+        Returns: {
+          code: string
+          created_at: string | null
+          creator_id: string | null
+          end_time: string | null
+          id: string
+          name: string
+          start_time: string | null
+          status: string | null
+          target_area: number | null
+          target_distance: number | null
+          updated_at: string | null
+        }
+      }
+      transfer_group_ownership: {
+        Args: {
+          p_group_id: string
+          p_new_owner_id: string
+          p_profile_id: string
+        }
+        Returns: undefined
+      }
+      unban_group_member: {
+        Args: {
+          p_group_id: string
+          p_member_id: string
+          p_profile_id: string
+        }
+        Returns: undefined
+      }
       update_leaderboard_entry: {
         Args: {
           p_category: string
@@ -1209,6 +2583,39 @@ export type Database = {
         }
         Returns: undefined
       }
+      xp_system_account: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      zone_distance: {
+        Args: {
+          p_from: string
+          p_profile_id: string
+          p_region_id: string
+          p_to: string
+        }
+        Returns: number
+      }
+      zone_health: {
+        Args: { p_defended_at: string }
+        Returns: number
+      }
+      zone_visitors: {
+        Args: { p_limit?: number; p_profile_id: string }
+        Returns: {
+          access: string
+          distance_m: number
+          dwell_s: number
+          entered_at: string
+          exited_at: string
+          region_id: string
+          region_name: string
+          rent_status: string
+          visit_id: string
+          visitor_id: string
+          visitor_username: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
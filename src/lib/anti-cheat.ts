@@ -0,0 +1,340 @@
+import {
+  RunTrace,
+  calculateDistance,
+  MAX_RUNNING_SPEED,
+  MAX_ACCURACY_THRESHOLD
+} from '@/lib/zone-detection';
+
+export type RunVerificationStatus = 'verified' | 'review' | 'rejected';
+
+export type AntiCheatCode =
+  | 'teleport'
+  | 'vehicle_speed'
+  | 'synthetic_line'
+  | 'duplicate_timestamps'
+  | 'replayed_trace'
+  | 'impossible_speed'
+  | 'poor_accuracy'
+  | 'missing_timestamps';
+
+export interface AntiCheatReason {
+  code: AntiCheatCode;
+  message: string;
+  weight: number; // 0-1 contribution to the score
+}
+
+export interface AntiCheatVerdict {
+  score: number; // 0 = looks genuine, 1 = certainly cheated
+  status: RunVerificationStatus;
+  reasons: AntiCheatReason[];
+}
+
+type LatLng = { lat: number; lng: number };
+
+// Scoring thresholds
+export const REVIEW_SCORE_THRESHOLD = 0.5;
+const TELEPORT_SPEED = MAX_RUNNING_SPEED * 1.5; // m/s between consecutive samples
+const TELEPORT_MIN_JUMP = 50; // meters, ignores small GPS glitches
+const SUSTAINED_RUNNING_SPEED = 6.5; // m/s, above elite marathon pace
+const CONSTANT_SPEED_MIN_DURATION = 60; // seconds
+const CONSTANT_SPEED_MAX_VARIATION = 0.03; // coefficient of variation
+const CONSTANT_SPEED_MIN_SPEED = 1.5; // m/s, standing still is not suspicious
+const STRAIGHT_LINE_MIN_LENGTH = 200; // meters
+const STRAIGHT_LINE_MIN_POINTS = 10;
+const STRAIGHT_LINE_MAX_DEVIATION = 0.5; // meters, real GPS wanders a few meters
+const DUPLICATE_TIMESTAMP_RATIO = 0.1;
+const REPLAY_SAMPLE_SPACING = 10; // meters
+const REPLAY_MAX_MEAN_DISTANCE = 1.5; // meters, two honest runs never line up this closely
+const REPLAY_MIN_LENGTH = 200; // meters
+
+// Run a trace through every detector and combine the findings into one verdict
+// previousRoutes are the user's earlier runs, used to spot replayed recordings
+export function analyzeRunTrace(trace: RunTrace, previousRoutes: LatLng[][] = []): AntiCheatVerdict {
+  const points = trace.points || [];
+  
+  if (points.length < 2) {
+    return { score: 0, status: 'verified', reasons: [] };
+  }
+  
+  const reasons = [
+    detectTeleports(points),
+    detectConstantSpeed(points),
+    detectStraightLines(points),
+    detectDuplicateTimestamps(points),
+    detectReplay(points, previousRoutes),
+    detectImpossibleSpeed(trace),
+    detectPoorAccuracy(points)
+  ].filter((reason): reason is AntiCheatReason => reason !== null);
+  
+  // Independent signals reinforce each other without ever exceeding 1
+  const score = 1 - reasons.reduce((clean, reason) => clean * (1 - reason.weight), 1);
+  
+  return {
+    score: Math.round(score * 100) / 100,
+    status: score >= REVIEW_SCORE_THRESHOLD ? 'review' : 'verified',
+    reasons: reasons.sort((a, b) => b.weight - a.weight)
+  };
+}
+
+// Large jumps between consecutive samples that no runner could cover
+function detectTeleports(points: RunTrace['points']): AntiCheatReason | null {
+  let jumps = 0;
+  let fastest = 0;
+  
+  for (let i = 1; i < points.length; i++) {
+    const seconds = (points[i].timestamp - points[i - 1].timestamp) / 1000;
+    const distance = calculateDistance(points[i - 1], points[i]);
+    if (distance < TELEPORT_MIN_JUMP) continue;
+    
+    const speed = seconds > 0 ? distance / seconds : Infinity;
+    if (speed > TELEPORT_SPEED) {
+      jumps++;
+      fastest = Math.max(fastest, speed);
+    }
+  }
+  
+  if (jumps === 0) return null;
+  
+  return {
+    code: 'teleport',
+    message: Number.isFinite(fastest)
+      ? `${jumps} position jump${jumps > 1 ? 's' : ''} up to ${fastest.toFixed(1)} m/s`
+      : `${jumps} position jump${jumps > 1 ? 's' : ''} with no elapsed time`,
+    weight: Math.min(0.9, 0.35 + 0.15 * (jumps - 1))
+  };
+}
+
+// Long stretches held at an almost perfectly steady speed, like cruise control
+function detectConstantSpeed(points: RunTrace['points']): AntiCheatReason | null {
+  const segments: Array<{ speed: number; seconds: number }> = [];
+  for (let i = 1; i < points.length; i++) {
+    const seconds = (points[i].timestamp - points[i - 1].timestamp) / 1000;
+    if (seconds <= 0) continue;
+    segments.push({ speed: calculateDistance(points[i - 1], points[i]) / seconds, seconds });
+  }
+  
+  let longest = { seconds: 0, speed: 0 };
+  let start = 0;
+  
+  while (start < segments.length) {
+    // Grow the window while the speed stays within the allowed variation
+    let end = start;
+    let sum = 0;
+    let sumSquares = 0;
+    let seconds = 0;
+    
+    while (end < segments.length) {
+      const speed = segments[end].speed;
+      const count = end - start + 1;
+      const mean = (sum + speed) / count;
+      const variance = (sumSquares + speed * speed) / count - mean * mean;
+      const variation = mean > 0 ? Math.sqrt(Math.max(0, variance)) / mean : Infinity;
+      if (count > 1 && variation > CONSTANT_SPEED_MAX_VARIATION) break;
+      
+      sum += speed;
+      sumSquares += speed * speed;
+      seconds += segments[end].seconds;
+      end++;
+    }
+    
+    const mean = sum / Math.max(1, end - start);
+    if (seconds > longest.seconds && mean >= CONSTANT_SPEED_MIN_SPEED) {
+      longest = { seconds, speed: mean };
+    }
+    
+    start = Math.max(start + 1, end);
+  }
+  
+  if (longest.seconds < CONSTANT_SPEED_MIN_DURATION) return null;
+  
+  const vehicleLike = longest.speed > SUSTAINED_RUNNING_SPEED;
+  
+  return {
+    code: 'vehicle_speed',
+    message: `Held ${(longest.speed * 3.6).toFixed(1)} km/h with almost no variation for ${Math.round(longest.seconds)}s`,
+    weight: vehicleLike ? 0.7 : 0.4
+  };
+}
+
+// Segments that follow a ruler-straight line, which real GPS noise never produces
+function detectStraightLines(points: RunTrace['points']): AntiCheatReason | null {
+  const origin = points[0];
+  const projected = points.map(p => toLocalMeters(p, origin));
+  
+  let straightLength = 0;
+  let start = 0;
+  
+  while (start < projected.length - STRAIGHT_LINE_MIN_POINTS + 1) {
+    // Extend the line as long as every point stays on the chord
+    let end = start + 2;
+    while (end < projected.length && maxDeviation(projected, start, end) <= STRAIGHT_LINE_MAX_DEVIATION) {
+      end++;
+    }
+    
+    const last = end - 1;
+    const length = Math.hypot(projected[last].x - projected[start].x, projected[last].y - projected[start].y);
+    
+    if (last - start + 1 >= STRAIGHT_LINE_MIN_POINTS && length >= STRAIGHT_LINE_MIN_LENGTH) {
+      straightLength += length;
+      start = last;
+    } else {
+      start++;
+    }
+  }
+  
+  if (straightLength === 0) return null;
+  
+  const total = projectedLength(projected);
+  const share = total > 0 ? Math.min(1, straightLength / total) : 1;
+  
+  return {
+    code: 'synthetic_line',
+    message: `${Math.round(straightLength)}m of the route is a perfectly straight line`,
+    weight: Math.min(0.8, 0.3 + share * 0.5)
+  };
+}
+
+// Several samples sharing one timestamp point to a generated or edited file
+function detectDuplicateTimestamps(points: RunTrace['points']): AntiCheatReason | null {
+  let duplicates = 0;
+  for (let i = 1; i < points.length; i++) {
+    if (points[i].timestamp === points[i - 1].timestamp) duplicates++;
+  }
+  
+  const ratio = duplicates / (points.length - 1);
+  if (duplicates < 3 || ratio < DUPLICATE_TIMESTAMP_RATIO) return null;
+  
+  return {
+    code: 'duplicate_timestamps',
+    message: `${duplicates} samples repeat the previous timestamp`,
+    weight: Math.min(0.8, 0.3 + ratio)
+  };
+}
+
+// The same recording submitted again lines up with an earlier run almost exactly
+function detectReplay(points: RunTrace['points'], previousRoutes: LatLng[][]): AntiCheatReason | null {
+  const length = routeLength(points);
+  if (length < REPLAY_MIN_LENGTH) return null;
+  
+  const current = resampleRoute(points, REPLAY_SAMPLE_SPACING);
+  
+  for (const previous of previousRoutes) {
+    // A replay starts in the same place and covers the same distance
+    if (previous.length < 2 || calculateDistance(previous[0], points[0]) > REPLAY_SAMPLE_SPACING * 2) continue;
+    if (Math.abs(routeLength(previous) - length) > length * 0.1) continue;
+    
+    const earlier = resampleRoute(previous, REPLAY_SAMPLE_SPACING / 2);
+    const meanDistance = current.reduce(
+      (sum, point) => sum + Math.min(...earlier.map(other => calculateDistance(point, other))),
+      0
+    ) / current.length;
+    
+    if (meanDistance <= REPLAY_MAX_MEAN_DISTANCE) {
+      return {
+        code: 'replayed_trace',
+        message: `Route matches an earlier run within ${meanDistance.toFixed(1)}m on average`,
+        weight: 0.9
+      };
+    }
+  }
+  
+  return null;
+}
+
+// Overall pace beyond what a runner can reach
+function detectImpossibleSpeed(trace: RunTrace): AntiCheatReason | null {
+  if (trace.avgSpeed > MAX_RUNNING_SPEED) {
+    return {
+      code: 'impossible_speed',
+      message: `Average speed ${trace.avgSpeed.toFixed(1)} m/s exceeds maximum`,
+      weight: 0.8
+    };
+  }
+  
+  if (trace.maxSpeed > MAX_RUNNING_SPEED * 1.2) {
+    return {
+      code: 'impossible_speed',
+      message: `Max speed ${trace.maxSpeed.toFixed(1)} m/s is impossible`,
+      weight: 0.3
+    };
+  }
+  
+  return null;
+}
+
+// Mostly inaccurate fixes make every other check less reliable
+function detectPoorAccuracy(points: RunTrace['points']): AntiCheatReason | null {
+  const poorRatio = points.filter(p => p.accuracy > MAX_ACCURACY_THRESHOLD).length / points.length;
+  if (poorRatio <= 0.3) return null;
+  
+  return {
+    code: 'poor_accuracy',
+    message: `Poor GPS accuracy in ${(poorRatio * 100).toFixed(1)}% of samples`,
+    weight: 0.15
+  };
+}
+
+// Equirectangular projection, accurate enough over the span of a run
+function toLocalMeters(point: LatLng, origin: LatLng): { x: number; y: number } {
+  return {
+    x: (point.lng - origin.lng) * 111320 * Math.cos(origin.lat * Math.PI / 180),
+    y: (point.lat - origin.lat) * 110540
+  };
+}
+
+// Largest distance of points[start..end] from the chord between the two ends
+function maxDeviation(points: Array<{ x: number; y: number }>, start: number, end: number): number {
+  const a = points[start];
+  const b = points[end];
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  if (length === 0) return Infinity;
+  
+  let deviation = 0;
+  for (let i = start + 1; i < end; i++) {
+    const cross = Math.abs((b.x - a.x) * (a.y - points[i].y) - (a.x - points[i].x) * (b.y - a.y));
+    deviation = Math.max(deviation, cross / length);
+  }
+  
+  return deviation;
+}
+
+function projectedLength(points: Array<{ x: number; y: number }>): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+  }
+  return length;
+}
+
+function routeLength(points: LatLng[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += calculateDistance(points[i - 1], points[i]);
+  }
+  return length;
+}
+
+// Evenly spaced points along a route so traces with different sample rates compare fairly
+function resampleRoute(points: LatLng[], spacing: number): LatLng[] {
+  if (points.length < 2) return points.map(p => ({ lat: p.lat, lng: p.lng }));
+  
+  const out: LatLng[] = [{ lat: points[0].lat, lng: points[0].lng }];
+  let carried = 0;
+  
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    const segment = calculateDistance(from, to);
+    let offset = spacing - carried;
+    
+    while (offset <= segment) {
+      const t = offset / segment;
+      out.push({ lat: from.lat + (to.lat - from.lat) * t, lng: from.lng + (to.lng - from.lng) * t });
+      offset += spacing;
+    }
+    
+    carried = segment - (offset - spacing);
+  }
+  
+  return out;
+}
@@ -2,112 +2,105 @@ import { Ed25519Keypair } from '@mysten/sui.js/keypairs/ed25519';
 import { SuiClient } from '@mysten/sui.js/client';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
+import { createKeystore, getKeystoreInfo, getSigner, hasKeystore, importLegacyKey, unlockKeystore } from '@/lib/keystore';
 
-const SUI_NETWORK = 'testnet'; // Use testnet for development
+export const SUI_NETWORK = 'testnet'; // Use testnet for development
 const SUI_RPC_URL = `https://fullnode.${SUI_NETWORK}.sui.io:443`;
 
 export interface WalletInfo {
   address: string;
   publicKey: string;
-  privateKey: string; // Encrypted
   createdAt: number;
   network: string;
 }
 
+// A wallet whose keystore is unlocked and can sign
+export interface UnlockedWallet extends WalletInfo {
+  signer: Ed25519Keypair;
+}
+
 /**
- * Generate a new Sui wallet for a user
+ * Move a wallet saved by older versions (base64 key in localStorage) into the keystore
  */
-export async function generateSuiWallet(): Promise<WalletInfo | null> {
+async function migrateLegacyWallet(userId: string): Promise<void> {
+  const legacyKey = `sui_wallet_${userId}`;
+  const stored = localStorage.getItem(legacyKey);
+  if (!stored) return;
+  
   try {
-    // Generate new keypair
-    const keypair = new Ed25519Keypair();
-    const address = keypair.getPublicKey().toSuiAddress();
-    const publicKey = keypair.getPublicKey().toBase64();
-    
-    // Get the private key (in production, this should be encrypted)
-    const privateKeyArray = keypair.export().privateKey;
-    const privateKey = Buffer.from(privateKeyArray).toString('base64');
-
-    const walletInfo: WalletInfo = {
-      address,
-      publicKey,
-      privateKey, // In production, encrypt this before storing
-      createdAt: Date.now(),
-      network: SUI_NETWORK,
-    };
-
-    return walletInfo;
+    const legacy = JSON.parse(stored);
+    if (!(await hasKeystore(userId))) {
+      // The Bech32 key was base64-encoded twice
+      await importLegacyKey(userId, legacy.network || SUI_NETWORK, atob(atob(legacy.privateKey)), legacy.createdAt || Date.now());
+    }
+    localStorage.removeItem(legacyKey);
   } catch (error) {
-    console.error("Error generating Sui wallet:", error);
-    return null;
+    console.error("Error migrating legacy wallet:", error);
   }
 }
 
 /**
- * Store wallet info securely (encrypted) in user's profile
+ * Link the wallet address to the user's profile
  */
-async function storeWalletInfo(userId: string, walletInfo: WalletInfo): Promise<boolean> {
-  try {
-    // In production, encrypt the private key before storing
-    // For now, we'll store it in localStorage (NOT recommended for production)
-    const encryptedWallet = {
-      ...walletInfo,
-      privateKey: btoa(walletInfo.privateKey), // Basic encoding (use proper encryption in production)
-    };
-
-    // Store in localStorage (consider using secure storage in production)
-    localStorage.setItem(`sui_wallet_${userId}`, JSON.stringify(encryptedWallet));
-
-    // Also update the user's profile with the wallet address
-    const { error } = await supabase
-      .from('profiles')
-      .update({ 
-        wallet_address: walletInfo.address,
-      })
-      .eq('id', userId);
-
-    if (error) {
-      console.error("Error updating profile with wallet info:", error);
-      return false;
-    }
-
-    return true;
-  } catch (error) {
-    console.error("Error storing wallet info:", error);
+async function storeWalletAddress(userId: string, address: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ 
+      wallet_address: address,
+    })
+    .eq('user_id', userId);
+  
+  if (error) {
+    console.error("Error updating profile with wallet info:", error);
     return false;
   }
+  
+  return true;
 }
 
 /**
  * Get or create wallet for email-authenticated user
+ * Returns null while a passphrase-protected keystore is locked; unlock it with unlockKeystore
  */
-export async function getOrCreateWalletForUser(userId: string): Promise<WalletInfo | null> {
+export async function getOrCreateWalletForUser(userId: string): Promise<UnlockedWallet | null> {
   try {
-    // Check if wallet already exists
-    const storedWallet = localStorage.getItem(`sui_wallet_${userId}`);
-    if (storedWallet) {
-      const wallet = JSON.parse(storedWallet);
-      // Decrypt the private key
-      wallet.privateKey = atob(wallet.privateKey);
-      return wallet;
+    await migrateLegacyWallet(userId);
+    
+    const existing = await getKeystoreInfo(userId);
+    if (existing) {
+      // Device-protected keys unlock without asking the user
+      if (!existing.unlocked && existing.protection === 'device') {
+        const unlocked = await unlockKeystore(userId);
+        if (!unlocked.success) {
+          console.error("Error unlocking wallet:", unlocked.error);
+          return null;
+        }
+      }
+      
+      const signer = getSigner(userId);
+      if (!signer) return null;
+      
+      const { address, publicKey, createdAt, network } = existing;
+      return { address, publicKey, createdAt, network, signer };
     }
-
-    // Generate new wallet
-    const newWallet = await generateSuiWallet();
-    if (!newWallet) {
+    
+    // Generate new wallet from a fresh recovery phrase
+    const record = await createKeystore(userId, SUI_NETWORK);
+    const signer = getSigner(userId);
+    if (!signer) {
       toast.error("Failed to generate Sui wallet");
       return null;
     }
-
-    // Store wallet info
-    const stored = await storeWalletInfo(userId, newWallet);
+    
+    const stored = await storeWalletAddress(userId, record.address);
     if (!stored) {
       toast.error("Failed to store wallet information");
       return null;
     }
-
-    toast.success(`Sui wallet created: ${newWallet.address.slice(0, 6)}...${newWallet.address.slice(-4)}`);
-    return newWallet;
+    
+    toast.success(`Sui wallet created: ${record.address.slice(0, 6)}...${record.address.slice(-4)}`);
+    const { address, publicKey, createdAt, network } = record;
+    return { address, publicKey, createdAt, network, signer };
   } catch (error) {
     console.error("Error getting or creating wallet:", error);
     toast.error("Failed to setup Sui wallet");
@@ -127,7 +120,7 @@ export async function getWalletBalance(address: string): Promise<{ sui: number;
     
     let suiBalance = 0;
     let walBalance = 0;
-
+    
     for (const coin of coins.data) {
       if (coin.coinType === '0x2::sui::SUI') {
         suiBalance += parseInt(coin.balance);
@@ -135,7 +128,7 @@ export async function getWalletBalance(address: string): Promise<{ sui: number;
         walBalance += parseInt(coin.balance);
       }
     }
-
+    
     // Convert from MIST/FROST to SUI/WAL (1 SUI = 1,000,000,000 MIST)
     return {
       sui: suiBalance / 1_000_000_000,
@@ -155,7 +148,7 @@ export async function requestTestTokens(address: string): Promise<boolean> {
     toast.error("Faucet is only available on testnet");
     return false;
   }
-
+  
   try {
     const response = await fetch('https://faucet.testnet.sui.io/gas', {
       method: 'POST',
@@ -168,11 +161,11 @@ export async function requestTestTokens(address: string): Promise<boolean> {
         },
       }),
     });
-
+    
     if (!response.ok) {
       throw new Error('Failed to request tokens from faucet');
     }
-
+    
     toast.success("Test SUI tokens received!");
     return true;
   } catch (error) {
@@ -189,7 +182,7 @@ export async function initializeUserWallet(session: any): Promise<WalletInfo | n
   if (!session?.user?.id) {
     return null;
   }
-
+  
   // Check if user logged in with email
   if (session.user.email) {
     const wallet = await getOrCreateWalletForUser(session.user.id);
@@ -206,6 +199,6 @@ export async function initializeUserWallet(session: any): Promise<WalletInfo | n
       return wallet;
     }
   }
-
+  
   return null;
 }
\ No newline at end of file
@@ -0,0 +1,91 @@
+// Daily, weekly and permanent challenges with the runner's progress
+// Progress and rewards are recorded by the database from runs, mints, rent and social events
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export type Challenge = Tables<'challenges'>;
+export type ChallengePeriod = 'daily' | 'weekly' | 'once';
+
+export type ActiveChallenge = Challenge & {
+  periodStart: string | null;
+  endsAt: string | null; // when the rotation ends, null for permanent challenges
+  progress: number;
+  completed: boolean;
+  xpAwarded: number;
+};
+
+const PERIOD_ORDER: Record<string, number> = { daily: 0, weekly: 1, once: 2 };
+
+// Current rotation plus permanent challenges, each with this profile's progress
+export async function getActiveChallenges(profileId: string): Promise<ActiveChallenge[]> {
+  try {
+    const { data: current, error } = await supabase.rpc('current_challenges');
+    if (error) throw error;
+    if (!current?.length) return [];
+    
+    const ids = current.map(entry => entry.challenge_id);
+    const [{ data: challenges, error: challengesError }, { data: progress, error: progressError }] = await Promise.all([
+      supabase.from('challenges').select('*').in('id', ids),
+      supabase.from('user_challenges').select('*').eq('user_id', profileId).in('challenge_id', ids)
+    ]);
+    
+    if (challengesError) throw challengesError;
+    if (progressError) throw progressError;
+    
+    return current
+      .map(entry => {
+        const challenge = challenges?.find(c => c.id === entry.challenge_id);
+        if (!challenge) return null;
+        
+        const mine = progress?.find(p => p.challenge_id === entry.challenge_id && p.period_start === entry.period_start);
+        return {
+          ...challenge,
+          periodStart: entry.period_start,
+          endsAt: entry.ends_at,
+          progress: mine?.progress || 0,
+          completed: !!mine?.completed,
+          xpAwarded: mine?.xp_awarded || 0
+        };
+      })
+      .filter((challenge): challenge is ActiveChallenge => challenge !== null)
+      .sort((a, b) => PERIOD_ORDER[a.period] - PERIOD_ORDER[b.period] || Number(a.completed) - Number(b.completed));
+  } catch (error) {
+    console.error('Error fetching challenges:', error);
+    return [];
+  }
+}
+
+// Call onChange whenever this profile's challenge progress moves
+export function subscribeToChallenges(profileId: string, onChange: () => void) {
+  const channel = supabase
+    .channel(`challenges-${profileId}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'user_challenges', filter: `user_id=eq.${profileId}` },
+      () => onChange()
+    )
+    .subscribe();
+  
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+export function formatChallengeValue(challenge: Challenge, value: number): string {
+  if (challenge.metric === 'distance') return `${(value / 1000).toFixed(1)} km`;
+  if (challenge.metric === 'area') return `${Math.round(value).toLocaleString()} m²`;
+  if (challenge.metric === 'earned') return `${value} XP`;
+  return `${value}`;
+}
+
+export function formatChallengeProgress(challenge: ActiveChallenge): string {
+  return `${formatChallengeValue(challenge, challenge.progress)} / ${formatChallengeValue(challenge, challenge.max_progress)}`;
+}
+
+// Time left in the rotation, e.g. "5h left" or "3d left"
+export function formatChallengeTimeLeft(challenge: ActiveChallenge, now: Date = new Date()): string | null {
+  if (!challenge.endsAt) return null;
+  
+  const hours = Math.max(0, (new Date(challenge.endsAt).getTime() - now.getTime()) / 3600000);
+  return hours >= 24 ? `${Math.floor(hours / 24)}d left` : `${Math.ceil(hours)}h left`;
+}
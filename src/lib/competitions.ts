@@ -0,0 +1,109 @@
+// Sponsored competitions: browsing, registration and standings
+// Scores are kept up to date by the database as runs and zone claims come in
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export type Competition = Tables<'competitions'>;
+export type CompetitionType = 'distance' | 'area' | 'zones';
+export type CompetitionPhase = 'upcoming' | 'live' | 'scoring' | 'final';
+
+export type CompetitionEntry = Competition & {
+  phase: CompetitionPhase;
+  participants: number;
+  me: Tables<'competition_participants'> | null;
+};
+
+export type CompetitionStanding = Tables<'competition_participants'> & {
+  username: string;
+  avatarUrl: string | null;
+};
+
+// Ended competitions stay in 'scoring' until finalize_due_competitions freezes them
+export function getCompetitionPhase(competition: Competition, now: Date = new Date()): CompetitionPhase {
+  if (competition.finalized_at) return 'final';
+  if (new Date(competition.start_date) > now) return 'upcoming';
+  if (new Date(competition.end_date) > now) return 'live';
+  return 'scoring';
+}
+
+export function formatCompetitionScore(type: string | null, score: number | null): string {
+  const value = score || 0;
+  if (type === 'area') return `${Math.round(value).toLocaleString()} m²`;
+  if (type === 'zones') return `${value} ${value === 1 ? 'zone' : 'zones'}`;
+  return `${(value / 1000).toFixed(2)} km`;
+}
+
+export function describeCompetitionType(type: string | null): string {
+  if (type === 'area') return 'Most area enclosed';
+  if (type === 'zones') return 'Most zones captured';
+  return 'Most distance run';
+}
+
+// Recent and upcoming competitions with the profile's registration, live ones first
+export async function getCompetitions(profileId?: string): Promise<CompetitionEntry[]> {
+  try {
+    const { data, error } = await supabase
+      .from('competitions')
+      .select('*, competition_participants(*)')
+      .order('end_date', { ascending: false })
+      .limit(50);
+    
+    if (error) throw error;
+    
+    const order: Record<CompetitionPhase, number> = { live: 0, upcoming: 1, scoring: 2, final: 3 };
+    
+    return (data || [])
+      .map(({ competition_participants, ...competition }) => ({
+        ...competition,
+        phase: getCompetitionPhase(competition),
+        participants: competition_participants.length,
+        me: competition_participants.find(participant => participant.user_id === profileId) || null
+      }))
+      .sort((a, b) => order[a.phase] - order[b.phase]);
+  } catch (error) {
+    console.error('Error fetching competitions:', error);
+    return [];
+  }
+}
+
+export async function joinCompetition(profileId: string, competitionId: string): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase.rpc('join_competition', {
+    p_profile_id: profileId,
+    p_competition_id: competitionId
+  });
+  
+  return error ? { success: false, error: error.message } : { success: true };
+}
+
+export async function getCompetitionStandings(competitionId: string, limit: number = 50): Promise<CompetitionStanding[]> {
+  try {
+    const { data, error } = await supabase
+      .from('competition_participants')
+      .select('*, profiles!competition_participants_user_id_fkey(username, avatar_url)')
+      .eq('competition_id', competitionId)
+      .order('rank', { ascending: true, nullsFirst: false })
+      .limit(limit);
+    
+    if (error) throw error;
+    
+    return (data || []).map(({ profiles, ...participant }) => ({
+      ...participant,
+      username: profiles?.username || 'Runner',
+      avatarUrl: profiles?.avatar_url || null
+    }));
+  } catch (error) {
+    console.error('Error fetching competition standings:', error);
+    return [];
+  }
+}
+
+// Freeze standings of competitions that have ended and announce their winners
+export async function finalizeCompetitions(): Promise<number> {
+  const { data, error } = await supabase.rpc('finalize_due_competitions');
+  
+  if (error) {
+    console.error('Error finalizing competitions:', error);
+    return 0;
+  }
+  return data || 0;
+}
@@ -0,0 +1,201 @@
+import { Tables } from '@/integrations/supabase/types';
+
+type Run = Pick<Tables<'runs'>, 'id' | 'date' | 'route' | 'area_m2' | 'created_at'>;
+export type ExportableRegion = Pick<Tables<'regions'>, 'id' | 'name' | 'coordinates' | 'rent_price' | 'nft_id' | 'area' | 'metadata'>;
+type Position = [number, number]; // [lng, lat]
+
+// Route of a run as [lng, lat] positions (runs.route is a GeoJSON LineString)
+export function runPositions(run: Pick<Tables<'runs'>, 'route'>): Position[] {
+  const route = run.route as { coordinates?: Position[] } | null;
+  return (route?.coordinates || []).filter(isPosition);
+}
+
+// Outer ring of a region as a closed [lng, lat] ring
+// regions.coordinates holds the zone polygon ({ lat, lng }[]), but older rows use the
+// createCoordsJson shape or GeoJSON; without either, fall back to the computeZoneId bbox
+export function regionRing(region: Pick<Tables<'regions'>, 'coordinates' | 'metadata'>): Position[] {
+  const metadata = region.metadata as { polygon?: unknown; bbox?: ZoneBBox } | null;
+  const ring = toRing(region.coordinates) || toRing(metadata?.polygon) || bboxRing(metadata?.bbox);
+  if (!ring || ring.length < 3) return [];
+  
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  return first[0] === last[0] && first[1] === last[1] ? ring : [...ring, first];
+}
+
+// Runs as a GeoJSON FeatureCollection of LineStrings
+export function runsToGeoJSON(runs: Run[]): string {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    features: runs.map(run => ({
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: runPositions(run) },
+      properties: {
+        id: run.id,
+        date: run.date,
+        area_m2: run.area_m2,
+        created_at: run.created_at
+      }
+    }))
+  }, null, 2);
+}
+
+// Epoch ms of each route point, when the run was saved with them
+export function runTimestamps(run: Pick<Tables<'runs'>, 'route'>): number[] | null {
+  const route = run.route as { coordinates?: unknown[]; timestamps?: unknown[] } | null;
+  const timestamps = route?.timestamps;
+  if (!Array.isArray(timestamps) || timestamps.length !== route?.coordinates?.length) return null;
+  
+  return timestamps.every(t => typeof t === 'number' && Number.isFinite(t)) ? timestamps as number[] : null;
+}
+
+// Runs as GPX 1.1, one track per run
+// Points carry their recorded <time> so exports can be imported again; runs saved
+// before point times were kept have none to write
+export function runsToGPX(runs: Run[]): string {
+  const tracks = runs.map(run => {
+    const positions = runPositions(run);
+    const timestamps = runTimestamps(run);
+    const timed = timestamps?.length === positions.length;
+    const points = positions
+      .map(([lng, lat], i) => timed
+        ? `      <trkpt lat="${lat}" lon="${lng}"><time>${new Date(timestamps[i]).toISOString()}</time></trkpt>`
+        : `      <trkpt lat="${lat}" lon="${lng}"></trkpt>`)
+      .join('\n');
+    
+    return [
+      '  <trk>',
+      `    <name>${escapeXml(`Run ${run.date}`)}</name>`,
+      '    <type>running</type>',
+      '    <trkseg>',
+      points,
+      '    </trkseg>',
+      '  </trk>'
+    ].join('\n');
+  });
+  
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="STRUN" xmlns="http://www.topografix.com/GPX/1/1">',
+    ...tracks,
+    '</gpx>'
+  ].join('\n');
+}
+
+// Owned zones as a GeoJSON FeatureCollection of Polygons
+export function regionsToGeoJSON(regions: ExportableRegion[]): string {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    features: regions.map(region => ({
+      type: 'Feature',
+      geometry: { type: 'Polygon', coordinates: [regionRing(region)] },
+      properties: {
+        id: region.id,
+        name: region.name,
+        rent_price: region.rent_price,
+        nft_id: region.nft_id,
+        area: region.area
+      }
+    }))
+  }, null, 2);
+}
+
+// Owned zones as KML placemarks, with the zone fields as ExtendedData
+export function regionsToKML(regions: ExportableRegion[]): string {
+  const placemarks = regions.map(region => {
+    const coordinates = regionRing(region).map(([lng, lat]) => `${lng},${lat},0`).join(' ');
+    const data = { id: region.id, rent_price: region.rent_price, nft_id: region.nft_id, area: region.area };
+    
+    return [
+      '    <Placemark>',
+      `      <name>${escapeXml(region.name || region.id)}</name>`,
+      '      <ExtendedData>',
+      ...Object.entries(data).map(([name, value]) =>
+        `        <Data name="${name}"><value>${escapeXml(value == null ? '' : String(value))}</value></Data>`
+      ),
+      '      </ExtendedData>',
+      '      <Polygon>',
+      '        <outerBoundaryIs><LinearRing><coordinates>',
+      `          ${coordinates}`,
+      '        </coordinates></LinearRing></outerBoundaryIs>',
+      '      </Polygon>',
+      '    </Placemark>'
+    ].join('\n');
+  });
+  
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    '    <name>STRUN zones</name>',
+    ...placemarks,
+    '  </Document>',
+    '</kml>'
+  ].join('\n');
+}
+
+// Save generated content through a temporary link
+// The object URL is revoked a moment later, revoking it right after click() can cancel the download
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+interface ZoneBBox {
+  latMin: number;
+  lonMin: number;
+  latMax: number;
+  lonMax: number;
+}
+
+function isPosition(value: unknown): value is Position {
+  return Array.isArray(value) && value.length >= 2 && typeof value[0] === 'number' && typeof value[1] === 'number';
+}
+
+function toRing(value: unknown): Position[] | null {
+  if (typeof value === 'string') {
+    try {
+      return toRing(JSON.parse(value));
+    } catch {
+      return null;
+    }
+  }
+  
+  if (Array.isArray(value) && value.length > 0) {
+    // Zone polygon: [{ lat, lng }]
+    if (value.every(p => p && typeof p.lat === 'number' && typeof p.lng === 'number')) {
+      return value.map(p => [p.lng, p.lat] as Position);
+    }
+    // createCoordsJson: [[lng, lat]]
+    if (value.every(isPosition)) return value;
+    // GeoJSON rings: [[[lng, lat]]]
+    return toRing(value[0]);
+  }
+  
+  const geometry = value as { coordinates?: unknown } | null;
+  return geometry?.coordinates ? toRing(geometry.coordinates) : null;
+}
+
+function bboxRing(bbox?: ZoneBBox): Position[] | null {
+  if (!bbox) return null;
+  
+  return [
+    [bbox.lonMin, bbox.latMin],
+    [bbox.lonMax, bbox.latMin],
+    [bbox.lonMax, bbox.latMax],
+    [bbox.lonMin, bbox.latMax]
+  ];
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
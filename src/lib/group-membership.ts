@@ -0,0 +1,311 @@
+// Club membership: joining, invite links, join requests, roles and moderation
+// Every rule is checked in the database; these are thin wrappers over the RPCs
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export const INVITE_CONFIG = {
+  DEFAULT_HOURS: 72,
+  PARAM: 'invite', // ?invite=CODE on the app URL
+  STORAGE_KEY: 'strun_pending_invite' // survives the login redirect
+};
+
+export type ClubRole = 'owner' | 'admin' | 'member';
+export type JoinStatus = 'joined' | 'requested' | 'member';
+export type ClubInvite = Tables<'group_invites'>;
+
+export interface ClubMember {
+  profileId: string;
+  username: string;
+  avatarUrl: string | null;
+  role: ClubRole;
+}
+
+export interface ClubJoinRequest {
+  id: string;
+  profileId: string;
+  username: string;
+  avatarUrl: string | null;
+  message: string | null;
+  createdAt: string;
+}
+
+export interface ClubBan {
+  profileId: string;
+  username: string;
+  reason: string | null;
+  createdAt: string;
+}
+
+export interface ClubAuditEntry {
+  id: string;
+  action: string;
+  actor: string;
+  target: string | null;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+}
+
+type ClubResult<T = object> = { success: boolean; error?: string } & Partial<T>;
+
+export function canManageClub(role: ClubRole | null): boolean {
+  return role === 'owner' || role === 'admin';
+}
+
+export async function getMyClubRole(profileId: string, groupId: string): Promise<ClubRole | null> {
+  const { data, error } = await supabase.rpc('group_role', { p_group_id: groupId, p_profile_id: profileId });
+  
+  if (error) {
+    console.error('Error fetching club role:', error);
+    return null;
+  }
+  return (data as ClubRole) || null;
+}
+
+// Public clubs let you straight in; private ones get a join request
+export async function joinClub(profileId: string, groupId: string, message?: string): Promise<ClubResult<{ status: JoinStatus }>> {
+  const { data, error } = await supabase.rpc('join_group', {
+    p_profile_id: profileId,
+    p_group_id: groupId,
+    p_message: message
+  });
+  
+  if (error) return { success: false, error: error.message };
+  return { success: true, status: data as JoinStatus };
+}
+
+export async function joinClubWithInvite(profileId: string, code: string): Promise<ClubResult<{ groupId: string }>> {
+  const { data, error } = await supabase.rpc('join_group_with_invite', { p_profile_id: profileId, p_code: code.trim() });
+  
+  if (error) return { success: false, error: error.message };
+  return { success: true, groupId: data };
+}
+
+// Owners must hand the club over first
+export async function leaveClub(profileId: string, groupId: string): Promise<ClubResult> {
+  const { error } = await supabase.rpc('leave_group', { p_profile_id: profileId, p_group_id: groupId });
+  return error ? { success: false, error: error.message } : { success: true };
+}
+
+export async function getClubMembers(groupId: string): Promise<ClubMember[]> {
+  const { data, error } = await supabase.rpc('group_rent_shares', { p_group_id: groupId });
+  
+  if (error) {
+    console.error('Error fetching club members:', error);
+    return [];
+  }
+  
+  const rank: Record<ClubRole, number> = { owner: 0, admin: 1, member: 2 };
+  return (data || [])
+    .map(member => ({
+      profileId: member.profile_id,
+      username: member.username || 'Runner',
+      avatarUrl: member.avatar_url,
+      role: member.role as ClubRole
+    }))
+    .sort((a, b) => rank[a.role] - rank[b.role] || a.username.localeCompare(b.username));
+}
+
+// Owner or admin: an invite lasts 1 hour to 30 days and may be capped
+export async function createClubInvite(profileId: string, groupId: string, hours: number = INVITE_CONFIG.DEFAULT_HOURS, maxUses?: number): Promise<ClubResult<{ invite: ClubInvite }>> {
+  const { data, error } = await supabase.rpc('create_group_invite', {
+    p_profile_id: profileId,
+    p_group_id: groupId,
+    p_expires_in_hours: hours,
+    p_max_uses: maxUses
+  });
+  
+  if (error) return { success: false, error: error.message };
+  return { success: true, invite: data as ClubInvite };
+}
+
+export async function revokeClubInvite(profileId: string, inviteId: string): Promise<ClubResult> {
+  const { error } = await supabase.rpc('revoke_group_invite', { p_profile_id: profileId, p_invite_id: inviteId });
+  return error ? { success: false, error: error.message } : { success: true };
+}
+
+// Invites that can still be used, newest first
+export async function getClubInvites(groupId: string): Promise<ClubInvite[]> {
+  const { data, error } = await supabase
+    .from('group_invites')
+    .select('*')
+    .eq('group_id', groupId)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false });
+  
+  if (error) {
+    console.error('Error fetching club invites:', error);
+    return [];
+  }
+  return (data || []).filter(invite => invite.max_uses === null || invite.uses < invite.max_uses);
+}
+
+export function inviteLink(code: string): string {
+  return `${window.location.origin}/?${INVITE_CONFIG.PARAM}=${code}`;
+}
+
+// Keep an invite from the URL until the runner is signed in to use it
+export function captureInviteFromUrl(): void {
+  const params = new URLSearchParams(window.location.search);
+  const code = params.get(INVITE_CONFIG.PARAM);
+  if (!code) return;
+  
+  localStorage.setItem(INVITE_CONFIG.STORAGE_KEY, code);
+  params.delete(INVITE_CONFIG.PARAM);
+  const query = params.toString();
+  window.history.replaceState({}, '', window.location.pathname + (query ? `?${query}` : ''));
+}
+
+export function takePendingInvite(): string | null {
+  const code = localStorage.getItem(INVITE_CONFIG.STORAGE_KEY);
+  localStorage.removeItem(INVITE_CONFIG.STORAGE_KEY);
+  return code;
+}
+
+export async function getJoinRequests(groupId: string): Promise<ClubJoinRequest[]> {
+  const { data, error } = await supabase
+    .from('group_join_requests')
+    .select('*, profiles!group_join_requests_profile_id_fkey(username, avatar_url)')
+    .eq('group_id', groupId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true });
+  
+  if (error) {
+    console.error('Error fetching join requests:', error);
+    return [];
+  }
+  return (data || []).map(request => ({
+    id: request.id,
+    profileId: request.profile_id,
+    username: request.profiles?.username || 'Runner',
+    avatarUrl: request.profiles?.avatar_url || null,
+    message: request.message,
+    createdAt: request.created_at
+  }));
+}
+
+export async function decideJoinRequest(profileId: string, requestId: string, approve: boolean): Promise<ClubResult> {
+  const { error } = await supabase.rpc('decide_join_request', {
+    p_profile_id: profileId,
+    p_request_id: requestId,
+    p_approve: approve
+  });
+  
+  return error ? { success: false, error: error.message } : { success: true };
+}
+
+// Owner only: promote a member to admin or demote an admin
+export async function setClubMemberRole(profileId: string, groupId: string, memberId: string, role: Exclude<ClubRole, 'owner'>): Promise<ClubResult> {
+  const { error } = await supabase.rpc('set_group_member_role', {
+    p_profile_id: profileId,
+    p_group_id: groupId,
+    p_member_id: memberId,
+    p_role: role
+  });
+  
+  return error ? { success: false, error: error.message } : { success: true };
+}
+
+// Admins remove members, the owner also removes admins; a ban blocks rejoining
+export async function removeClubMember(profileId: string, groupId: string, memberId: string, ban: boolean = false, reason?: string): Promise<ClubResult> {
+  const { error } = await supabase.rpc('remove_group_member', {
+    p_profile_id: profileId,
+    p_group_id: groupId,
+    p_member_id: memberId,
+    p_ban: ban,
+    p_reason: reason
+  });
+  
+  return error ? { success: false, error: error.message } : { success: true };
+}
+
+export async function unbanClubMember(profileId: string, groupId: string, memberId: string): Promise<ClubResult> {
+  const { error } = await supabase.rpc('unban_group_member', {
+    p_profile_id: profileId,
+    p_group_id: groupId,
+    p_member_id: memberId
+  });
+  
+  return error ? { success: false, error: error.message } : { success: true };
+}
+
+export async function getClubBans(groupId: string): Promise<ClubBan[]> {
+  const { data, error } = await supabase
+    .from('group_bans')
+    .select('*, profiles!group_bans_profile_id_fkey(username)')
+    .eq('group_id', groupId)
+    .order('created_at', { ascending: false });
+  
+  if (error) {
+    console.error('Error fetching club bans:', error);
+    return [];
+  }
+  return (data || []).map(ban => ({
+    profileId: ban.profile_id,
+    username: ban.profiles?.username || 'Runner',
+    reason: ban.reason,
+    createdAt: ban.created_at
+  }));
+}
+
+// Owner only: the old owner stays on as an admin
+export async function transferClubOwnership(profileId: string, groupId: string, newOwnerId: string): Promise<ClubResult> {
+  const { error } = await supabase.rpc('transfer_group_ownership', {
+    p_profile_id: profileId,
+    p_group_id: groupId,
+    p_new_owner_id: newOwnerId
+  });
+  
+  return error ? { success: false, error: error.message } : { success: true };
+}
+
+// Readable by the club's owner and admins
+export async function getClubAuditLog(groupId: string, limit: number = 50): Promise<ClubAuditEntry[]> {
+  const { data, error } = await supabase
+    .from('audit_logs')
+    .select('id, action, user_id, metadata, created_at')
+    .eq('table_name', 'groups')
+    .eq('record_id', groupId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  
+  if (error) {
+    console.error('Error fetching club audit log:', error);
+    return [];
+  }
+  
+  const entries = (data || []).map(entry => ({
+    ...entry,
+    metadata: (entry.metadata || {}) as Record<string, unknown>
+  }));
+  const ids = [...new Set(entries.flatMap(entry => [entry.user_id, entry.metadata.target_id as string | null]).filter(Boolean))] as string[];
+  
+  const { data: profiles } = ids.length
+    ? await supabase.from('profiles').select('id, username').in('id', ids)
+    : { data: [] };
+  const names = new Map((profiles || []).map(profile => [profile.id, profile.username]));
+  
+  return entries.map(entry => ({
+    id: entry.id,
+    action: entry.action,
+    actor: (entry.user_id && names.get(entry.user_id)) || 'Runner',
+    target: entry.metadata.target_id ? names.get(entry.metadata.target_id as string) || 'Runner' : null,
+    metadata: entry.metadata,
+    createdAt: entry.created_at || ''
+  }));
+}
+
+// Clubs the runner is waiting to be let into
+export async function getMyPendingClubs(profileId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('group_join_requests')
+    .select('group_id')
+    .eq('profile_id', profileId)
+    .eq('status', 'pending');
+  
+  if (error) {
+    console.error('Error fetching join requests:', error);
+    return [];
+  }
+  return (data || []).map(request => request.group_id);
+}
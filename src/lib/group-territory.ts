@@ -0,0 +1,97 @@
+// Club territory: members pool their zones under a group and share the rent
+// Rent splitting and membership checks happen in the database
+import { supabase } from '@/integrations/supabase/client';
+import { Database, Tables } from '@/integrations/supabase/types';
+
+export type ClubStanding = Tables<'group_standings'>;
+export type ClubRentShare = Database['public']['Functions']['group_rent_shares']['Returns'][number];
+
+export interface Club {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface ClubZone {
+  id: string;
+  name: string;
+  area: number;
+  groupId: string | null;
+}
+
+export const DEFAULT_CLUB_COLOR = '#22C55E';
+
+// Clubs the runner belongs to
+export async function getMyClubs(email: string): Promise<Club[]> {
+  const { data, error } = await supabase
+    .from('group_members')
+    .select('groups(id, name, color)')
+    .eq('user_email', email);
+  
+  if (error) {
+    console.error('Error fetching clubs:', error);
+    return [];
+  }
+  return (data || []).flatMap(member => member.groups ? [member.groups] : []);
+}
+
+// The runner's zones, with the club each one is pooled in
+export async function getMyZones(profileId: string): Promise<ClubZone[]> {
+  const { data, error } = await supabase
+    .from('regions')
+    .select('id, name, area, group_id')
+    .eq('owner_id', profileId)
+    .order('claimed_at', { ascending: false });
+  
+  if (error) {
+    console.error('Error fetching zones:', error);
+    return [];
+  }
+  return (data || []).map(zone => ({ id: zone.id, name: zone.name, area: zone.area, groupId: zone.group_id }));
+}
+
+// Pool a zone under a club, or take it back with null
+export async function assignZoneToClub(zoneId: string, groupId: string | null): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase.rpc('assign_zone_to_group', {
+    p_region_id: zoneId,
+    p_group_id: groupId ?? undefined
+  });
+  
+  return error ? { success: false, error: error.message } : { success: true };
+}
+
+export async function getClubRentShares(groupId: string): Promise<ClubRentShare[]> {
+  const { data, error } = await supabase.rpc('group_rent_shares', { p_group_id: groupId });
+  
+  if (error) {
+    console.error('Error fetching rent shares:', error);
+    return [];
+  }
+  return data || [];
+}
+
+// Shares are weights from 0 to 100; only the club owner may change them
+export async function setClubRentShare(groupId: string, profileId: string, share: number): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase.rpc('set_group_rent_share', {
+    p_group_id: groupId,
+    p_member_id: profileId,
+    p_share: share
+  });
+  
+  return error ? { success: false, error: error.message } : { success: true };
+}
+
+export async function getClubStandings(limit: number = 50): Promise<ClubStanding[]> {
+  const { data, error } = await supabase
+    .from('group_standings')
+    .select('*')
+    .gt('zones', 0)
+    .order('rank', { ascending: true })
+    .limit(limit);
+  
+  if (error) {
+    console.error('Error fetching club standings:', error);
+    return [];
+  }
+  return data || [];
+}
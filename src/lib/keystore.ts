@@ -0,0 +1,424 @@
+// Encrypted keystore for auto-generated Sui wallets
+// The wallet secret (a recovery phrase, or the raw key of wallets created before
+// phrases were used) is encrypted with AES-GCM, either under a key derived from the
+// user's passphrase or under a non-extractable WebCrypto key kept on this device.
+// Records live in native secure storage on mobile and in IndexedDB on the web.
+import { Capacitor, registerPlugin } from '@capacitor/core';
+import { Ed25519Keypair } from '@mysten/sui.js/keypairs/ed25519';
+import { decodeSuiPrivateKey } from '@mysten/sui.js/cryptography';
+import { generateMnemonic, validateMnemonic } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
+
+export type KeystoreProtection = 'device' | 'passphrase';
+type SecretType = 'mnemonic' | 'privateKey'; // privateKey is a Bech32 suiprivkey string
+
+interface EncryptedSecret {
+  iv: string;
+  ciphertext: string;
+  salt?: string; // passphrase protection only
+  iterations?: number;
+}
+
+export interface KeystoreRecord {
+  version: 1;
+  address: string;
+  publicKey: string;
+  network: string;
+  createdAt: number;
+  protection: KeystoreProtection;
+  secretType: SecretType;
+  secret: EncryptedSecret;
+}
+
+// Portable backup, always protected by a backup passphrase
+interface KeystoreBackup {
+  format: 'strun-keystore-backup';
+  version: 1;
+  address: string;
+  network: string;
+  createdAt: number;
+  secretType: SecretType;
+  secret: EncryptedSecret;
+}
+
+export type KeystoreInfo = Omit<KeystoreRecord, 'secret'> & { unlocked: boolean };
+
+export interface KeystoreResult {
+  success: boolean;
+  error?: string;
+}
+
+export const KEYSTORE_CONFIG = {
+  SESSION_TIMEOUT_MS: 15 * 60 * 1000, // signer is dropped after this long without use
+  PBKDF2_ITERATIONS: 310000,
+  MIN_PASSPHRASE_LENGTH: 8
+};
+
+// capacitor-secure-storage-plugin (Keychain / Android Keystore)
+interface SecureStoragePlugin {
+  get(options: { key: string }): Promise<{ value: string }>;
+  set(options: { key: string; value: string }): Promise<{ value: boolean }>;
+  remove(options: { key: string }): Promise<{ value: boolean }>;
+}
+
+const SecureStorage = registerPlugin<SecureStoragePlugin>('SecureStoragePlugin');
+
+const DB_NAME = 'strun-keystore';
+const RECORD_PREFIX = 'strun_keystore_';
+
+const sessions = new Map<string, { signer: Ed25519Keypair; expiresAt: number; timer: ReturnType<typeof setTimeout> }>();
+const listeners = new Set<(userId: string, unlocked: boolean) => void>();
+
+// Get notified when a keystore is locked or unlocked
+export function subscribeKeystore(listener: (userId: string, unlocked: boolean) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export async function hasKeystore(userId: string): Promise<boolean> {
+  return (await loadRecord(userId)) !== null;
+}
+
+export async function getKeystoreInfo(userId: string): Promise<KeystoreInfo | null> {
+  const record = await loadRecord(userId);
+  if (!record) return null;
+  
+  const { secret: _secret, ...info } = record;
+  return { ...info, unlocked: isKeystoreUnlocked(userId) };
+}
+
+// Create a wallet from a fresh recovery phrase and leave it unlocked
+export async function createKeystore(
+  userId: string,
+  network: string,
+  protection: KeystoreProtection = 'device',
+  passphrase?: string
+): Promise<KeystoreRecord> {
+  const mnemonic = generateMnemonic(wordlist);
+  return saveSecret(userId, { network, createdAt: Date.now() }, 'mnemonic', mnemonic, protection, passphrase);
+}
+
+// Move a wallet from the old localStorage format into the keystore
+export async function importLegacyKey(userId: string, network: string, privateKey: string, createdAt: number): Promise<KeystoreRecord> {
+  return saveSecret(userId, { network, createdAt }, 'privateKey', privateKey, 'device');
+}
+
+export async function unlockKeystore(userId: string, passphrase?: string): Promise<KeystoreResult> {
+  const record = await loadRecord(userId);
+  if (!record) return { success: false, error: 'No wallet found on this device' };
+  
+  try {
+    const secret = await decryptSecret(userId, record.protection, record.secret, passphrase);
+    const signer = signerFromSecret(record.secretType, secret);
+    
+    if (signer.getPublicKey().toSuiAddress() !== record.address) {
+      return { success: false, error: 'Keystore does not match the wallet address' };
+    }
+    
+    startSession(userId, signer);
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: describeError(error) };
+  }
+}
+
+export function lockKeystore(userId: string) {
+  const session = sessions.get(userId);
+  if (!session) return;
+  
+  clearTimeout(session.timer);
+  sessions.delete(userId);
+  listeners.forEach(listener => listener(userId, false));
+}
+
+export function isKeystoreUnlocked(userId: string): boolean {
+  const session = sessions.get(userId);
+  return !!session && session.expiresAt > Date.now();
+}
+
+// The signer for an unlocked keystore; each use extends the session
+export function getSigner(userId: string): Ed25519Keypair | null {
+  const session = sessions.get(userId);
+  if (!session || session.expiresAt <= Date.now()) return null;
+  
+  startSession(userId, session.signer);
+  return session.signer;
+}
+
+// Switch between a passphrase and the device key, re-encrypting the secret
+export async function setKeystoreProtection(
+  userId: string,
+  protection: KeystoreProtection,
+  currentPassphrase?: string,
+  newPassphrase?: string
+): Promise<KeystoreResult> {
+  const record = await loadRecord(userId);
+  if (!record) return { success: false, error: 'No wallet found on this device' };
+  
+  try {
+    const secret = await decryptSecret(userId, record.protection, record.secret, currentPassphrase);
+    await saveSecret(userId, record, record.secretType, secret, protection, newPassphrase);
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: describeError(error) };
+  }
+}
+
+// The recovery phrase, for writing down; needs the passphrase again if one is set
+export async function revealRecoveryPhrase(userId: string, passphrase?: string): Promise<KeystoreResult & { phrase?: string }> {
+  const record = await loadRecord(userId);
+  if (!record) return { success: false, error: 'No wallet found on this device' };
+  if (!isKeystoreUnlocked(userId)) return { success: false, error: 'Unlock your wallet first' };
+  if (record.secretType !== 'mnemonic') {
+    return { success: false, error: 'This wallet was created before recovery phrases. Use an encrypted backup instead.' };
+  }
+  
+  try {
+    return { success: true, phrase: await decryptSecret(userId, record.protection, record.secret, passphrase) };
+  } catch (error) {
+    return { success: false, error: describeError(error) };
+  }
+}
+
+// Backup file with the secret encrypted under its own passphrase
+export async function createKeystoreBackup(
+  userId: string,
+  backupPassphrase: string,
+  passphrase?: string
+): Promise<KeystoreResult & { backup?: string }> {
+  const record = await loadRecord(userId);
+  if (!record) return { success: false, error: 'No wallet found on this device' };
+  if (!isKeystoreUnlocked(userId)) return { success: false, error: 'Unlock your wallet first' };
+  if (backupPassphrase.length < KEYSTORE_CONFIG.MIN_PASSPHRASE_LENGTH) {
+    return { success: false, error: `Backup passphrase must be at least ${KEYSTORE_CONFIG.MIN_PASSPHRASE_LENGTH} characters` };
+  }
+  
+  try {
+    const secret = await decryptSecret(userId, record.protection, record.secret, passphrase);
+    const backup: KeystoreBackup = {
+      format: 'strun-keystore-backup',
+      version: 1,
+      address: record.address,
+      network: record.network,
+      createdAt: record.createdAt,
+      secretType: record.secretType,
+      secret: await encryptWithPassphrase(secret, backupPassphrase)
+    };
+    return { success: true, backup: JSON.stringify(backup, null, 2) };
+  } catch (error) {
+    return { success: false, error: describeError(error) };
+  }
+}
+
+// Restore a wallet from a backup file or a written-down recovery phrase
+export async function restoreKeystore(
+  userId: string,
+  source: { backup: string; backupPassphrase: string } | { phrase: string; network: string },
+  protection: KeystoreProtection = 'device',
+  passphrase?: string
+): Promise<KeystoreResult & { address?: string }> {
+  try {
+    let record: KeystoreRecord;
+    
+    if ('phrase' in source) {
+      const phrase = source.phrase.trim().toLowerCase().split(/\s+/).join(' ');
+      if (!validateMnemonic(phrase, wordlist)) {
+        return { success: false, error: 'That recovery phrase is not valid' };
+      }
+      record = await saveSecret(userId, { network: source.network, createdAt: Date.now() }, 'mnemonic', phrase, protection, passphrase);
+    } else {
+      const backup = JSON.parse(source.backup) as KeystoreBackup;
+      if (backup.format !== 'strun-keystore-backup') {
+        return { success: false, error: 'Not a STRUN wallet backup' };
+      }
+      
+      const secret = await decryptWithPassphrase(backup.secret, source.backupPassphrase);
+      record = await saveSecret(userId, backup, backup.secretType, secret, protection, passphrase);
+    }
+    
+    return { success: true, address: record.address };
+  } catch (error) {
+    return { success: false, error: describeError(error) };
+  }
+}
+
+function startSession(userId: string, signer: Ed25519Keypair) {
+  const wasUnlocked = isKeystoreUnlocked(userId);
+  const previous = sessions.get(userId);
+  if (previous) clearTimeout(previous.timer);
+  
+  sessions.set(userId, {
+    signer,
+    expiresAt: Date.now() + KEYSTORE_CONFIG.SESSION_TIMEOUT_MS,
+    timer: setTimeout(() => lockKeystore(userId), KEYSTORE_CONFIG.SESSION_TIMEOUT_MS)
+  });
+  
+  if (!wasUnlocked) listeners.forEach(listener => listener(userId, true));
+}
+
+function signerFromSecret(secretType: SecretType, secret: string): Ed25519Keypair {
+  return secretType === 'mnemonic'
+    ? Ed25519Keypair.deriveKeypair(secret)
+    : Ed25519Keypair.fromSecretKey(decodeSuiPrivateKey(secret).secretKey);
+}
+
+// Encrypt and store a secret, replacing any existing record, and unlock it
+async function saveSecret(
+  userId: string,
+  meta: { network: string; createdAt: number },
+  secretType: SecretType,
+  secret: string,
+  protection: KeystoreProtection,
+  passphrase?: string
+): Promise<KeystoreRecord> {
+  if (protection === 'passphrase' && (passphrase || '').length < KEYSTORE_CONFIG.MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${KEYSTORE_CONFIG.MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  
+  const signer = signerFromSecret(secretType, secret);
+  const record: KeystoreRecord = {
+    version: 1,
+    address: signer.getPublicKey().toSuiAddress(),
+    publicKey: signer.getPublicKey().toBase64(),
+    network: meta.network,
+    createdAt: meta.createdAt,
+    protection,
+    secretType,
+    secret: protection === 'passphrase'
+      ? await encryptWithPassphrase(secret, passphrase as string)
+      : await encryptWithDeviceKey(userId, secret)
+  };
+  
+  await storeRecord(userId, record);
+  startSession(userId, signer);
+  return record;
+}
+
+function decryptSecret(userId: string, protection: KeystoreProtection, secret: EncryptedSecret, passphrase?: string): Promise<string> {
+  if (protection === 'passphrase') {
+    if (!passphrase) throw new Error('Passphrase required');
+    return decryptWithPassphrase(secret, passphrase);
+  }
+  return decryptWithDeviceKey(userId, secret);
+}
+
+async function passphraseKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function encryptWithPassphrase(secret: string, passphrase: string): Promise<EncryptedSecret> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iterations = KEYSTORE_CONFIG.PBKDF2_ITERATIONS;
+  const encrypted = await encrypt(await passphraseKey(passphrase, salt, iterations), secret);
+  return { ...encrypted, salt: toBase64(salt), iterations };
+}
+
+async function decryptWithPassphrase(secret: EncryptedSecret, passphrase: string): Promise<string> {
+  const key = await passphraseKey(passphrase, fromBase64(secret.salt || ''), secret.iterations || KEYSTORE_CONFIG.PBKDF2_ITERATIONS);
+  return decrypt(key, secret);
+}
+
+async function encryptWithDeviceKey(userId: string, secret: string): Promise<EncryptedSecret> {
+  let key = await idb<CryptoKey | undefined>('device_keys', 'readonly', store => store.get(userId));
+  if (!key) {
+    key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    await idb('device_keys', 'readwrite', store => store.put(key as CryptoKey, userId));
+  }
+  return encrypt(key, secret);
+}
+
+async function decryptWithDeviceKey(userId: string, secret: EncryptedSecret): Promise<string> {
+  const key = await idb<CryptoKey | undefined>('device_keys', 'readonly', store => store.get(userId));
+  if (!key) throw new Error('The device key for this wallet is missing. Restore it from a backup.');
+  return decrypt(key, secret);
+}
+
+async function encrypt(key: CryptoKey, secret: string): Promise<EncryptedSecret> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(secret));
+  return { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+}
+
+async function decrypt(key: CryptoKey, secret: EncryptedSecret): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(secret.iv) }, key, fromBase64(secret.ciphertext));
+  return new TextDecoder().decode(plaintext);
+}
+
+// AES-GCM reports a wrong key as a bare OperationError
+function describeError(error: unknown): string {
+  if (error instanceof DOMException && error.name === 'OperationError') return 'Incorrect passphrase';
+  return error instanceof Error ? error.message : String(error);
+}
+
+function hasSecureStorage(): boolean {
+  return Capacitor.isNativePlatform() && Capacitor.isPluginAvailable('SecureStoragePlugin');
+}
+
+async function loadRecord(userId: string): Promise<KeystoreRecord | null> {
+  if (hasSecureStorage()) {
+    try {
+      const { value } = await SecureStorage.get({ key: RECORD_PREFIX + userId });
+      return JSON.parse(value) as KeystoreRecord;
+    } catch {
+      return null; // the plugin rejects missing keys
+    }
+  }
+  
+  return (await idb<KeystoreRecord | undefined>('records', 'readonly', store => store.get(userId))) || null;
+}
+
+async function storeRecord(userId: string, record: KeystoreRecord): Promise<void> {
+  if (hasSecureStorage()) {
+    await SecureStorage.set({ key: RECORD_PREFIX + userId, value: JSON.stringify(record) });
+    return;
+  }
+  
+  await idb('records', 'readwrite', store => store.put(record, userId));
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore('records');
+        request.result.createObjectStore('device_keys');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function idb<T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDB();
+  
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
@@ -0,0 +1,85 @@
+// Leaderboards by category and period, kept up to date by the database after every run
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export type LeaderboardCategory = 'distance' | 'area' | 'xp' | 'zones';
+export type LeaderboardPeriod = 'daily' | 'weekly' | 'monthly' | 'all_time';
+
+// Anonymous rows carry no profile_id, username or avatar
+export type LeaderboardRow = Tables<'leaderboard_rankings'>;
+
+export interface LeaderboardPage {
+  rows: LeaderboardRow[]; // best first
+  me: LeaderboardRow | null; // the runner's own row, even when it is below the page
+}
+
+export const LEADERBOARD_CONFIG = {
+  PAGE_SIZE: 100
+};
+
+export async function getLeaderboard(category: LeaderboardCategory, period: LeaderboardPeriod, country?: string): Promise<LeaderboardPage> {
+  try {
+    let rowsQuery = supabase
+      .from('leaderboard_rankings')
+      .select('*')
+      .eq('category', category)
+      .eq('period', period)
+      .order('rank', { ascending: true })
+      .limit(LEADERBOARD_CONFIG.PAGE_SIZE);
+    let meQuery = supabase
+      .from('leaderboard_rankings')
+      .select('*')
+      .eq('category', category)
+      .eq('period', period)
+      .eq('is_me', true);
+    
+    if (country) {
+      rowsQuery = rowsQuery.eq('country', country);
+      meQuery = meQuery.eq('country', country);
+    }
+    
+    const [{ data: rows, error: rowsError }, { data: me, error: meError }] = await Promise.all([
+      rowsQuery,
+      meQuery.maybeSingle()
+    ]);
+    
+    if (rowsError) throw rowsError;
+    if (meError) throw meError;
+    
+    return { rows: rows || [], me };
+  } catch (error) {
+    console.error('Error fetching leaderboard:', error);
+    return { rows: [], me: null };
+  }
+}
+
+// Countries that have someone on this board, for the country filter
+export async function getLeaderboardCountries(category: LeaderboardCategory, period: LeaderboardPeriod): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('leaderboard_rankings')
+    .select('country')
+    .eq('category', category)
+    .eq('period', period)
+    .not('country', 'is', null)
+    .limit(1000);
+  
+  if (error) {
+    console.error('Error fetching leaderboard countries:', error);
+    return [];
+  }
+  return [...new Set((data || []).map(row => row.country as string))].sort();
+}
+
+// Places gained since the previous rank (negative when the runner dropped)
+export function rankMovement(row: LeaderboardRow): number {
+  if (!row.rank || !row.previous_rank) return 0;
+  return row.previous_rank - row.rank;
+}
+
+export function formatLeaderboardValue(category: LeaderboardCategory, value: number | null): string {
+  const amount = value || 0;
+  if (category === 'distance') return `${(amount / 1000).toFixed(1)} km`;
+  if (category === 'area') return `${Math.round(amount).toLocaleString()} m²`;
+  if (category === 'zones') return `${amount} ${amount === 1 ? 'zone' : 'zones'}`;
+  return `${amount.toLocaleString()} XP`;
+}
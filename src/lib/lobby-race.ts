@@ -0,0 +1,165 @@
+// Private lobby races: create or join by code, start together, report live progress
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export const LOBBY_CONFIG = {
+  PROGRESS_INTERVAL_MS: 5000 // how often a runner's progress is pushed to the lobby
+};
+
+export type Lobby = Tables<'private_lobbies'>;
+
+export type LobbyRunner = Tables<'lobby_participants'> & {
+  username: string;
+  avatarUrl: string | null;
+  progress: number; // 0..1 of the lobby target
+};
+
+export interface LobbyState {
+  lobby: Lobby;
+  runners: LobbyRunner[]; // best placed first
+}
+
+export type LobbyTarget = { distance: number } | { area: number };
+
+type LobbyResult<T = object> = { success: boolean; error?: string } & Partial<T>;
+
+export async function createLobby(profileId: string, name: string, target: LobbyTarget): Promise<LobbyResult<{ lobby: Lobby }>> {
+  const { data, error } = await supabase.rpc('create_lobby', {
+    p_profile_id: profileId,
+    p_name: name,
+    p_target_distance: 'distance' in target ? target.distance : undefined,
+    p_target_area: 'area' in target ? target.area : undefined
+  });
+  
+  if (error) return { success: false, error: error.message };
+  return { success: true, lobby: data as Lobby };
+}
+
+export async function joinLobby(profileId: string, code: string): Promise<LobbyResult<{ lobbyId: string }>> {
+  const { data, error } = await supabase.rpc('join_lobby', { p_profile_id: profileId, p_code: code });
+  
+  if (error) return { success: false, error: error.message };
+  return { success: true, lobbyId: data };
+}
+
+export async function leaveLobby(profileId: string, lobbyId: string): Promise<LobbyResult> {
+  const { error } = await supabase.rpc('leave_lobby', { p_profile_id: profileId, p_lobby_id: lobbyId });
+  return error ? { success: false, error: error.message } : { success: true };
+}
+
+// Host only: everyone's run starts now
+export async function startLobby(profileId: string, lobbyId: string): Promise<LobbyResult> {
+  const { error } = await supabase.rpc('start_lobby', { p_profile_id: profileId, p_lobby_id: lobbyId });
+  return error ? { success: false, error: error.message } : { success: true };
+}
+
+// Host only: rank everyone by their progress so far and pay out
+export async function finishLobby(profileId: string, lobbyId: string): Promise<LobbyResult> {
+  const { error } = await supabase.rpc('finish_lobby', { p_profile_id: profileId, p_lobby_id: lobbyId });
+  return error ? { success: false, error: error.message } : { success: true };
+}
+
+// Push this runner's totals; returns the lobby status afterwards
+export async function reportLobbyProgress(profileId: string, lobbyId: string, distance: number, area: number): Promise<string | null> {
+  const { data, error } = await supabase.rpc('report_lobby_progress', {
+    p_profile_id: profileId,
+    p_lobby_id: lobbyId,
+    p_distance: Math.round(distance),
+    p_area: Math.round(area)
+  });
+  
+  if (error) {
+    console.error('Error reporting lobby progress:', error);
+    return null;
+  }
+  return data;
+}
+
+export async function getLobbyState(lobbyId: string): Promise<LobbyState | null> {
+  try {
+    const [{ data: lobby, error: lobbyError }, { data: participants, error: participantsError }] = await Promise.all([
+      supabase.from('private_lobbies').select('*').eq('id', lobbyId).single(),
+      supabase
+        .from('lobby_participants')
+        .select('*, profiles!lobby_participants_user_id_fkey(username, avatar_url)')
+        .eq('lobby_id', lobbyId)
+    ]);
+    
+    if (lobbyError) throw lobbyError;
+    if (participantsError) throw participantsError;
+    
+    const runners = (participants || []).map(({ profiles, ...participant }) => ({
+      ...participant,
+      username: profiles?.username || 'Runner',
+      avatarUrl: profiles?.avatar_url || null,
+      progress: lobbyProgress(lobby, participant)
+    }));
+    
+    return { lobby, runners: runners.sort(compareRunners) };
+  } catch (error) {
+    console.error('Error fetching lobby:', error);
+    return null;
+  }
+}
+
+// The waiting or running lobby this profile is in, if any
+export async function getActiveLobby(profileId: string): Promise<Lobby | null> {
+  const { data, error } = await supabase
+    .from('lobby_participants')
+    .select('private_lobbies!inner(*)')
+    .eq('user_id', profileId)
+    .in('private_lobbies.status', ['waiting', 'running'])
+    .order('joined_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  
+  if (error) {
+    console.error('Error fetching active lobby:', error);
+    return null;
+  }
+  return data?.private_lobbies || null;
+}
+
+// Call onChange whenever the lobby or any runner's progress changes
+export function subscribeToLobby(lobbyId: string, onChange: () => void) {
+  const channel = supabase
+    .channel(`lobby-${lobbyId}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'lobby_participants', filter: `lobby_id=eq.${lobbyId}` },
+      () => onChange()
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'private_lobbies', filter: `id=eq.${lobbyId}` },
+      () => onChange()
+    )
+    .subscribe();
+  
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+export function lobbyProgress(lobby: Lobby, participant: Tables<'lobby_participants'>): number {
+  if (participant.finished_at) return 1;
+  
+  const progress = lobby.target_distance
+    ? (participant.distance_completed || 0) / lobby.target_distance
+    : (participant.area_completed || 0) / (lobby.target_area || 1);
+  return Math.min(1, progress);
+}
+
+export function describeLobbyTarget(lobby: Lobby): string {
+  return lobby.target_distance
+    ? `${(lobby.target_distance / 1000).toFixed(1)} km`
+    : `${Math.round(lobby.target_area || 0).toLocaleString()} m² zone`;
+}
+
+// Final rank once settled, otherwise finish time then progress
+function compareRunners(a: LobbyRunner, b: LobbyRunner): number {
+  if (a.rank && b.rank) return a.rank - b.rank;
+  if (a.finished_at && b.finished_at) return a.finished_at.localeCompare(b.finished_at);
+  if (a.finished_at || b.finished_at) return a.finished_at ? -1 : 1;
+  return b.progress - a.progress;
+}
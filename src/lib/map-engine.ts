@@ -0,0 +1,199 @@
+// Map engines: one interface for drawing the run, the zone being captured and
+// existing territory, with MapLibre, Leaflet and Google as interchangeable
+// adapters. Tracking lives here too, on zone-detection geometry only, so a run
+// is measured and closed the same way whichever engine draws it.
+import {
+  RunTrace,
+  MAX_ACCURACY_THRESHOLD,
+  calculateDistance,
+  detectZoneFromTrace,
+  isPointInPolygon,
+  smoothGPSTrace
+} from '@/lib/zone-detection';
+import { SpatialIndex, createSpatialIndex } from '@/lib/spatial-index';
+
+export type LatLng = { lat: number; lng: number };
+export type MapEngineId = 'maplibre' | 'leaflet' | 'google';
+export type MapBounds = { west: number; south: number; east: number; north: number };
+
+export interface MapTerritory {
+  id: string;
+  name: string;
+  path: LatLng[];
+  color?: string;
+  owner?: string;
+  rentPrice?: number;
+}
+
+export interface MapEngine {
+  // Resolves once the map can be drawn on
+  mount(container: HTMLElement, center: LatLng): Promise<void>;
+  setUserPosition(point: LatLng): void;
+  panTo(point: LatLng, zoom?: number): void;
+  getBounds(): MapBounds | null; // the visible area, e.g. for offline packs
+  onViewChange(listener: (bounds: MapBounds) => void): void; // after each pan or zoom
+  setRoute(path: LatLng[]): void;
+  setCapture(polygon: LatLng[]): void; // [] clears it
+  setTerritories(territories: MapTerritory[]): void;
+  destroy(): void;
+}
+
+export const MAP_ENGINE_CONFIG = {
+  STORAGE_KEY: 'strun_map_engine',
+  DEFAULT: 'maplibre' as MapEngineId,
+  CENTER: { lat: 41.0082, lng: 28.9784 }, // Istanbul until the first fix
+  ZOOM: 15,
+  FOCUS_ZOOM: 16,
+  ROUTE_COLOR: '#00D4FF',
+  CAPTURE_COLOR: '#39FF14',
+  TERRITORY_COLOR: '#FF6B6B',
+  USER_COLOR: '#8A2BE2'
+};
+
+const GOOGLE_MAPS_API_KEY = import.meta.env.VITE_GOOGLE_MAPS_API_KEY || '';
+
+export const MAP_ENGINES: Array<{ id: MapEngineId; label: string; available: boolean }> = [
+  { id: 'maplibre', label: 'MapLibre', available: true }, // the only one with offline packs
+  { id: 'leaflet', label: 'OpenStreetMap (Leaflet)', available: true },
+  { id: 'google', label: 'Google Maps', available: !!GOOGLE_MAPS_API_KEY }
+];
+
+// The engine picked in settings, or the default when it cannot run here
+export function getMapEngineId(): MapEngineId {
+  const stored = localStorage.getItem(MAP_ENGINE_CONFIG.STORAGE_KEY);
+  const engine = MAP_ENGINES.find(e => e.id === stored && e.available);
+  return engine ? engine.id : MAP_ENGINE_CONFIG.DEFAULT;
+}
+
+export function setMapEngineId(id: MapEngineId): void {
+  localStorage.setItem(MAP_ENGINE_CONFIG.STORAGE_KEY, id);
+}
+
+// Adapters are loaded on demand so only the chosen map library is downloaded
+export async function createMapEngine(id: MapEngineId): Promise<MapEngine> {
+  switch (id) {
+    case 'leaflet':
+      return (await import('./map-leaflet')).createLeafletEngine();
+    case 'google':
+      return (await import('./map-google')).createGoogleEngine(GOOGLE_MAPS_API_KEY);
+    default:
+      return (await import('./map-maplibre')).createMapLibreEngine();
+  }
+}
+
+export interface GeoFix extends LatLng {
+  accuracy: number;
+  timestamp: number;
+}
+
+export interface RunTrackerCallbacks {
+  onPathUpdate?: (path: LatLng[]) => void;
+  onDistanceUpdate?: (distance: number) => void;
+  onTerritoryComplete?: (territory: { path: LatLng[]; area: number }) => void;
+  onEnterExistingTerritory?: (territoryId: string, point: LatLng) => void;
+  onExitExistingTerritory?: (territoryId: string, point: LatLng) => void;
+}
+
+export interface RunTracker {
+  // Returns the smoothed path, or null when the fix was dropped
+  addFix(fix: GeoFix): LatLng[] | null;
+  setTerritories(territories: MapTerritory[]): void;
+  // Leave every territory the runner is in, e.g. when the run stops
+  exitTerritories(): void;
+  reset(): void;
+  distance(): number;
+}
+
+const TRACKER_CONFIG = {
+  MIN_STEP: 0.5, // metres; smaller moves are GPS jitter
+  MAX_POINTS: 10000,
+  SMOOTHING_WINDOW: 3
+};
+
+// Callbacks are read on every fix so callers can hand in fresh ones
+export function createRunTracker(getCallbacks: () => RunTrackerCallbacks): RunTracker {
+  let fixes: GeoFix[] = [];
+  let distance = 0;
+  let territories: SpatialIndex<MapTerritory> = createSpatialIndex([], t => t.path);
+  let inside = new Set<string>();
+  let loopClosed = false;
+  
+  // Report the difference between the territories the runner was and now is in
+  const moveInside = (now: Set<string>, point: LatLng) => {
+    const callbacks = getCallbacks();
+    now.forEach(id => {
+      if (!inside.has(id)) callbacks.onEnterExistingTerritory?.(id, point);
+    });
+    inside.forEach(id => {
+      if (!now.has(id)) callbacks.onExitExistingTerritory?.(id, point);
+    });
+    inside = now;
+  };
+  
+  const updateTerritories = (point: LatLng) => {
+    moveInside(new Set(
+      territories.candidates(point)
+        .filter(t => t.path.length >= 3 && isPointInPolygon(point, t.path))
+        .map(t => t.id)
+    ), point);
+  };
+  
+  // A loop is reported once when it closes, and again only after it reopens
+  const updateLoop = () => {
+    const trace: RunTrace = { points: fixes, distance, duration: 0, avgSpeed: 0, maxSpeed: 0 };
+    const zone = detectZoneFromTrace(trace);
+    
+    if (zone && !loopClosed) {
+      getCallbacks().onTerritoryComplete?.({ path: zone.polygon || [], area: Math.round(zone.area) });
+    }
+    loopClosed = !!zone;
+  };
+  
+  return {
+    addFix(fix) {
+      if (fix.accuracy > MAX_ACCURACY_THRESHOLD) return null;
+      
+      const last = fixes[fixes.length - 1];
+      if (last) {
+        const step = calculateDistance(last, fix);
+        if (step < TRACKER_CONFIG.MIN_STEP) return null;
+        distance += step;
+        getCallbacks().onDistanceUpdate?.(distance);
+      }
+      
+      fixes.push(fix);
+      if (fixes.length > TRACKER_CONFIG.MAX_POINTS) fixes.shift();
+      
+      const path = smoothGPSTrace(fixes, TRACKER_CONFIG.SMOOTHING_WINDOW).map(({ lat, lng }) => ({ lat, lng }));
+      getCallbacks().onPathUpdate?.(path);
+      
+      updateLoop();
+      updateTerritories(fix);
+      return path;
+    },
+    
+    // Territories that drop out of the list count as left
+    setTerritories(next) {
+      territories = createSpatialIndex(next, t => t.path);
+      const last = fixes[fixes.length - 1];
+      const ids = new Set(next.map(t => t.id));
+      if (last) moveInside(new Set([...inside].filter(id => ids.has(id))), last);
+      else inside = new Set();
+    },
+    
+    exitTerritories() {
+      const last = fixes[fixes.length - 1];
+      if (last) moveInside(new Set(), last);
+      inside = new Set();
+    },
+    
+    reset() {
+      fixes = [];
+      distance = 0;
+      inside = new Set();
+      loopClosed = false;
+    },
+    
+    distance: () => distance
+  };
+}
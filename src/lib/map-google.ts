@@ -0,0 +1,146 @@
+// Google Maps adapter for the map engine
+// SECURITY: restrict VITE_GOOGLE_MAPS_API_KEY to the app's domains in Google Cloud Console
+import { LatLng, MapBounds, MapEngine, MapTerritory, MAP_ENGINE_CONFIG } from '@/lib/map-engine';
+
+const DARK_STYLE: google.maps.MapTypeStyle[] = [
+  { featureType: 'all', elementType: 'geometry', stylers: [{ color: '#242f3e' }] },
+  { featureType: 'all', elementType: 'labels.text.stroke', stylers: [{ color: '#242f3e' }] },
+  { featureType: 'all', elementType: 'labels.text.fill', stylers: [{ color: '#746855' }] },
+  { featureType: 'water', elementType: 'geometry', stylers: [{ color: '#17263c' }] },
+  { featureType: 'road', elementType: 'geometry', stylers: [{ color: '#38414e' }] },
+  { featureType: 'road', elementType: 'geometry.stroke', stylers: [{ color: '#212a37' }] },
+  { featureType: 'road', elementType: 'labels.text.fill', stylers: [{ color: '#9ca5b3' }] }
+];
+
+let scriptPromise: Promise<void> | null = null;
+
+// Loads the Maps JavaScript API once per page
+function loadGoogleMaps(apiKey: string): Promise<void> {
+  if (window.google?.maps) return Promise.resolve();
+  
+  if (!scriptPromise) {
+    scriptPromise = new Promise((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = `https://maps.googleapis.com/maps/api/js?key=${encodeURIComponent(apiKey)}`;
+      script.async = true;
+      script.onload = () => resolve();
+      script.onerror = () => {
+        scriptPromise = null;
+        reject(new Error('Failed to load Google Maps'));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return scriptPromise;
+}
+
+export function createGoogleEngine(apiKey: string): MapEngine {
+  let map: google.maps.Map | null = null;
+  let marker: google.maps.Marker | null = null;
+  let route: google.maps.Polyline | null = null;
+  let capture: google.maps.Polygon | null = null;
+  let territories: google.maps.Polygon[] = [];
+  
+  const viewBounds = (): MapBounds | null => {
+    const bounds = map?.getBounds();
+    if (!bounds) return null;
+    const ne = bounds.getNorthEast();
+    const sw = bounds.getSouthWest();
+    return { west: sw.lng(), south: sw.lat(), east: ne.lng(), north: ne.lat() };
+  };
+  
+  return {
+    async mount(container, center) {
+      if (!apiKey) throw new Error('Google Maps API key not configured');
+      await loadGoogleMaps(apiKey);
+      
+      map = new google.maps.Map(container, {
+        center,
+        zoom: MAP_ENGINE_CONFIG.ZOOM,
+        mapTypeControl: false,
+        streetViewControl: false,
+        fullscreenControl: false,
+        styles: DARK_STYLE
+      });
+      route = new google.maps.Polyline({
+        map,
+        strokeColor: MAP_ENGINE_CONFIG.ROUTE_COLOR,
+        strokeOpacity: 0.9,
+        strokeWeight: 5,
+        geodesic: true
+      });
+      capture = new google.maps.Polygon({
+        map,
+        fillColor: MAP_ENGINE_CONFIG.CAPTURE_COLOR,
+        fillOpacity: 0.2,
+        strokeColor: MAP_ENGINE_CONFIG.CAPTURE_COLOR,
+        strokeWeight: 2
+      });
+      marker = new google.maps.Marker({
+        icon: {
+          path: google.maps.SymbolPath.CIRCLE,
+          scale: 8,
+          fillColor: MAP_ENGINE_CONFIG.USER_COLOR,
+          fillOpacity: 1,
+          strokeColor: '#FFFFFF',
+          strokeWeight: 2
+        }
+      });
+    },
+    
+    setUserPosition(point: LatLng) {
+      marker?.setPosition(point);
+      marker?.setMap(map);
+    },
+    
+    panTo(point, zoom) {
+      map?.panTo(point);
+      if (zoom !== undefined) map?.setZoom(zoom);
+    },
+    
+    getBounds: viewBounds,
+    
+    onViewChange(listener) {
+      map?.addListener('idle', () => {
+        const bounds = viewBounds();
+        if (bounds) listener(bounds);
+      });
+    },
+    
+    setRoute(path) {
+      route?.setPath(path);
+    },
+    
+    setCapture(polygon) {
+      capture?.setPath(polygon.length >= 3 ? polygon : []);
+    },
+    
+    setTerritories(next: MapTerritory[]) {
+      territories.forEach(polygon => polygon.setMap(null));
+      territories = next
+        .filter(t => t.path.length >= 3)
+        .map(t => {
+          const color = t.color || MAP_ENGINE_CONFIG.TERRITORY_COLOR;
+          return new google.maps.Polygon({
+            map,
+            paths: t.path,
+            fillColor: color,
+            fillOpacity: 0.15,
+            strokeColor: color,
+            strokeOpacity: 0.8,
+            strokeWeight: 2
+          });
+        });
+    },
+    
+    destroy() {
+      territories.forEach(polygon => polygon.setMap(null));
+      [route, capture, marker].forEach(overlay => overlay?.setMap(null));
+      territories = [];
+      route = null;
+      capture = null;
+      marker = null;
+      map = null;
+    }
+  };
+}
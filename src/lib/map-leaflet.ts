@@ -0,0 +1,116 @@
+// Leaflet adapter for the map engine, on OpenStreetMap raster tiles
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import '@/styles/map.css';
+import { LatLng, MapBounds, MapEngine, MapTerritory, MAP_ENGINE_CONFIG } from '@/lib/map-engine';
+
+const toLatLng = (p: LatLng): L.LatLngTuple => [p.lat, p.lng];
+
+export function createLeafletEngine(): MapEngine {
+  let map: L.Map | null = null;
+  let marker: L.Marker | null = null;
+  let route: L.Polyline | null = null;
+  let capture: L.Polygon | null = null;
+  let territoryLayer: L.LayerGroup | null = null;
+  
+  const viewBounds = (): MapBounds | null => {
+    if (!map) return null;
+    const bounds = map.getBounds();
+    return { west: bounds.getWest(), south: bounds.getSouth(), east: bounds.getEast(), north: bounds.getNorth() };
+  };
+  
+  return {
+    async mount(container, center) {
+      map = L.map(container).setView(toLatLng(center), MAP_ENGINE_CONFIG.ZOOM);
+      
+      L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+        attribution: '© OpenStreetMap contributors',
+        maxZoom: 19
+      }).addTo(map);
+      
+      territoryLayer = L.layerGroup().addTo(map);
+      capture = L.polygon([], {
+        color: MAP_ENGINE_CONFIG.CAPTURE_COLOR,
+        fillColor: MAP_ENGINE_CONFIG.CAPTURE_COLOR,
+        fillOpacity: 0.2,
+        weight: 2,
+        className: 'capturing-area'
+      }).addTo(map);
+      route = L.polyline([], {
+        color: MAP_ENGINE_CONFIG.ROUTE_COLOR,
+        weight: 5,
+        opacity: 0.9,
+        className: 'animated-path'
+      }).addTo(map);
+      marker = L.marker(toLatLng(center), {
+        icon: L.divIcon({
+          className: 'pulsing-marker',
+          html: '<div class="pulse"></div><div class="marker-pin"></div>',
+          iconSize: [20, 20],
+          iconAnchor: [10, 10]
+        })
+      });
+    },
+    
+    setUserPosition(point) {
+      if (!map || !marker) return;
+      marker.setLatLng(toLatLng(point)).addTo(map);
+    },
+    
+    panTo(point, zoom) {
+      if (!map) return;
+      map.setView(toLatLng(point), zoom ?? map.getZoom(), { animate: true });
+    },
+    
+    getBounds: viewBounds,
+    
+    onViewChange(listener) {
+      map?.on('moveend', () => {
+        const bounds = viewBounds();
+        if (bounds) listener(bounds);
+      });
+    },
+    
+    setRoute(path) {
+      route?.setLatLngs(path.map(toLatLng));
+    },
+    
+    setCapture(polygon) {
+      capture?.setLatLngs(polygon.length >= 3 ? polygon.map(toLatLng) : []);
+    },
+    
+    setTerritories(territories: MapTerritory[]) {
+      const layer = territoryLayer;
+      if (!layer) return;
+      layer.clearLayers();
+      
+      territories
+        .filter(t => t.path.length >= 3)
+        .forEach(t => {
+          const color = t.color || MAP_ENGINE_CONFIG.TERRITORY_COLOR;
+          const polygon = L.polygon(t.path.map(toLatLng), { color, fillColor: color, fillOpacity: 0.15, weight: 2, dashArray: '6, 6' });
+          
+          const details = [t.owner && `Owner: ${t.owner}`, t.rentPrice !== undefined && `Rent: ${t.rentPrice} XP`].filter(Boolean);
+          const popup = document.createElement('div');
+          const title = document.createElement('strong');
+          title.textContent = t.name;
+          popup.append(title, ...details.map(line => {
+            const row = document.createElement('div');
+            row.textContent = line as string;
+            return row;
+          }));
+          
+          polygon.bindPopup(popup).addTo(layer);
+        });
+    },
+    
+    destroy() {
+      map?.remove();
+      map = null;
+      marker = null;
+      route = null;
+      capture = null;
+      territoryLayer = null;
+    }
+  };
+}
@@ -0,0 +1,144 @@
+// MapLibre adapter for the map engine, on MapTiler vector tiles by default.
+// Requests go through the offline protocol so downloaded packs work without signal.
+import maplibregl from 'maplibre-gl';
+import 'maplibre-gl/dist/maplibre-gl.css';
+import { LatLng, MapBounds, MapEngine, MapTerritory, MAP_ENGINE_CONFIG } from '@/lib/map-engine';
+import { MAP_STYLE_URL, OFFLINE_CONFIG, loadOfflineResource, toOfflineUrl } from '@/lib/offline-tiles';
+
+maplibregl.addProtocol(OFFLINE_CONFIG.PROTOCOL, loadOfflineResource);
+
+const toLngLat = (p: LatLng): [number, number] => [p.lng, p.lat];
+
+// GeoJSON rings must end where they start
+function ring(path: LatLng[]): [number, number][] {
+  const coords = path.map(toLngLat);
+  if (coords.length > 0) coords.push(coords[0]);
+  return coords;
+}
+
+export function createMapLibreEngine(): MapEngine {
+  let map: maplibregl.Map | null = null;
+  let marker: maplibregl.Marker | null = null;
+  
+  const source = (id: string) => map?.getSource(id) as maplibregl.GeoJSONSource | undefined;
+  
+  const viewBounds = (): MapBounds | null => {
+    if (!map) return null;
+    const bounds = map.getBounds();
+    return { west: bounds.getWest(), south: bounds.getSouth(), east: bounds.getEast(), north: bounds.getNorth() };
+  };
+  
+  return {
+    mount(container, center) {
+      map = new maplibregl.Map({
+        container,
+        style: MAP_STYLE_URL,
+        center: toLngLat(center),
+        zoom: MAP_ENGINE_CONFIG.ZOOM,
+        transformRequest: url => ({ url: toOfflineUrl(url) })
+      });
+      marker = new maplibregl.Marker({ color: MAP_ENGINE_CONFIG.USER_COLOR, scale: 0.8 });
+      
+      return new Promise(resolve => {
+        map?.on('load', () => {
+          if (!map) return;
+          
+          map.addSource('existing-territories', { type: 'geojson', data: { type: 'FeatureCollection', features: [] } });
+          map.addLayer({
+            id: 'territories-fill',
+            type: 'fill',
+            source: 'existing-territories',
+            paint: { 'fill-color': ['get', 'color'], 'fill-opacity': 0.15 }
+          });
+          map.addLayer({
+            id: 'territories-outline',
+            type: 'line',
+            source: 'existing-territories',
+            paint: { 'line-color': ['get', 'color'], 'line-width': 2, 'line-dasharray': [2, 2] }
+          });
+          
+          map.addSource('zone', { type: 'geojson', data: { type: 'FeatureCollection', features: [] } });
+          map.addLayer({
+            id: 'zone-fill',
+            type: 'fill',
+            source: 'zone',
+            paint: {
+              'fill-color': MAP_ENGINE_CONFIG.CAPTURE_COLOR,
+              'fill-opacity': 0.2,
+              'fill-outline-color': MAP_ENGINE_CONFIG.CAPTURE_COLOR
+            }
+          });
+          
+          map.addSource('route', {
+            type: 'geojson',
+            data: { type: 'Feature', geometry: { type: 'LineString', coordinates: [] }, properties: {} }
+          });
+          map.addLayer({
+            id: 'route-line',
+            type: 'line',
+            source: 'route',
+            layout: { 'line-join': 'round', 'line-cap': 'round' },
+            paint: { 'line-color': MAP_ENGINE_CONFIG.ROUTE_COLOR, 'line-width': 5, 'line-opacity': 0.9, 'line-blur': 0.5 }
+          });
+          
+          resolve();
+        });
+      });
+    },
+    
+    setUserPosition(point) {
+      if (!map || !marker) return;
+      marker.setLngLat(toLngLat(point)).addTo(map);
+    },
+    
+    panTo(point, zoom) {
+      map?.easeTo({ center: toLngLat(point), zoom, duration: 1000 });
+    },
+    
+    getBounds: viewBounds,
+    
+    onViewChange(listener) {
+      map?.on('moveend', () => {
+        const bounds = viewBounds();
+        if (bounds) listener(bounds);
+      });
+    },
+    
+    setRoute(path) {
+      source('route')?.setData({
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: path.map(toLngLat) },
+        properties: {}
+      });
+    },
+    
+    setCapture(polygon) {
+      source('zone')?.setData({
+        type: 'FeatureCollection',
+        features: polygon.length >= 3
+          ? [{ type: 'Feature', geometry: { type: 'Polygon', coordinates: [ring(polygon)] }, properties: {} }]
+          : []
+      });
+    },
+    
+    setTerritories(territories: MapTerritory[]) {
+      source('existing-territories')?.setData({
+        type: 'FeatureCollection',
+        features: territories
+          .filter(t => t.path.length >= 3)
+          .map(t => ({
+            type: 'Feature' as const,
+            geometry: { type: 'Polygon' as const, coordinates: [ring(t.path)] },
+            properties: { id: t.id, name: t.name, color: t.color || MAP_ENGINE_CONFIG.TERRITORY_COLOR }
+          }))
+      });
+    },
+    
+    destroy() {
+      marker?.remove();
+      map?.remove();
+      marker = null;
+      map = null;
+    }
+  };
+}
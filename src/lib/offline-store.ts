@@ -0,0 +1,191 @@
+// Local persistence for run recording (IndexedDB)
+// Keeps the active run and the sync outbox on the device so a dropped connection
+// or a closed tab doesn't lose a run
+import { supabase } from '@/integrations/supabase/client';
+import { RunTrace } from '@/lib/zone-detection';
+
+const DB_NAME = 'strun-offline';
+const DB_VERSION = 1;
+const PROFILE_ID_KEY = 'strun_profile_id';
+
+export type SessionPoint = RunTrace['points'][number];
+
+export interface RunSession {
+  id: string; // also the client run id used to dedupe the saved run
+  profileId: string | null;
+  startTime: number;
+  distance: number; // meters, as last reported by the map
+  updatedAt: number;
+}
+
+export interface OutboxItem<T = unknown> {
+  seq?: number; // insertion order, assigned by IndexedDB
+  id: string;
+  kind: string;
+  payload: T;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  createdAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore('sessions', { keyPath: 'id' });
+        const points = db.createObjectStore('session_points', { autoIncrement: true });
+        points.createIndex('sessionId', 'sessionId');
+        db.createObjectStore('outbox', { keyPath: 'seq', autoIncrement: true });
+      };
+      
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  
+  return dbPromise;
+}
+
+// Run one request inside a transaction and resolve once the transaction commits
+async function withStore<T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  run: (tx: IDBTransaction) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDB();
+  
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode);
+    const request = run(tx);
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// Start persisting a new run
+export async function createRunSession(profileId: string | null): Promise<RunSession> {
+  const session: RunSession = {
+    id: crypto.randomUUID(),
+    profileId,
+    startTime: Date.now(),
+    distance: 0,
+    updatedAt: Date.now()
+  };
+  
+  await withStore(['sessions'], 'readwrite', tx => tx.objectStore('sessions').put(session));
+  return session;
+}
+
+// Append one GPS fix to the active run
+export async function appendSessionPoint(sessionId: string, point: SessionPoint, distance: number): Promise<void> {
+  await withStore(['sessions', 'session_points'], 'readwrite', tx => {
+    tx.objectStore('session_points').add({ sessionId, ...point });
+    
+    const sessions = tx.objectStore('sessions');
+    const request = sessions.get(sessionId);
+    request.onsuccess = () => {
+      if (request.result) {
+        sessions.put({ ...request.result, distance, updatedAt: Date.now() });
+      }
+    };
+  });
+}
+
+// The unfinished run left behind by a crash or reload, with its points
+export async function getActiveRunSession(): Promise<{ session: RunSession; points: SessionPoint[] } | null> {
+  const sessions = await withStore<RunSession[]>(['sessions'], 'readonly', tx => tx.objectStore('sessions').getAll());
+  const session = sessions?.sort((a, b) => b.startTime - a.startTime)[0];
+  if (!session) return null;
+  
+  const rows = await withStore<Array<SessionPoint & { sessionId: string }>>(['session_points'], 'readonly', tx =>
+    tx.objectStore('session_points').index('sessionId').getAll(session.id)
+  );
+  
+  const points = (rows || [])
+    .map(({ sessionId: _sessionId, ...point }) => point)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  
+  return { session, points };
+}
+
+// Drop a run once it has been handed to the outbox (or discarded)
+export async function clearRunSession(sessionId: string): Promise<void> {
+  await withStore(['sessions', 'session_points'], 'readwrite', tx => {
+    tx.objectStore('sessions').delete(sessionId);
+    const cursorRequest = tx.objectStore('session_points').index('sessionId').openKeyCursor(sessionId);
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        tx.objectStore('session_points').delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+  });
+}
+
+export async function addOutboxItem<T>(kind: string, payload: T): Promise<OutboxItem<T>> {
+  const item: OutboxItem<T> = {
+    id: crypto.randomUUID(),
+    kind,
+    payload,
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    createdAt: Date.now()
+  };
+  
+  const seq = await withStore<IDBValidKey>(['outbox'], 'readwrite', tx => tx.objectStore('outbox').add(item));
+  return { ...item, seq: seq as number };
+}
+
+// Outbox items in the order they were queued
+export async function listOutboxItems(): Promise<OutboxItem[]> {
+  return (await withStore<OutboxItem[]>(['outbox'], 'readonly', tx => tx.objectStore('outbox').getAll())) || [];
+}
+
+export async function updateOutboxItem(item: OutboxItem): Promise<void> {
+  await withStore(['outbox'], 'readwrite', tx => tx.objectStore('outbox').put(item));
+}
+
+export async function removeOutboxItem(seq: number): Promise<void> {
+  await withStore(['outbox'], 'readwrite', tx => tx.objectStore('outbox').delete(seq));
+}
+
+// Profile id for the signed-in user, remembered so runs can be queued offline
+export async function resolveProfileId(): Promise<string | null> {
+  try {
+    const { data: authUser, error } = await supabase.auth.getUser();
+    if (error) throw error;
+    
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('user_id', authUser?.user?.id || '')
+      .maybeSingle();
+    
+    if (profileError) throw profileError;
+    if (profile) {
+      localStorage.setItem(PROFILE_ID_KEY, profile.id);
+      return profile.id;
+    }
+    return null;
+  } catch (error) {
+    console.warn('Using cached profile id:', error);
+    return localStorage.getItem(PROFILE_ID_KEY);
+  }
+}
+
+// Failures worth retrying later, as opposed to the server rejecting the request
+export function isNetworkError(error: { message?: string } | null | undefined): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  return /failed to fetch|networkerror|network request failed|load failed|timeout/i.test(error?.message || '');
+}
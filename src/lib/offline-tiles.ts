@@ -0,0 +1,426 @@
+// Offline map packs for the MapLibre engine
+// A pack is a bounding box and zoom range whose style, sprites, glyphs and tiles
+// are downloaded into IndexedDB (which the Capacitor WebView has too). Every
+// request the map makes goes through the strun-offline:// protocol, which
+// answers from a fresh pack first, then the network, then a stale pack.
+import type { AddProtocolAction } from 'maplibre-gl';
+import type { MapBounds } from '@/lib/map-engine';
+
+// Point VITE_MAP_STYLE_URL at a local tile server (e.g. tileserver-gl) to test packs
+export const MAP_STYLE_URL: string =
+  import.meta.env.VITE_MAP_STYLE_URL || 'https://api.maptiler.com/maps/streets-v2/style.json?key=JNY9zsA8c4duUO7cPboB';
+
+export const OFFLINE_CONFIG = {
+  PROTOCOL: 'strun-offline',
+  MIN_ZOOM: 10,
+  MAX_ZOOM: 16,
+  EXPIRY_DAYS: 30,
+  MAX_TILES: 8000,
+  AVG_TILE_BYTES: 30 * 1024, // vector tiles; used for estimates only
+  STYLE_BYTES: 600 * 1024, // style, sprites and glyphs
+  CONCURRENCY: 6
+};
+
+const DB_NAME = 'strun-tiles';
+const DB_VERSION = 1;
+const GLYPH_RANGES = ['0-255', '256-511']; // Latin, including Turkish
+const TILE_SOURCE_TYPES = ['vector', 'raster', 'raster-dem'];
+
+export type PackStatus = 'downloading' | 'ready' | 'failed';
+
+export interface OfflinePack {
+  id: string;
+  name: string;
+  bounds: MapBounds;
+  minZoom: number;
+  maxZoom: number;
+  styleUrl: string;
+  status: PackStatus;
+  resourceCount: number;
+  failedCount: number;
+  bytes: number;
+  createdAt: number;
+  updatedAt: number;
+  expiresAt: number;
+  error?: string;
+}
+
+export interface PackEstimate {
+  tiles: number;
+  bytes: number;
+  tooLarge: boolean;
+}
+
+export type PackProgress = { done: number; total: number; bytes: number };
+
+type OfflineResult<T = object> = { success: boolean; error?: string } & Partial<T>;
+
+interface StoredResource {
+  url: string;
+  data: ArrayBuffer;
+  packIds: string[];
+  expiresAt: number;
+}
+
+interface StyleSource {
+  type: string;
+  url?: string;
+  tiles?: string[];
+  minzoom?: number;
+  maxzoom?: number;
+}
+
+interface StyleJSON {
+  sources?: Record<string, StyleSource>;
+  sprite?: string | Array<{ id: string; url: string }>;
+  glyphs?: string;
+  layers?: Array<{ layout?: { 'text-font'?: unknown } }>;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const activeDownloads = new Set<string>();
+
+function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore('packs', { keyPath: 'id' });
+        const resources = db.createObjectStore('resources', { keyPath: 'url' });
+        resources.createIndex('packIds', 'packIds', { multiEntry: true });
+      };
+      
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  
+  return dbPromise;
+}
+
+// Run one request inside a transaction and resolve once the transaction commits
+async function withStore<T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  run: (tx: IDBTransaction) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDB();
+  
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode);
+    const request = run(tx);
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// Map requests are rewritten onto the offline protocol so packs can answer them
+export function toOfflineUrl(url: string): string {
+  return /^https?:\/\//.test(url) ? `${OFFLINE_CONFIG.PROTOCOL}://${url}` : url;
+}
+
+function fromOfflineUrl(url: string): string {
+  const prefix = `${OFFLINE_CONFIG.PROTOCOL}://`;
+  return url.startsWith(prefix) ? url.slice(prefix.length) : url;
+}
+
+function decode(data: ArrayBuffer, type?: string): unknown {
+  if (type === 'json') return JSON.parse(new TextDecoder().decode(data));
+  if (type === 'string') return new TextDecoder().decode(data);
+  return data;
+}
+
+export const loadOfflineResource: AddProtocolAction = async (params, abortController) => {
+  const url = fromOfflineUrl(params.url);
+  const cached = await withStore<StoredResource>(['resources'], 'readonly', tx => tx.objectStore('resources').get(url))
+    .catch(() => undefined);
+  
+  if (cached && cached.expiresAt > Date.now()) return { data: decode(cached.data, params.type) };
+  
+  try {
+    const response = await fetch(url, { signal: abortController.signal });
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+    return { data: decode(await response.arrayBuffer(), params.type) };
+  } catch (error) {
+    // A stale tile beats a blank map on a trail with no signal
+    if (cached) return { data: decode(cached.data, params.type) };
+    throw error;
+  }
+};
+
+// Slippy map tile numbers covering the bounds at one zoom level
+function tileRange(bounds: MapBounds, zoom: number) {
+  const n = 2 ** zoom;
+  const clampLat = (lat: number) => Math.max(-85.0511, Math.min(85.0511, lat));
+  const x = (lng: number) => Math.min(n - 1, Math.max(0, Math.floor(((lng + 180) / 360) * n)));
+  const y = (lat: number) => {
+    const rad = (clampLat(lat) * Math.PI) / 180;
+    return Math.min(n - 1, Math.max(0, Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * n)));
+  };
+  
+  return { minX: x(bounds.west), maxX: x(bounds.east), minY: y(bounds.north), maxY: y(bounds.south) };
+}
+
+export function countTiles(bounds: MapBounds, minZoom: number, maxZoom: number): number {
+  let count = 0;
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const range = tileRange(bounds, z);
+    count += (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1);
+  }
+  return count;
+}
+
+// Rough size before downloading; assumes one tile source, which is the common case
+export function estimatePack(bounds: MapBounds, minZoom: number, maxZoom: number): PackEstimate {
+  const tiles = countTiles(bounds, minZoom, maxZoom);
+  
+  return {
+    tiles,
+    bytes: tiles * OFFLINE_CONFIG.AVG_TILE_BYTES + OFFLINE_CONFIG.STYLE_BYTES,
+    tooLarge: tiles > OFFLINE_CONFIG.MAX_TILES
+  };
+}
+
+// Free space reported by the browser, when it reports any
+export async function getStorageEstimate(): Promise<{ usage: number; quota: number } | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
+
+export function isPackExpired(pack: OfflinePack): boolean {
+  return pack.expiresAt <= Date.now();
+}
+
+export async function listPacks(): Promise<OfflinePack[]> {
+  const packs = await withStore<OfflinePack[]>(['packs'], 'readonly', tx => tx.objectStore('packs').getAll());
+  
+  // A download cut short by closing the app never got to finish its record
+  return (packs || [])
+    .map(pack => pack.status === 'downloading' && !activeDownloads.has(pack.id)
+      ? { ...pack, status: 'failed' as const, error: 'Download interrupted' }
+      : pack)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+async function savePack(pack: OfflinePack): Promise<void> {
+  await withStore(['packs'], 'readwrite', tx => tx.objectStore('packs').put(pack));
+}
+
+// Resources are shared between overlapping packs, so each one lists its packs
+async function saveResource(url: string, data: ArrayBuffer, packId: string, expiresAt: number): Promise<void> {
+  await withStore(['resources'], 'readwrite', tx => {
+    const store = tx.objectStore('resources');
+    const request = store.get(url);
+    request.onsuccess = () => {
+      const existing = request.result as StoredResource | undefined;
+      const packIds = existing ? [...new Set([...existing.packIds, packId])] : [packId];
+      store.put({ url, data, packIds, expiresAt: Math.max(expiresAt, existing?.expiresAt || 0) });
+    };
+  });
+}
+
+async function fetchBuffer(url: string, signal?: AbortSignal): Promise<ArrayBuffer> {
+  const response = await fetch(url, { signal });
+  if (!response.ok) throw new Error(`${response.status} ${response.statusText} for ${url}`);
+  return response.arrayBuffer();
+}
+
+function spriteUrls(sprite: StyleJSON['sprite']): string[] {
+  const bases = typeof sprite === 'string' ? [sprite] : (sprite || []).map(s => s.url);
+  
+  // Same naming as MapLibre's own sprite loader
+  return bases.flatMap(base => ['', '@2x'].flatMap(ratio => ['.json', '.png'].map(ext => {
+    const url = new URL(base);
+    url.pathname += `${ratio}${ext}`;
+    return url.toString();
+  })));
+}
+
+function glyphUrls(style: StyleJSON): string[] {
+  if (!style.glyphs) return [];
+  
+  const fontstacks = new Set<string>();
+  (style.layers || []).forEach(layer => {
+    const fonts = layer.layout?.['text-font'];
+    if (Array.isArray(fonts) && fonts.every(font => typeof font === 'string')) fontstacks.add(fonts.join(','));
+  });
+  
+  return [...fontstacks].flatMap(stack =>
+    GLYPH_RANGES.map(range => (style.glyphs as string).replace('{fontstack}', stack).replace('{range}', range))
+  );
+}
+
+// Tile URLs the map will ask for, picking templates the way MapLibre does
+function tileUrls(templates: string[], bounds: MapBounds, minZoom: number, maxZoom: number): string[] {
+  const ratio = window.devicePixelRatio >= 2 ? '@2x' : '';
+  const urls: string[] = [];
+  
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const range = tileRange(bounds, z);
+    for (let x = range.minX; x <= range.maxX; x++) {
+      for (let y = range.minY; y <= range.maxY; y++) {
+        const template = templates[(x + y) % templates.length];
+        urls.push(template.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y)).replace('{ratio}', ratio));
+      }
+    }
+  }
+  return urls;
+}
+
+// Fetch and store every resource, a few at a time; failures are counted, not fatal
+async function downloadResources(
+  urls: string[],
+  packId: string,
+  expiresAt: number,
+  onProgress?: (progress: PackProgress) => void,
+  signal?: AbortSignal
+): Promise<{ bytes: number; failed: number }> {
+  let next = 0;
+  let done = 0;
+  let bytes = 0;
+  let failed = 0;
+  
+  const worker = async () => {
+    while (next < urls.length && !signal?.aborted) {
+      const url = urls[next++];
+      try {
+        const data = await fetchBuffer(url, signal);
+        await saveResource(url, data, packId, expiresAt);
+        bytes += data.byteLength;
+      } catch (error) {
+        if (signal?.aborted) return;
+        console.warn('Offline pack resource failed:', url, error);
+        failed++;
+      }
+      done++;
+      onProgress?.({ done, total: urls.length, bytes });
+    }
+  };
+  
+  await Promise.all(Array.from({ length: OFFLINE_CONFIG.CONCURRENCY }, worker));
+  return { bytes, failed };
+}
+
+async function fetchPack(pack: OfflinePack, onProgress?: (progress: PackProgress) => void, signal?: AbortSignal): Promise<OfflineResult<{ pack: OfflinePack }>> {
+  await savePack(pack);
+  activeDownloads.add(pack.id);
+  
+  try {
+    const styleBuffer = await fetchBuffer(pack.styleUrl, signal);
+    await saveResource(pack.styleUrl, styleBuffer, pack.id, pack.expiresAt);
+    const style: StyleJSON = JSON.parse(new TextDecoder().decode(styleBuffer));
+    
+    const urls = [...spriteUrls(style.sprite), ...glyphUrls(style)];
+    
+    for (const source of Object.values(style.sources || {})) {
+      if (!TILE_SOURCE_TYPES.includes(source.type)) continue;
+      
+      let tileSource = source;
+      if (source.url) {
+        const tileJsonBuffer = await fetchBuffer(source.url, signal);
+        await saveResource(source.url, tileJsonBuffer, pack.id, pack.expiresAt);
+        tileSource = { ...JSON.parse(new TextDecoder().decode(tileJsonBuffer)), ...source };
+      }
+      if (!tileSource.tiles?.length) continue;
+      
+      const minZoom = Math.max(pack.minZoom, tileSource.minzoom ?? 0);
+      const maxZoom = Math.min(pack.maxZoom, tileSource.maxzoom ?? 22);
+      urls.push(...tileUrls(tileSource.tiles, pack.bounds, minZoom, maxZoom));
+    }
+    
+    const { bytes, failed } = await downloadResources(urls, pack.id, pack.expiresAt, onProgress, signal);
+    if (signal?.aborted) throw new Error('Download cancelled');
+    
+    const finished: OfflinePack = {
+      ...pack,
+      status: 'ready',
+      resourceCount: urls.length + 1 - failed,
+      failedCount: failed,
+      bytes: bytes + styleBuffer.byteLength,
+      updatedAt: Date.now()
+    };
+    await savePack(finished);
+    return { success: true, pack: finished };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Download failed';
+    await savePack({ ...pack, status: 'failed', error: message, updatedAt: Date.now() });
+    return { success: false, error: message };
+  } finally {
+    activeDownloads.delete(pack.id);
+  }
+}
+
+export async function downloadPack(
+  options: { name: string; bounds: MapBounds; minZoom: number; maxZoom: number },
+  onProgress?: (progress: PackProgress) => void,
+  signal?: AbortSignal
+): Promise<OfflineResult<{ pack: OfflinePack }>> {
+  const estimate = estimatePack(options.bounds, options.minZoom, options.maxZoom);
+  if (estimate.tooLarge) {
+    return { success: false, error: `Area too large (${estimate.tiles} tiles, max ${OFFLINE_CONFIG.MAX_TILES}). Zoom in or lower the detail.` };
+  }
+  
+  const now = Date.now();
+  return fetchPack({
+    id: crypto.randomUUID(),
+    name: options.name,
+    bounds: options.bounds,
+    minZoom: options.minZoom,
+    maxZoom: options.maxZoom,
+    styleUrl: MAP_STYLE_URL,
+    status: 'downloading',
+    resourceCount: 0,
+    failedCount: 0,
+    bytes: 0,
+    createdAt: now,
+    updatedAt: now,
+    expiresAt: now + OFFLINE_CONFIG.EXPIRY_DAYS * 24 * 60 * 60 * 1000
+  }, onProgress, signal);
+}
+
+// Download the pack again and restart its expiry
+export async function refreshPack(
+  pack: OfflinePack,
+  onProgress?: (progress: PackProgress) => void,
+  signal?: AbortSignal
+): Promise<OfflineResult<{ pack: OfflinePack }>> {
+  return fetchPack({
+    ...pack,
+    styleUrl: MAP_STYLE_URL,
+    status: 'downloading',
+    error: undefined,
+    updatedAt: Date.now(),
+    expiresAt: Date.now() + OFFLINE_CONFIG.EXPIRY_DAYS * 24 * 60 * 60 * 1000
+  }, onProgress, signal);
+}
+
+// Remove a pack and every resource no other pack still needs
+export async function deletePack(packId: string): Promise<OfflineResult> {
+  try {
+    await withStore(['packs', 'resources'], 'readwrite', tx => {
+      tx.objectStore('packs').delete(packId);
+      
+      const cursorRequest = tx.objectStore('resources').index('packIds').openCursor(IDBKeyRange.only(packId));
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        
+        const resource = cursor.value as StoredResource;
+        const packIds = resource.packIds.filter(id => id !== packId);
+        if (packIds.length) cursor.update({ ...resource, packIds });
+        else cursor.delete();
+        cursor.continue();
+      };
+    });
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Could not delete pack' };
+  }
+}
@@ -0,0 +1,213 @@
+// Offline outbox: queued run saves, run XP, zone claims and zone visits
+// Items are replayed strictly in the order they were queued. A connectivity failure
+// stops the queue and backs off; a server rejection drops the item and reports a
+// conflict so later items aren't stuck behind it.
+import {
+  addOutboxItem,
+  listOutboxItems,
+  updateOutboxItem,
+  removeOutboxItem,
+  isNetworkError,
+  OutboxItem
+} from '@/lib/offline-store';
+import { awardRunXP } from '@/lib/xp-economics';
+import { claimZone, ZoneClaim } from '@/lib/zone-claim';
+import { recordZoneActivity, RecordZoneActivityPayload } from '@/lib/zone-contest';
+import { recordZoneVisitEvent, ZoneVisitEvent } from '@/lib/zone-visits';
+import { insertRun, getRunIdForClientRun, RunData } from '@/services/runService';
+
+export interface RunXPPayload {
+  clientRunId: string;
+}
+
+interface OutboxPayloads {
+  save_run: RunData;
+  run_xp: RunXPPayload;
+  claim_zone: ZoneClaim;
+  zone_activity: RecordZoneActivityPayload;
+  zone_visit: ZoneVisitEvent;
+}
+
+export type OutboxKind = keyof OutboxPayloads;
+
+export type OutboxEvent =
+  | { type: 'pending'; count: number }
+  | { type: 'synced'; kind: OutboxKind; message: string }
+  | { type: 'conflict'; kind: OutboxKind; message: string };
+
+type Outcome = { status: 'done' | 'retry' | 'conflict'; message?: string };
+
+const SYNC_INTERVAL = 30 * 1000;
+const BASE_BACKOFF = 5 * 1000;
+const MAX_BACKOFF = 5 * 60 * 1000;
+
+// save replaces the stored payload, for progress a retry must not repeat
+type Handler<K extends OutboxKind> = (payload: OutboxPayloads[K], save: (payload: OutboxPayloads[K]) => Promise<void>) => Promise<Outcome>;
+
+const handlers: { [K in OutboxKind]: Handler<K> } = {
+  save_run: async payload => {
+    try {
+      await insertRun(payload);
+      return { status: 'done', message: 'Offline run saved' };
+    } catch (error) {
+      // Already saved by an earlier attempt whose response was lost
+      if (error?.code === '23505') return { status: 'done' };
+      return isNetworkError(error)
+        ? { status: 'retry', message: error.message }
+        : { status: 'conflict', message: `Run could not be saved: ${error.message}` };
+    }
+  },
+  
+  // Queued behind the run's save; the server works out the amount
+  run_xp: async payload => {
+    const runId = await getRunIdForClientRun(payload.clientRunId);
+    if (!runId) {
+      return { status: 'conflict', message: 'Run XP could not be credited: the run was not saved' };
+    }
+    
+    const result = await awardRunXP(runId);
+    if (result.success) {
+      return {
+        status: 'done',
+        message: result.reason === 'review' ? 'Offline run held for review' : `${result.awarded ?? 0} XP synced`
+      };
+    }
+    return result.retryable
+      ? { status: 'retry', message: result.error }
+      : { status: 'conflict', message: `XP award rejected: ${result.error}` };
+  },
+  
+  // The minted NFT is stored before the region insert, so a retry registers it instead of minting again
+  claim_zone: async (payload, save) => {
+    const result = await claimZone(payload, undefined, save);
+    if (result.contestIds?.length) {
+      return { status: 'done', message: `Contest opened for zone "${payload.name}"` };
+    }
+    if (result.success) {
+      return { status: 'done', message: `Zone "${payload.name}" minted` };
+    }
+    if (result.conflict) {
+      return { status: 'conflict', message: `Zone "${payload.name}" could not be claimed: ${result.error}` };
+    }
+    return result.retryable
+      ? { status: 'retry', message: result.error }
+      : { status: 'conflict', message: `Zone "${payload.name}" could not be claimed: ${result.error}` };
+  },
+  
+  // Contests it opens are announced through notifications
+  zone_activity: async payload => {
+    await recordZoneActivity(payload);
+    return { status: 'done' };
+  },
+  
+  // Queued in order, so an exit never reaches the server before its enter
+  zone_visit: async payload => {
+    await recordZoneVisitEvent(payload);
+    return { status: 'done' };
+  }
+};
+
+const listeners = new Set<(event: OutboxEvent) => void>();
+let flushing: Promise<void> | null = null;
+
+function emit(event: OutboxEvent) {
+  listeners.forEach(listener => listener(event));
+}
+
+async function emitPending() {
+  emit({ type: 'pending', count: (await listOutboxItems()).length });
+}
+
+// Listen for sync progress; returns an unsubscribe function
+export function subscribeOutbox(listener: (event: OutboxEvent) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// Queue work for the server and try to send it right away
+export async function enqueue<K extends OutboxKind>(kind: K, payload: OutboxPayloads[K]): Promise<void> {
+  await addOutboxItem(kind, payload);
+  await emitPending();
+  void flushOutbox();
+}
+
+// Send queued items in order; concurrent calls share one pass
+export function flushOutbox(): Promise<void> {
+  if (!flushing) {
+    flushing = processOutbox().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+async function processOutbox() {
+  if (!navigator.onLine) return;
+  
+  const items = (await listOutboxItems()).sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+  
+  for (const item of items) {
+    // Respect the backoff of the oldest item so nothing overtakes it
+    if (item.nextAttemptAt > Date.now()) break;
+    
+    const outcome = await runItem(item);
+    
+    if (outcome.status === 'retry') {
+      const attempts = item.attempts + 1;
+      await updateOutboxItem({
+        ...item,
+        attempts,
+        lastError: outcome.message,
+        nextAttemptAt: Date.now() + Math.min(MAX_BACKOFF, BASE_BACKOFF * 2 ** (attempts - 1))
+      });
+      break;
+    }
+    
+    await removeOutboxItem(item.seq as number);
+    
+    if (outcome.status === 'conflict') {
+      emit({ type: 'conflict', kind: item.kind as OutboxKind, message: outcome.message || 'Sync conflict' });
+    } else if (outcome.message && item.attempts > 0) {
+      // Only announce items that had to wait for the connection
+      emit({ type: 'synced', kind: item.kind as OutboxKind, message: outcome.message });
+    }
+  }
+  
+  await emitPending();
+}
+
+async function runItem(item: OutboxItem): Promise<Outcome> {
+  const handler = handlers[item.kind as OutboxKind] as Handler<OutboxKind> | undefined;
+  if (!handler) return { status: 'conflict', message: `Unknown outbox item: ${item.kind}` };
+  
+  const save = async (payload: unknown) => {
+    item.payload = payload;
+    await updateOutboxItem(item);
+  };
+  
+  try {
+    return await handler(item.payload as never, save);
+  } catch (error) {
+    return isNetworkError(error)
+      ? { status: 'retry', message: error.message }
+      : { status: 'conflict', message: error.message };
+  }
+}
+
+// Flush on reconnect, when the app comes back to the foreground and periodically
+export function startOutboxSync(): () => void {
+  const flush = () => {
+    if (document.visibilityState === 'visible') void flushOutbox();
+  };
+  
+  window.addEventListener('online', flush);
+  document.addEventListener('visibilitychange', flush);
+  const interval = setInterval(flush, SYNC_INTERVAL);
+  flush();
+  
+  return () => {
+    window.removeEventListener('online', flush);
+    document.removeEventListener('visibilitychange', flush);
+    clearInterval(interval);
+  };
+}
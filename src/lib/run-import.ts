@@ -0,0 +1,266 @@
+import { RunTrace, calculateDistance } from '@/lib/zone-detection';
+
+export type RunFileFormat = 'gpx' | 'tcx' | 'fit';
+
+export interface ParsedRunFile {
+  format: RunFileFormat;
+  trace: RunTrace;
+  startedAt: Date;
+}
+
+type TracePoint = RunTrace['points'][number];
+
+// Watches don't report per-fix accuracy in these formats; treat fixes like a live run's
+const IMPORTED_POINT_ACCURACY = 10; // meters
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIT_EPOCH_OFFSET = 631065600;
+const FIT_SEMICIRCLE_TO_DEGREES = 180 / 2 ** 31;
+const FIT_RECORD_MESSAGE = 20;
+
+// Detect the file format from its extension, falling back to the content
+export function detectRunFileFormat(fileName: string, head: Uint8Array): RunFileFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'gpx' || extension === 'tcx' || extension === 'fit') return extension;
+  
+  if (head.length >= 12 && String.fromCharCode(head[8], head[9], head[10], head[11]) === '.FIT') {
+    return 'fit';
+  }
+  
+  const text = new TextDecoder().decode(head.slice(0, 512));
+  if (text.includes('<gpx')) return 'gpx';
+  if (text.includes('<TrainingCenterDatabase')) return 'tcx';
+  
+  return null;
+}
+
+// Parse a GPX, TCX or FIT file into a RunTrace
+export async function parseRunFile(file: File): Promise<ParsedRunFile> {
+  const buffer = await file.arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+  const format = detectRunFileFormat(file.name, bytes);
+  
+  let points: TracePoint[];
+  switch (format) {
+    case 'gpx':
+      points = parseGPX(new TextDecoder().decode(bytes));
+      break;
+    case 'tcx':
+      points = parseTCX(new TextDecoder().decode(bytes));
+      break;
+    case 'fit':
+      points = parseFIT(buffer);
+      break;
+    default:
+      throw new Error('Unsupported file type. Use a GPX, TCX or FIT file.');
+  }
+  
+  if (points.length < 2) {
+    throw new Error('The file does not contain a GPS track');
+  }
+  
+  return {
+    format,
+    trace: buildRunTrace(points),
+    startedAt: new Date(points[0].timestamp)
+  };
+}
+
+// GPX 1.0/1.1: <trkpt lat lon><time/></trkpt>
+export function parseGPX(xml: string): TracePoint[] {
+  const doc = parseXML(xml);
+  
+  return Array.from(doc.getElementsByTagNameNS('*', 'trkpt'))
+    .map(point => toTracePoint(
+      parseFloat(point.getAttribute('lat') || ''),
+      parseFloat(point.getAttribute('lon') || ''),
+      childText(point, 'time')
+    ))
+    .filter((point): point is TracePoint => point !== null);
+}
+
+// Garmin TCX: <Trackpoint><Time/><Position><LatitudeDegrees/><LongitudeDegrees/></Position></Trackpoint>
+export function parseTCX(xml: string): TracePoint[] {
+  const doc = parseXML(xml);
+  
+  return Array.from(doc.getElementsByTagNameNS('*', 'Trackpoint'))
+    .map(point => toTracePoint(
+      parseFloat(childText(point, 'LatitudeDegrees') || ''),
+      parseFloat(childText(point, 'LongitudeDegrees') || ''),
+      childText(point, 'Time')
+    ))
+    .filter((point): point is TracePoint => point !== null);
+}
+
+// Binary FIT: walks definition and data messages and keeps the GPS "record" messages
+export function parseFIT(buffer: ArrayBuffer): TracePoint[] {
+  const view = new DataView(buffer);
+  if (view.byteLength < 12) throw new Error('FIT file is too short');
+  
+  const headerSize = view.getUint8(0);
+  const dataEnd = Math.min(view.byteLength, headerSize + view.getUint32(4, true));
+  const definitions = new Map<number, {
+    littleEndian: boolean;
+    globalMessage: number;
+    fields: Array<{ id: number; size: number }>;
+    developerSize: number;
+  }>();
+  
+  const points: TracePoint[] = [];
+  let lastTimestamp = 0;
+  let offset = headerSize;
+  
+  while (offset < dataEnd) {
+    const header = view.getUint8(offset++);
+    
+    // Compressed timestamp header: data message with a 5-bit time offset
+    if (header & 0x80) {
+      const definition = definitions.get((header >> 5) & 0x03);
+      if (!definition) throw new Error('FIT file references an undefined message');
+      
+      const timeOffset = header & 0x1f;
+      lastTimestamp = (lastTimestamp & ~0x1f) + timeOffset + (timeOffset < (lastTimestamp & 0x1f) ? 0x20 : 0);
+      
+      const values = readFitFields(view, offset, definition);
+      offset += values.size;
+      if (definition.globalMessage === FIT_RECORD_MESSAGE) {
+        const point = fitRecordToPoint(values.fields, lastTimestamp);
+        if (point) points.push(point);
+      }
+      continue;
+    }
+    
+    const localMessage = header & 0x0f;
+    
+    // Definition message
+    if (header & 0x40) {
+      const littleEndian = view.getUint8(offset + 1) === 0;
+      const globalMessage = view.getUint16(offset + 2, littleEndian);
+      const fieldCount = view.getUint8(offset + 4);
+      offset += 5;
+      
+      const fields: Array<{ id: number; size: number }> = [];
+      for (let i = 0; i < fieldCount; i++) {
+        fields.push({ id: view.getUint8(offset), size: view.getUint8(offset + 1) });
+        offset += 3;
+      }
+      
+      let developerSize = 0;
+      if (header & 0x20) {
+        const developerCount = view.getUint8(offset++);
+        for (let i = 0; i < developerCount; i++) {
+          developerSize += view.getUint8(offset + 1);
+          offset += 3;
+        }
+      }
+      
+      definitions.set(localMessage, { littleEndian, globalMessage, fields, developerSize });
+      continue;
+    }
+    
+    // Data message
+    const definition = definitions.get(localMessage);
+    if (!definition) throw new Error('FIT file references an undefined message');
+    
+    const values = readFitFields(view, offset, definition);
+    offset += values.size;
+    
+    const timestamp = values.fields.get(253);
+    if (timestamp !== undefined) lastTimestamp = timestamp;
+    
+    if (definition.globalMessage === FIT_RECORD_MESSAGE) {
+      const point = fitRecordToPoint(values.fields, lastTimestamp);
+      if (point) points.push(point);
+    }
+  }
+  
+  return points;
+}
+
+// Derive the summary figures the rest of the app expects from a trace
+export function buildRunTrace(points: TracePoint[]): RunTrace {
+  let distance = 0;
+  let maxSpeed = 0;
+  
+  for (let i = 1; i < points.length; i++) {
+    const segment = calculateDistance(points[i - 1], points[i]);
+    const seconds = (points[i].timestamp - points[i - 1].timestamp) / 1000;
+    distance += segment;
+    
+    const speed = points[i].speed ?? (seconds > 0 ? segment / seconds : 0);
+    maxSpeed = Math.max(maxSpeed, speed);
+  }
+  
+  const duration = (points[points.length - 1].timestamp - points[0].timestamp) / 1000;
+  
+  return {
+    points,
+    distance,
+    duration,
+    avgSpeed: duration > 0 ? distance / duration : 0,
+    maxSpeed
+  };
+}
+
+function parseXML(xml: string): Document {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not valid XML');
+  }
+  return doc;
+}
+
+function childText(element: Element, localName: string): string | null {
+  return element.getElementsByTagNameNS('*', localName)[0]?.textContent?.trim() || null;
+}
+
+function toTracePoint(lat: number, lng: number, time: string | null): TracePoint | null {
+  const timestamp = time ? Date.parse(time) : NaN;
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || !Number.isFinite(timestamp)) return null;
+  
+  return { lat, lng, accuracy: IMPORTED_POINT_ACCURACY, timestamp };
+}
+
+// Read the fields of one FIT data message; multi-byte values are read as unsigned
+function readFitFields(
+  view: DataView,
+  offset: number,
+  definition: { littleEndian: boolean; fields: Array<{ id: number; size: number }>; developerSize: number }
+): { fields: Map<number, number>; size: number } {
+  const fields = new Map<number, number>();
+  let size = 0;
+  
+  for (const field of definition.fields) {
+    const position = offset + size;
+    if (field.size === 1) fields.set(field.id, view.getUint8(position));
+    else if (field.size === 2) fields.set(field.id, view.getUint16(position, definition.littleEndian));
+    else if (field.size === 4) fields.set(field.id, view.getUint32(position, definition.littleEndian));
+    size += field.size;
+  }
+  
+  return { fields, size: size + definition.developerSize };
+}
+
+function fitRecordToPoint(fields: Map<number, number>, timestamp: number): TracePoint | null {
+  const rawLat = fields.get(0);
+  const rawLng = fields.get(1);
+  
+  // 0x7FFFFFFF marks a missing fix
+  if (rawLat === undefined || rawLng === undefined || rawLat === 0x7fffffff || rawLng === 0x7fffffff) {
+    return null;
+  }
+  
+  const enhancedSpeed = fields.get(73);
+  const rawSpeed = fields.get(6);
+  let speed: number | undefined;
+  if (enhancedSpeed !== undefined && enhancedSpeed !== 0xffffffff) speed = enhancedSpeed / 1000;
+  else if (rawSpeed !== undefined && rawSpeed !== 0xffff) speed = rawSpeed / 1000;
+  
+  return {
+    lat: (rawLat | 0) * FIT_SEMICIRCLE_TO_DEGREES,
+    lng: (rawLng | 0) * FIT_SEMICIRCLE_TO_DEGREES,
+    accuracy: IMPORTED_POINT_ACCURACY,
+    speed,
+    timestamp: (timestamp + FIT_EPOCH_OFFSET) * 1000
+  };
+}
@@ -0,0 +1,86 @@
+// Grid index for polygons, so a GPS fix is only tested against nearby zones
+// The world is cut into fixed lat/lng cells (a geohash-style grid); every
+// polygon is filed under each cell its bounding box touches, and a lookup reads
+// one cell, then checks the candidates' boxes before the exact polygon test.
+import type { LatLng, MapBounds } from '@/lib/map-engine';
+
+export const SPATIAL_INDEX_CONFIG = {
+  CELL_SIZE: 0.01, // degrees; about 1 km of latitude
+  MAX_CELLS_PER_ITEM: 2500 // larger items go in a list that is always checked
+};
+
+export interface SpatialIndex<T> {
+  // Items whose bounding box contains the point
+  candidates(point: LatLng): T[];
+}
+
+function boundsOf(path: LatLng[]): MapBounds {
+  let west = Infinity, south = Infinity, east = -Infinity, north = -Infinity;
+  for (const { lat, lng } of path) {
+    if (lng < west) west = lng;
+    if (lng > east) east = lng;
+    if (lat < south) south = lat;
+    if (lat > north) north = lat;
+  }
+  return { west, south, east, north };
+}
+
+function boundsContainPoint(bounds: MapBounds, point: LatLng): boolean {
+  return point.lng >= bounds.west && point.lng <= bounds.east && point.lat >= bounds.south && point.lat <= bounds.north;
+}
+
+// Whether inner lies entirely within outer
+export function boundsContain(outer: MapBounds, inner: MapBounds): boolean {
+  return inner.west >= outer.west && inner.east <= outer.east && inner.south >= outer.south && inner.north <= outer.north;
+}
+
+// Grow the bounds by a fraction of their size on every side
+export function padBounds(bounds: MapBounds, ratio: number): MapBounds {
+  const dLng = (bounds.east - bounds.west) * ratio;
+  const dLat = (bounds.north - bounds.south) * ratio;
+  return {
+    west: Math.max(-180, bounds.west - dLng),
+    south: Math.max(-90, bounds.south - dLat),
+    east: Math.min(180, bounds.east + dLng),
+    north: Math.min(90, bounds.north + dLat)
+  };
+}
+
+const cell = (value: number) => Math.floor(value / SPATIAL_INDEX_CONFIG.CELL_SIZE);
+const cellKey = (x: number, y: number) => `${x}:${y}`;
+
+export function createSpatialIndex<T>(items: T[], getPath: (item: T) => LatLng[]): SpatialIndex<T> {
+  const cells = new Map<string, Array<{ item: T; bounds: MapBounds }>>();
+  const oversized: Array<{ item: T; bounds: MapBounds }> = [];
+  
+  for (const item of items) {
+    const path = getPath(item);
+    if (!path || path.length === 0) continue;
+    
+    const entry = { item, bounds: boundsOf(path) };
+    const [minX, maxX, minY, maxY] = [cell(entry.bounds.west), cell(entry.bounds.east), cell(entry.bounds.south), cell(entry.bounds.north)];
+    
+    if ((maxX - minX + 1) * (maxY - minY + 1) > SPATIAL_INDEX_CONFIG.MAX_CELLS_PER_ITEM) {
+      oversized.push(entry);
+      continue;
+    }
+    
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        const key = cellKey(x, y);
+        const bucket = cells.get(key);
+        if (bucket) bucket.push(entry);
+        else cells.set(key, [entry]);
+      }
+    }
+  }
+  
+  return {
+    candidates(point) {
+      const bucket = cells.get(cellKey(cell(point.lng), cell(point.lat))) || [];
+      return [...bucket, ...oversized]
+        .filter(entry => boundsContainPoint(entry.bounds, point))
+        .map(entry => entry.item);
+    }
+  };
+}
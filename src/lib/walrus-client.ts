@@ -159,7 +159,7 @@ export class WalrusClient {
     endTime: number;
     distance: number;
     route: Array<{ lat: number; lng: number; timestamp: number }>;
-    xpEarned: number;
+    xpEarned?: number;
     territoriesClaimed?: string[];
   }): Promise<string | null> {
     try {
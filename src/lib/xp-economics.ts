@@ -1,12 +1,14 @@
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { isNetworkError } from '@/lib/offline-store';
+import type { AntiCheatVerdict } from '@/lib/anti-cheat';
 
 // XP rates and economics configuration
 export const XP_CONFIG = {
   // Earning rates
-  XP_PER_KM: 1,
-  XP_PER_ZONE_CREATION: 10,
-  XP_BONUS_FIRST_ZONE: 50,
+  XP_PER_KM: 1, // mirrors run_xp_per_km; the server works out run XP
+  XP_PER_ZONE_CREATION: 10, // mirrors zone_creation_xp; the server pays zone XP
+  XP_BONUS_FIRST_ZONE: 50, // mirrors first_zone_bonus_xp
   XP_REFERRAL_BONUS: 500,
   XP_NEW_USER_REFERRAL_BONUS: 100,
   
@@ -16,9 +18,16 @@ export const XP_CONFIG = {
   UNAUTHORIZED_ENTRY_PENALTY_MULTIPLIER: 2,
   
   // Limits
-  MAX_DAILY_EARNINGS: 100,
+  MAX_DAILY_EARNINGS: 100, // earned XP per local day, referrals excepted (server value in economy_settings)
   MIN_BALANCE_FOR_ZONE_CREATION: 10,
   
+  // Debt (server value lives in economy_settings)
+  DEBT_GARNISH_RATE: 0.5, // 50% of each award goes to repayment
+  
+  // Imported runs (mirrors import_* keys in economy_settings)
+  IMPORT_XP_PER_KM: 0.5,
+  IMPORT_MAX_AGE_DAYS: 7, // older recordings import without XP
+  
   // Conversion rates (future)
   XP_TO_TOKEN_RATE: 1000, // 1000 XP = 1 SRXP token
 };
@@ -33,6 +42,20 @@ export interface XPTransaction {
   created_at: string;
 }
 
+export interface XPDebtEvent {
+  id: string;
+  amount: number;
+  reason: string;
+  debt_after: number;
+  created_at: string;
+}
+
+export interface XPDebt {
+  outstanding: number;
+  garnishRate: number;
+  events: XPDebtEvent[];
+}
+
 export interface XPBalance {
   userId: string;
   balance: number;
@@ -57,48 +80,114 @@ export async function getUserXPBalance(userId: string): Promise<number> {
   }
 }
 
-// Award XP to user
-export async function awardXP(
-  userId: string,
-  amount: number,
-  type: string,
-  description: string,
-  metadata?: any
-): Promise<{ success: boolean; newBalance?: number; error?: string }> {
+export interface XPAwardResult {
+  success: boolean;
+  newBalance?: number;
+  requested?: number;
+  awarded?: number;
+  capped?: boolean; // daily limit reached, only part (or none) was credited
+  remaining?: number;
+  resetsAt?: string;
+  reason?: string; // why less than requested was credited
+  verification?: AntiCheatVerdict; // the server's verdict on an awarded run
+  retryable?: boolean; // failed on connectivity, safe to queue
+  error?: string;
+}
+
+// Award XP for a recorded run once it is saved
+// The server scores the stored route, works out the XP and credits it at most once
+export async function awardRunXP(runId: string): Promise<XPAwardResult> {
   try {
-    // Get current balance
-    const currentBalance = await getUserXPBalance(userId);
-    const newBalance = currentBalance + amount;
+    const { data, error } = await supabase.rpc('award_run_xp', {
+      p_run_id: runId
+    });
     
-    // Start transaction
-    const { error: updateError } = await supabase
-      .from('profiles')
-      .update({ xp: newBalance })
-      .eq('id', userId);
+    if (error) throw error;
     
-    if (updateError) throw updateError;
+    const result = data as unknown as {
+      requested: number;
+      awarded: number;
+      capped: boolean;
+      reason: string | null;
+      remaining: number | null;
+      resets_at: string | null;
+      balance: number;
+      verification: AntiCheatVerdict;
+    };
     
-    // Log transaction
-    const { error: txError } = await supabase
-      .from('xp_transactions')
-      .insert({
-        user_id: userId,
-        amount,
-        type,
-        description,
-        metadata
-      });
+    return {
+      success: true,
+      newBalance: result.balance,
+      requested: result.requested,
+      awarded: result.awarded,
+      capped: result.capped,
+      reason: result.reason ?? undefined,
+      remaining: result.remaining ?? undefined,
+      resetsAt: result.resets_at ?? undefined,
+      verification: result.verification
+    };
+  } catch (error) {
+    console.error('Error awarding run XP:', error);
+    return { success: false, retryable: isNetworkError(error), error: error.message };
+  }
+}
+
+// Award XP for an imported run
+// The server computes the amount from the stored route and applies the import rules
+export async function awardImportedRunXP(runId: string): Promise<XPAwardResult> {
+  try {
+    const { data, error } = await supabase.rpc('award_imported_run_xp', {
+      p_run_id: runId
+    });
+    
+    if (error) throw error;
     
-    if (txError) console.error('Error logging XP transaction:', txError);
+    const result = data as {
+      requested: number;
+      awarded: number;
+      capped: boolean;
+      reason: string | null;
+      remaining: number | null;
+      resets_at: string | null;
+      balance: number;
+    };
     
-    return { success: true, newBalance };
+    return {
+      success: true,
+      newBalance: result.balance,
+      requested: result.requested,
+      awarded: result.awarded,
+      capped: result.capped,
+      reason: result.reason ?? undefined,
+      remaining: result.remaining ?? undefined,
+      resetsAt: result.resets_at ?? undefined
+    };
   } catch (error) {
-    console.error('Error awarding XP:', error);
+    console.error('Error awarding imported run XP:', error);
     return { success: false, error: error.message };
   }
 }
 
+// Keep the profile timezone in sync so the daily window follows local midnight
+// The server only accepts one change per cooldown, later attempts keep the current zone
+export async function syncProfileTimezone(userId: string): Promise<void> {
+  try {
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    if (!timezone) return;
+    
+    const { error } = await supabase.rpc('set_profile_timezone', {
+      p_profile_id: userId,
+      p_timezone: timezone
+    });
+    
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error syncing timezone:', error);
+  }
+}
+
 // Spend XP (for zone creation, etc.)
+// The server checks the balance under a row lock, so concurrent spends cannot overdraw
 export async function spendXP(
   userId: string,
   amount: number,
@@ -107,41 +196,21 @@ export async function spendXP(
   metadata?: any
 ): Promise<{ success: boolean; newBalance?: number; error?: string }> {
   try {
-    // Get current balance
-    const currentBalance = await getUserXPBalance(userId);
-    
-    // Check sufficient balance
-    if (currentBalance < amount) {
-      return {
-        success: false,
-        error: `Insufficient XP balance. You have ${currentBalance} XP, need ${amount} XP.`
-      };
+    const { data, error } = await supabase.rpc('spend_xp', {
+      p_profile_id: userId,
+      p_amount: amount,
+      p_type: type,
+      p_description: description,
+      p_metadata: metadata || {}
+    });
+    
+    if (error) {
+      return { success: false, error: error.message };
     }
     
-    const newBalance = currentBalance - amount;
-    
-    // Update balance
-    const { error: updateError } = await supabase
-      .from('profiles')
-      .update({ xp: newBalance })
-      .eq('id', userId);
+    const result = data as { balance: number };
     
-    if (updateError) throw updateError;
-    
-    // Log transaction
-    const { error: txError } = await supabase
-      .from('xp_transactions')
-      .insert({
-        user_id: userId,
-        amount: -amount,
-        type,
-        description,
-        metadata
-      });
-    
-    if (txError) console.error('Error logging XP transaction:', txError);
-    
-    return { success: true, newBalance };
+    return { success: true, newBalance: result.balance };
   } catch (error) {
     console.error('Error spending XP:', error);
     return { success: false, error: error.message };
@@ -149,72 +218,24 @@ export async function spendXP(
 }
 
 // Process zone rent payment
+// Debit, owner credit and the rental record happen in one transaction at the zone's listed price
 export async function payZoneRent(
   renterId: string,
-  ownerId: string,
-  zoneId: string,
-  rentAmount: number
-): Promise<{ success: boolean; error?: string }> {
+  zoneId: string
+): Promise<{ success: boolean; amount?: number; newBalance?: number; error?: string }> {
   try {
-    // Check renter balance
-    const renterBalance = await getUserXPBalance(renterId);
-    if (renterBalance < rentAmount) {
-      return {
-        success: false,
-        error: `Insufficient XP for rent. You have ${renterBalance} XP, need ${rentAmount} XP.`
-      };
-    }
-    
-    // Deduct from renter
-    const { success: deductSuccess, error: deductError } = await spendXP(
-      renterId,
-      rentAmount,
-      'rent',
-      `Zone rent payment for zone ${zoneId}`,
-      { zoneId, ownerId }
-    );
-    
-    if (!deductSuccess) {
-      return { success: false, error: deductError };
-    }
-    
-    // Credit to owner
-    const { success: creditSuccess, error: creditError } = await awardXP(
-      ownerId,
-      rentAmount,
-      'rent',
-      `Zone rent received for zone ${zoneId}`,
-      { zoneId, renterId }
-    );
+    const { data, error } = await supabase.rpc('pay_zone_rent', {
+      p_profile_id: renterId,
+      p_region_id: zoneId
+    });
     
-    if (!creditSuccess) {
-      // Attempt to refund renter if credit fails
-      await awardXP(
-        renterId,
-        rentAmount,
-        'refund',
-        `Rent refund for zone ${zoneId}`,
-        { zoneId, reason: 'owner_credit_failed' }
-      );
-      return { success: false, error: creditError };
+    if (error) {
+      return { success: false, error: error.message };
     }
     
-    // Log rental transaction
-    const { error: rentalError } = await supabase
-      .from('transactions')
-      .insert({
-        from_user_id: renterId,
-        to_user_id: ownerId,
-        amount: rentAmount,
-        type: 'rent',
-        region_id: zoneId,
-        status: 'completed',
-        metadata: { timestamp: new Date().toISOString() }
-      });
+    const result = data as { amount: number; balance: number };
     
-    if (rentalError) console.error('Error logging rental:', rentalError);
-    
-    return { success: true };
+    return { success: true, amount: result.amount, newBalance: result.balance };
   } catch (error) {
     console.error('Error processing rent payment:', error);
     return { success: false, error: error.message };
@@ -224,79 +245,62 @@ export async function payZoneRent(
 // Apply unauthorized entry penalty
 export async function applyUnauthorizedEntryPenalty(
   userId: string,
-  zoneId: string,
-  baseRentAmount: number
+  zoneId: string
 ): Promise<{ success: boolean; penaltyAmount?: number; error?: string }> {
   try {
-    const penaltyAmount = baseRentAmount * XP_CONFIG.UNAUTHORIZED_ENTRY_PENALTY_MULTIPLIER;
-    const currentBalance = await getUserXPBalance(userId);
+    const { data, error } = await supabase.rpc('apply_entry_penalty', {
+      p_profile_id: userId,
+      p_region_id: zoneId
+    });
     
-    if (currentBalance >= penaltyAmount) {
-      // Can pay penalty
-      const { success, newBalance, error } = await spendXP(
-        userId,
-        penaltyAmount,
-        'penalty',
-        `Unauthorized zone entry penalty for zone ${zoneId}`,
-        { zoneId, baseRent: baseRentAmount }
-      );
-      
-      if (success) {
-        toast.error(`Penalty applied: ${penaltyAmount} XP deducted for unauthorized entry`);
-      }
-      
-      return { success, penaltyAmount, error };
-    } else {
-      // Record debt
-      const debtAmount = penaltyAmount - currentBalance;
-      
-      // Set balance to 0
-      await supabase
-        .from('profiles')
-        .update({ xp: 0 })
-        .eq('id', userId);
-      
-      // Log debt transaction
-      await supabase
-        .from('xp_transactions')
-        .insert({
-          user_id: userId,
-          amount: -penaltyAmount,
-          type: 'penalty',
-          description: `Unauthorized entry penalty (${debtAmount} XP debt)`,
-          metadata: { zoneId, debt: debtAmount }
-        });
-      
-      toast.error(`Penalty: Balance set to 0. You owe ${debtAmount} XP.`);
+    if (error) throw error;
+    
+    const { penalty, shortfall } = data as { penalty: number; charged: number; shortfall: number };
+    
+    if (shortfall > 0) {
+      toast.error(`Penalty: Balance set to 0. You owe ${shortfall} XP.`);
       
       return {
         success: true,
-        penaltyAmount,
-        error: `Insufficient balance. ${debtAmount} XP debt recorded.`
+        penaltyAmount: penalty,
+        error: `Insufficient balance. ${shortfall} XP debt recorded.`
       };
     }
+    
+    toast.error(`Penalty applied: ${penalty} XP deducted for unauthorized entry`);
+    
+    return { success: true, penaltyAmount: penalty };
   } catch (error) {
     console.error('Error applying penalty:', error);
     return { success: false, error: error.message };
   }
 }
 
-// Calculate XP for run completion
-export function calculateRunXP(distanceKm: number, duration: number): number {
-  const baseXP = Math.floor(distanceKm * XP_CONFIG.XP_PER_KM);
-  
-  // Bonus for longer runs
-  let bonusXP = 0;
-  if (distanceKm >= 10) bonusXP += 10;
-  if (distanceKm >= 20) bonusXP += 20;
-  
-  // Speed bonus (if maintaining good pace)
-  const avgSpeedKmh = (distanceKm / duration) * 3600;
-  if (avgSpeedKmh >= 8 && avgSpeedKmh <= 15) {
-    bonusXP += 5;
+// Get user's outstanding XP debt and its history
+export async function getUserXPDebt(userId: string, limit: number = 10): Promise<XPDebt> {
+  try {
+    const [{ data: profile }, { data: setting }, { data: events, error }] = await Promise.all([
+      supabase.from('profiles').select('xp_debt').eq('id', userId).single(),
+      supabase.from('economy_settings').select('value').eq('key', 'debt_garnish_rate').maybeSingle(),
+      supabase
+        .from('xp_debt_events')
+        .select('id, amount, reason, debt_after, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit)
+    ]);
+    
+    if (error) throw error;
+    
+    return {
+      outstanding: profile?.xp_debt || 0,
+      garnishRate: setting?.value ?? XP_CONFIG.DEBT_GARNISH_RATE,
+      events: events || []
+    };
+  } catch (error) {
+    console.error('Error fetching XP debt:', error);
+    return { outstanding: 0, garnishRate: XP_CONFIG.DEBT_GARNISH_RATE, events: [] };
   }
-  
-  return baseXP + bonusXP;
 }
 
 // Get user's XP transaction history
@@ -322,33 +326,27 @@ export async function getUserXPHistory(
 }
 
 // Check daily earning limit
+// The window is the profile's local calendar day, computed server-side
 export async function checkDailyEarningLimit(userId: string): Promise<{
   canEarn: boolean;
   earnedToday: number;
   remaining: number;
+  resetsAt?: string;
 }> {
   try {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    const { data, error } = await supabase
-      .from('xp_transactions')
-      .select('amount')
-      .eq('user_id', userId)
-      .gte('created_at', today.toISOString())
-      .in('type', ['earn', 'bonus', 'referral']);
+    const { data, error } = await supabase.rpc('get_daily_earnings', {
+      p_profile_id: userId
+    });
     
     if (error) throw error;
     
-    const earnedToday = (data || [])
-      .reduce((sum, tx) => sum + (tx.amount > 0 ? tx.amount : 0), 0);
-    
-    const remaining = Math.max(0, XP_CONFIG.MAX_DAILY_EARNINGS - earnedToday);
+    const window = data as { earned_today: number; remaining: number; resets_at: string };
     
     return {
-      canEarn: earnedToday < XP_CONFIG.MAX_DAILY_EARNINGS,
-      earnedToday,
-      remaining
+      canEarn: window.remaining > 0,
+      earnedToday: window.earned_today,
+      remaining: window.remaining,
+      resetsAt: window.resets_at
     };
   } catch (error) {
     console.error('Error checking daily limit:', error);
@@ -361,45 +359,16 @@ export async function checkDailyEarningLimit(userId: string): Promise<{
 }
 
 // Process referral bonus
+// Called by the new user; both bonuses and the referrer stats are applied server-side
 export async function processReferralBonus(
-  referrerId: string,
-  newUserId: string
+  referrerId: string
 ): Promise<{ success: boolean; error?: string }> {
   try {
-    // Award bonus to referrer
-    await awardXP(
-      referrerId,
-      XP_CONFIG.XP_REFERRAL_BONUS,
-      'referral',
-      'Referral bonus for inviting a new user',
-      { referredUserId: newUserId }
-    );
-    
-    // Award bonus to new user
-    await awardXP(
-      newUserId,
-      XP_CONFIG.XP_NEW_USER_REFERRAL_BONUS,
-      'bonus',
-      'Welcome bonus for using referral code',
-      { referrerId }
-    );
+    const { error } = await supabase.rpc('process_referral_bonus', {
+      p_referrer_id: referrerId
+    });
     
-    // Update referrer stats
-    const { data: referrerProfile } = await supabase
-      .from('profiles')
-      .select('referral_count, referral_xp_earned')
-      .eq('id', referrerId)
-      .single();
-    
-    if (referrerProfile) {
-      await supabase
-        .from('profiles')
-        .update({
-          referral_count: (referrerProfile.referral_count || 0) + 1,
-          referral_xp_earned: (referrerProfile.referral_xp_earned || 0) + XP_CONFIG.XP_REFERRAL_BONUS
-        })
-        .eq('id', referrerId);
-    }
+    if (error) throw error;
     
     return { success: true };
   } catch (error) {
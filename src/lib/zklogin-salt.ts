@@ -0,0 +1,113 @@
+// zkLogin user salts
+// The salt and the OAuth identity together determine the zkLogin address, so it must
+// be secret, unique per account and identical on every device. Salts are HMAC-SHA256
+// of iss|aud|sub under a secret, truncated to 128 bits as the zkLogin circuit expects.
+import { jwtToAddress } from '@mysten/zklogin';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface SaltResult {
+  salt: string; // decimal string
+  legacy: boolean; // true when the account keeps its pre-HMAC salt
+}
+
+export interface SaltProvider {
+  name: string;
+  getSalt(idToken: string): Promise<SaltResult>;
+}
+
+export type SaltProviderName = 'supabase' | 'hmac';
+
+// Salt service backed by the zklogin-salt edge function; the secret never leaves the server
+export const supabaseSaltProvider: SaltProvider = {
+  name: 'supabase',
+  async getSalt(idToken) {
+    const { data, error } = await supabase.functions.invoke<SaltResult>('zklogin-salt', {
+      body: { idToken }
+    });
+    
+    if (error) throw error;
+    if (!data?.salt) throw new Error('Salt service returned no salt');
+    
+    return data;
+  }
+};
+
+// Local HMAC salts for development against throwaway accounts
+// VITE_ variables are compiled into the bundle, so a secret used here is public:
+// anyone holding it can compute every user's salt. Production salts come from the
+// edge function only. Legacy accounts are recognised by a profile that already
+// holds the old address
+export function createHmacSaltProvider(secret: string): SaltProvider {
+  return {
+    name: 'hmac',
+    async getSalt(idToken) {
+      const legacy = legacyZkLoginSalt(idToken);
+      if (legacy) {
+        const { data } = await supabase
+          .from('profiles')
+          .select('id')
+          .eq('wallet_address', jwtToAddress(idToken, legacy))
+          .maybeSingle();
+        if (data) return { salt: legacy, legacy: true };
+      }
+      
+      return { salt: await deriveZkLoginSalt(secret, idToken), legacy: false };
+    }
+  };
+}
+
+// The configured provider: the edge function, or VITE_ZKLOGIN_SALT_PROVIDER=hmac in dev builds
+// The hmac branch is dropped from production builds along with the secret it reads
+export function getSaltProvider(): SaltProvider {
+  if (import.meta.env.DEV && import.meta.env.VITE_ZKLOGIN_SALT_PROVIDER === 'hmac') {
+    const secret = import.meta.env.VITE_ZKLOGIN_DEV_SALT_SECRET as string | undefined;
+    if (!secret) throw new Error('VITE_ZKLOGIN_DEV_SALT_SECRET is required for the hmac salt provider');
+    return createHmacSaltProvider(secret);
+  }
+  
+  return supabaseSaltProvider;
+}
+
+// HMAC-SHA256(secret, iss|aud|sub) as a 128-bit decimal string
+export async function deriveZkLoginSalt(secret: string, idToken: string): Promise<string> {
+  const { iss, aud, sub } = jwtIdentity(idToken);
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${iss}|${aud}|${sub}`)));
+  const hex = Array.from(mac.slice(0, 16), byte => byte.toString(16).padStart(2, '0')).join('');
+  
+  return BigInt(`0x${hex}`).toString();
+}
+
+// The old client-side salt: a 32-bit string hash of sub:iss
+// Only used to recognise accounts created before the salt service
+export function legacyZkLoginSalt(idToken: string): string | null {
+  try {
+    const { iss, sub } = jwtIdentity(idToken);
+    const input = `${sub}:${iss}:srun`;
+    let h = 0;
+    for (let i = 0; i < input.length; i++) {
+      h = (h << 5) - h + input.charCodeAt(i);
+      h |= 0;
+    }
+    return String(Math.abs(h)) + '0000000000';
+  } catch {
+    return null;
+  }
+}
+
+function jwtIdentity(idToken: string): { iss: string; aud: string; sub: string } {
+  const part = idToken.split('.')[1];
+  if (!part) throw new Error('Malformed id_token');
+  
+  const payload = JSON.parse(atob(part.replace(/-/g, '+').replace(/_/g, '/')));
+  const aud = Array.isArray(payload.aud) ? payload.aud[0] : payload.aud;
+  if (!payload.iss || !payload.sub || !aud) throw new Error('id_token is missing iss, aud or sub');
+  
+  return { iss: payload.iss, aud, sub: payload.sub };
+}
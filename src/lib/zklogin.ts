@@ -24,6 +24,7 @@ import { Ed25519Keypair } from "@mysten/sui.js/keypairs/ed25519";
 import { toB64, fromB64 } from "@mysten/sui.js/utils";
 import { toast } from "sonner";
 import { suiClient } from "./sui-config"; // your Sui client instance
+import { getSaltProvider } from "./zklogin-salt";
 
 // ---- CONFIG ----
 const GOOGLE_CLIENT_ID =
@@ -100,26 +101,6 @@ function decodeJwtPayload(token: string): any | null {
   }
 }
 
-// Deterministic lightweight salt fallback (only used when you don't want remote salt service)
-function generateDeterministicSalt(jwt: string): string {
-  try {
-    const payload = decodeJwtPayload(jwt);
-    if (!payload || !payload.sub || !payload.iss) throw new Error("bad jwt");
-    const input = `${payload.sub}:${payload.iss}:srun`;
-    // simple hash -> decimal string (not cryptographically strong, but deterministic)
-    let h = 0;
-    for (let i = 0; i < input.length; i++) {
-      h = (h << 5) - h + input.charCodeAt(i);
-      h |= 0;
-    }
-    const positive = Math.abs(h);
-    // append digits to ensure length
-    return String(positive) + "0000000000";
-  } catch {
-    return "12345678901234567890";
-  }
-}
-
 // Try to extract private key Uint8Array from Ed25519Keypair instance
 function extractPrivUint8(ephemeral: Ed25519Keypair): Uint8Array {
   // Try common SDK exports
@@ -316,7 +297,7 @@ export async function loginWithGoogle(): Promise<void> {
 
 /**
  * handleOAuthCallback
- * - parse id_token from fragment or query, reconstruct ephemeral key state, compute salt (deterministic fallback),
+ * - parse id_token from fragment or query, reconstruct ephemeral key state, fetch the salt from the salt provider,
  *   derive zkLogin address and persist auth state
  */
 export async function handleOAuthCallback(): Promise<string | null> {
@@ -356,8 +337,9 @@ export async function handleOAuthCallback(): Promise<string | null> {
       return null;
     }
 
-    // compute salt - deterministic fallback
-    const salt = generateDeterministicSalt(idToken);
+    // fetch the account's salt - stable across devices, see zklogin-salt.ts
+    const { salt, legacy } = await getSaltProvider().getSalt(idToken);
+    if (legacy) console.log("[zklogin] Using legacy salt for existing account");
 
     // derive zkLogin address
     const zkAddress = jwtToAddress(idToken, salt);
@@ -0,0 +1,237 @@
+// Zone claiming: the mint flow shared by the map and the offline outbox
+import { supabase } from '@/integrations/supabase/client';
+import { mintLandNFT, isZoneMinted } from '@/lib/sui-land-contract';
+import { Zone, computeZoneId, formatZoneMetadata } from '@/lib/zone-detection';
+import { walrusClient } from '@/lib/walrus-client';
+import { isNetworkError } from '@/lib/offline-store';
+import { resolveZoneOverlap, OverlapRegion, OverlapResolution } from '@/lib/zone-overlap';
+import { Json, Tables } from '@/integrations/supabase/types';
+import { getRegionsIntersecting } from '@/services/regionService';
+import type { Geometry, Polygon } from 'geojson';
+
+export interface ZoneClaim {
+  profileId: string;
+  zone: Zone;
+  name: string;
+  description: string;
+  rentPrice: number;
+  runStats: {
+    distance: number;
+    duration: number;
+    xpEarned: number;
+  };
+  nftId?: string; // minted by an earlier attempt; a retry registers it instead of minting again
+  clientRunId?: string; // the run the zone was traced on; only verified runs can claim
+}
+
+export interface ZoneClaimResult {
+  success: boolean;
+  zoneId?: string;
+  nftId?: string;
+  clipped?: boolean; // minted without the land that overlapped existing zones
+  contestIds?: string[]; // contests opened instead of minting
+  conflict?: boolean; // someone else holds the zone, retrying won't help
+  retryable?: boolean; // failed on connectivity, safe to queue
+  error?: string;
+}
+
+// Regions a geometry touches, as candidates for overlap and contest checks
+export async function fetchOverlapCandidates(geometry: Geometry): Promise<OverlapRegion[]> {
+  return getRegionsIntersecting(geometry);
+}
+
+// The zone outline as GeoJSON; the database repairs self-crossing loops itself
+function zoneGeometry(zone: Zone): Polygon {
+  const points = zone.polygon?.length ? zone.polygon : [
+    { lat: zone.bbox.latMin, lng: zone.bbox.lonMin },
+    { lat: zone.bbox.latMax, lng: zone.bbox.lonMin },
+    { lat: zone.bbox.latMax, lng: zone.bbox.lonMax },
+    { lat: zone.bbox.latMin, lng: zone.bbox.lonMax }
+  ];
+  const ring = points.map(p => [p.lng, p.lat]);
+  return { type: 'Polygon', coordinates: [[...ring, ring[0]]] };
+}
+
+// What claiming the zone would do under the current overlap policy, for the mint modal
+export async function previewZoneClaim(zone: Zone, profileId: string): Promise<OverlapResolution> {
+  return resolveZoneOverlap(zone, await fetchOverlapCandidates(zoneGeometry(zone)), profileId);
+}
+
+// Mint a detected zone as a land NFT and register it as a region
+// Overlaps with existing regions are resolved first: the claim is rejected, clipped
+// to the unclaimed land, or turned into contests depending on ZONE_OVERLAP_CONFIG.
+// onMinted receives the claim with its NFT before the region is inserted, so a
+// queued retry can register that NFT rather than mint (or conflict with) it again
+export async function claimZone(
+  claim: ZoneClaim,
+  onProgress?: (percent: number) => void,
+  onMinted?: (minted: ZoneClaim) => Promise<void> | void
+): Promise<ZoneClaimResult> {
+  try {
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', claim.profileId)
+      .single();
+    
+    if (profileError) throw profileError;
+    
+    // Open debt blocks minting (also enforced on insert)
+    if (profile.xp_debt > 0) {
+      return {
+        success: false,
+        conflict: true,
+        error: `You owe ${profile.xp_debt} XP. Repay your debt before minting new zones.`
+      };
+    }
+    
+    // The server checks the run again when the zone is registered
+    if (!claim.clientRunId) {
+      return { success: false, conflict: true, error: 'Zones can only be claimed from a recorded run.' };
+    }
+    
+    const { data: run, error: runError } = await supabase
+      .from('runs')
+      .select('id, verification_status')
+      .eq('user_email', profile.email)
+      .eq('client_run_id', claim.clientRunId)
+      .maybeSingle();
+    
+    if (runError) throw runError;
+    
+    // Still waiting in the outbox behind the claim's save
+    if (!run) {
+      return { success: false, retryable: true, error: 'The run has not been saved yet' };
+    }
+    
+    if (run.verification_status !== 'verified') {
+      return { success: false, conflict: true, error: 'This run is held for review and cannot claim a zone.' };
+    }
+    
+    onProgress?.(20);
+    
+    // An earlier attempt already resolved overlaps and minted this zone
+    if (claim.nftId) {
+      return await registerZone(claim, profile, run.id, claim.zone, claim.nftId, false);
+    }
+    
+    // Resolve overlaps with existing zones
+    const resolution = resolveZoneOverlap(claim.zone, await fetchOverlapCandidates(zoneGeometry(claim.zone)), profile.id);
+    const { zone } = resolution;
+    
+    if (resolution.action === 'reject') {
+      return { success: false, conflict: true, error: resolution.reason };
+    }
+    
+    if (resolution.action === 'contest') {
+      const contestIds: string[] = [];
+      for (const overlap of resolution.overlaps.filter(o => o.ownerId !== profile.id)) {
+        const { data: contestId, error } = await supabase.rpc('open_zone_contest', {
+          p_profile_id: profile.id,
+          p_region_id: overlap.regionId,
+          p_claim: { ...claim, zone } as unknown as Json,
+          p_overlap_area: overlap.area
+        });
+        
+        if (error) throw error;
+        contestIds.push(contestId);
+      }
+      
+      onProgress?.(100);
+      return { success: true, contestIds };
+    }
+    
+    // Check if zone already minted
+    const { zoneId } = computeZoneId(zone.bbox, zone.zoom);
+    const alreadyMinted = await isZoneMinted(zone.bbox.latMin, zone.bbox.lonMin, zone.zoom);
+    
+    if (alreadyMinted) {
+      return { success: false, conflict: true, zoneId, error: 'This zone has already been minted!' };
+    }
+    
+    onProgress?.(40);
+    
+    // Store metadata in Walrus
+    const metadataBlobId = await walrusClient.storeBlob(JSON.stringify(zoneMetadata(claim, profile, zone)));
+    console.log("Metadata stored in Walrus:", metadataBlobId);
+    
+    onProgress?.(80);
+    
+    // Mint NFT on Sui
+    const nftId = await mintLandNFT(zonePoints(zone), zone.zoom, claim.name, claim.description);
+    await onMinted?.({ ...claim, zone, nftId });
+    
+    onProgress?.(90);
+    
+    return await registerZone(claim, profile, run.id, zone, nftId, resolution.clipped);
+  } catch (error) {
+    console.error('Failed to claim zone:', error);
+    return { success: false, retryable: isNetworkError(error), error: error.message };
+  }
+}
+
+function zonePoints(zone: Zone) {
+  return zone.polygon || [
+    { lat: zone.bbox.latMin, lng: zone.bbox.lonMin },
+    { lat: zone.bbox.latMax, lng: zone.bbox.lonMin },
+    { lat: zone.bbox.latMax, lng: zone.bbox.lonMax },
+    { lat: zone.bbox.latMin, lng: zone.bbox.lonMax }
+  ];
+}
+
+function zoneMetadata(claim: ZoneClaim, profile: Tables<'profiles'>, zone: Zone) {
+  return formatZoneMetadata(zone, profile.username || profile.email, {
+    name: claim.name,
+    description: claim.description,
+    rentPrice: claim.rentPrice,
+    createdBy: profile.id,
+    runStats: claim.runStats
+  });
+}
+
+// Record a minted zone as a region; the server awards the zone XP on insert
+async function registerZone(
+  claim: ZoneClaim,
+  profile: Tables<'profiles'>,
+  runId: string,
+  zone: Zone,
+  nftId: string,
+  clipped: boolean
+): Promise<ZoneClaimResult> {
+  const { zoneId } = computeZoneId(zone.bbox, zone.zoom);
+  
+  // Save to database
+  const { error: insertError } = await supabase
+    .from('regions')
+    .insert({
+      id: zoneId,
+      name: claim.name,
+      description: claim.description,
+      coordinates: zone.polygon,
+      area: zone.area,
+      owner_id: profile.id,
+      rent_price: claim.rentPrice,
+      nft_id: nftId,
+      run_id: runId,
+      metadata: zoneMetadata(claim, profile, zone),
+      color: `#${Math.floor(Math.random()*16777215).toString(16)}`
+    });
+  
+  if (insertError?.code === '23505') {
+    // Registered by an earlier attempt whose response was lost
+    const { data: existing } = await supabase
+      .from('regions')
+      .select('nft_id')
+      .eq('id', zoneId)
+      .maybeSingle();
+    
+    if (existing?.nft_id !== nftId) {
+      // The same zone id was registered while we were minting
+      return { success: false, conflict: true, zoneId, nftId, error: 'This zone has already been minted!' };
+    }
+  } else if (insertError) {
+    throw insertError;
+  }
+  
+  return { success: true, zoneId, nftId, clipped };
+}
@@ -0,0 +1,172 @@
+// Territory contests: measuring runs inside zones and settling captures
+import * as turf from '@turf/turf';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { transferLand } from '@/lib/sui-land-contract';
+import { calculateDistance } from '@/lib/zone-detection';
+import { regionRing } from '@/lib/data-export';
+import { fetchOverlapCandidates } from '@/lib/zone-claim';
+import { OverlapRegion } from '@/lib/zone-overlap';
+
+const LOOP_BUFFER_M = 30; // running just outside the boundary still counts towards a loop
+
+type TracePoint = { lat: number; lng: number };
+
+export interface ZoneActivity {
+  regionId: string;
+  loops: number;
+  distance: number; // meters run inside the zone
+}
+
+export interface RecordZoneActivityPayload {
+  profileId: string;
+  clientRunId: string;
+  points: TracePoint[];
+}
+
+export type ActiveContest = Tables<'zone_contests'> & {
+  regionName: string;
+  role: 'challenger' | 'defender';
+  myDistance: number;
+  rivalDistance: number;
+};
+
+// Loops around and distance inside one zone for a run
+// A loop is one full turn of the trace around the zone's centre while near the zone
+export function measureZoneActivity(points: TracePoint[], region: OverlapRegion): ZoneActivity {
+  const ring = regionRing(region);
+  const activity = { regionId: region.id, loops: 0, distance: 0 };
+  if (ring.length < 4 || points.length < 2) return activity;
+  
+  const zone = turf.polygon([ring]);
+  const near = turf.buffer(zone, LOOP_BUFFER_M, { units: 'meters' });
+  const [cx, cy] = turf.centroid(zone).geometry.coordinates;
+  
+  let winding = 0;
+  let previous: { point: TracePoint; inside: boolean; near: boolean } | null = null;
+  
+  for (const point of points) {
+    const position = turf.point([point.lng, point.lat]);
+    const current = {
+      point,
+      inside: turf.booleanPointInPolygon(position, zone),
+      near: near ? turf.booleanPointInPolygon(position, near) : false
+    };
+    
+    if (previous) {
+      if (previous.inside && current.inside) {
+        activity.distance += calculateDistance(previous.point, point);
+      }
+      
+      if (previous.near && current.near) {
+        let turn = Math.atan2(point.lat - cy, point.lng - cx) - Math.atan2(previous.point.lat - cy, previous.point.lng - cx);
+        if (turn > Math.PI) turn -= 2 * Math.PI;
+        if (turn < -Math.PI) turn += 2 * Math.PI;
+        winding += turn;
+      }
+    }
+    
+    previous = current;
+  }
+  
+  activity.loops = Math.floor(Math.abs(winding) / (2 * Math.PI));
+  return activity;
+}
+
+// Record a finished run against every zone it passed through
+// The run must already be saved: the server measures its stored route, this side
+// only picks the zones worth asking about. Returns the ids of contests the run opened
+export async function recordZoneActivity({ profileId, clientRunId, points }: RecordZoneActivityPayload): Promise<string[]> {
+  if (points.length < 2) return [];
+  
+  // Zones the run came within the loop buffer of, found by the database
+  const corridor = turf.buffer(turf.lineString(points.map(p => [p.lng, p.lat])), LOOP_BUFFER_M, { units: 'meters' });
+  if (!corridor) return [];
+  const regions = (await fetchOverlapCandidates(corridor.geometry)).filter(region => regionRing(region).length >= 4);
+  
+  const contestIds: string[] = [];
+  
+  for (const region of regions) {
+    const activity = measureZoneActivity(points, region);
+    if (activity.loops === 0 && activity.distance === 0) continue;
+    
+    const { data: contestId, error } = await supabase.rpc('record_zone_activity', {
+      p_profile_id: profileId,
+      p_region_id: region.id,
+      p_client_run_id: clientRunId
+    });
+    
+    if (error) throw error;
+    if (contestId) contestIds.push(contestId);
+  }
+  
+  return contestIds;
+}
+
+// Open contests the profile is part of, with the distance each side has run so far
+export async function getActiveContests(profileId: string): Promise<ActiveContest[]> {
+  try {
+    const { data, error } = await supabase
+      .from('zone_contests')
+      .select('*, regions!zone_contests_region_id_fkey(name)')
+      .eq('status', 'open')
+      .or(`challenger_id.eq.${profileId},defender_id.eq.${profileId}`)
+      .order('resolves_at', { ascending: true });
+    
+    if (error) throw error;
+    
+    return await Promise.all((data || []).map(async ({ regions, ...contest }) => {
+      const role = contest.challenger_id === profileId ? 'challenger' : 'defender';
+      const rivalId = role === 'challenger' ? contest.defender_id : contest.challenger_id;
+      const [mine, rival] = await Promise.all([profileId, rivalId].map(async id => {
+        if (!id) return 0;
+        const { data: distance } = await supabase.rpc('zone_distance', {
+          p_region_id: contest.region_id,
+          p_profile_id: id,
+          p_from: contest.opened_at,
+          p_to: contest.resolves_at
+        });
+        return distance || 0;
+      }));
+      
+      return { ...contest, regionName: regions?.name || contest.region_id, role, myDistance: mine, rivalDistance: rival };
+    }));
+  } catch (error) {
+    console.error('Error fetching contests:', error);
+    return [];
+  }
+}
+
+// Settle contests whose timer ran out, then hand over land NFTs this profile lost
+export async function settleZoneContests(profileId: string): Promise<void> {
+  const { error } = await supabase.rpc('resolve_due_zone_contests');
+  if (error) console.error('Error resolving contests:', error);
+  
+  const { data: pending, error: pendingError } = await supabase
+    .from('zone_contests')
+    .select('id, regions!zone_contests_region_id_fkey(nft_id), challenger:profiles!zone_contests_challenger_id_fkey(wallet_address)')
+    .eq('defender_id', profileId)
+    .eq('nft_transfer_status', 'pending');
+  
+  if (pendingError) {
+    console.error('Error fetching pending land transfers:', pendingError);
+    return;
+  }
+  
+  for (const contest of pending || []) {
+    const nftId = contest.regions?.nft_id;
+    const wallet = contest.challenger?.wallet_address;
+    if (!nftId || !wallet) continue;
+    
+    try {
+      await transferLand(nftId, wallet);
+      const { error: confirmError } = await supabase.rpc('confirm_contest_nft_transfer', {
+        p_profile_id: profileId,
+        p_contest_id: contest.id
+      });
+      if (confirmError) throw confirmError;
+    } catch (transferError) {
+      console.error('Failed to transfer captured land NFT:', transferError);
+    }
+  }
+}
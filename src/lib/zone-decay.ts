@@ -0,0 +1,39 @@
+// Zone upkeep: health of zones that decay unless their owner keeps running in them
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export type RegionHealth = Tables<'region_health'>;
+
+// Ids per request when filtering, so the query string stays short
+const HEALTH_ID_BATCH = 150;
+
+// Health, rent ceiling and reclaimability per region id
+export async function getRegionHealth(regionIds?: string[]): Promise<Record<string, RegionHealth>> {
+  try {
+    const batches = regionIds
+      ? Array.from({ length: Math.ceil(regionIds.length / HEALTH_ID_BATCH) }, (_, i) => regionIds.slice(i * HEALTH_ID_BATCH, (i + 1) * HEALTH_ID_BATCH))
+      : [null];
+    
+    const results = await Promise.all(batches.map(ids => {
+      const query = supabase.from('region_health').select('*');
+      return ids ? query.in('id', ids) : query;
+    }));
+    
+    const failed = results.find(result => result.error);
+    if (failed?.error) throw failed.error;
+    
+    const rows = results.flatMap(result => result.data || []);
+    return Object.fromEntries(rows.filter(row => row.id).map(row => [row.id as string, row]));
+  } catch (error) {
+    console.error('Error fetching zone health:', error);
+    return {};
+  }
+}
+
+// Short status line for a zone's health
+export function describeZoneHealth(health?: RegionHealth): string {
+  if (!health || health.health === null) return 'Unknown';
+  if (health.reclaimable) return 'Abandoned: any rival who runs here takes it';
+  if (health.health >= 1) return 'Full health';
+  return `Decaying: ${Math.round(health.health * 100)}% health, rent capped at ${health.rent_ceiling} XP`;
+}
@@ -31,8 +31,8 @@ export interface RunTrace {
 }
 
 // Anti-cheat thresholds
-const MAX_RUNNING_SPEED = 14; // m/s (world record is ~10.4 m/s)
-const MAX_ACCURACY_THRESHOLD = 50; // meters
+export const MAX_RUNNING_SPEED = 14; // m/s (world record is ~10.4 m/s)
+export const MAX_ACCURACY_THRESHOLD = 50; // meters
 const MIN_ZONE_AREA = 50; // m²
 const MIN_ZONE_PERIMETER = 30; // meters
 const POLYGON_CLOSE_RADIUS = 10; // meters
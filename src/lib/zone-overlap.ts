@@ -0,0 +1,235 @@
+// Geometric conflict detection between a new zone and existing regions
+import * as turf from '@turf/turf';
+import type { Feature, Polygon, MultiPolygon } from 'geojson';
+import { Tables } from '@/integrations/supabase/types';
+import { Zone, computeZoneId, calculatePolygonArea, calculatePerimeter } from '@/lib/zone-detection';
+import { regionRing } from '@/lib/data-export';
+
+export type ZoneOverlapPolicy = 'reject' | 'clip' | 'contest';
+
+const POLICIES: ZoneOverlapPolicy[] = ['reject', 'clip', 'contest'];
+const envPolicy = import.meta.env.VITE_ZONE_OVERLAP_POLICY as ZoneOverlapPolicy | undefined;
+
+export const ZONE_OVERLAP_CONFIG = {
+  // What happens when a claim intersects land that is already owned
+  POLICY: (envPolicy && POLICIES.includes(envPolicy) ? envPolicy : 'clip') as ZoneOverlapPolicy,
+  MIN_OVERLAP_M2: 5, // shared edges and GPS jitter below this are ignored
+  MIN_CLIPPED_SHARE: 0.25, // a clipped zone must keep this much of the original area
+  MIN_CLIPPED_AREA: 50 // m², same as the detection minimum
+};
+
+export type OverlapRegion = Pick<Tables<'regions'>, 'id' | 'name' | 'owner_id' | 'coordinates' | 'metadata'>;
+
+export interface ZoneOverlap {
+  regionId: string;
+  name: string;
+  ownerId: string | null;
+  area: number; // m² shared with the new zone
+  share: number; // fraction of the new zone covered by this region
+  polygon: Array<{ lat: number; lng: number }>;
+}
+
+export interface OverlapResolution {
+  action: 'mint' | 'reject' | 'contest';
+  zone: Zone; // the zone to mint; clipped when land had to be cut away
+  overlaps: ZoneOverlap[];
+  clipped: boolean;
+  reason?: string;
+}
+
+// Regions that share land with the zone, largest overlap first
+export function findZoneOverlaps(zone: Zone, regions: OverlapRegion[]): ZoneOverlap[] {
+  const zonePolygon = zoneToPolygon(zone);
+  if (!zonePolygon) return [];
+  
+  const zoneArea = turf.area(zonePolygon);
+  const overlaps: ZoneOverlap[] = [];
+  
+  for (const region of regions) {
+    if (region.id === zone.id) continue;
+    
+    const regionPolygon = ringToPolygon(regionRing(region));
+    if (!regionPolygon) continue;
+    
+    // Cheap bbox test before the polygon intersection
+    if (!bboxesIntersect(turf.bbox(zonePolygon), turf.bbox(regionPolygon))) continue;
+    
+    const shared = safeIntersect(zonePolygon, regionPolygon);
+    if (!shared) continue;
+    
+    const area = turf.area(shared);
+    if (area < ZONE_OVERLAP_CONFIG.MIN_OVERLAP_M2) continue;
+    
+    overlaps.push({
+      regionId: region.id,
+      name: region.name,
+      ownerId: region.owner_id,
+      area,
+      share: zoneArea > 0 ? area / zoneArea : 1,
+      polygon: largestRing(shared)
+    });
+  }
+  
+  return overlaps.sort((a, b) => b.area - a.area);
+}
+
+// Apply the overlap policy to a claim by ownerId
+// Overlaps with the claimant's own zones are always clipped away; only rival land can be contested
+export function resolveZoneOverlap(
+  zone: Zone,
+  regions: OverlapRegion[],
+  ownerId: string,
+  policy: ZoneOverlapPolicy = ZONE_OVERLAP_CONFIG.POLICY
+): OverlapResolution {
+  const overlaps = findZoneOverlaps(zone, regions);
+  
+  if (overlaps.length === 0) {
+    return { action: 'mint', zone, overlaps, clipped: false };
+  }
+  
+  if (policy === 'reject') {
+    return {
+      action: 'reject',
+      zone,
+      overlaps,
+      clipped: false,
+      reason: `This zone overlaps ${overlaps.map(o => `"${o.name}"`).join(', ')}`
+    };
+  }
+  
+  if (policy === 'contest' && overlaps.some(o => o.ownerId !== ownerId)) {
+    return { action: 'contest', zone, overlaps, clipped: false };
+  }
+  
+  const clipped = clipZone(zone, regions.filter(r => overlaps.some(o => o.regionId === r.id)));
+  if (!clipped.zone) {
+    return { action: 'reject', zone, overlaps, clipped: false, reason: clipped.reason };
+  }
+  
+  return { action: 'mint', zone: clipped.zone, overlaps, clipped: true };
+}
+
+// The zone minus the given regions, as a new zone
+// Zones are stored as a single outline, so a cut that leaves holes (the claim encloses
+// another zone) is refused rather than minted over the enclosed land
+export function clipZone(zone: Zone, regions: OverlapRegion[]): { zone: Zone | null; reason?: string } {
+  let remaining: Feature<Polygon | MultiPolygon> | null = zoneToPolygon(zone);
+  
+  for (const region of regions) {
+    const regionPolygon = ringToPolygon(regionRing(region));
+    if (!remaining || !regionPolygon) continue;
+    remaining = safeDifference(remaining, regionPolygon);
+    if (remaining === undefined) {
+      return { zone: null, reason: 'The overlap with existing zones could not be cut away' };
+    }
+  }
+  
+  const tooSmall = { zone: null, reason: 'Too little unclaimed land is left in this zone' };
+  if (!remaining) return tooSmall;
+  
+  const largest = largestPolygon(remaining);
+  if (!largest) return tooSmall;
+  if (largest.length > 1) {
+    return { zone: null, reason: 'This zone surrounds an existing zone and cannot be clipped around it' };
+  }
+  
+  const polygon = toLatLng(largest[0]);
+  if (polygon.length < 3) return tooSmall;
+  
+  const area = calculatePolygonArea(polygon);
+  if (area < ZONE_OVERLAP_CONFIG.MIN_CLIPPED_AREA || area < zone.area * ZONE_OVERLAP_CONFIG.MIN_CLIPPED_SHARE) {
+    return tooSmall;
+  }
+  
+  const lats = polygon.map(p => p.lat);
+  const lngs = polygon.map(p => p.lng);
+  const bbox = {
+    latMin: Math.min(...lats),
+    latMax: Math.max(...lats),
+    lonMin: Math.min(...lngs),
+    lonMax: Math.max(...lngs)
+  };
+  const { zoneId, canonical } = computeZoneId(bbox, zone.zoom);
+  
+  return {
+    zone: {
+      id: zoneId,
+      canonicalString: canonical,
+      bbox,
+      polygon,
+      zoom: zone.zoom,
+      area,
+      perimeter: calculatePerimeter(polygon)
+    }
+  };
+}
+
+function zoneToPolygon(zone: Zone): Feature<Polygon> | null {
+  const points = zone.polygon || [
+    { lat: zone.bbox.latMin, lng: zone.bbox.lonMin },
+    { lat: zone.bbox.latMax, lng: zone.bbox.lonMin },
+    { lat: zone.bbox.latMax, lng: zone.bbox.lonMax },
+    { lat: zone.bbox.latMin, lng: zone.bbox.lonMax }
+  ];
+  const ring = points.map(p => [p.lng, p.lat] as [number, number]);
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  
+  return ringToPolygon(first[0] === last[0] && first[1] === last[1] ? ring : [...ring, first]);
+}
+
+// Run loops often cross themselves; fall back to the hull so turf gets a valid polygon
+function ringToPolygon(ring: Array<[number, number]>): Feature<Polygon> | null {
+  if (ring.length < 4) return null;
+  
+  const polygon = turf.polygon([ring]);
+  if (turf.kinks(polygon).features.length === 0) return polygon;
+  
+  return turf.convex(turf.featureCollection(ring.map(p => turf.point(p))));
+}
+
+function safeIntersect(a: Feature<Polygon>, b: Feature<Polygon>): Feature<Polygon | MultiPolygon> | null {
+  try {
+    return turf.intersect(turf.featureCollection([a, b]));
+  } catch (error) {
+    console.warn('Polygon intersection failed:', error);
+    return null;
+  }
+}
+
+// undefined when turf cannot cut the shapes, null when nothing is left
+function safeDifference(
+  a: Feature<Polygon | MultiPolygon>,
+  b: Feature<Polygon>
+): Feature<Polygon | MultiPolygon> | null | undefined {
+  try {
+    return turf.difference(turf.featureCollection([a, b]));
+  } catch (error) {
+    console.warn('Polygon difference failed:', error);
+    return undefined;
+  }
+}
+
+// Rings (outer first, then holes) of the largest polygon in the feature
+function largestPolygon(feature: Feature<Polygon | MultiPolygon>): number[][][] | null {
+  const polygons = feature.geometry.type === 'Polygon'
+    ? [feature.geometry.coordinates]
+    : feature.geometry.coordinates;
+  
+  const largest = polygons
+    .map(coordinates => ({ coordinates, area: turf.area(turf.polygon(coordinates)) }))
+    .sort((a, b) => b.area - a.area)[0];
+  
+  return largest?.coordinates || null;
+}
+
+function largestRing(feature: Feature<Polygon | MultiPolygon>): Array<{ lat: number; lng: number }> {
+  return toLatLng(largestPolygon(feature)?.[0] || []);
+}
+
+function toLatLng(ring: number[][]): Array<{ lat: number; lng: number }> {
+  return ring.slice(0, -1).map(([lng, lat]) => ({ lat, lng }));
+}
+
+function bboxesIntersect(a: number[], b: number[]): boolean {
+  return a[0] <= b[2] && b[0] <= a[2] && a[1] <= b[3] && b[1] <= a[3];
+}
@@ -0,0 +1,110 @@
+// Zone visits: the run tracker's enter/exit events, logged on the server
+// An enter opens a visit and the server decides there whether rent is due; the
+// matching exit closes it with the time and distance spent inside. Rent and the
+// entry penalty are settled against the visit, so a zone charges once per run.
+// A visit that closes after the grace period with rent unpaid is penalized by the
+// server whether or not the app asked for it.
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import type { LatLng } from '@/lib/map-engine';
+
+export type ZoneAccess = 'open' | 'owner' | 'club' | 'rent';
+export type RentStatus = 'none' | 'due' | 'paid' | 'penalized';
+export type ZoneVisitor = Database['public']['Functions']['zone_visitors']['Returns'][number];
+
+export interface ZoneVisitEvent {
+  kind: 'enter' | 'exit';
+  profileId: string;
+  clientRunId: string;
+  regionId: string;
+  point: LatLng;
+  at: number; // a queued exit keeps this time only if it arrives within a few minutes
+  runDistance: number; // meters run so far, so the server can tell the distance inside
+}
+
+export interface ZoneVisit {
+  visitId: string;
+  access: ZoneAccess;
+  rentStatus: RentStatus;
+  ownerId: string | null;
+}
+
+// Record an enter or exit; an enter returns the visit it opened, an exit null
+// Throws so the outbox can tell a dropped connection from a rejected event
+export async function recordZoneVisitEvent(event: ZoneVisitEvent): Promise<ZoneVisit | null> {
+  const args = {
+    p_profile_id: event.profileId,
+    p_client_run_id: event.clientRunId,
+    p_region_id: event.regionId,
+    p_lat: event.point.lat,
+    p_lng: event.point.lng,
+    p_run_distance_m: Math.round(event.runDistance)
+  };
+  const at = new Date(event.at).toISOString();
+  
+  if (event.kind === 'exit') {
+    const { error } = await supabase.rpc('record_zone_exit', { ...args, p_exited_at: at });
+    if (error) throw error;
+    return null;
+  }
+  
+  const { data, error } = await supabase.rpc('record_zone_enter', { ...args, p_entered_at: at });
+  if (error) throw error;
+  
+  const visit = data as { visit_id: string; access: ZoneAccess; rent_status: RentStatus; owner_id: string | null };
+  return {
+    visitId: visit.visit_id,
+    access: visit.access,
+    rentStatus: visit.rent_status,
+    ownerId: visit.owner_id
+  };
+}
+
+// Pay the rent due on a visit at the zone's current price
+export async function payVisitRent(
+  profileId: string,
+  visitId: string
+): Promise<{ success: boolean; amount?: number; newBalance?: number; error?: string }> {
+  const { data, error } = await supabase.rpc('settle_zone_visit', {
+    p_profile_id: profileId,
+    p_visit_id: visitId,
+    p_action: 'pay'
+  });
+  
+  if (error) {
+    return { success: false, error: error.message };
+  }
+  
+  const result = data as { amount: number; balance: number };
+  return { success: true, amount: result.amount, newBalance: result.balance };
+}
+
+// Charge the entry penalty on an unpaid visit; the server refuses while the grace period runs
+export async function penalizeVisit(
+  profileId: string,
+  visitId: string
+): Promise<{ success: boolean; penalty?: number; shortfall?: number; error?: string }> {
+  const { data, error } = await supabase.rpc('settle_zone_visit', {
+    p_profile_id: profileId,
+    p_visit_id: visitId,
+    p_action: 'penalty'
+  });
+  
+  if (error) {
+    return { success: false, error: error.message };
+  }
+  
+  const result = data as { penalty: number; shortfall: number };
+  return { success: true, penalty: result.penalty, shortfall: result.shortfall };
+}
+
+// Latest visits by other runners to the zones the profile owns
+export async function getZoneVisitors(profileId: string, limit = 50): Promise<ZoneVisitor[]> {
+  const { data, error } = await supabase.rpc('zone_visitors', { p_profile_id: profileId, p_limit: limit });
+  
+  if (error) {
+    console.error('Error fetching zone visitors:', error);
+    return [];
+  }
+  return data || [];
+}
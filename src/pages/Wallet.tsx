@@ -2,11 +2,13 @@ import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { ArrowUpRight, ArrowDownLeft, Plus, Send, TrendingUp, Copy, Check, Wallet as WalletIcon } from "lucide-react";
+import { ArrowUpRight, ArrowDownLeft, Plus, Send, TrendingUp, Copy, Check, Wallet as WalletIcon, AlertTriangle } from "lucide-react";
 import { motion } from "framer-motion";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
 import { getOrCreateWalletForUser } from "@/lib/auto-wallet";
+import KeystoreCard from "@/components/KeystoreCard";
+import { getUserXPDebt, XPDebt } from "@/lib/xp-economics";
 
 interface Transaction {
   id: string;
@@ -20,7 +22,9 @@ const WalletPage = () => {
   const navigate = useNavigate();
   const [balance, setBalance] = useState(0);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [debt, setDebt] = useState<XPDebt | null>(null);
   const [walletAddress, setWalletAddress] = useState("");
+  const [userId, setUserId] = useState<string | null>(null);
   const [walletCopied, setWalletCopied] = useState(false);
   const [loading, setLoading] = useState(true);
 
@@ -35,8 +39,9 @@ const WalletPage = () => {
         navigate("/auth");
         return;
       }
+      setUserId(user.id);
 
-      // Get or create wallet
+      // Get or create wallet; stays null while a passphrase-protected key is locked
       const wallet = await getOrCreateWalletForUser(user.id);
       if (wallet) {
         setWalletAddress(wallet.address);
@@ -73,6 +78,9 @@ const WalletPage = () => {
           }));
           setTransactions(formattedTransactions);
         }
+
+        // Get outstanding XP debt
+        setDebt(await getUserXPDebt(profile.id));
       }
     } catch (error) {
       console.error("Error loading wallet data:", error);
@@ -134,6 +142,9 @@ const WalletPage = () => {
           </Card>
         )}
 
+        {/* Keystore Card */}
+        {userId && <KeystoreCard userId={userId} onWalletChange={setWalletAddress} />}
+
         {/* Balance Card */}
         <motion.div
           initial={{ opacity: 0, y: -20 }}
@@ -149,6 +160,39 @@ const WalletPage = () => {
           </Card>
         </motion.div>
 
+        {/* Debt Card */}
+        {debt && debt.outstanding > 0 && (
+          <Card className="p-4 bg-destructive/10 border-destructive/30 backdrop-blur-sm">
+            <div className="flex items-start gap-3">
+              <AlertTriangle className="w-5 h-5 text-destructive mt-0.5" />
+              <div className="flex-1 space-y-1">
+                <div className="flex items-center justify-between">
+                  <p className="font-semibold text-foreground">Outstanding XP Debt</p>
+                  <p className="font-bold text-destructive">{debt.outstanding.toLocaleString()} XP</p>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {Math.round(debt.garnishRate * 100)}% of every XP award goes to repayment until the debt is cleared.
+                  Zone minting is paused while you owe XP.
+                </p>
+              </div>
+            </div>
+            {debt.events.length > 0 && (
+              <div className="mt-3 pt-3 border-t border-destructive/20 space-y-1">
+                {debt.events.map(event => (
+                  <div key={event.id} className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      {event.reason === "repayment" ? "Repaid" : "Penalty debt"} · {new Date(event.created_at).toLocaleDateString()}
+                    </span>
+                    <span className={event.amount < 0 ? "text-accent" : "text-destructive"}>
+                      {event.amount < 0 ? "-" : "+"}{Math.abs(event.amount)} XP
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+        )}
+
         {/* Action Buttons */}
         <div className="grid grid-cols-2 gap-3">
           <Button
@@ -0,0 +1,54 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+
+export type Notification = Tables<'notifications'>;
+
+export async function getUnreadNotifications(profileId: string) {
+  try {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .eq('profile_id', profileId)
+      .is('read_at', null)
+      .order('created_at', { ascending: true });
+    
+    if (error) throw error;
+    
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    return [];
+  }
+}
+
+export async function markNotificationsRead(ids: string[]) {
+  if (ids.length === 0) return;
+  
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .in('id', ids);
+  
+  if (error) console.error('Error marking notifications read:', error);
+}
+
+// Deliver new notifications as they arrive; returns an unsubscribe function
+export function subscribeToNotifications(profileId: string, onNotification: (notification: Notification) => void) {
+  const channel = supabase
+    .channel(`notifications-${profileId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'notifications',
+        filter: `profile_id=eq.${profileId}`
+      },
+      (payload) => onNotification(payload.new as Notification)
+    )
+    .subscribe();
+  
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
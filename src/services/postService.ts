@@ -1,63 +1,216 @@
 import { supabase } from "@/integrations/supabase/client";
-import { getCurrentUserInfo } from "@/lib/zklogin";
+import { Tables } from "@/integrations/supabase/types";
+import { resolveProfileId } from "@/lib/offline-store";
+
+// Posts live in community_posts; every screen that reads or writes posts goes through here
+
+// Snapshotted by the database when a run or zone is attached
+export type PostAttachment =
+  | { type: 'run'; distance: number; area: number; date: string; route: [number, number][] } // meters, m², [lng, lat]
+  | { type: 'zone'; name: string; area: number; outline: { lat: number; lng: number }[] };
 
 export interface PostData {
-  content: string;
+  content?: string;
   runId?: string;
+  zoneId?: string;
+  image?: File;
+  location?: string;
+}
+
+export interface FeedComment {
+  id: string;
+  user_id: string;
+  username: string;
+  avatar_url?: string;
+  content: string;
+  created_at: string;
+}
+
+export interface FeedPost {
+  id: string;
+  user_id: string;
+  username: string;
+  avatar_url?: string;
+  content: string;
+  image_url?: string;
+  location?: string;
+  likes: number;
+  reposts: number;
+  comments: FeedComment[];
+  created_at: string;
+  has_liked: boolean;
+  is_following: boolean;
+  is_announcement: boolean;
+  attachment: PostAttachment | null;
+}
+
+export type FeedTab = 'following' | 'nearby' | 'groups' | 'global';
+
+// The last post of a page
+export interface FeedCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface FeedPage {
+  posts: FeedPost[];
+  nextCursor: FeedCursor | null; // null on the last page
 }
 
-export async function createPost(postData: PostData) {
-  const userInfo = getCurrentUserInfo();
+export interface NearbyArea {
+  lat: number;
+  lng: number;
+  radiusKm: number;
+}
+
+type PostResult = { success: boolean; error?: string; post?: Tables<'community_posts'> };
+
+const PHOTO_BUCKET = 'community';
+const FEED_PAGE_SIZE = 20;
+
+export async function createPost(postData: PostData): Promise<PostResult> {
+  const { data: { user } } = await supabase.auth.getUser();
+  const profileId = await resolveProfileId();
+  
+  if (!user || !profileId) {
+    return { success: false, error: 'Please login to post' };
+  }
   
-  if (!userInfo?.email) {
-    console.error('No user found, cannot create post');
-    return null;
+  if (!postData.content?.trim() && !postData.image && !postData.runId && !postData.zoneId) {
+    return { success: false, error: 'Add some text, a photo, a run or a zone' };
   }
   
   try {
+    const imageUrl = postData.image ? await uploadPostPhoto(user.id, postData.image) : null;
+    
     const { data, error } = await supabase
-      .from('posts')
+      .from('community_posts')
       .insert({
-        user_email: userInfo.email,
-        content: postData.content,
-        run_id: postData.runId
+        user_id: profileId,
+        content: postData.content?.trim() || null,
+        image_url: imageUrl,
+        location: postData.location,
+        run_id: postData.runId,
+        region_id: postData.zoneId
       })
       .select()
       .single();
     
     if (error) throw error;
     
-    return data;
+    return { success: true, post: data };
   } catch (error) {
     console.error('Error creating post:', error);
-    return null;
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to post' };
   }
 }
 
-export async function getPosts() {
+// Photos are stored under the author's auth id, as the bucket policies require
+async function uploadPostPhoto(authUserId: string, image: File): Promise<string> {
+  const extension = image.name.split('.').pop() || 'jpg';
+  const path = `${authUserId}/${Date.now()}.${extension}`;
+  
+  const { error } = await supabase.storage.from(PHOTO_BUCKET).upload(path, image);
+  if (error) throw error;
+  
+  return supabase.storage.from(PHOTO_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+// Newest first; pass a page's cursor to get the page after it
+export async function getFeed(tab: FeedTab, cursor?: FeedCursor | null, nearby?: NearbyArea): Promise<FeedPage> {
   try {
-    const { data, error } = await supabase
-      .from('posts')
-      .select(`
-        *,
-        users!posts_user_email_fkey (
-          name,
-          avatar_url,
-          wallet
-        ),
-        runs!posts_run_id_fkey (
-          area_m2,
-          date,
-          route
-        )
-      `)
-      .order('created_at', { ascending: false });
+    const { data, error } = await supabase.rpc('get_community_feed', {
+      p_tab: tab,
+      p_before: cursor?.createdAt,
+      p_before_id: cursor?.id,
+      p_limit: FEED_PAGE_SIZE,
+      p_lat: nearby?.lat,
+      p_lng: nearby?.lng,
+      p_radius_km: nearby?.radiusKm
+    });
     
     if (error) throw error;
     
-    return data || [];
+    const posts = (data || []).map(post => ({
+      id: post.id,
+      user_id: post.user_id,
+      username: post.username || 'Anonymous',
+      avatar_url: post.avatar_url || undefined,
+      content: post.content || '',
+      image_url: post.image_url || undefined,
+      location: post.location || undefined,
+      likes: post.likes_count,
+      reposts: post.reposts_count,
+      comments: ((post.comments || []) as unknown as FeedComment[]).map(comment => ({
+        ...comment,
+        username: comment.username || 'Anonymous',
+        avatar_url: comment.avatar_url || undefined
+      })),
+      created_at: post.created_at,
+      has_liked: post.has_liked,
+      is_following: post.is_following,
+      is_announcement: post.post_type === 'announcement',
+      attachment: post.attachment as PostAttachment | null
+    }));
+    const last = posts[posts.length - 1];
+    
+    return {
+      posts,
+      nextCursor: posts.length === FEED_PAGE_SIZE ? { createdAt: last.created_at, id: last.id } : null
+    };
   } catch (error) {
-    console.error('Error fetching posts:', error);
+    console.error('Error fetching feed:', error);
+    return { posts: [], nextCursor: null };
+  }
+}
+
+// Like or unlike; the like count is kept by the database
+export async function toggleLike(post: FeedPost): Promise<PostResult> {
+  const profileId = await resolveProfileId();
+  if (!profileId) return { success: false, error: 'Please login to like' };
+  
+  const { error } = post.has_liked
+    ? await supabase.from('post_likes').delete().eq('post_id', post.id).eq('user_id', profileId)
+    : await supabase.from('post_likes').insert({ post_id: post.id, user_id: profileId });
+  
+  return error ? { success: false, error: error.message } : { success: true };
+}
+
+export async function addComment(postId: string, content: string): Promise<PostResult> {
+  const profileId = await resolveProfileId();
+  if (!profileId) return { success: false, error: 'Please login to comment' };
+  
+  const { error } = await supabase
+    .from('post_comments')
+    .insert({ post_id: postId, user_id: profileId, content: content.trim() });
+  
+  return error ? { success: false, error: error.message } : { success: true };
+}
+
+// Call onChange whenever a post, like or comment changes
+export function subscribeToPosts(onChange: () => void) {
+  const channel = supabase
+    .channel('community-posts')
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'community_posts' }, () => onChange())
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'post_comments' }, () => onChange())
+    .subscribe();
+  
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+// The runner's own zones, for attaching to a post
+export async function getShareableZones(profileId: string) {
+  const { data, error } = await supabase
+    .from('regions')
+    .select('id, name, area')
+    .eq('owner_id', profileId)
+    .order('claimed_at', { ascending: false });
+  
+  if (error) {
+    console.error('Error fetching zones:', error);
     return [];
   }
-}
\ No newline at end of file
+  return data || [];
+}
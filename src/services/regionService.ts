@@ -0,0 +1,70 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database, Json } from "@/integrations/supabase/types";
+import type { Geometry } from "geojson";
+import type { LatLng, MapBounds } from "@/lib/map-engine";
+
+// Spatial lookups on regions, answered by PostGIS; the map asks for the area around the viewport rather than every zone
+
+type Functions = Database['public']['Functions'];
+
+export type RegionInBounds = Functions['regions_in_bbox']['Returns'][number];
+export type RegionAtPoint = Functions['region_at_point']['Returns'][number];
+export type RegionIntersection = Functions['regions_intersecting']['Returns'][number];
+
+export const REGION_QUERY_CONFIG = {
+  MAX_REGIONS: 2000
+};
+
+// Regions whose bounding box overlaps the bounds, with owner and club names; null on failure
+export async function getRegionsInBounds(bounds: MapBounds): Promise<RegionInBounds[] | null> {
+  const { data, error } = await supabase.rpc('regions_in_bbox', {
+    p_west: bounds.west,
+    p_south: bounds.south,
+    p_east: bounds.east,
+    p_north: bounds.north,
+    p_limit: REGION_QUERY_CONFIG.MAX_REGIONS
+  });
+  
+  if (error) {
+    console.error('Error fetching regions:', error);
+    return null;
+  }
+  return data || [];
+}
+
+// Regions within the radius of a point, nearest first; null on failure
+export async function getRegionsNear(point: LatLng, radiusM: number): Promise<RegionInBounds[] | null> {
+  const { data, error } = await supabase.rpc('regions_within_radius', {
+    p_lat: point.lat,
+    p_lng: point.lng,
+    p_radius_m: radiusM,
+    p_limit: REGION_QUERY_CONFIG.MAX_REGIONS
+  });
+  
+  if (error) {
+    console.error('Error fetching nearby regions:', error);
+    return null;
+  }
+  return data || [];
+}
+
+// The region the point lies in, checked on the server against the stored geometry
+export async function getRegionAtPoint(point: LatLng): Promise<RegionAtPoint | null> {
+  const { data, error } = await supabase.rpc('region_at_point', { p_lat: point.lat, p_lng: point.lng });
+  
+  if (error) {
+    console.error('Error looking up region:', error);
+    return null;
+  }
+  return data?.[0] || null;
+}
+
+// Regions touching a GeoJSON geometry; throws so callers can tell a failure from no overlap
+export async function getRegionsIntersecting(geometry: Geometry): Promise<RegionIntersection[]> {
+  const { data, error } = await supabase.rpc('regions_intersecting', {
+    p_geometry: geometry as unknown as Json
+  });
+  
+  if (error) throw error;
+  return data || [];
+}
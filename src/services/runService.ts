@@ -1,73 +1,152 @@
 import { supabase } from "@/integrations/supabase/client";
 import { getCurrentUserInfo } from "@/lib/zklogin";
-import * as turf from "@turf/turf";
+import { Tables } from "@/integrations/supabase/types";
+import { AntiCheatReason, AntiCheatVerdict, RunVerificationStatus } from "@/lib/anti-cheat";
+import { parseRunFile, RunFileFormat } from "@/lib/run-import";
+import { Zone, validateRunTrace, detectZoneFromTrace } from "@/lib/zone-detection";
+import { awardImportedRunXP, XPAwardResult } from "@/lib/xp-economics";
 
 export interface RunData {
-  route: [number, number][]; // [lng, lat] pairs
-  polygon?: any; // GeoJSON polygon
-  bbox?: { lonMin: number; latMin: number; lonMax: number; latMax: number };
-  area?: number; // square meters
+  route: [number, number][]; // [lng, lat] pairs; the database derives the covered area from it
+  timestamps?: number[]; // epoch ms for each route point
   walrusCid?: string;
+  source?: 'recorded' | 'imported';
+  recordedAt?: Date; // when the run happened, if not now
+  importHash?: string;
+  clientRunId?: string; // dedupes retried saves from the offline outbox
+}
+
+export interface RunImportResult {
+  run: Tables<'runs'>;
+  format: RunFileFormat;
+  distance: number; // meters
+  issues: string[];
+  verification: AntiCheatVerdict;
+  zone: Zone | null;
+  xp: XPAwardResult;
 }
 
 export async function saveRun(runData: RunData) {
-  const userInfo = getCurrentUserInfo();
-  
-  if (!userInfo?.email) {
-    console.error('No user found, cannot save run');
-    return null;
-  }
-  
   try {
-    // Create GeoJSON LineString
-    const routeGeoJSON = {
-      type: "LineString",
-      coordinates: runData.route
-    };
-    
-    // Calculate polygon and area if route is long enough
-    let polygon = runData.polygon;
-    let area = runData.area || 0;
-    let bbox = runData.bbox;
-    
-    if (!polygon && runData.route.length >= 3) {
-      const line = turf.lineString(runData.route);
-      const buffered = turf.buffer(line, 10, { units: "meters" });
-      if (buffered) {
-        polygon = buffered;
-        area = turf.area(buffered);
-        const bounds = turf.bbox(buffered);
-        bbox = {
-          lonMin: bounds[0],
-          latMin: bounds[1],
-          lonMax: bounds[2],
-          latMax: bounds[3]
-        };
-      }
-    }
-    
-    const { data, error } = await supabase
-      .from('runs')
-      .insert({
-        user_email: userInfo.email,
-        route: routeGeoJSON,
-        polygon: polygon,
-        bbox: bbox,
-        area_m2: area,
-        walrus_cid: runData.walrusCid
-      })
-      .select()
-      .single();
-    
-    if (error) throw error;
-    
-    return data;
+    return await insertRun(runData);
   } catch (error) {
     console.error('Error saving run:', error);
     return null;
   }
 }
 
+// Insert a run, throwing on failure so callers can tell network errors from rejections
+export async function insertRun(runData: RunData) {
+  const userInfo = getCurrentUserInfo();
+  
+  if (!userInfo?.email) {
+    throw new Error('No user found, cannot save run');
+  }
+  
+  // Create GeoJSON LineString; point times ride along as a foreign member
+  const routeGeoJSON = {
+    type: "LineString",
+    coordinates: runData.route,
+    ...(runData.timestamps?.length === runData.route.length && { timestamps: runData.timestamps })
+  };
+  
+  const { data, error } = await supabase
+    .from('runs')
+    .insert({
+      user_email: userInfo.email,
+      route: routeGeoJSON,
+      walrus_cid: runData.walrusCid,
+      source: runData.source || 'recorded',
+      recorded_at: runData.recordedAt?.toISOString(),
+      date: runData.recordedAt?.toISOString().slice(0, 10),
+      import_hash: runData.importHash,
+      client_run_id: runData.clientRunId
+    })
+    .select()
+    .single();
+  
+  if (error) throw error;
+  
+  return data;
+}
+
+// Id of a run saved under the id the app gave it, for work queued behind its save
+export async function getRunIdForClientRun(clientRunId: string): Promise<string | null> {
+  const userInfo = getCurrentUserInfo();
+  if (!userInfo?.email) throw new Error('No user found');
+  
+  const { data, error } = await supabase
+    .from('runs')
+    .select('id')
+    .eq('user_email', userInfo.email)
+    .eq('client_run_id', clientRunId)
+    .maybeSingle();
+  
+  if (error) throw error;
+  
+  return data?.id ?? null;
+}
+
+// The verdict the server reached on a saved run; runs are scored as they are inserted
+export async function getRunVerdict(runId: string): Promise<AntiCheatVerdict> {
+  const { data, error } = await supabase
+    .from('runs')
+    .select('verification_status, anti_cheat_score, anti_cheat_reasons')
+    .eq('id', runId)
+    .single();
+  
+  if (error) throw error;
+  
+  return {
+    score: Number(data.anti_cheat_score ?? 0),
+    status: data.verification_status as RunVerificationStatus,
+    reasons: (data.anti_cheat_reasons || []) as unknown as AntiCheatReason[]
+  };
+}
+
+// Import a run recorded on another device from a GPX, TCX or FIT file
+// Imports get the same server checks as live runs but earn XP under the import
+// rules and never claim zones
+export async function importRunFile(file: File): Promise<RunImportResult> {
+  const userInfo = getCurrentUserInfo();
+  if (!userInfo?.email) throw new Error('Sign in to import runs');
+  
+  const { format, trace, startedAt } = await parseRunFile(file);
+  const importHash = await hashFile(file);
+  
+  const { data: existing } = await supabase
+    .from('runs')
+    .select('id')
+    .eq('user_email', userInfo.email)
+    .eq('import_hash', importHash)
+    .maybeSingle();
+  
+  if (existing) throw new Error('This file has already been imported');
+  
+  const { issues } = validateRunTrace(trace);
+  const zone = detectZoneFromTrace(trace);
+  
+  const run = await saveRun({
+    route: trace.points.map(p => [p.lng, p.lat] as [number, number]),
+    timestamps: trace.points.map(p => p.timestamp),
+    source: 'imported',
+    recordedAt: startedAt,
+    importHash
+  });
+  
+  if (!run) throw new Error('Failed to save imported run');
+  
+  const verification = await getRunVerdict(run.id);
+  const xp = await awardImportedRunXP(run.id);
+  
+  return { run, format, distance: trace.distance, issues, verification, zone, xp };
+}
+
+async function hashFile(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
 export async function getUserRuns(userEmail?: string) {
   try {
     let query = supabase
@@ -90,6 +169,28 @@ export async function getUserRuns(userEmail?: string) {
   }
 }
 
+// Routes of the user's latest runs as { lat, lng } points, for replay detection
+export async function getRecentRunRoutes(userEmail: string, limit: number = 20) {
+  try {
+    const { data, error } = await supabase
+      .from('runs')
+      .select('route')
+      .eq('user_email', userEmail)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    
+    if (error) throw error;
+    
+    return (data || []).map(run => {
+      const coordinates = (run.route as { coordinates?: [number, number][] } | null)?.coordinates || [];
+      return coordinates.map(([lng, lat]) => ({ lat, lng }));
+    });
+  } catch (error) {
+    console.error('Error fetching recent routes:', error);
+    return [];
+  }
+}
+
 export async function getTodayRuns() {
   const today = new Date().toISOString().slice(0, 10);
   
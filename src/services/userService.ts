@@ -1,5 +1,6 @@
 import { supabase } from "@/integrations/supabase/client";
 import { getCurrentUserInfo, getCurrentUserAddress } from "@/lib/zklogin";
+import { resolveProfileId } from "@/lib/offline-store";
 
 export async function upsertUser() {
   const userInfo = getCurrentUserInfo();
@@ -98,4 +99,22 @@ export async function getCurrentUser() {
     console.error('Error getting current user:', error);
     return null;
   }
-}
\ No newline at end of file
+}
+
+// Follow or unfollow another runner; follows drive the Following feed
+export async function setFollowing(profileId: string, follow: boolean) {
+  const myProfileId = await resolveProfileId();
+  if (!myProfileId) return { success: false, error: 'Please login to follow runners' };
+  if (myProfileId === profileId) return { success: false, error: "You can't follow yourself" };
+  
+  const { error } = follow
+    ? await supabase.from('follows').insert({ follower_id: myProfileId, following_id: profileId })
+    : await supabase.from('follows').delete().eq('follower_id', myProfileId).eq('following_id', profileId);
+  
+  // Following someone twice is not an error
+  if (error && error.code !== '23505') {
+    console.error('Error updating follow:', error);
+    return { success: false, error: error.message };
+  }
+  return { success: true };
+}
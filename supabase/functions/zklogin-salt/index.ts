@@ -0,0 +1,117 @@
+// zkLogin salt service
+// Verifies a Google id_token and returns the account's salt, pinning it in
+// zklogin_salts on first use. Accounts that already have a profile under the address
+// from the old client-side salt keep that salt. Secrets: ZKLOGIN_SALT_SECRET and
+// GOOGLE_CLIENT_ID (comma separated when several clients sign in).
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.58.0";
+import { createRemoteJWKSet, jwtVerify } from "https://esm.sh/jose@5.9.6";
+import { jwtToAddress } from "https://esm.sh/@mysten/zklogin@0.8.1";
+
+const GOOGLE_ISSUERS = ["https://accounts.google.com", "accounts.google.com"];
+const googleKeys = createRemoteJWKSet(new URL("https://www.googleapis.com/oauth2/v3/certs"));
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Same derivation as deriveZkLoginSalt in src/lib/zklogin-salt.ts
+async function deriveSalt(secret: string, iss: string, aud: string, sub: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const mac = new Uint8Array(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${iss}|${aud}|${sub}`)));
+  const hex = Array.from(mac.slice(0, 16), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return BigInt(`0x${hex}`).toString();
+}
+
+// Same as legacyZkLoginSalt in src/lib/zklogin-salt.ts
+function legacySalt(iss: string, sub: string): string {
+  const input = `${sub}:${iss}:srun`;
+  let h = 0;
+  for (let i = 0; i < input.length; i++) {
+    h = (h << 5) - h + input.charCodeAt(i);
+    h |= 0;
+  }
+  return String(Math.abs(h)) + "0000000000";
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+
+  const secret = Deno.env.get("ZKLOGIN_SALT_SECRET");
+  const clientIds = (Deno.env.get("GOOGLE_CLIENT_ID") || "").split(",").map((id) => id.trim()).filter(Boolean);
+  if (!secret || clientIds.length === 0) {
+    return json({ error: "Salt service is not configured" }, 500);
+  }
+
+  let idToken: string;
+  let iss: string;
+  let aud: string;
+  let sub: string;
+  try {
+    ({ idToken } = await req.json());
+    const { payload } = await jwtVerify(idToken, googleKeys, { issuer: GOOGLE_ISSUERS, audience: clientIds });
+    iss = payload.iss as string;
+    aud = (Array.isArray(payload.aud) ? payload.aud[0] : payload.aud) as string;
+    sub = payload.sub as string;
+  } catch (error) {
+    console.error("Rejected id_token:", error);
+    return json({ error: "Invalid id_token" }, 401);
+  }
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+  const { data: pinned, error: pinnedError } = await supabase
+    .from("zklogin_salts")
+    .select("salt, legacy")
+    .eq("iss", iss)
+    .eq("aud", aud)
+    .eq("sub", sub)
+    .maybeSingle();
+
+  if (pinnedError) return json({ error: pinnedError.message }, 500);
+  if (pinned) return json(pinned);
+
+  // First request for this account: keep the old address if it is already in use
+  let salt = legacySalt(iss, sub);
+  let address = jwtToAddress(idToken, salt);
+  const { data: legacyProfile } = await supabase
+    .from("profiles")
+    .select("id")
+    .eq("wallet_address", address)
+    .maybeSingle();
+
+  const legacy = !!legacyProfile;
+  if (!legacy) {
+    salt = await deriveSalt(secret, iss, aud, sub);
+    address = jwtToAddress(idToken, salt);
+  }
+
+  // A concurrent first request may have pinned a salt already; the stored one wins
+  const { error: insertError } = await supabase
+    .from("zklogin_salts")
+    .upsert({ iss, aud, sub, salt, address, legacy }, { onConflict: "iss,aud,sub", ignoreDuplicates: true });
+  if (insertError) return json({ error: insertError.message }, 500);
+
+  const { data: stored } = await supabase
+    .from("zklogin_salts")
+    .select("salt, legacy")
+    .eq("iss", iss)
+    .eq("aud", aud)
+    .eq("sub", sub)
+    .single();
+
+  return json(stored || { salt, legacy });
+});
@@ -0,0 +1,492 @@
+-- Double-entry XP ledger
+-- Every XP movement is posted as one entry made of balanced legs in xp_transactions.
+-- Issuance and burns are posted against a fixed system account so that the sum of
+-- every entry is zero, and balances are only ever changed inside the same transaction.
+
+-- Ledger columns on the existing transaction log (legacy rows keep entry_id NULL)
+ALTER TABLE public.xp_transactions
+ADD COLUMN IF NOT EXISTS entry_id UUID,
+ADD COLUMN IF NOT EXISTS counterparty_id UUID,
+ADD COLUMN IF NOT EXISTS balance_after INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_xp_transactions_entry_id ON public.xp_transactions(entry_id);
+CREATE INDEX IF NOT EXISTS idx_xp_transactions_user_created ON public.xp_transactions(user_id, created_at DESC);
+
+-- Account used as the other side of earnings, fees and penalties
+CREATE OR REPLACE FUNCTION public.xp_system_account()
+RETURNS UUID
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT '00000000-0000-0000-0000-000000000000'::uuid;
+$$;
+
+-- Reject any entry whose legs do not sum to zero (checked at commit)
+CREATE OR REPLACE FUNCTION public.check_xp_entry_balanced()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_total BIGINT;
+BEGIN
+  SELECT COALESCE(SUM(amount), 0) INTO v_total
+  FROM xp_transactions
+  WHERE entry_id = NEW.entry_id;
+
+  IF v_total <> 0 THEN
+    RAISE EXCEPTION 'XP ledger entry % is not balanced (%)', NEW.entry_id, v_total;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS xp_entry_balanced ON public.xp_transactions;
+CREATE CONSTRAINT TRIGGER xp_entry_balanced
+  AFTER INSERT ON public.xp_transactions
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  WHEN (NEW.entry_id IS NOT NULL)
+  EXECUTE FUNCTION public.check_xp_entry_balanced();
+
+-- Balances may only change while the ledger is posting
+CREATE OR REPLACE FUNCTION public.guard_profile_xp()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(current_setting('strun.xp_ledger', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND COALESCE(NEW.xp, 0) <> 0 THEN
+    RAISE EXCEPTION 'XP balance can only be changed through the XP ledger';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.xp IS DISTINCT FROM OLD.xp THEN
+    RAISE EXCEPTION 'XP balance can only be changed through the XP ledger';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_profile_xp ON public.profiles;
+CREATE TRIGGER guard_profile_xp
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.guard_profile_xp();
+
+-- Core posting function: moves p_amount from p_from to p_to in one transaction.
+-- Both profile rows are locked in id order so concurrent postings serialize
+-- instead of racing on a stale balance.
+CREATE OR REPLACE FUNCTION public.post_xp_entry(
+  p_from UUID,
+  p_to UUID,
+  p_amount INTEGER,
+  p_type TEXT,
+  p_description TEXT,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id UUID := gen_random_uuid();
+  v_system UUID := xp_system_account();
+  v_from_balance INTEGER;
+  v_to_balance INTEGER;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'XP amount must be positive';
+  END IF;
+
+  IF p_from = p_to THEN
+    RAISE EXCEPTION 'Cannot transfer XP to the same account';
+  END IF;
+
+  PERFORM 1
+  FROM profiles
+  WHERE id IN (p_from, p_to)
+  ORDER BY id
+  FOR UPDATE;
+
+  IF p_from <> v_system THEN
+    SELECT COALESCE(xp, 0) INTO v_from_balance FROM profiles WHERE id = p_from;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'User profile not found';
+    END IF;
+
+    IF v_from_balance < p_amount THEN
+      RAISE EXCEPTION 'Insufficient XP balance. You have % XP, need % XP.', v_from_balance, p_amount;
+    END IF;
+  END IF;
+
+  IF p_to <> v_system AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = p_to) THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  PERFORM set_config('strun.xp_ledger', 'on', true);
+
+  IF p_from <> v_system THEN
+    UPDATE profiles
+    SET xp = COALESCE(xp, 0) - p_amount,
+        updated_at = now()
+    WHERE id = p_from
+    RETURNING xp INTO v_from_balance;
+  END IF;
+
+  IF p_to <> v_system THEN
+    UPDATE profiles
+    SET xp = COALESCE(xp, 0) + p_amount,
+        updated_at = now()
+    WHERE id = p_to
+    RETURNING xp INTO v_to_balance;
+  END IF;
+
+  PERFORM set_config('strun.xp_ledger', 'off', true);
+
+  INSERT INTO xp_transactions (user_id, amount, type, description, metadata, entry_id, counterparty_id, balance_after)
+  VALUES
+    (p_from, -p_amount, p_type, p_description, COALESCE(p_metadata, '{}'::jsonb), v_entry_id, p_to, v_from_balance),
+    (p_to, p_amount, p_type, p_description, COALESCE(p_metadata, '{}'::jsonb), v_entry_id, p_from, v_to_balance);
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- Internal helpers are not callable from the client
+REVOKE ALL ON FUNCTION public.post_xp_entry(UUID, UUID, INTEGER, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Resolve the caller's profile, rejecting attempts to act for someone else
+CREATE OR REPLACE FUNCTION public.require_own_profile(p_profile_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = p_profile_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not authorized for this profile';
+  END IF;
+
+  RETURN p_profile_id;
+END;
+$$;
+
+-- Earnings: award_xp keeps its signature and now posts through the ledger
+CREATE OR REPLACE FUNCTION public.award_xp(p_user_id uuid, p_amount integer, p_type text, p_description text, p_metadata jsonb DEFAULT '{}'::jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_profile_id UUID;
+BEGIN
+  -- Callers may only award themselves; the service role has no auth.uid()
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Not authorized to award XP to this user';
+  END IF;
+
+  -- Verify the user exists and get their profile id
+  SELECT id INTO v_profile_id
+  FROM profiles
+  WHERE user_id = p_user_id;
+
+  IF v_profile_id IS NULL THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  -- Award XP only for valid transaction types
+  IF p_type NOT IN ('run', 'zone', 'referral', 'challenge', 'competition', 'bonus') THEN
+    RAISE EXCEPTION 'Invalid XP transaction type';
+  END IF;
+
+  RETURN post_xp_entry(xp_system_account(), v_profile_id, p_amount, p_type, p_description, p_metadata);
+END;
+$function$;
+
+-- Spending (fees and other burns)
+CREATE OR REPLACE FUNCTION public.spend_xp(
+  p_profile_id UUID,
+  p_amount INTEGER,
+  p_type TEXT,
+  p_description TEXT,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id UUID;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  IF p_type NOT IN ('spend', 'zone_fee') THEN
+    RAISE EXCEPTION 'Invalid XP transaction type';
+  END IF;
+
+  v_entry_id := post_xp_entry(p_profile_id, xp_system_account(), p_amount, p_type, p_description, p_metadata);
+
+  RETURN jsonb_build_object(
+    'entry_id', v_entry_id,
+    'balance', (SELECT xp FROM profiles WHERE id = p_profile_id)
+  );
+END;
+$$;
+
+-- Zone rent: renter pays the current owner at the zone's listed price
+CREATE OR REPLACE FUNCTION public.pay_zone_rent(
+  p_profile_id UUID,
+  p_region_id public.regions.id%TYPE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_owner_id UUID;
+  v_amount INTEGER;
+  v_entry_id UUID;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  SELECT owner_id, COALESCE(rent_price, 10)::INTEGER INTO v_owner_id, v_amount
+  FROM regions
+  WHERE id = p_region_id
+  FOR UPDATE;
+
+  IF v_owner_id IS NULL THEN
+    RAISE EXCEPTION 'Territory owner not found';
+  END IF;
+
+  IF v_owner_id = p_profile_id THEN
+    RAISE EXCEPTION 'Owners do not pay rent on their own zone';
+  END IF;
+
+  v_entry_id := post_xp_entry(
+    p_profile_id,
+    v_owner_id,
+    v_amount,
+    'rent',
+    'Zone rent for zone ' || p_region_id,
+    jsonb_build_object('zoneId', p_region_id, 'renterId', p_profile_id, 'ownerId', v_owner_id)
+  );
+
+  INSERT INTO transactions (from_user_id, to_user_id, amount, type, region_id, status, metadata)
+  VALUES (p_profile_id, v_owner_id, v_amount, 'rent', p_region_id, 'completed',
+          jsonb_build_object('entryId', v_entry_id, 'timestamp', now()));
+
+  UPDATE regions
+  SET visitors = COALESCE(visitors, 0) + 1,
+      last_visited = now(),
+      total_earnings = COALESCE(total_earnings, 0) + v_amount
+  WHERE id = p_region_id;
+
+  RETURN jsonb_build_object(
+    'entry_id', v_entry_id,
+    'amount', v_amount,
+    'balance', (SELECT xp FROM profiles WHERE id = p_profile_id)
+  );
+END;
+$$;
+
+-- Unauthorized entry penalty: charges what the balance can cover and reports the shortfall
+CREATE OR REPLACE FUNCTION public.apply_entry_penalty(
+  p_profile_id UUID,
+  p_region_id public.regions.id%TYPE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_penalty INTEGER;
+  v_balance INTEGER;
+  v_charged INTEGER;
+  v_entry_id UUID;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  SELECT COALESCE(rent_price, 10)::INTEGER * 2 INTO v_penalty
+  FROM regions
+  WHERE id = p_region_id;
+
+  IF v_penalty IS NULL THEN
+    RAISE EXCEPTION 'Territory not found';
+  END IF;
+
+  SELECT COALESCE(xp, 0) INTO v_balance FROM profiles WHERE id = p_profile_id FOR UPDATE;
+  v_charged := LEAST(v_balance, v_penalty);
+
+  IF v_charged > 0 THEN
+    v_entry_id := post_xp_entry(
+      p_profile_id,
+      xp_system_account(),
+      v_charged,
+      'penalty',
+      'Unauthorized zone entry penalty for zone ' || p_region_id,
+      jsonb_build_object('zoneId', p_region_id, 'penalty', v_penalty, 'shortfall', v_penalty - v_charged)
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'entry_id', v_entry_id,
+    'penalty', v_penalty,
+    'charged', v_charged,
+    'shortfall', v_penalty - v_charged,
+    'balance', (SELECT xp FROM profiles WHERE id = p_profile_id)
+  );
+END;
+$$;
+
+-- Referral bonus, claimed by the new user; each user can only be referred once
+CREATE OR REPLACE FUNCTION public.process_referral_bonus(p_referrer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile_id UUID;
+BEGIN
+  SELECT id INTO v_profile_id FROM profiles WHERE user_id = auth.uid() FOR UPDATE;
+
+  IF v_profile_id IS NULL THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  IF v_profile_id = p_referrer_id THEN
+    RAISE EXCEPTION 'You cannot refer yourself';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM xp_transactions
+    WHERE type = 'referral'
+    AND metadata->>'referredUserId' = v_profile_id::text
+  ) THEN
+    RAISE EXCEPTION 'Referral bonus already applied';
+  END IF;
+
+  PERFORM post_xp_entry(xp_system_account(), p_referrer_id, 500, 'referral',
+    'Referral bonus for inviting a new user', jsonb_build_object('referredUserId', v_profile_id));
+
+  PERFORM post_xp_entry(xp_system_account(), v_profile_id, 100, 'bonus',
+    'Welcome bonus for using referral code', jsonb_build_object('referrerId', p_referrer_id));
+
+  UPDATE profiles
+  SET referral_count = COALESCE(referral_count, 0) + 1,
+      referral_xp_earned = COALESCE(referral_xp_earned, 0) + 500
+  WHERE id = p_referrer_id;
+
+  UPDATE profiles
+  SET referred_by = COALESCE(referred_by, p_referrer_id)
+  WHERE id = v_profile_id;
+END;
+$$;
+
+-- Signup referral now goes through the ledger instead of writing balances directly
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  referral_code_val TEXT;
+  ref_code TEXT;
+  referrer_profile_id UUID;
+  new_profile_id UUID;
+BEGIN
+  -- Check if profile already exists to prevent duplicates
+  IF EXISTS (SELECT 1 FROM public.profiles WHERE user_id = NEW.id) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Generate unique referral code
+  referral_code_val := UPPER(SUBSTRING(MD5(RANDOM()::TEXT || NOW()::TEXT), 1, 8));
+
+  -- Get referral code from metadata if exists
+  ref_code := NEW.raw_user_meta_data->>'referral_code';
+
+  -- Find referrer if code provided
+  IF ref_code IS NOT NULL THEN
+    SELECT id INTO referrer_profile_id FROM public.profiles WHERE referral_code = ref_code;
+  END IF;
+
+  -- Insert profile with error handling
+  BEGIN
+    INSERT INTO public.profiles (
+      user_id,
+      email,
+      username,
+      referral_code,
+      referred_by,
+      level,
+      xp,
+      total_runs,
+      total_distance,
+      total_area,
+      referral_count,
+      referral_xp_earned
+    )
+    VALUES (
+      NEW.id,
+      NEW.email,
+      COALESCE(NEW.raw_user_meta_data->>'username', SPLIT_PART(NEW.email, '@', 1)),
+      referral_code_val,
+      referrer_profile_id,
+      1,
+      0,
+      0,
+      0,
+      0,
+      0,
+      0
+    )
+    RETURNING id INTO new_profile_id;
+  EXCEPTION
+    WHEN unique_violation THEN
+      -- Profile already exists, ignore
+      RETURN NEW;
+    WHEN OTHERS THEN
+      -- Log error but don't block user creation
+      RAISE WARNING 'Failed to create profile for user %: %', NEW.id, SQLERRM;
+      RETURN NEW;
+  END;
+
+  -- If referred, credit both sides through the ledger (non-blocking)
+  IF referrer_profile_id IS NOT NULL THEN
+    BEGIN
+      PERFORM public.post_xp_entry(public.xp_system_account(), referrer_profile_id, 500, 'referral',
+        'Referral bonus', jsonb_build_object('referredUserId', new_profile_id));
+
+      PERFORM public.post_xp_entry(public.xp_system_account(), new_profile_id, 100, 'bonus',
+        'Welcome bonus for using referral code', jsonb_build_object('referrerId', referrer_profile_id));
+
+      UPDATE public.profiles
+      SET referral_count = referral_count + 1,
+          referral_xp_earned = referral_xp_earned + 500
+      WHERE id = referrer_profile_id;
+    EXCEPTION
+      WHEN OTHERS THEN
+        -- Don't block on referral updates
+        NULL;
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
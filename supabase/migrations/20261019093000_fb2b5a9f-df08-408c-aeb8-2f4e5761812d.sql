@@ -0,0 +1,305 @@
+-- XP debt tracking
+-- Penalties that exceed the balance become an outstanding debt on the profile.
+-- A share of every award_xp earning is garnished until the debt is repaid, and
+-- zones cannot be minted while a debt is open.
+
+-- Tunable economy values shared by the ledger functions
+CREATE TABLE IF NOT EXISTS public.economy_settings (
+  key TEXT PRIMARY KEY,
+  value NUMERIC NOT NULL,
+  description TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.economy_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Economy settings are viewable by everyone"
+ON public.economy_settings FOR SELECT
+USING (true);
+
+INSERT INTO public.economy_settings (key, value, description)
+VALUES ('debt_garnish_rate', 0.5, 'Share of each XP award withheld to repay outstanding XP debt')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.economy_setting(p_key TEXT, p_default NUMERIC)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT value FROM economy_settings WHERE key = p_key), p_default);
+$$;
+
+-- Outstanding debt per profile
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS xp_debt INTEGER NOT NULL DEFAULT 0;
+
+-- History of debt incurred (positive) and repaid (negative)
+CREATE TABLE IF NOT EXISTS public.xp_debt_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  amount INTEGER NOT NULL,
+  reason TEXT NOT NULL, -- penalty, repayment
+  entry_id UUID,
+  debt_after INTEGER NOT NULL,
+  metadata JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.xp_debt_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users view own debt events"
+ON public.xp_debt_events FOR SELECT
+USING (user_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()));
+
+CREATE INDEX IF NOT EXISTS idx_xp_debt_events_user_id ON public.xp_debt_events(user_id, created_at DESC);
+
+-- Backfill debt recorded by the old client-side penalty path
+WITH legacy AS (
+  SELECT user_id, SUM((metadata->>'debt')::INTEGER) AS debt
+  FROM public.xp_transactions
+  WHERE type = 'penalty'
+  AND entry_id IS NULL
+  AND metadata ? 'debt'
+  GROUP BY user_id
+)
+INSERT INTO public.xp_debt_events (user_id, amount, reason, debt_after, metadata)
+SELECT legacy.user_id, legacy.debt, 'penalty', legacy.debt, '{"source": "legacy_penalty"}'::jsonb
+FROM legacy
+JOIN public.profiles p ON p.id = legacy.user_id
+WHERE legacy.debt > 0;
+
+-- Debt is a balance too, so the guard covers it
+CREATE OR REPLACE FUNCTION public.guard_profile_xp()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(current_setting('strun.xp_ledger', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND (COALESCE(NEW.xp, 0) <> 0 OR COALESCE(NEW.xp_debt, 0) <> 0) THEN
+    RAISE EXCEPTION 'XP balance can only be changed through the XP ledger';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (NEW.xp IS DISTINCT FROM OLD.xp OR NEW.xp_debt IS DISTINCT FROM OLD.xp_debt) THEN
+    RAISE EXCEPTION 'XP balance can only be changed through the XP ledger';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Apply the backfilled legacy debt now that the guard allows it
+DO $$
+BEGIN
+  PERFORM set_config('strun.xp_ledger', 'on', true);
+
+  UPDATE public.profiles p
+  SET xp_debt = e.debt_after
+  FROM public.xp_debt_events e
+  WHERE e.user_id = p.id
+  AND e.metadata->>'source' = 'legacy_penalty';
+
+  PERFORM set_config('strun.xp_ledger', 'off', true);
+END;
+$$;
+
+-- Record a change in a profile's debt (caller must hold the profile row lock)
+CREATE OR REPLACE FUNCTION public.adjust_xp_debt(
+  p_profile_id UUID,
+  p_amount INTEGER,
+  p_reason TEXT,
+  p_entry_id UUID DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_debt INTEGER;
+BEGIN
+  PERFORM set_config('strun.xp_ledger', 'on', true);
+
+  UPDATE profiles
+  SET xp_debt = GREATEST(0, xp_debt + p_amount),
+      updated_at = now()
+  WHERE id = p_profile_id
+  RETURNING xp_debt INTO v_debt;
+
+  PERFORM set_config('strun.xp_ledger', 'off', true);
+
+  INSERT INTO xp_debt_events (user_id, amount, reason, entry_id, debt_after, metadata)
+  VALUES (p_profile_id, p_amount, p_reason, p_entry_id, v_debt, COALESCE(p_metadata, '{}'::jsonb));
+
+  RETURN v_debt;
+END;
+$$;
+
+-- Withhold the configured share of an earning toward outstanding debt
+CREATE OR REPLACE FUNCTION public.garnish_xp_debt(
+  p_profile_id UUID,
+  p_income INTEGER,
+  p_source_entry_id UUID
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_debt INTEGER;
+  v_garnish INTEGER;
+  v_entry_id UUID;
+BEGIN
+  SELECT xp_debt INTO v_debt FROM profiles WHERE id = p_profile_id FOR UPDATE;
+
+  IF COALESCE(v_debt, 0) <= 0 OR p_income <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  v_garnish := LEAST(v_debt, CEIL(p_income * economy_setting('debt_garnish_rate', 0.5))::INTEGER);
+
+  IF v_garnish <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  v_entry_id := post_xp_entry(
+    p_profile_id,
+    xp_system_account(),
+    v_garnish,
+    'debt_repayment',
+    'XP debt repayment',
+    jsonb_build_object('sourceEntryId', p_source_entry_id)
+  );
+
+  PERFORM adjust_xp_debt(p_profile_id, -v_garnish, 'repayment', v_entry_id,
+    jsonb_build_object('sourceEntryId', p_source_entry_id));
+
+  RETURN v_garnish;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.adjust_xp_debt(UUID, INTEGER, TEXT, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.garnish_xp_debt(UUID, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+
+-- award_xp garnishes earnings while a debt is open
+CREATE OR REPLACE FUNCTION public.award_xp(p_user_id uuid, p_amount integer, p_type text, p_description text, p_metadata jsonb DEFAULT '{}'::jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_profile_id UUID;
+  v_entry_id UUID;
+BEGIN
+  -- Callers may only award themselves; the service role has no auth.uid()
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Not authorized to award XP to this user';
+  END IF;
+
+  -- Verify the user exists and get their profile id
+  SELECT id INTO v_profile_id
+  FROM profiles
+  WHERE user_id = p_user_id;
+
+  IF v_profile_id IS NULL THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  -- Award XP only for valid transaction types
+  IF p_type NOT IN ('run', 'zone', 'referral', 'challenge', 'competition', 'bonus') THEN
+    RAISE EXCEPTION 'Invalid XP transaction type';
+  END IF;
+
+  v_entry_id := post_xp_entry(xp_system_account(), v_profile_id, p_amount, p_type, p_description, p_metadata);
+
+  PERFORM garnish_xp_debt(v_profile_id, p_amount, v_entry_id);
+
+  RETURN v_entry_id;
+END;
+$function$;
+
+-- Penalty shortfall is now carried as debt instead of being dropped
+CREATE OR REPLACE FUNCTION public.apply_entry_penalty(
+  p_profile_id UUID,
+  p_region_id public.regions.id%TYPE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_penalty INTEGER;
+  v_balance INTEGER;
+  v_charged INTEGER;
+  v_entry_id UUID;
+  v_debt INTEGER;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  SELECT COALESCE(rent_price, 10)::INTEGER * 2 INTO v_penalty
+  FROM regions
+  WHERE id = p_region_id;
+
+  IF v_penalty IS NULL THEN
+    RAISE EXCEPTION 'Territory not found';
+  END IF;
+
+  SELECT COALESCE(xp, 0), xp_debt INTO v_balance, v_debt FROM profiles WHERE id = p_profile_id FOR UPDATE;
+  v_charged := LEAST(v_balance, v_penalty);
+
+  IF v_charged > 0 THEN
+    v_entry_id := post_xp_entry(
+      p_profile_id,
+      xp_system_account(),
+      v_charged,
+      'penalty',
+      'Unauthorized zone entry penalty for zone ' || p_region_id,
+      jsonb_build_object('zoneId', p_region_id, 'penalty', v_penalty, 'shortfall', v_penalty - v_charged)
+    );
+  END IF;
+
+  IF v_penalty > v_charged THEN
+    v_debt := adjust_xp_debt(p_profile_id, v_penalty - v_charged, 'penalty', v_entry_id,
+      jsonb_build_object('zoneId', p_region_id, 'penalty', v_penalty));
+  END IF;
+
+  RETURN jsonb_build_object(
+    'entry_id', v_entry_id,
+    'penalty', v_penalty,
+    'charged', v_charged,
+    'shortfall', v_penalty - v_charged,
+    'debt', v_debt,
+    'balance', (SELECT xp FROM profiles WHERE id = p_profile_id)
+  );
+END;
+$$;
+
+-- No new zones while a debt is outstanding
+CREATE OR REPLACE FUNCTION public.block_mint_with_debt()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM profiles WHERE id = NEW.owner_id AND xp_debt > 0) THEN
+    RAISE EXCEPTION 'Zones cannot be minted while you have outstanding XP debt';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS block_mint_with_debt ON public.regions;
+CREATE TRIGGER block_mint_with_debt
+  BEFORE INSERT ON public.regions
+  FOR EACH ROW EXECUTE FUNCTION public.block_mint_with_debt();
@@ -0,0 +1,141 @@
+-- Daily earning cap enforced inside award_xp
+-- Activity earnings (runs and zones) are capped per local calendar day. The day
+-- rolls over at midnight in the profile's own timezone.
+
+INSERT INTO public.economy_settings (key, value, description)
+VALUES ('max_daily_earnings', 100, 'Maximum run and zone XP a user can earn per local day')
+ON CONFLICT (key) DO NOTHING;
+
+-- IANA timezone name reported by the client
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC';
+
+-- Unknown timezone names fall back to UTC instead of failing the award
+CREATE OR REPLACE FUNCTION public.safe_timezone(p_timezone TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone) THEN p_timezone
+    ELSE 'UTC'
+  END;
+$$;
+
+-- Current earning window and how much of the cap is used
+CREATE OR REPLACE FUNCTION public.get_daily_earnings(p_profile_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_timezone TEXT;
+  v_window_start TIMESTAMPTZ;
+  v_limit INTEGER := economy_setting('max_daily_earnings', 100)::INTEGER;
+  v_earned INTEGER;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    PERFORM require_own_profile(p_profile_id);
+  END IF;
+
+  SELECT safe_timezone(timezone) INTO v_timezone FROM profiles WHERE id = p_profile_id;
+
+  IF v_timezone IS NULL THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  v_window_start := date_trunc('day', now() AT TIME ZONE v_timezone) AT TIME ZONE v_timezone;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_earned
+  FROM xp_transactions
+  WHERE user_id = p_profile_id
+  AND type IN ('run', 'zone')
+  AND amount > 0
+  AND created_at >= v_window_start;
+
+  RETURN jsonb_build_object(
+    'limit', v_limit,
+    'earned_today', v_earned,
+    'remaining', GREATEST(0, v_limit - v_earned),
+    'timezone', v_timezone,
+    'window_start', v_window_start,
+    'resets_at', v_window_start + interval '1 day'
+  );
+END;
+$$;
+
+-- award_xp now reports what was actually credited, so its return type changes
+DROP FUNCTION IF EXISTS public.award_xp(uuid, integer, text, text, jsonb);
+
+CREATE OR REPLACE FUNCTION public.award_xp(p_user_id uuid, p_amount integer, p_type text, p_description text, p_metadata jsonb DEFAULT '{}'::jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_profile_id UUID;
+  v_entry_id UUID;
+  v_window JSONB;
+  v_awarded INTEGER := p_amount;
+BEGIN
+  -- Callers may only award themselves; the service role has no auth.uid()
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Not authorized to award XP to this user';
+  END IF;
+
+  -- Verify the user exists, get their profile id and serialize concurrent awards
+  SELECT id INTO v_profile_id
+  FROM profiles
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_profile_id IS NULL THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  -- Award XP only for valid transaction types
+  IF p_type NOT IN ('run', 'zone', 'referral', 'challenge', 'competition', 'bonus') THEN
+    RAISE EXCEPTION 'Invalid XP transaction type';
+  END IF;
+
+  -- Activity earnings are capped per local day
+  IF p_type IN ('run', 'zone') THEN
+    v_window := get_daily_earnings(v_profile_id);
+    v_awarded := LEAST(p_amount, (v_window->>'remaining')::INTEGER);
+  END IF;
+
+  IF v_awarded > 0 THEN
+    v_entry_id := post_xp_entry(
+      xp_system_account(),
+      v_profile_id,
+      v_awarded,
+      p_type,
+      p_description,
+      CASE WHEN v_awarded < p_amount
+        THEN COALESCE(p_metadata, '{}'::jsonb) || jsonb_build_object('requested', p_amount, 'capped', true)
+        ELSE p_metadata
+      END
+    );
+
+    PERFORM garnish_xp_debt(v_profile_id, v_awarded, v_entry_id);
+  END IF;
+
+  IF v_window IS NOT NULL THEN
+    v_window := get_daily_earnings(v_profile_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'entry_id', v_entry_id,
+    'requested', p_amount,
+    'awarded', GREATEST(v_awarded, 0),
+    'capped', v_awarded < p_amount,
+    'remaining', v_window->'remaining',
+    'resets_at', v_window->'resets_at',
+    'balance', (SELECT xp FROM profiles WHERE id = v_profile_id)
+  );
+END;
+$function$;
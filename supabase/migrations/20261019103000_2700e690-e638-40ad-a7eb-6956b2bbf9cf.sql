@@ -0,0 +1,68 @@
+-- Anti-cheat verdicts on runs
+-- Every saved run carries the score and reasons from the client-side analysis.
+-- Runs scored as suspicious stay in 'review' until a moderator verifies or
+-- rejects them, and only the service role can change that status.
+
+ALTER TABLE public.runs
+ADD COLUMN IF NOT EXISTS verification_status TEXT NOT NULL DEFAULT 'verified',
+ADD COLUMN IF NOT EXISTS anti_cheat_score NUMERIC,
+ADD COLUMN IF NOT EXISTS anti_cheat_reasons JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.runs
+ADD CONSTRAINT runs_verification_status_check
+CHECK (verification_status IN ('verified', 'review', 'rejected'));
+
+-- Moderation queue
+CREATE INDEX IF NOT EXISTS idx_runs_review ON public.runs(created_at)
+WHERE verification_status = 'review';
+
+-- Owners may update their runs (e.g. nft_minted) but not clear their own verdict
+CREATE OR REPLACE FUNCTION public.guard_run_verification()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.verification_status IS DISTINCT FROM OLD.verification_status
+    OR NEW.anti_cheat_score IS DISTINCT FROM OLD.anti_cheat_score
+    OR NEW.anti_cheat_reasons IS DISTINCT FROM OLD.anti_cheat_reasons
+    OR NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at THEN
+    RAISE EXCEPTION 'Run verification can only be changed by a reviewer';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_run_verification ON public.runs;
+CREATE TRIGGER guard_run_verification
+  BEFORE UPDATE ON public.runs
+  FOR EACH ROW EXECUTE FUNCTION public.guard_run_verification();
+
+-- Clients may hold their own run for review, but only a reviewer rejects or signs off
+CREATE OR REPLACE FUNCTION public.guard_new_run_verification()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    IF NEW.verification_status = 'rejected' THEN
+      NEW.verification_status := 'review';
+    END IF;
+    NEW.reviewed_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_new_run_verification ON public.runs;
+CREATE TRIGGER guard_new_run_verification
+  BEFORE INSERT ON public.runs
+  FOR EACH ROW EXECUTE FUNCTION public.guard_new_run_verification();
@@ -0,0 +1,214 @@
+-- Imported runs (GPX, TCX, FIT)
+-- Runs recorded on a watch can be uploaded after the fact. They earn XP through
+-- their own RPC: a reduced per-km rate, only while the recording is recent,
+-- once per run and within the same daily cap as live runs.
+
+INSERT INTO public.economy_settings (key, value, description)
+VALUES
+  ('import_xp_per_km', 0.5, 'XP per km for runs imported from a file'),
+  ('import_max_age_days', 7, 'Imported runs older than this many days earn no XP')
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE public.runs
+ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'recorded',
+ADD COLUMN IF NOT EXISTS recorded_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS import_hash TEXT; -- sha-256 of the uploaded file
+
+ALTER TABLE public.runs
+ADD CONSTRAINT runs_source_check CHECK (source IN ('recorded', 'imported'));
+
+-- The same file can only be imported once per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_runs_import_hash ON public.runs(user_email, import_hash)
+WHERE import_hash IS NOT NULL;
+
+-- Owners can't relabel a run after it is saved
+CREATE OR REPLACE FUNCTION public.guard_run_verification()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.verification_status IS DISTINCT FROM OLD.verification_status
+    OR NEW.anti_cheat_score IS DISTINCT FROM OLD.anti_cheat_score
+    OR NEW.anti_cheat_reasons IS DISTINCT FROM OLD.anti_cheat_reasons
+    OR NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at THEN
+    RAISE EXCEPTION 'Run verification can only be changed by a reviewer';
+  END IF;
+
+  IF NEW.source IS DISTINCT FROM OLD.source
+    OR NEW.recorded_at IS DISTINCT FROM OLD.recorded_at
+    OR NEW.import_hash IS DISTINCT FROM OLD.import_hash
+    OR NEW.route IS DISTINCT FROM OLD.route THEN
+    RAISE EXCEPTION 'A saved run cannot be altered';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Length in meters of a GeoJSON LineString
+CREATE OR REPLACE FUNCTION public.route_length_m(p_route JSONB)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_coordinates JSONB := p_route->'coordinates';
+  v_length NUMERIC := 0;
+  v_lat1 DOUBLE PRECISION;
+  v_lng1 DOUBLE PRECISION;
+  v_lat2 DOUBLE PRECISION;
+  v_lng2 DOUBLE PRECISION;
+  v_a DOUBLE PRECISION;
+BEGIN
+  IF v_coordinates IS NULL OR jsonb_typeof(v_coordinates) <> 'array' THEN
+    RETURN 0;
+  END IF;
+
+  FOR i IN 1 .. jsonb_array_length(v_coordinates) - 1 LOOP
+    v_lng1 := radians((v_coordinates->(i - 1)->>0)::DOUBLE PRECISION);
+    v_lat1 := radians((v_coordinates->(i - 1)->>1)::DOUBLE PRECISION);
+    v_lng2 := radians((v_coordinates->i->>0)::DOUBLE PRECISION);
+    v_lat2 := radians((v_coordinates->i->>1)::DOUBLE PRECISION);
+
+    v_a := sin((v_lat2 - v_lat1) / 2) ^ 2 + cos(v_lat1) * cos(v_lat2) * sin((v_lng2 - v_lng1) / 2) ^ 2;
+    v_length := v_length + 6371000 * 2 * atan2(sqrt(v_a), sqrt(1 - v_a));
+  END LOOP;
+
+  RETURN v_length;
+END;
+$$;
+
+-- Imported XP counts toward the same daily cap as live runs and zones
+CREATE OR REPLACE FUNCTION public.get_daily_earnings(p_profile_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_timezone TEXT;
+  v_window_start TIMESTAMPTZ;
+  v_limit INTEGER := economy_setting('max_daily_earnings', 100)::INTEGER;
+  v_earned INTEGER;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    PERFORM require_own_profile(p_profile_id);
+  END IF;
+
+  SELECT safe_timezone(timezone) INTO v_timezone FROM profiles WHERE id = p_profile_id;
+
+  IF v_timezone IS NULL THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  v_window_start := date_trunc('day', now() AT TIME ZONE v_timezone) AT TIME ZONE v_timezone;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_earned
+  FROM xp_transactions
+  WHERE user_id = p_profile_id
+  AND type IN ('run', 'zone', 'import')
+  AND amount > 0
+  AND created_at >= v_window_start;
+
+  RETURN jsonb_build_object(
+    'limit', v_limit,
+    'earned_today', v_earned,
+    'remaining', GREATEST(0, v_limit - v_earned),
+    'timezone', v_timezone,
+    'window_start', v_window_start,
+    'resets_at', v_window_start + interval '1 day'
+  );
+END;
+$$;
+
+-- Award XP for one of the caller's imported runs
+CREATE OR REPLACE FUNCTION public.award_imported_run_xp(p_run_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run runs%ROWTYPE;
+  v_profile_id UUID;
+  v_window JSONB;
+  v_requested INTEGER;
+  v_awarded INTEGER := 0;
+  v_entry_id UUID;
+  v_reason TEXT;
+BEGIN
+  SELECT * INTO v_run FROM runs WHERE id = p_run_id;
+
+  IF v_run.id IS NULL OR v_run.user_email IS DISTINCT FROM (auth.jwt() ->> 'email') THEN
+    RAISE EXCEPTION 'Run not found';
+  END IF;
+
+  IF v_run.source <> 'imported' THEN
+    RAISE EXCEPTION 'Only imported runs are awarded here';
+  END IF;
+
+  SELECT id INTO v_profile_id FROM profiles WHERE user_id = auth.uid() FOR UPDATE;
+
+  IF v_profile_id IS NULL THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM xp_transactions
+    WHERE user_id = v_profile_id
+    AND type = 'import'
+    AND metadata->>'runId' = p_run_id::TEXT
+  ) THEN
+    RAISE EXCEPTION 'XP was already awarded for this run';
+  END IF;
+
+  v_requested := FLOOR(route_length_m(v_run.route) / 1000 * economy_setting('import_xp_per_km', 0.5))::INTEGER;
+
+  IF v_run.verification_status <> 'verified' THEN
+    v_reason := 'review';
+  ELSIF v_run.recorded_at IS NULL
+    OR v_run.recorded_at > now() + interval '1 hour'
+    OR v_run.recorded_at < now() - make_interval(days => economy_setting('import_max_age_days', 7)::INTEGER) THEN
+    v_reason := 'too_old';
+  ELSE
+    v_window := get_daily_earnings(v_profile_id);
+    v_awarded := GREATEST(0, LEAST(v_requested, (v_window->>'remaining')::INTEGER));
+
+    IF v_awarded > 0 THEN
+      v_entry_id := post_xp_entry(
+        xp_system_account(),
+        v_profile_id,
+        v_awarded,
+        'import',
+        'Imported run of ' || round(route_length_m(v_run.route) / 1000, 2) || 'km',
+        jsonb_build_object('runId', p_run_id, 'requested', v_requested, 'recordedAt', v_run.recorded_at)
+      );
+
+      PERFORM garnish_xp_debt(v_profile_id, v_awarded, v_entry_id);
+      v_window := get_daily_earnings(v_profile_id);
+    END IF;
+
+    IF v_awarded < v_requested THEN
+      v_reason := 'daily_limit';
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'entry_id', v_entry_id,
+    'requested', v_requested,
+    'awarded', v_awarded,
+    'capped', COALESCE(v_reason = 'daily_limit', false),
+    'reason', v_reason,
+    'remaining', v_window->'remaining',
+    'resets_at', v_window->'resets_at',
+    'balance', (SELECT xp FROM profiles WHERE id = v_profile_id)
+  );
+END;
+$$;
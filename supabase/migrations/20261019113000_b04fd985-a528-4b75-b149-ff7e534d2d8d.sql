@@ -0,0 +1,114 @@
+-- Offline outbox support
+-- Runs and XP awards recorded offline are replayed from the client outbox once
+-- the connection returns. A replay of a request that already reached the server
+-- must not save the run or credit the XP twice.
+
+-- Client-generated run id; a retried insert hits the unique index instead of duplicating
+ALTER TABLE public.runs
+ADD COLUMN IF NOT EXISTS client_run_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_runs_client_run_id ON public.runs(user_email, client_run_id)
+WHERE client_run_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_xp_transactions_idempotency_key
+ON public.xp_transactions(user_id, (metadata->>'idempotencyKey'))
+WHERE metadata ? 'idempotencyKey';
+
+-- award_xp returns the original award when the same idempotencyKey is replayed
+CREATE OR REPLACE FUNCTION public.award_xp(p_user_id uuid, p_amount integer, p_type text, p_description text, p_metadata jsonb DEFAULT '{}'::jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_profile_id UUID;
+  v_entry_id UUID;
+  v_window JSONB;
+  v_awarded INTEGER := p_amount;
+  v_previous xp_transactions%ROWTYPE;
+BEGIN
+  -- Callers may only award themselves; the service role has no auth.uid()
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Not authorized to award XP to this user';
+  END IF;
+
+  -- Verify the user exists, get their profile id and serialize concurrent awards
+  SELECT id INTO v_profile_id
+  FROM profiles
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_profile_id IS NULL THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  -- Award XP only for valid transaction types
+  IF p_type NOT IN ('run', 'zone', 'referral', 'challenge', 'competition', 'bonus') THEN
+    RAISE EXCEPTION 'Invalid XP transaction type';
+  END IF;
+
+  IF p_metadata ? 'idempotencyKey' THEN
+    SELECT * INTO v_previous
+    FROM xp_transactions
+    WHERE user_id = v_profile_id
+    AND type = p_type
+    AND amount > 0
+    AND metadata->>'idempotencyKey' = p_metadata->>'idempotencyKey'
+    LIMIT 1;
+
+    IF v_previous.id IS NOT NULL THEN
+      IF p_type IN ('run', 'zone') THEN
+        v_window := get_daily_earnings(v_profile_id);
+      END IF;
+
+      RETURN jsonb_build_object(
+        'entry_id', v_previous.entry_id,
+        'requested', p_amount,
+        'awarded', v_previous.amount,
+        'capped', v_previous.amount < p_amount,
+        'remaining', v_window->'remaining',
+        'resets_at', v_window->'resets_at',
+        'balance', (SELECT xp FROM profiles WHERE id = v_profile_id),
+        'duplicate', true
+      );
+    END IF;
+  END IF;
+
+  -- Activity earnings are capped per local day
+  IF p_type IN ('run', 'zone') THEN
+    v_window := get_daily_earnings(v_profile_id);
+    v_awarded := LEAST(p_amount, (v_window->>'remaining')::INTEGER);
+  END IF;
+
+  IF v_awarded > 0 THEN
+    v_entry_id := post_xp_entry(
+      xp_system_account(),
+      v_profile_id,
+      v_awarded,
+      p_type,
+      p_description,
+      CASE WHEN v_awarded < p_amount
+        THEN COALESCE(p_metadata, '{}'::jsonb) || jsonb_build_object('requested', p_amount, 'capped', true)
+        ELSE p_metadata
+      END
+    );
+
+    PERFORM garnish_xp_debt(v_profile_id, v_awarded, v_entry_id);
+  END IF;
+
+  IF v_window IS NOT NULL THEN
+    v_window := get_daily_earnings(v_profile_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'entry_id', v_entry_id,
+    'requested', p_amount,
+    'awarded', GREATEST(v_awarded, 0),
+    'capped', v_awarded < p_amount,
+    'remaining', v_window->'remaining',
+    'resets_at', v_window->'resets_at',
+    'balance', (SELECT xp FROM profiles WHERE id = v_profile_id)
+  );
+END;
+$function$;
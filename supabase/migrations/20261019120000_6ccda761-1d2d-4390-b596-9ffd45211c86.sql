@@ -0,0 +1,88 @@
+-- Zone overlap contests
+-- A claim that intersects a rival's zone can open a contest instead of being
+-- rejected or clipped. The contest keeps the proposed zone so it can be minted
+-- if the challenger wins.
+
+INSERT INTO public.economy_settings (key, value, description)
+VALUES ('contest_duration_hours', 48, 'How long a zone contest stays open before it resolves')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.zone_contests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  region_id TEXT NOT NULL REFERENCES public.regions(id) ON DELETE CASCADE,
+  challenger_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  defender_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reason TEXT NOT NULL DEFAULT 'overlap' CHECK (reason IN ('overlap')),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'challenger_won', 'defender_won', 'cancelled')),
+  claim JSONB NOT NULL DEFAULT '{}'::jsonb,
+  overlap_area NUMERIC,
+  opened_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  resolves_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+-- One open contest per challenger and zone
+CREATE UNIQUE INDEX IF NOT EXISTS idx_zone_contests_open
+ON public.zone_contests(region_id, challenger_id)
+WHERE status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_zone_contests_defender ON public.zone_contests(defender_id, status);
+
+ALTER TABLE public.zone_contests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Zone contests are viewable by everyone"
+ON public.zone_contests FOR SELECT
+USING (true);
+
+-- Contests are opened through open_zone_contest only
+CREATE OR REPLACE FUNCTION public.open_zone_contest(p_profile_id UUID, p_region_id TEXT, p_claim JSONB, p_overlap_area NUMERIC)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_defender_id UUID;
+  v_contest_id UUID;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  SELECT owner_id INTO v_defender_id
+  FROM regions
+  WHERE id = p_region_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Zone not found';
+  END IF;
+
+  IF v_defender_id = p_profile_id THEN
+    RAISE EXCEPTION 'You cannot contest your own zone';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM profiles WHERE id = p_profile_id AND xp_debt > 0) THEN
+    RAISE EXCEPTION 'Repay your XP debt before contesting zones';
+  END IF;
+
+  -- Reopening an existing contest returns it instead of failing
+  SELECT id INTO v_contest_id
+  FROM zone_contests
+  WHERE region_id = p_region_id AND challenger_id = p_profile_id AND status = 'open';
+
+  IF v_contest_id IS NOT NULL THEN
+    RETURN v_contest_id;
+  END IF;
+
+  INSERT INTO zone_contests (region_id, challenger_id, defender_id, claim, overlap_area, resolves_at)
+  VALUES (
+    p_region_id,
+    p_profile_id,
+    v_defender_id,
+    COALESCE(p_claim, '{}'::jsonb),
+    p_overlap_area,
+    now() + make_interval(hours => economy_setting('contest_duration_hours', 48)::INTEGER)
+  )
+  RETURNING id INTO v_contest_id;
+
+  RETURN v_contest_id;
+END;
+$$;
@@ -0,0 +1,296 @@
+-- Territory contests
+-- Running inside a rival's zone is recorded as zone activity. Looping the zone
+-- enough times, or out-running its owner inside it over the capture window, opens
+-- a contest. When the contest timer runs out the side that covered more distance
+-- inside the zone keeps it; a winning challenger takes over the region and the
+-- defender's client hands over the land NFT.
+
+INSERT INTO public.economy_settings (key, value, description)
+VALUES
+  ('contest_capture_loops', 3, 'Loops around a rival zone within the capture window that open a contest'),
+  ('contest_window_days', 7, 'Window over which zone activity is compared to open a contest'),
+  ('contest_min_distance_m', 500, 'Minimum distance inside a rival zone before out-running its owner opens a contest')
+ON CONFLICT (key) DO NOTHING;
+
+-- In-app notifications, written by server functions only
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_profile ON public.notifications(profile_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications FOR SELECT
+USING (profile_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid()));
+
+CREATE POLICY "Users can mark their own notifications read"
+ON public.notifications FOR UPDATE
+USING (profile_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid()));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+CREATE OR REPLACE FUNCTION public.notify(p_profile_id UUID, p_type TEXT, p_title TEXT, p_body TEXT, p_data JSONB DEFAULT '{}'::jsonb)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO notifications (profile_id, type, title, body, data)
+  SELECT p_profile_id, p_type, p_title, p_body, COALESCE(p_data, '{}'::jsonb)
+  WHERE p_profile_id IS NOT NULL;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify(UUID, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Distance run and loops completed inside a zone, one row per run and zone
+CREATE TABLE IF NOT EXISTS public.zone_activity (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  region_id TEXT NOT NULL REFERENCES public.regions(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  client_run_id TEXT,
+  loops INTEGER NOT NULL DEFAULT 0 CHECK (loops >= 0),
+  distance_m NUMERIC NOT NULL DEFAULT 0 CHECK (distance_m >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_zone_activity_run
+ON public.zone_activity(region_id, profile_id, client_run_id)
+WHERE client_run_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_zone_activity_region ON public.zone_activity(region_id, created_at);
+
+ALTER TABLE public.zone_activity ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Zone activity is viewable by everyone"
+ON public.zone_activity FOR SELECT
+USING (true);
+
+-- Contests can now be opened by activity as well as by overlapping claims
+ALTER TABLE public.zone_contests DROP CONSTRAINT IF EXISTS zone_contests_reason_check;
+ALTER TABLE public.zone_contests
+ADD CONSTRAINT zone_contests_reason_check CHECK (reason IN ('overlap', 'loops', 'distance'));
+
+ALTER TABLE public.zone_contests
+ADD COLUMN IF NOT EXISTS challenger_distance NUMERIC,
+ADD COLUMN IF NOT EXISTS defender_distance NUMERIC,
+ADD COLUMN IF NOT EXISTS nft_transfer_status TEXT NOT NULL DEFAULT 'none'
+  CHECK (nft_transfer_status IN ('none', 'pending', 'done'));
+
+-- Distance covered inside a zone by one runner over a period
+CREATE OR REPLACE FUNCTION public.zone_distance(p_region_id TEXT, p_profile_id UUID, p_from TIMESTAMP WITH TIME ZONE, p_to TIMESTAMP WITH TIME ZONE)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(distance_m), 0)
+  FROM zone_activity
+  WHERE region_id = p_region_id
+  AND profile_id = p_profile_id
+  AND created_at >= p_from
+  AND created_at < p_to;
+$$;
+
+-- Record a run through a zone and open a contest when the challenger qualifies
+-- Returns the contest id when one was opened
+CREATE OR REPLACE FUNCTION public.record_zone_activity(p_profile_id UUID, p_region_id TEXT, p_client_run_id TEXT, p_loops INTEGER, p_distance_m NUMERIC)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_region regions%ROWTYPE;
+  v_window_start TIMESTAMP WITH TIME ZONE := now() - make_interval(days => economy_setting('contest_window_days', 7)::INTEGER);
+  v_loops INTEGER;
+  v_challenger_distance NUMERIC;
+  v_defender_distance NUMERIC;
+  v_reason TEXT;
+  v_contest_id UUID;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  SELECT * INTO v_region FROM regions WHERE id = p_region_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Zone not found';
+  END IF;
+
+  INSERT INTO zone_activity (region_id, profile_id, client_run_id, loops, distance_m)
+  VALUES (p_region_id, p_profile_id, p_client_run_id, GREATEST(p_loops, 0), LEAST(GREATEST(p_distance_m, 0), 50000))
+  ON CONFLICT (region_id, profile_id, client_run_id) WHERE client_run_id IS NOT NULL DO NOTHING;
+
+  -- Owners defend by running; only rivals can open a contest
+  IF v_region.owner_id IS NULL OR v_region.owner_id = p_profile_id THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM zone_contests WHERE region_id = p_region_id AND status = 'open') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(SUM(loops), 0) INTO v_loops
+  FROM zone_activity
+  WHERE region_id = p_region_id AND profile_id = p_profile_id AND created_at >= v_window_start;
+
+  v_challenger_distance := zone_distance(p_region_id, p_profile_id, v_window_start, now() + interval '1 second');
+  v_defender_distance := zone_distance(p_region_id, v_region.owner_id, v_window_start, now() + interval '1 second');
+
+  IF v_loops >= economy_setting('contest_capture_loops', 3) THEN
+    v_reason := 'loops';
+  ELSIF v_challenger_distance >= economy_setting('contest_min_distance_m', 500)
+    AND v_challenger_distance > v_defender_distance THEN
+    v_reason := 'distance';
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO zone_contests (region_id, challenger_id, defender_id, reason, resolves_at)
+  VALUES (
+    p_region_id,
+    p_profile_id,
+    v_region.owner_id,
+    v_reason,
+    now() + make_interval(hours => economy_setting('contest_duration_hours', 48)::INTEGER)
+  )
+  ON CONFLICT (region_id, challenger_id) WHERE status = 'open' DO NOTHING
+  RETURNING id INTO v_contest_id;
+
+  IF v_contest_id IS NOT NULL THEN
+    PERFORM notify(p_profile_id, 'contest_opened', 'Contest opened',
+      format('You are challenging "%s". Out-run the owner inside it before the timer ends.', v_region.name),
+      jsonb_build_object('contestId', v_contest_id, 'regionId', p_region_id));
+    PERFORM notify(v_region.owner_id, 'contest_opened', 'Your zone is under attack',
+      format('A rival is contesting "%s". Run inside it to defend it.', v_region.name),
+      jsonb_build_object('contestId', v_contest_id, 'regionId', p_region_id));
+  END IF;
+
+  RETURN v_contest_id;
+END;
+$$;
+
+-- Contests opened from an overlapping claim notify the defender too
+CREATE OR REPLACE FUNCTION public.notify_contest_opened()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.reason = 'overlap' THEN
+    PERFORM notify(NEW.defender_id, 'contest_opened', 'Your zone is under attack',
+      format('A new claim overlaps "%s". Run inside it to defend it.', (SELECT name FROM regions WHERE id = NEW.region_id)),
+      jsonb_build_object('contestId', NEW.id, 'regionId', NEW.region_id));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_contest_opened ON public.zone_contests;
+CREATE TRIGGER notify_contest_opened
+  AFTER INSERT ON public.zone_contests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_contest_opened();
+
+-- Settle every contest whose timer has run out; safe to call from any client
+CREATE OR REPLACE FUNCTION public.resolve_due_zone_contests()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contest zone_contests%ROWTYPE;
+  v_region regions%ROWTYPE;
+  v_challenger_distance NUMERIC;
+  v_defender_distance NUMERIC;
+  v_challenger_won BOOLEAN;
+  v_resolved INTEGER := 0;
+BEGIN
+  FOR v_contest IN
+    SELECT * FROM zone_contests
+    WHERE status = 'open' AND resolves_at <= now()
+    ORDER BY resolves_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    SELECT * INTO v_region FROM regions WHERE id = v_contest.region_id FOR UPDATE;
+
+    -- The zone changed hands some other way while the contest ran
+    IF v_region.owner_id IS DISTINCT FROM v_contest.defender_id THEN
+      UPDATE zone_contests SET status = 'cancelled', resolved_at = now() WHERE id = v_contest.id;
+      v_resolved := v_resolved + 1;
+      CONTINUE;
+    END IF;
+
+    v_challenger_distance := zone_distance(v_contest.region_id, v_contest.challenger_id, v_contest.opened_at, v_contest.resolves_at);
+    v_defender_distance := zone_distance(v_contest.region_id, v_contest.defender_id, v_contest.opened_at, v_contest.resolves_at);
+    v_challenger_won := v_challenger_distance > v_defender_distance;
+
+    UPDATE zone_contests
+    SET status = CASE WHEN v_challenger_won THEN 'challenger_won' ELSE 'defender_won' END,
+        challenger_distance = v_challenger_distance,
+        defender_distance = v_defender_distance,
+        nft_transfer_status = CASE WHEN v_challenger_won AND v_region.nft_id IS NOT NULL THEN 'pending' ELSE 'none' END,
+        resolved_at = now()
+    WHERE id = v_contest.id;
+
+    IF v_challenger_won THEN
+      UPDATE regions
+      SET owner_id = v_contest.challenger_id,
+          claimed_at = now(),
+          updated_at = now()
+      WHERE id = v_contest.region_id;
+
+      -- Other challengers were fighting the previous owner
+      UPDATE zone_contests
+      SET status = 'cancelled', resolved_at = now()
+      WHERE region_id = v_contest.region_id AND status = 'open';
+    END IF;
+
+    PERFORM notify(v_contest.challenger_id, 'contest_resolved',
+      CASE WHEN v_challenger_won THEN 'Zone captured' ELSE 'Contest lost' END,
+      format('"%s": you ran %s m, the owner ran %s m.', v_region.name, round(v_challenger_distance), round(v_defender_distance)),
+      jsonb_build_object('contestId', v_contest.id, 'regionId', v_contest.region_id, 'won', v_challenger_won));
+    PERFORM notify(v_contest.defender_id, 'contest_resolved',
+      CASE WHEN v_challenger_won THEN 'Zone lost' ELSE 'Zone defended' END,
+      format('"%s": you ran %s m, the challenger ran %s m.', v_region.name, round(v_defender_distance), round(v_challenger_distance)),
+      jsonb_build_object('contestId', v_contest.id, 'regionId', v_contest.region_id, 'won', NOT v_challenger_won));
+
+    v_resolved := v_resolved + 1;
+  END LOOP;
+
+  RETURN v_resolved;
+END;
+$$;
+
+-- The previous owner's wallet signs the NFT transfer, then confirms it here
+CREATE OR REPLACE FUNCTION public.confirm_contest_nft_transfer(p_profile_id UUID, p_contest_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  UPDATE zone_contests
+  SET nft_transfer_status = 'done'
+  WHERE id = p_contest_id
+  AND defender_id = p_profile_id
+  AND nft_transfer_status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pending NFT transfer for this contest';
+  END IF;
+END;
+$$;
@@ -0,0 +1,224 @@
+-- Zone decay and upkeep
+-- A zone stays at full health while its owner keeps running inside it. After a
+-- grace period without an owner run its health falls linearly to zero, the rent it
+-- can charge shrinks with it, and at zero any rival who runs through it takes it.
+-- regions.last_visited now records the owner's last run in the zone and visitors
+-- counts runs by everyone else.
+
+INSERT INTO public.economy_settings (key, value, description)
+VALUES
+  ('zone_decay_grace_days', 7, 'Days a zone keeps full health after its owner last ran inside it'),
+  ('zone_decay_days', 21, 'Days after the grace period for an undefended zone to decay to zero health'),
+  ('zone_max_rent', 100, 'Rent ceiling of a zone at full health')
+ON CONFLICT (key) DO NOTHING;
+
+-- Health between 0 and 1 for a zone last defended at p_defended_at
+CREATE OR REPLACE FUNCTION public.zone_health(p_defended_at TIMESTAMP WITH TIME ZONE)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT GREATEST(0, LEAST(1,
+    1 - (EXTRACT(EPOCH FROM now() - COALESCE(p_defended_at, now())) / 86400 - economy_setting('zone_decay_grace_days', 7))
+      / GREATEST(economy_setting('zone_decay_days', 21), 1)
+  ))::NUMERIC(4, 3);
+$$;
+
+CREATE OR REPLACE VIEW public.region_health
+WITH (security_invoker = true)
+AS
+SELECT
+  r.id,
+  r.owner_id,
+  GREATEST(r.last_visited, r.claimed_at, r.created_at) AS defended_at,
+  h.health,
+  GREATEST(1, FLOOR(economy_setting('zone_max_rent', 100) * h.health))::INTEGER AS rent_ceiling,
+  LEAST(COALESCE(r.rent_price, 10), GREATEST(1, FLOOR(economy_setting('zone_max_rent', 100) * h.health)))::INTEGER AS effective_rent,
+  h.health = 0 AS reclaimable
+FROM public.regions r
+CROSS JOIN LATERAL (SELECT zone_health(GREATEST(r.last_visited, r.claimed_at, r.created_at)) AS health) h;
+
+GRANT SELECT ON public.region_health TO anon, authenticated;
+
+ALTER TABLE public.zone_contests DROP CONSTRAINT IF EXISTS zone_contests_reason_check;
+ALTER TABLE public.zone_contests
+ADD CONSTRAINT zone_contests_reason_check CHECK (reason IN ('overlap', 'loops', 'distance', 'reclaim'));
+
+-- Rent is capped by the zone's health; renters no longer count as the owner defending it
+CREATE OR REPLACE FUNCTION public.pay_zone_rent(
+  p_profile_id UUID,
+  p_region_id public.regions.id%TYPE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_owner_id UUID;
+  v_amount INTEGER;
+  v_entry_id UUID;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  PERFORM 1 FROM regions WHERE id = p_region_id FOR UPDATE;
+
+  SELECT owner_id, effective_rent INTO v_owner_id, v_amount
+  FROM region_health
+  WHERE id = p_region_id;
+
+  IF v_owner_id IS NULL THEN
+    RAISE EXCEPTION 'Territory owner not found';
+  END IF;
+
+  IF v_owner_id = p_profile_id THEN
+    RAISE EXCEPTION 'Owners do not pay rent on their own zone';
+  END IF;
+
+  v_entry_id := post_xp_entry(
+    p_profile_id,
+    v_owner_id,
+    v_amount,
+    'rent',
+    'Zone rent for zone ' || p_region_id,
+    jsonb_build_object('zoneId', p_region_id, 'renterId', p_profile_id, 'ownerId', v_owner_id)
+  );
+
+  INSERT INTO transactions (from_user_id, to_user_id, amount, type, region_id, status, metadata)
+  VALUES (p_profile_id, v_owner_id, v_amount, 'rent', p_region_id, 'completed',
+          jsonb_build_object('entryId', v_entry_id, 'timestamp', now()));
+
+  UPDATE regions
+  SET total_earnings = COALESCE(total_earnings, 0) + v_amount
+  WHERE id = p_region_id;
+
+  RETURN jsonb_build_object(
+    'entry_id', v_entry_id,
+    'amount', v_amount,
+    'balance', (SELECT xp FROM profiles WHERE id = p_profile_id)
+  );
+END;
+$$;
+
+-- Owner runs restore the zone, rival runs count as visits and can reclaim a dead zone
+CREATE OR REPLACE FUNCTION public.record_zone_activity(p_profile_id UUID, p_region_id TEXT, p_client_run_id TEXT, p_loops INTEGER, p_distance_m NUMERIC)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_region regions%ROWTYPE;
+  v_window_start TIMESTAMP WITH TIME ZONE := now() - make_interval(days => economy_setting('contest_window_days', 7)::INTEGER);
+  v_activity_id UUID;
+  v_loops INTEGER;
+  v_challenger_distance NUMERIC;
+  v_defender_distance NUMERIC;
+  v_reason TEXT;
+  v_contest_id UUID;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  SELECT * INTO v_region FROM regions WHERE id = p_region_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Zone not found';
+  END IF;
+
+  INSERT INTO zone_activity (region_id, profile_id, client_run_id, loops, distance_m)
+  VALUES (p_region_id, p_profile_id, p_client_run_id, GREATEST(p_loops, 0), LEAST(GREATEST(p_distance_m, 0), 50000))
+  ON CONFLICT (region_id, profile_id, client_run_id) WHERE client_run_id IS NOT NULL DO NOTHING
+  RETURNING id INTO v_activity_id;
+
+  -- A replayed run changes nothing
+  IF v_activity_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_region.owner_id IS NULL OR v_region.owner_id = p_profile_id THEN
+    UPDATE regions SET last_visited = now() WHERE id = p_region_id;
+    RETURN NULL;
+  END IF;
+
+  UPDATE regions SET visitors = COALESCE(visitors, 0) + 1 WHERE id = p_region_id;
+
+  -- A fully decayed zone goes to the first rival who runs a loop or enough distance in it
+  IF (SELECT reclaimable FROM region_health WHERE id = p_region_id)
+    AND (p_loops >= 1 OR p_distance_m >= economy_setting('contest_min_distance_m', 500)) THEN
+    UPDATE zone_contests
+    SET status = 'cancelled', resolved_at = now()
+    WHERE region_id = p_region_id AND status = 'open';
+
+    INSERT INTO zone_contests (region_id, challenger_id, defender_id, reason, status, resolves_at, resolved_at, nft_transfer_status)
+    VALUES (
+      p_region_id,
+      p_profile_id,
+      v_region.owner_id,
+      'reclaim',
+      'challenger_won',
+      now(),
+      now(),
+      CASE WHEN v_region.nft_id IS NOT NULL THEN 'pending' ELSE 'none' END
+    )
+    RETURNING id INTO v_contest_id;
+
+    UPDATE regions
+    SET owner_id = p_profile_id,
+        claimed_at = now(),
+        last_visited = now(),
+        updated_at = now()
+    WHERE id = p_region_id;
+
+    PERFORM notify(p_profile_id, 'zone_reclaimed', 'Zone reclaimed',
+      format('"%s" had been abandoned and is now yours.', v_region.name),
+      jsonb_build_object('contestId', v_contest_id, 'regionId', p_region_id));
+    PERFORM notify(v_region.owner_id, 'zone_reclaimed', 'Zone lost to decay',
+      format('"%s" decayed after you stopped running in it and was reclaimed by a rival.', v_region.name),
+      jsonb_build_object('contestId', v_contest_id, 'regionId', p_region_id));
+
+    RETURN v_contest_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM zone_contests WHERE region_id = p_region_id AND status = 'open') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(SUM(loops), 0) INTO v_loops
+  FROM zone_activity
+  WHERE region_id = p_region_id AND profile_id = p_profile_id AND created_at >= v_window_start;
+
+  v_challenger_distance := zone_distance(p_region_id, p_profile_id, v_window_start, now() + interval '1 second');
+  v_defender_distance := zone_distance(p_region_id, v_region.owner_id, v_window_start, now() + interval '1 second');
+
+  IF v_loops >= economy_setting('contest_capture_loops', 3) THEN
+    v_reason := 'loops';
+  ELSIF v_challenger_distance >= economy_setting('contest_min_distance_m', 500)
+    AND v_challenger_distance > v_defender_distance THEN
+    v_reason := 'distance';
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO zone_contests (region_id, challenger_id, defender_id, reason, resolves_at)
+  VALUES (
+    p_region_id,
+    p_profile_id,
+    v_region.owner_id,
+    v_reason,
+    now() + make_interval(hours => economy_setting('contest_duration_hours', 48)::INTEGER)
+  )
+  ON CONFLICT (region_id, challenger_id) WHERE status = 'open' DO NOTHING
+  RETURNING id INTO v_contest_id;
+
+  IF v_contest_id IS NOT NULL THEN
+    PERFORM notify(p_profile_id, 'contest_opened', 'Contest opened',
+      format('You are challenging "%s". Out-run the owner inside it before the timer ends.', v_region.name),
+      jsonb_build_object('contestId', v_contest_id, 'regionId', p_region_id));
+    PERFORM notify(v_region.owner_id, 'contest_opened', 'Your zone is under attack',
+      format('A rival is contesting "%s". Run inside it to defend it.', v_region.name),
+      jsonb_build_object('contestId', v_contest_id, 'regionId', p_region_id));
+  END IF;
+
+  RETURN v_contest_id;
+END;
+$$;
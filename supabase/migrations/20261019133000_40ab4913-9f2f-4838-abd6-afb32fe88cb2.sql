@@ -0,0 +1,21 @@
+-- zkLogin salts
+-- Salts are derived by the zklogin-salt edge function as HMAC-SHA256 of the token's
+-- iss/aud/sub under a server secret, and pinned here so an account resolves to the
+-- same address on every device. Accounts created with the old client-side 32-bit
+-- hash keep that salt (legacy = true) so their existing address and assets stay
+-- reachable. Only the service role reads or writes this table.
+
+CREATE TABLE public.zklogin_salts (
+  iss TEXT NOT NULL,
+  aud TEXT NOT NULL,
+  sub TEXT NOT NULL,
+  salt TEXT NOT NULL,
+  address TEXT NOT NULL,
+  legacy BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (iss, aud, sub)
+);
+
+CREATE INDEX idx_zklogin_salts_address ON public.zklogin_salts(address);
+
+ALTER TABLE public.zklogin_salts ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,335 @@
+-- Private lobby racing
+-- A host opens a lobby with a distance (m) or area (m²) target and shares its code.
+-- Runners join while it is waiting, the host starts the race for everyone, and each
+-- runner reports progress as they go. The race ends when everyone has reached the
+-- target or the host ends it; finishers are ranked by finish time, the rest by
+-- progress, and XP is paid out by rank.
+
+INSERT INTO public.economy_settings (key, value, description)
+VALUES
+  ('lobby_xp_winner', 150, 'XP paid to the winner of a lobby race'),
+  ('lobby_xp_finisher', 25, 'XP paid to the last runner who reached the lobby target'),
+  ('lobby_max_participants', 20, 'Most runners allowed in one lobby')
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE public.private_lobbies
+ALTER COLUMN status SET DEFAULT 'waiting';
+
+ALTER TABLE public.private_lobbies
+ADD CONSTRAINT private_lobbies_status_check
+CHECK (status IN ('waiting', 'running', 'finished', 'cancelled')) NOT VALID;
+
+ALTER TABLE public.private_lobbies
+ADD CONSTRAINT private_lobbies_target_check
+CHECK (COALESCE(target_distance, 0) > 0 OR COALESCE(target_area, 0) > 0) NOT VALID;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_private_lobbies_code ON public.private_lobbies(upper(code));
+
+ALTER TABLE public.lobby_participants
+ADD COLUMN IF NOT EXISTS finished_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS rank INTEGER,
+ADD COLUMN IF NOT EXISTS xp_awarded INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT now();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lobby_participants_member ON public.lobby_participants(lobby_id, user_id);
+
+-- Live progress for everyone in the race
+ALTER TABLE public.lobby_participants REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.lobby_participants;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.private_lobbies;
+
+-- Open a lobby with the host as its first runner
+CREATE OR REPLACE FUNCTION public.create_lobby(
+  p_profile_id UUID,
+  p_name TEXT,
+  p_target_distance NUMERIC DEFAULT NULL,
+  p_target_area NUMERIC DEFAULT NULL
+)
+RETURNS public.private_lobbies
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lobby private_lobbies%ROWTYPE;
+  v_code TEXT;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  IF (COALESCE(p_target_distance, 0) > 0) = (COALESCE(p_target_area, 0) > 0) THEN
+    RAISE EXCEPTION 'A lobby needs either a distance or an area target';
+  END IF;
+
+  -- Six characters without look-alikes (0/O, 1/I)
+  LOOP
+    SELECT string_agg(substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', 1 + floor(random() * 32)::INTEGER, 1), '')
+    INTO v_code
+    FROM generate_series(1, 6);
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM private_lobbies WHERE upper(code) = v_code);
+  END LOOP;
+
+  INSERT INTO private_lobbies (name, code, creator_id, status, target_distance, target_area)
+  VALUES (
+    COALESCE(NULLIF(trim(p_name), ''), 'Lobby ' || v_code),
+    v_code,
+    p_profile_id,
+    'waiting',
+    NULLIF(p_target_distance, 0),
+    NULLIF(p_target_area, 0)
+  )
+  RETURNING * INTO v_lobby;
+
+  INSERT INTO lobby_participants (lobby_id, user_id) VALUES (v_lobby.id, p_profile_id);
+
+  RETURN v_lobby;
+END;
+$$;
+
+-- Join a waiting lobby by its code; joining twice is a no-op
+CREATE OR REPLACE FUNCTION public.join_lobby(p_profile_id UUID, p_code TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lobby private_lobbies%ROWTYPE;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  SELECT * INTO v_lobby
+  FROM private_lobbies
+  WHERE upper(code) = upper(trim(p_code))
+  FOR UPDATE;
+
+  IF v_lobby.id IS NULL THEN
+    RAISE EXCEPTION 'No lobby with code %', upper(trim(p_code));
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM lobby_participants WHERE lobby_id = v_lobby.id AND user_id = p_profile_id) THEN
+    RETURN v_lobby.id;
+  END IF;
+
+  IF v_lobby.status <> 'waiting' THEN
+    RAISE EXCEPTION 'This race has already started';
+  END IF;
+
+  IF (SELECT count(*) FROM lobby_participants WHERE lobby_id = v_lobby.id) >= economy_setting('lobby_max_participants', 20) THEN
+    RAISE EXCEPTION 'This lobby is full';
+  END IF;
+
+  INSERT INTO lobby_participants (lobby_id, user_id) VALUES (v_lobby.id, p_profile_id);
+
+  RETURN v_lobby.id;
+END;
+$$;
+
+-- Leave before the start; the lobby is cancelled when its host leaves
+CREATE OR REPLACE FUNCTION public.leave_lobby(p_profile_id UUID, p_lobby_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lobby private_lobbies%ROWTYPE;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  SELECT * INTO v_lobby FROM private_lobbies WHERE id = p_lobby_id FOR UPDATE;
+
+  IF v_lobby.status <> 'waiting' THEN
+    RAISE EXCEPTION 'You can only leave a lobby before the race starts';
+  END IF;
+
+  IF v_lobby.creator_id = p_profile_id THEN
+    UPDATE private_lobbies SET status = 'cancelled', updated_at = now() WHERE id = p_lobby_id;
+  ELSE
+    DELETE FROM lobby_participants WHERE lobby_id = p_lobby_id AND user_id = p_profile_id;
+  END IF;
+END;
+$$;
+
+-- The host starts the race for everyone at once
+CREATE OR REPLACE FUNCTION public.start_lobby(p_profile_id UUID, p_lobby_id UUID)
+RETURNS public.private_lobbies
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lobby private_lobbies%ROWTYPE;
+  v_participant UUID;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  SELECT * INTO v_lobby FROM private_lobbies WHERE id = p_lobby_id FOR UPDATE;
+
+  IF v_lobby.creator_id IS DISTINCT FROM p_profile_id THEN
+    RAISE EXCEPTION 'Only the host can start the race';
+  END IF;
+
+  IF v_lobby.status <> 'waiting' THEN
+    RAISE EXCEPTION 'This race has already started';
+  END IF;
+
+  IF (SELECT count(*) FROM lobby_participants WHERE lobby_id = p_lobby_id) < 2 THEN
+    RAISE EXCEPTION 'A race needs at least two runners';
+  END IF;
+
+  UPDATE private_lobbies
+  SET status = 'running', start_time = now(), updated_at = now()
+  WHERE id = p_lobby_id
+  RETURNING * INTO v_lobby;
+
+  FOR v_participant IN SELECT user_id FROM lobby_participants WHERE lobby_id = p_lobby_id AND user_id <> p_profile_id LOOP
+    PERFORM notify(v_participant, 'lobby_started', 'The race has started',
+      format('"%s" is on. Start running!', v_lobby.name),
+      jsonb_build_object('lobbyId', p_lobby_id));
+  END LOOP;
+
+  RETURN v_lobby;
+END;
+$$;
+
+-- Rank everyone and pay out XP; runs once per lobby
+CREATE OR REPLACE FUNCTION public.settle_lobby(p_lobby_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lobby private_lobbies%ROWTYPE;
+  v_participant RECORD;
+  v_finishers INTEGER;
+  v_winner_xp INTEGER := economy_setting('lobby_xp_winner', 150)::INTEGER;
+  v_finisher_xp INTEGER := economy_setting('lobby_xp_finisher', 25)::INTEGER;
+  v_xp INTEGER;
+  v_entry_id UUID;
+BEGIN
+  SELECT * INTO v_lobby FROM private_lobbies WHERE id = p_lobby_id FOR UPDATE;
+
+  IF v_lobby.status IS DISTINCT FROM 'running' THEN
+    RETURN;
+  END IF;
+
+  SELECT count(*) INTO v_finishers
+  FROM lobby_participants
+  WHERE lobby_id = p_lobby_id AND finished_at IS NOT NULL;
+
+  FOR v_participant IN
+    SELECT id, user_id, finished_at,
+      row_number() OVER (
+        ORDER BY finished_at ASC NULLS LAST,
+          CASE WHEN v_lobby.target_distance IS NOT NULL THEN distance_completed ELSE area_completed END DESC NULLS LAST,
+          joined_at
+      ) AS rank
+    FROM lobby_participants
+    WHERE lobby_id = p_lobby_id
+  LOOP
+    -- Finishers share a sliding scale from the winner's prize down to the finisher prize
+    v_xp := 0;
+    IF v_participant.finished_at IS NOT NULL THEN
+      v_xp := CASE WHEN v_finishers = 1 THEN v_winner_xp
+        ELSE round(v_winner_xp - (v_winner_xp - v_finisher_xp) * (v_participant.rank - 1)::NUMERIC / (v_finishers - 1))::INTEGER
+      END;
+    END IF;
+
+    IF v_xp > 0 THEN
+      v_entry_id := post_xp_entry(xp_system_account(), v_participant.user_id, v_xp, 'competition',
+        format('Lobby race "%s": #%s', v_lobby.name, v_participant.rank),
+        jsonb_build_object('lobbyId', p_lobby_id, 'rank', v_participant.rank));
+      PERFORM garnish_xp_debt(v_participant.user_id, v_xp, v_entry_id);
+    END IF;
+
+    UPDATE lobby_participants
+    SET rank = v_participant.rank, xp_awarded = v_xp, updated_at = now()
+    WHERE id = v_participant.id;
+
+    PERFORM notify(v_participant.user_id, 'lobby_finished', 'Race results are in',
+      CASE WHEN v_xp > 0
+        THEN format('You finished #%s in "%s" and earned %s XP', v_participant.rank, v_lobby.name, v_xp)
+        ELSE format('You placed #%s in "%s"', v_participant.rank, v_lobby.name)
+      END,
+      jsonb_build_object('lobbyId', p_lobby_id, 'rank', v_participant.rank));
+  END LOOP;
+
+  UPDATE private_lobbies
+  SET status = 'finished', end_time = now(), updated_at = now()
+  WHERE id = p_lobby_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.settle_lobby(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Report a runner's progress; the race settles once everyone has reached the target
+-- Progress only moves forward so a replayed or late update cannot undo it
+CREATE OR REPLACE FUNCTION public.report_lobby_progress(
+  p_profile_id UUID,
+  p_lobby_id UUID,
+  p_distance NUMERIC,
+  p_area NUMERIC DEFAULT 0
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lobby private_lobbies%ROWTYPE;
+  v_participant lobby_participants%ROWTYPE;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  SELECT * INTO v_lobby FROM private_lobbies WHERE id = p_lobby_id;
+
+  IF v_lobby.status IS DISTINCT FROM 'running' THEN
+    RETURN v_lobby.status;
+  END IF;
+
+  UPDATE lobby_participants
+  SET distance_completed = GREATEST(COALESCE(distance_completed, 0), COALESCE(p_distance, 0)),
+      area_completed = GREATEST(COALESCE(area_completed, 0), COALESCE(p_area, 0)),
+      updated_at = now()
+  WHERE lobby_id = p_lobby_id AND user_id = p_profile_id
+  RETURNING * INTO v_participant;
+
+  IF v_participant.id IS NULL THEN
+    RAISE EXCEPTION 'You are not in this race';
+  END IF;
+
+  IF v_participant.finished_at IS NULL AND (
+    (v_lobby.target_distance IS NOT NULL AND v_participant.distance_completed >= v_lobby.target_distance)
+    OR (v_lobby.target_area IS NOT NULL AND v_participant.area_completed >= v_lobby.target_area)
+  ) THEN
+    UPDATE lobby_participants SET finished_at = now() WHERE id = v_participant.id;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM lobby_participants WHERE lobby_id = p_lobby_id AND finished_at IS NULL) THEN
+    PERFORM settle_lobby(p_lobby_id);
+    RETURN 'finished';
+  END IF;
+
+  RETURN 'running';
+END;
+$$;
+
+-- The host can end the race early; runners who have not finished are ranked by progress
+CREATE OR REPLACE FUNCTION public.finish_lobby(p_profile_id UUID, p_lobby_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  IF NOT EXISTS (SELECT 1 FROM private_lobbies WHERE id = p_lobby_id AND creator_id = p_profile_id) THEN
+    RAISE EXCEPTION 'Only the host can end the race';
+  END IF;
+
+  PERFORM settle_lobby(p_lobby_id);
+END;
+$$;
@@ -0,0 +1,284 @@
+-- Sponsored competitions
+-- Registered runners are scored automatically from what they do inside the
+-- competition window: meters run (distance), m² enclosed (area) or zones claimed
+-- or captured and still held (zones). Only verified runs count. Once the window
+-- closes the standings are frozen and the podium is announced in the community feed.
+
+UPDATE public.competitions SET type = 'distance' WHERE type IS NULL OR type NOT IN ('distance', 'area', 'zones');
+
+ALTER TABLE public.competitions
+ALTER COLUMN type SET DEFAULT 'distance',
+ADD COLUMN IF NOT EXISTS finalized_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.competitions
+ADD CONSTRAINT competitions_type_check CHECK (type IN ('distance', 'area', 'zones'));
+
+ALTER TABLE public.competition_participants
+ADD COLUMN IF NOT EXISTS scored_at TIMESTAMP WITH TIME ZONE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_competition_participants_member
+ON public.competition_participants(competition_id, user_id);
+
+-- Announcements share the feed with user posts
+ALTER TABLE public.community_posts
+ADD COLUMN IF NOT EXISTS post_type TEXT NOT NULL DEFAULT 'user',
+ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.community_posts
+ADD CONSTRAINT community_posts_post_type_check CHECK (post_type IN ('user', 'announcement'));
+
+ALTER TABLE public.competitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.competition_participants ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Competitions are viewable by everyone" ON public.competitions;
+CREATE POLICY "Competitions are viewable by everyone"
+ON public.competitions FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Competition standings are viewable by everyone" ON public.competition_participants;
+CREATE POLICY "Competition standings are viewable by everyone"
+ON public.competition_participants FOR SELECT
+USING (true);
+
+-- A participant's score in one competition, from activity inside its window
+CREATE OR REPLACE FUNCTION public.competition_score(p_competition_id UUID, p_profile_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_competition competitions%ROWTYPE;
+  v_score NUMERIC;
+BEGIN
+  SELECT * INTO v_competition FROM competitions WHERE id = p_competition_id;
+
+  IF v_competition.type = 'zones' THEN
+    SELECT count(*) INTO v_score
+    FROM regions
+    WHERE owner_id = p_profile_id
+    AND claimed_at BETWEEN v_competition.start_date AND v_competition.end_date;
+  ELSE
+    SELECT COALESCE(sum(
+      CASE WHEN v_competition.type = 'area' THEN COALESCE(r.area_m2, 0) ELSE route_length_m(r.route) END
+    ), 0)
+    INTO v_score
+    FROM runs r
+    JOIN profiles p ON p.email = r.user_email
+    WHERE p.id = p_profile_id
+    AND r.verification_status = 'verified'
+    AND COALESCE(r.recorded_at, r.created_at) BETWEEN v_competition.start_date AND v_competition.end_date;
+  END IF;
+
+  RETURN round(v_score);
+END;
+$$;
+
+-- Re-rank a competition by score; earlier registration breaks ties
+CREATE OR REPLACE FUNCTION public.rank_competition(p_competition_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE competition_participants cp
+  SET rank = ranked.rank
+  FROM (
+    SELECT id, row_number() OVER (ORDER BY COALESCE(score, 0) DESC, joined_at) AS rank
+    FROM competition_participants
+    WHERE competition_id = p_competition_id
+  ) ranked
+  WHERE cp.id = ranked.id;
+$$;
+
+-- Rescore one runner in every competition they are registered for that is not yet frozen
+CREATE OR REPLACE FUNCTION public.refresh_competition_scores(p_profile_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_competition_id UUID;
+  v_refreshed INTEGER := 0;
+BEGIN
+  FOR v_competition_id IN
+    SELECT c.id
+    FROM competitions c
+    JOIN competition_participants cp ON cp.competition_id = c.id
+    WHERE cp.user_id = p_profile_id
+    AND c.finalized_at IS NULL
+    AND c.start_date <= now()
+  LOOP
+    UPDATE competition_participants
+    SET score = competition_score(v_competition_id, p_profile_id),
+        scored_at = now()
+    WHERE competition_id = v_competition_id AND user_id = p_profile_id;
+
+    PERFORM rank_competition(v_competition_id);
+    v_refreshed := v_refreshed + 1;
+  END LOOP;
+
+  RETURN v_refreshed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rank_competition(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_competition_scores(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Register for a competition that has not ended yet
+CREATE OR REPLACE FUNCTION public.join_competition(p_profile_id UUID, p_competition_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_competition competitions%ROWTYPE;
+  v_participant_id UUID;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  SELECT * INTO v_competition FROM competitions WHERE id = p_competition_id;
+
+  IF v_competition.id IS NULL THEN
+    RAISE EXCEPTION 'Competition not found';
+  END IF;
+
+  IF v_competition.finalized_at IS NOT NULL OR v_competition.end_date <= now() THEN
+    RAISE EXCEPTION 'This competition has ended';
+  END IF;
+
+  INSERT INTO competition_participants (competition_id, user_id, score)
+  VALUES (p_competition_id, p_profile_id, 0)
+  ON CONFLICT (competition_id, user_id) DO NOTHING;
+
+  SELECT id INTO v_participant_id
+  FROM competition_participants
+  WHERE competition_id = p_competition_id AND user_id = p_profile_id;
+
+  -- Activity since the start counts even when registering late
+  PERFORM refresh_competition_scores(p_profile_id);
+
+  RETURN v_participant_id;
+END;
+$$;
+
+-- Scores follow runs and zone ownership as they happen
+CREATE OR REPLACE FUNCTION public.refresh_competition_scores_on_run()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM refresh_competition_scores(p.id)
+  FROM profiles p
+  WHERE p.email = NEW.user_email;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_competition_scores ON public.runs;
+CREATE TRIGGER refresh_competition_scores
+  AFTER INSERT OR UPDATE OF verification_status ON public.runs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_competition_scores_on_run();
+
+CREATE OR REPLACE FUNCTION public.refresh_competition_scores_on_region()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.owner_id IS NOT NULL THEN
+    PERFORM refresh_competition_scores(NEW.owner_id);
+  END IF;
+
+  -- The previous owner loses the zone from their count
+  IF TG_OP = 'UPDATE' AND OLD.owner_id IS NOT NULL AND OLD.owner_id IS DISTINCT FROM NEW.owner_id THEN
+    PERFORM refresh_competition_scores(OLD.owner_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_competition_scores ON public.regions;
+CREATE TRIGGER refresh_competition_scores
+  AFTER INSERT OR UPDATE OF owner_id ON public.regions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_competition_scores_on_region();
+
+-- Freeze the standings of every competition whose window has closed and announce
+-- the podium; safe to call from any client
+CREATE OR REPLACE FUNCTION public.finalize_due_competitions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_competition competitions%ROWTYPE;
+  v_participant RECORD;
+  v_podium JSONB;
+  v_winner_id UUID;
+  v_finalized INTEGER := 0;
+BEGIN
+  FOR v_competition IN
+    SELECT * FROM competitions
+    WHERE finalized_at IS NULL AND end_date <= now()
+    ORDER BY end_date
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE competition_participants
+    SET score = competition_score(v_competition.id, user_id),
+        scored_at = now()
+    WHERE competition_id = v_competition.id;
+
+    PERFORM rank_competition(v_competition.id);
+
+    UPDATE competitions SET finalized_at = now() WHERE id = v_competition.id;
+
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'rank', cp.rank, 'profileId', cp.user_id, 'username', p.username, 'score', cp.score
+    ) ORDER BY cp.rank), '[]'::jsonb)
+    INTO v_podium
+    FROM competition_participants cp
+    JOIN profiles p ON p.id = cp.user_id
+    WHERE cp.competition_id = v_competition.id AND cp.rank <= 3 AND COALESCE(cp.score, 0) > 0;
+
+    v_winner_id := (v_podium->0->>'profileId')::UUID;
+
+    IF v_winner_id IS NOT NULL THEN
+      INSERT INTO community_posts (user_id, content, post_type, metadata)
+      VALUES (
+        v_winner_id,
+        format('🏆 %s won "%s"%s and takes home %s!',
+          v_podium->0->>'username',
+          v_competition.title,
+          CASE WHEN v_competition.sponsor IS NOT NULL THEN ' by ' || v_competition.sponsor ELSE '' END,
+          v_competition.prize),
+        'announcement',
+        jsonb_build_object('competitionId', v_competition.id, 'podium', v_podium)
+      );
+    END IF;
+
+    FOR v_participant IN
+      SELECT user_id, rank FROM competition_participants WHERE competition_id = v_competition.id
+    LOOP
+      PERFORM notify(v_participant.user_id, 'competition_finished',
+        CASE WHEN v_participant.user_id = v_winner_id THEN 'You won!' ELSE 'Final standings are in' END,
+        format('You finished #%s in "%s"', v_participant.rank, v_competition.title),
+        jsonb_build_object('competitionId', v_competition.id, 'rank', v_participant.rank));
+    END LOOP;
+
+    v_finalized := v_finalized + 1;
+  END LOOP;
+
+  RETURN v_finalized;
+END;
+$$;
@@ -0,0 +1,307 @@
+-- Challenge engine
+-- A challenge is a rule: a category (run, zone, rent, social) and a metric within
+-- it, counted up to max_progress. Verified runs, zone mints, rent payments and
+-- social actions post events that advance every matching challenge, and the
+-- xp_reward is paid once when a challenge completes. Daily and weekly challenges
+-- are drawn into a rotation for each UTC day or ISO week, and progress on them
+-- starts over with every new rotation; 'once' challenges are always on.
+
+INSERT INTO public.economy_settings (key, value, description)
+VALUES
+  ('challenges_per_day', 3, 'Daily challenges drawn into each day''s rotation'),
+  ('challenges_per_week', 3, 'Weekly challenges drawn into each week''s rotation')
+ON CONFLICT (key) DO NOTHING;
+
+UPDATE public.challenges SET category = 'run' WHERE category IS NULL OR category NOT IN ('run', 'zone', 'rent', 'social');
+
+ALTER TABLE public.challenges
+ALTER COLUMN category SET DEFAULT 'run',
+ADD COLUMN IF NOT EXISTS metric TEXT NOT NULL DEFAULT 'count',
+ADD COLUMN IF NOT EXISTS period TEXT NOT NULL DEFAULT 'once',
+ADD COLUMN IF NOT EXISTS active BOOLEAN NOT NULL DEFAULT true;
+
+-- count: events; distance: meters run; area: m² enclosed or minted; earned: rent XP received
+ALTER TABLE public.challenges
+ADD CONSTRAINT challenges_rule_check CHECK ((category, metric) IN (
+  ('run', 'count'), ('run', 'distance'), ('run', 'area'),
+  ('zone', 'count'), ('zone', 'area'),
+  ('rent', 'count'), ('rent', 'earned'),
+  ('social', 'posts'), ('social', 'comments'), ('social', 'likes'), ('social', 'groups')
+)),
+ADD CONSTRAINT challenges_period_check CHECK (period IN ('once', 'daily', 'weekly'));
+
+-- Progress is kept per rotation; period_start is NULL for 'once' challenges
+ALTER TABLE public.user_challenges
+ADD COLUMN IF NOT EXISTS period_start DATE,
+ADD COLUMN IF NOT EXISTS xp_awarded INTEGER NOT NULL DEFAULT 0;
+
+DELETE FROM public.user_challenges a
+USING public.user_challenges b
+WHERE a.user_id = b.user_id
+AND a.challenge_id = b.challenge_id
+AND (COALESCE(a.progress, 0), a.id) < (COALESCE(b.progress, 0), b.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_challenges_period
+ON public.user_challenges(user_id, challenge_id, period_start) NULLS NOT DISTINCT;
+
+-- The challenges drawn for each day and week
+CREATE TABLE IF NOT EXISTS public.challenge_rotations (
+  period TEXT NOT NULL CHECK (period IN ('daily', 'weekly')),
+  period_start DATE NOT NULL,
+  challenge_id UUID NOT NULL REFERENCES public.challenges(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (period, period_start, challenge_id)
+);
+
+ALTER TABLE public.challenges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_challenges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.challenge_rotations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Challenges are viewable by everyone" ON public.challenges;
+CREATE POLICY "Challenges are viewable by everyone"
+ON public.challenges FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Challenge rotations are viewable by everyone" ON public.challenge_rotations;
+CREATE POLICY "Challenge rotations are viewable by everyone"
+ON public.challenge_rotations FOR SELECT
+USING (true);
+
+-- Progress is written by the engine only
+DROP POLICY IF EXISTS "Users can view their own challenge progress" ON public.user_challenges;
+CREATE POLICY "Users can view their own challenge progress"
+ON public.user_challenges FOR SELECT
+USING (user_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid()));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.user_challenges;
+
+-- Starter pool for the rotations and a few permanent milestones
+INSERT INTO public.challenges (title, description, icon, category, metric, period, max_progress, xp_reward)
+SELECT v.title, v.description, v.icon, v.category, v.metric, v.period, v.max_progress, v.xp_reward
+FROM (VALUES
+  ('Daily Run', 'Complete a run today', 'activity', 'run', 'count', 'daily', 1, 10),
+  ('Daily 3K', 'Run 3 km today', 'route', 'run', 'distance', 'daily', 3000, 15),
+  ('Loop Maker', 'Enclose 5,000 m² in runs today', 'map', 'run', 'area', 'daily', 5000, 15),
+  ('Rent Day', 'Pay rent in a rival zone today', 'coins', 'rent', 'count', 'daily', 1, 10),
+  ('Cheer Squad', 'Like 5 posts today', 'heart', 'social', 'likes', 'daily', 5, 5),
+  ('Chatty Runner', 'Comment on 3 posts today', 'message-circle', 'social', 'comments', 'daily', 3, 5),
+  ('Weekly 20K', 'Run 20 km this week', 'route', 'run', 'distance', 'weekly', 20000, 50),
+  ('Regular', 'Complete 4 runs this week', 'activity', 'run', 'count', 'weekly', 4, 40),
+  ('Land Grab', 'Mint 2 zones this week', 'flag', 'zone', 'count', 'weekly', 2, 60),
+  ('Landlord', 'Earn 50 XP in rent this week', 'coins', 'rent', 'earned', 'weekly', 50, 40),
+  ('Storyteller', 'Share 2 posts this week', 'edit', 'social', 'posts', 'weekly', 2, 20),
+  ('First Steps', 'Complete your first run', 'activity', 'run', 'count', 'once', 1, 25),
+  ('Marathoner', 'Run 42.2 km in total', 'trophy', 'run', 'distance', 'once', 42195, 200),
+  ('Territory', 'Mint your first zone', 'flag', 'zone', 'count', 'once', 1, 50),
+  ('Team Player', 'Join a group', 'users', 'social', 'groups', 'once', 1, 20)
+) AS v(title, description, icon, category, metric, period, max_progress, xp_reward)
+WHERE NOT EXISTS (SELECT 1 FROM public.challenges c WHERE c.title = v.title);
+
+-- Start of the rotation that p_at falls in (NULL for 'once')
+CREATE OR REPLACE FUNCTION public.challenge_period_start(p_period TEXT, p_at TIMESTAMP WITH TIME ZONE DEFAULT now())
+RETURNS DATE
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE p_period
+    WHEN 'daily' THEN (p_at AT TIME ZONE 'UTC')::DATE
+    WHEN 'weekly' THEN date_trunc('week', p_at AT TIME ZONE 'UTC')::DATE
+  END;
+$$;
+
+-- Challenges that are on right now, drawing today's and this week's rotation the
+-- first time it is asked for; safe to call from any client
+CREATE OR REPLACE FUNCTION public.current_challenges()
+RETURNS TABLE (challenge_id UUID, period TEXT, period_start DATE, ends_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_period TEXT;
+  v_start DATE;
+BEGIN
+  FOREACH v_period IN ARRAY ARRAY['daily', 'weekly'] LOOP
+    v_start := challenge_period_start(v_period);
+
+    IF NOT EXISTS (SELECT 1 FROM challenge_rotations cr WHERE cr.period = v_period AND cr.period_start = v_start) THEN
+      PERFORM pg_advisory_xact_lock(hashtext('challenge_rotation:' || v_period));
+
+      -- Skip the previous rotation's picks when the pool allows it
+      INSERT INTO challenge_rotations (period, period_start, challenge_id)
+      SELECT v_period, v_start, c.id
+      FROM challenges c
+      WHERE c.active AND c.period = v_period
+      AND NOT EXISTS (SELECT 1 FROM challenge_rotations cr WHERE cr.period = v_period AND cr.period_start = v_start)
+      ORDER BY EXISTS (
+        SELECT 1 FROM challenge_rotations cr
+        WHERE cr.period = v_period AND cr.challenge_id = c.id
+        AND cr.period_start = v_start - CASE v_period WHEN 'daily' THEN 1 ELSE 7 END
+      ), random()
+      LIMIT economy_setting(CASE v_period WHEN 'daily' THEN 'challenges_per_day' ELSE 'challenges_per_week' END, 3)::INTEGER
+      ON CONFLICT DO NOTHING;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY
+  SELECT cr.challenge_id, cr.period, cr.period_start,
+    (cr.period_start + CASE cr.period WHEN 'daily' THEN 1 ELSE 7 END)::TIMESTAMP AT TIME ZONE 'UTC'
+  FROM challenge_rotations cr
+  JOIN challenges c ON c.id = cr.challenge_id
+  WHERE c.active
+  AND cr.period_start = challenge_period_start(cr.period)
+  UNION ALL
+  SELECT c.id, c.period, NULL::DATE, NULL::TIMESTAMP WITH TIME ZONE
+  FROM challenges c
+  WHERE c.active AND c.period = 'once';
+END;
+$$;
+
+-- Advance every current challenge matching the event and pay out the ones it completes
+CREATE OR REPLACE FUNCTION public.record_challenge_event(p_profile_id UUID, p_category TEXT, p_metric TEXT, p_amount NUMERIC)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_challenge RECORD;
+  v_progress user_challenges%ROWTYPE;
+  v_entry_id UUID;
+  v_completed INTEGER := 0;
+BEGIN
+  IF p_profile_id IS NULL OR COALESCE(round(p_amount), 0) <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_challenge IN
+    SELECT c.*, cc.period_start
+    FROM current_challenges() cc
+    JOIN challenges c ON c.id = cc.challenge_id
+    WHERE c.category = p_category AND c.metric = p_metric
+  LOOP
+    INSERT INTO user_challenges (user_id, challenge_id, period_start, progress)
+    VALUES (p_profile_id, v_challenge.id, v_challenge.period_start, 0)
+    ON CONFLICT (user_id, challenge_id, period_start) DO NOTHING;
+
+    -- The row lock makes completion, and so the reward, happen exactly once
+    UPDATE user_challenges
+    SET progress = LEAST(v_challenge.max_progress, COALESCE(progress, 0) + round(p_amount)::INTEGER),
+        updated_at = now()
+    WHERE user_id = p_profile_id
+    AND challenge_id = v_challenge.id
+    AND period_start IS NOT DISTINCT FROM v_challenge.period_start
+    AND NOT COALESCE(completed, false)
+    RETURNING * INTO v_progress;
+
+    IF FOUND AND v_progress.progress >= v_challenge.max_progress THEN
+      UPDATE user_challenges
+      SET completed = true, completed_at = now(), xp_awarded = v_challenge.xp_reward
+      WHERE id = v_progress.id;
+
+      IF v_challenge.xp_reward > 0 THEN
+        v_entry_id := post_xp_entry(xp_system_account(), p_profile_id, v_challenge.xp_reward, 'challenge',
+          format('Challenge "%s" completed', v_challenge.title),
+          jsonb_build_object('challengeId', v_challenge.id, 'periodStart', v_challenge.period_start));
+        PERFORM garnish_xp_debt(p_profile_id, v_challenge.xp_reward, v_entry_id);
+      END IF;
+
+      PERFORM notify(p_profile_id, 'challenge_completed', 'Challenge completed',
+        format('"%s" done: +%s XP', v_challenge.title, v_challenge.xp_reward),
+        jsonb_build_object('challengeId', v_challenge.id, 'xp', v_challenge.xp_reward));
+
+      v_completed := v_completed + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_completed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_challenge_event(UUID, TEXT, TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Turn runs, mints, rent payments and social actions into challenge events
+CREATE OR REPLACE FUNCTION public.track_challenge_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile_id UUID;
+BEGIN
+  CASE TG_TABLE_NAME
+    WHEN 'runs' THEN
+      -- Runs count once they are verified, whether on insert or after review
+      IF NEW.verification_status = 'verified' AND (TG_OP = 'INSERT' OR OLD.verification_status IS DISTINCT FROM 'verified') THEN
+        SELECT id INTO v_profile_id FROM profiles WHERE email = NEW.user_email;
+        PERFORM record_challenge_event(v_profile_id, 'run', 'count', 1);
+        PERFORM record_challenge_event(v_profile_id, 'run', 'distance', route_length_m(NEW.route));
+        PERFORM record_challenge_event(v_profile_id, 'run', 'area', NEW.area_m2);
+      END IF;
+    WHEN 'regions' THEN
+      PERFORM record_challenge_event(NEW.owner_id, 'zone', 'count', 1);
+      PERFORM record_challenge_event(NEW.owner_id, 'zone', 'area', NEW.area);
+    WHEN 'transactions' THEN
+      IF NEW.type = 'rent' AND NEW.status = 'completed' THEN
+        PERFORM record_challenge_event(NEW.from_user_id, 'rent', 'count', 1);
+        PERFORM record_challenge_event(NEW.to_user_id, 'rent', 'earned', NEW.amount);
+      END IF;
+    WHEN 'community_posts' THEN
+      IF NEW.post_type = 'user' THEN
+        PERFORM record_challenge_event(NEW.user_id, 'social', 'posts', 1);
+      END IF;
+    WHEN 'post_comments' THEN
+      PERFORM record_challenge_event(NEW.user_id, 'social', 'comments', 1);
+    WHEN 'post_likes' THEN
+      PERFORM record_challenge_event(NEW.user_id, 'social', 'likes', 1);
+    WHEN 'group_members' THEN
+      SELECT id INTO v_profile_id FROM profiles WHERE email = NEW.user_email;
+      PERFORM record_challenge_event(v_profile_id, 'social', 'groups', 1);
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS track_challenge_events ON public.runs;
+CREATE TRIGGER track_challenge_events
+  AFTER INSERT OR UPDATE OF verification_status ON public.runs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_challenge_events();
+
+DROP TRIGGER IF EXISTS track_challenge_events ON public.regions;
+CREATE TRIGGER track_challenge_events
+  AFTER INSERT ON public.regions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_challenge_events();
+
+DROP TRIGGER IF EXISTS track_challenge_events ON public.transactions;
+CREATE TRIGGER track_challenge_events
+  AFTER INSERT ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_challenge_events();
+
+DROP TRIGGER IF EXISTS track_challenge_events ON public.community_posts;
+CREATE TRIGGER track_challenge_events
+  AFTER INSERT ON public.community_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_challenge_events();
+
+DROP TRIGGER IF EXISTS track_challenge_events ON public.post_comments;
+CREATE TRIGGER track_challenge_events
+  AFTER INSERT ON public.post_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_challenge_events();
+
+DROP TRIGGER IF EXISTS track_challenge_events ON public.post_likes;
+CREATE TRIGGER track_challenge_events
+  AFTER INSERT ON public.post_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_challenge_events();
+
+DROP TRIGGER IF EXISTS track_challenge_events ON public.group_members;
+CREATE TRIGGER track_challenge_events
+  AFTER INSERT ON public.group_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_challenge_events();
@@ -0,0 +1,267 @@
+-- Leaderboards
+-- leaderboard_entries holds one row per runner, category (distance, area, xp,
+-- zones) and period (daily, weekly, monthly, all_time). Values are recomputed on
+-- the server whenever a run is verified, a zone changes hands or XP moves, so the
+-- client never reports its own score. Windows follow UTC days, ISO weeks and
+-- calendar months; an entry from a window that has closed starts unranked in the
+-- next one. previous_rank is the rank held before the last change, for movement
+-- arrows. leaderboard_rankings is the readable view: runners who are not public
+-- are listed anonymously.
+
+-- The window a row belongs to; NULL for all_time
+ALTER TABLE public.leaderboard_entries
+ADD COLUMN IF NOT EXISTS period_start DATE;
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_entries_board
+ON public.leaderboard_entries(category, period, period_start, rank);
+
+CREATE OR REPLACE FUNCTION public.leaderboard_period_start(p_period TEXT, p_at TIMESTAMP WITH TIME ZONE DEFAULT now())
+RETURNS DATE
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE p_period
+    WHEN 'daily' THEN (p_at AT TIME ZONE 'UTC')::DATE
+    WHEN 'weekly' THEN date_trunc('week', p_at AT TIME ZONE 'UTC')::DATE
+    WHEN 'monthly' THEN date_trunc('month', p_at AT TIME ZONE 'UTC')::DATE
+  END;
+$$;
+
+-- A runner's score in the current window: meters run, m² enclosed, zones claimed and
+-- still held, or XP (earned in the window, or the balance for all_time)
+CREATE OR REPLACE FUNCTION public.leaderboard_value(p_profile_id UUID, p_category TEXT, p_period TEXT)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_from TIMESTAMP WITH TIME ZONE := leaderboard_period_start(p_period)::TIMESTAMP AT TIME ZONE 'UTC';
+  v_value NUMERIC;
+BEGIN
+  IF p_category IN ('distance', 'area') THEN
+    SELECT COALESCE(sum(CASE WHEN p_category = 'area' THEN COALESCE(r.area_m2, 0) ELSE route_length_m(r.route) END), 0)
+    INTO v_value
+    FROM runs r
+    JOIN profiles p ON p.email = r.user_email
+    WHERE p.id = p_profile_id
+    AND r.verification_status = 'verified'
+    AND (v_from IS NULL OR COALESCE(r.recorded_at, r.created_at) >= v_from);
+  ELSIF p_category = 'zones' THEN
+    SELECT count(*) INTO v_value
+    FROM regions
+    WHERE owner_id = p_profile_id
+    AND (v_from IS NULL OR claimed_at >= v_from);
+  ELSIF v_from IS NULL THEN
+    SELECT COALESCE(xp, 0) INTO v_value FROM profiles WHERE id = p_profile_id;
+  ELSE
+    SELECT COALESCE(sum(amount), 0) INTO v_value
+    FROM xp_transactions
+    WHERE user_id = p_profile_id AND amount > 0 AND created_at >= v_from;
+  END IF;
+
+  RETURN round(v_value);
+END;
+$$;
+
+-- Re-rank one board; only rows whose rank moves are touched so previous_rank keeps
+-- the last rank that was different
+CREATE OR REPLACE FUNCTION public.rank_leaderboard(p_category TEXT, p_period TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH ranked AS (
+    SELECT id, row_number() OVER (ORDER BY value DESC, updated_at) AS new_rank
+    FROM leaderboard_entries
+    WHERE category = p_category
+    AND period = p_period
+    AND period_start IS NOT DISTINCT FROM leaderboard_period_start(p_period)
+  )
+  UPDATE leaderboard_entries le
+  SET previous_rank = le.rank,
+      rank = r.new_rank
+  FROM ranked r
+  WHERE le.id = r.id AND le.rank IS DISTINCT FROM r.new_rank;
+$$;
+
+-- Store a value without ranking it; a row from a closed window starts over unranked
+CREATE OR REPLACE FUNCTION public.store_leaderboard_value(p_profile_id UUID, p_category TEXT, p_period TEXT, p_value NUMERIC)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO leaderboard_entries (user_id, category, period, period_start, value, country)
+  SELECT id, p_category, p_period, leaderboard_period_start(p_period), p_value, country
+  FROM profiles
+  WHERE id = p_profile_id
+  ON CONFLICT (user_id, category, period)
+  DO UPDATE SET
+    value = EXCLUDED.value,
+    country = EXCLUDED.country,
+    updated_at = now(),
+    rank = CASE WHEN leaderboard_entries.period_start IS NOT DISTINCT FROM EXCLUDED.period_start THEN leaderboard_entries.rank END,
+    previous_rank = CASE WHEN leaderboard_entries.period_start IS NOT DISTINCT FROM EXCLUDED.period_start THEN leaderboard_entries.previous_rank END,
+    period_start = EXCLUDED.period_start;
+$$;
+
+-- Recompute a runner's entries in the given categories for every period
+CREATE OR REPLACE FUNCTION public.refresh_leaderboard_entries(p_profile_id UUID, p_categories TEXT[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_category TEXT;
+  v_period TEXT;
+BEGIN
+  IF p_profile_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  FOREACH v_category IN ARRAY p_categories LOOP
+    FOREACH v_period IN ARRAY ARRAY['daily', 'weekly', 'monthly', 'all_time'] LOOP
+      PERFORM store_leaderboard_value(p_profile_id, v_category, v_period,
+        leaderboard_value(p_profile_id, v_category, v_period));
+      PERFORM rank_leaderboard(v_category, v_period);
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+-- Kept for existing callers, but values now come from the server only
+CREATE OR REPLACE FUNCTION public.update_leaderboard_entry(p_user_id uuid, p_category text, p_period text, p_value numeric)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile_id UUID;
+BEGIN
+  SELECT id INTO v_profile_id FROM profiles WHERE user_id = p_user_id;
+
+  IF v_profile_id IS NULL THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  PERFORM store_leaderboard_value(v_profile_id, p_category, p_period, p_value);
+  PERFORM rank_leaderboard(p_category, p_period);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.leaderboard_value(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.rank_leaderboard(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.store_leaderboard_value(UUID, TEXT, TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_leaderboard_entries(UUID, TEXT[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.update_leaderboard_entry(UUID, TEXT, TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Runs feed distance and area, ownership changes feed zones, ledger postings feed XP
+CREATE OR REPLACE FUNCTION public.refresh_leaderboards_on_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  CASE TG_TABLE_NAME
+    WHEN 'runs' THEN
+      IF TG_OP = 'INSERT' OR OLD.verification_status IS DISTINCT FROM NEW.verification_status THEN
+        PERFORM refresh_leaderboard_entries(p.id, ARRAY['distance', 'area'])
+        FROM profiles p
+        WHERE p.email = NEW.user_email;
+      END IF;
+    WHEN 'regions' THEN
+      PERFORM refresh_leaderboard_entries(NEW.owner_id, ARRAY['zones']);
+      IF TG_OP = 'UPDATE' AND OLD.owner_id IS DISTINCT FROM NEW.owner_id THEN
+        PERFORM refresh_leaderboard_entries(OLD.owner_id, ARRAY['zones']);
+      END IF;
+    WHEN 'xp_transactions' THEN
+      IF NEW.user_id <> xp_system_account() THEN
+        PERFORM refresh_leaderboard_entries(NEW.user_id, ARRAY['xp']);
+      END IF;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_leaderboards ON public.runs;
+CREATE TRIGGER refresh_leaderboards
+  AFTER INSERT OR UPDATE OF verification_status ON public.runs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_leaderboards_on_change();
+
+DROP TRIGGER IF EXISTS refresh_leaderboards ON public.regions;
+CREATE TRIGGER refresh_leaderboards
+  AFTER INSERT OR UPDATE OF owner_id ON public.regions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_leaderboards_on_change();
+
+DROP TRIGGER IF EXISTS refresh_leaderboards ON public.xp_transactions;
+CREATE TRIGGER refresh_leaderboards
+  AFTER INSERT ON public.xp_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_leaderboards_on_change();
+
+-- Boards as they stand now, runners with a score only. The runner and public profiles
+-- are named; everyone else is an anonymous row with rank, score and country only.
+CREATE OR REPLACE VIEW public.leaderboard_rankings AS
+SELECT
+  le.id,
+  le.category,
+  le.period,
+  le.period_start,
+  le.rank,
+  le.previous_rank,
+  le.value,
+  le.country,
+  (p.user_id = auth.uid()) AS is_me,
+  NOT v.visible AS is_anonymous,
+  CASE WHEN v.visible THEN p.id END AS profile_id,
+  CASE WHEN v.visible THEN p.username END AS username,
+  CASE WHEN v.visible THEN p.avatar_url END AS avatar_url
+FROM public.leaderboard_entries le
+JOIN public.profiles p ON p.id = le.user_id
+CROSS JOIN LATERAL (
+  SELECT p.user_id = auth.uid() OR NOT EXISTS (
+    SELECT 1 FROM public.user_settings us
+    WHERE us.user_id = p.id AND us.privacy_mode <> 'public'
+  ) AS visible
+) v
+WHERE le.rank IS NOT NULL
+AND le.value > 0
+AND le.period_start IS NOT DISTINCT FROM public.leaderboard_period_start(le.period);
+
+REVOKE ALL ON public.leaderboard_rankings FROM anon;
+GRANT SELECT ON public.leaderboard_rankings TO authenticated;
+
+COMMENT ON VIEW public.leaderboard_rankings IS 'Current leaderboards; non-public runners are anonymized - authenticated users only';
+
+-- Fill every board once from existing activity
+DO $$
+DECLARE
+  v_profile_id UUID;
+  v_category TEXT;
+  v_period TEXT;
+BEGIN
+  FOR v_profile_id IN SELECT id FROM public.profiles LOOP
+    FOREACH v_category IN ARRAY ARRAY['distance', 'area', 'xp', 'zones'] LOOP
+      FOREACH v_period IN ARRAY ARRAY['daily', 'weekly', 'monthly', 'all_time'] LOOP
+        PERFORM public.store_leaderboard_value(v_profile_id, v_category, v_period,
+          public.leaderboard_value(v_profile_id, v_category, v_period));
+      END LOOP;
+    END LOOP;
+  END LOOP;
+
+  FOREACH v_category IN ARRAY ARRAY['distance', 'area', 'xp', 'zones'] LOOP
+    FOREACH v_period IN ARRAY ARRAY['daily', 'weekly', 'monthly', 'all_time'] LOOP
+      PERFORM public.rank_leaderboard(v_category, v_period);
+    END LOOP;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,131 @@
+-- Unified posts
+-- community_posts is the only post model. A post can attach one of the author's
+-- runs or zones and a photo from the community bucket. Runs are private to their
+-- owner, so the attachment is snapshotted onto the post when it is written: the
+-- run's distance (m), area (m²), date and a thinned route, or the zone's name,
+-- area and outline. Rows from the old posts table (keyed by user_email, with a
+-- run_id) are merged in; the old table is kept as posts_legacy for rows whose
+-- author has no profile and is no longer exposed to clients. Like counts are kept
+-- by the database.
+
+ALTER TABLE public.community_posts
+ADD COLUMN IF NOT EXISTS run_id UUID REFERENCES public.runs(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS region_id TEXT REFERENCES public.regions(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS attachment JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_community_posts_created_at ON public.community_posts(created_at DESC);
+
+-- Snapshot the attachment and check the author owns it
+CREATE OR REPLACE FUNCTION public.prepare_community_post()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run runs%ROWTYPE;
+  v_region regions%ROWTYPE;
+  v_points INTEGER;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.run_id IS NOT DISTINCT FROM OLD.run_id AND NEW.region_id IS NOT DISTINCT FROM OLD.region_id THEN
+    NEW.attachment := OLD.attachment;
+    RETURN NEW;
+  END IF;
+
+  NEW.attachment := NULL;
+
+  IF NEW.run_id IS NOT NULL THEN
+    SELECT r.* INTO v_run
+    FROM runs r
+    JOIN profiles p ON p.email = r.user_email
+    WHERE r.id = NEW.run_id AND p.id = NEW.user_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'You can only share your own runs';
+    END IF;
+
+    v_points := COALESCE(jsonb_array_length(v_run.route->'coordinates'), 0);
+
+    NEW.attachment := jsonb_build_object(
+      'type', 'run',
+      'distance', round(route_length_m(v_run.route)),
+      'area', round(COALESCE(v_run.area_m2, 0)),
+      'date', COALESCE(v_run.recorded_at, v_run.created_at),
+      -- At most ~200 points is plenty for a thumbnail
+      'route', (
+        SELECT COALESCE(jsonb_agg(point ORDER BY i), '[]'::jsonb)
+        FROM jsonb_array_elements(v_run.route->'coordinates') WITH ORDINALITY AS t(point, i)
+        WHERE (i - 1) % GREATEST(1, ceil(v_points / 200.0)::INTEGER) = 0 OR i = v_points
+      )
+    );
+  ELSIF NEW.region_id IS NOT NULL THEN
+    SELECT * INTO v_region FROM regions WHERE id = NEW.region_id AND owner_id = NEW.user_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'You can only share zones you own';
+    END IF;
+
+    NEW.attachment := jsonb_build_object(
+      'type', 'zone',
+      'name', v_region.name,
+      'area', round(v_region.area),
+      'outline', v_region.coordinates
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prepare_community_post ON public.community_posts;
+CREATE TRIGGER prepare_community_post
+  BEFORE INSERT OR UPDATE ON public.community_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_community_post();
+
+-- Likes are counted here because only the author may update their post
+CREATE OR REPLACE FUNCTION public.count_post_likes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_post_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.post_id ELSE NEW.post_id END;
+BEGIN
+  UPDATE community_posts
+  SET likes_count = (SELECT count(*) FROM post_likes WHERE post_id = v_post_id)
+  WHERE id = v_post_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS count_post_likes ON public.post_likes;
+CREATE TRIGGER count_post_likes
+  AFTER INSERT OR DELETE ON public.post_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.count_post_likes();
+
+UPDATE public.community_posts cp
+SET likes_count = (SELECT count(*) FROM public.post_likes pl WHERE pl.post_id = cp.id);
+
+-- Merge the old posts; ids are kept so a replayed merge is a no-op. Old posts are
+-- not new social activity, so challenge tracking is off while they are copied. A
+-- run that isn't the author's own is dropped from the post rather than failing
+-- prepare_community_post, which snapshots the rest.
+ALTER TABLE public.community_posts DISABLE TRIGGER track_challenge_events;
+
+INSERT INTO public.community_posts (id, user_id, content, run_id, created_at, updated_at)
+SELECT po.id, p.id, po.content, r.id, COALESCE(po.created_at, now()), COALESCE(po.created_at, now())
+FROM public.posts po
+JOIN public.profiles p ON p.email = po.user_email
+LEFT JOIN public.runs r ON r.id = po.run_id AND r.user_email = p.email
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.community_posts ENABLE TRIGGER track_challenge_events;
+
+ALTER TABLE public.posts RENAME TO posts_legacy;
+REVOKE ALL ON public.posts_legacy FROM anon, authenticated;
+
+COMMENT ON TABLE public.posts_legacy IS 'Pre-merge posts; merged into community_posts, kept only for rows whose author has no profile';
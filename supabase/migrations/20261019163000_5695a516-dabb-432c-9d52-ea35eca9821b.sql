@@ -0,0 +1,237 @@
+-- Community feed
+-- Runners can follow each other. The feed is read one page at a time through
+-- get_community_feed, newest first, with a (created_at, id) cursor so pages stay
+-- stable while new posts arrive. Each row already carries its author, like state
+-- and comments. Tabs: following (people the runner follows, plus their own
+-- posts), nearby (posts whose run or zone lies within a radius of a point),
+-- groups (posts by people who share a group with the runner) and global. A post
+-- is placed on the map at the start of its run or the centre of its zone.
+
+CREATE TABLE IF NOT EXISTS public.follows (
+  follower_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  following_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (follower_id, following_id),
+  CHECK (follower_id <> following_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_follows_following ON public.follows(following_id);
+
+ALTER TABLE public.follows ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Follows are viewable by signed in users" ON public.follows;
+CREATE POLICY "Follows are viewable by signed in users"
+ON public.follows
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Users can follow others" ON public.follows;
+CREATE POLICY "Users can follow others"
+ON public.follows
+FOR INSERT
+WITH CHECK (auth.uid() IN (SELECT user_id FROM profiles WHERE id = follows.follower_id));
+
+DROP POLICY IF EXISTS "Users can unfollow others" ON public.follows;
+CREATE POLICY "Users can unfollow others"
+ON public.follows
+FOR DELETE
+USING (auth.uid() IN (SELECT user_id FROM profiles WHERE id = follows.follower_id));
+
+ALTER TABLE public.community_posts
+ADD COLUMN IF NOT EXISTS lat DOUBLE PRECISION,
+ADD COLUMN IF NOT EXISTS lng DOUBLE PRECISION;
+
+CREATE INDEX IF NOT EXISTS idx_community_posts_feed ON public.community_posts(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_community_posts_position ON public.community_posts(lat, lng) WHERE lat IS NOT NULL;
+
+DROP INDEX IF EXISTS public.idx_community_posts_created_at;
+
+-- Same as before, and also places the post where its attachment is
+CREATE OR REPLACE FUNCTION public.prepare_community_post()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run runs%ROWTYPE;
+  v_region regions%ROWTYPE;
+  v_points INTEGER;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.run_id IS NOT DISTINCT FROM OLD.run_id AND NEW.region_id IS NOT DISTINCT FROM OLD.region_id THEN
+    NEW.attachment := OLD.attachment;
+  ELSE
+    NEW.attachment := NULL;
+
+    IF NEW.run_id IS NOT NULL THEN
+      SELECT r.* INTO v_run
+      FROM runs r
+      JOIN profiles p ON p.email = r.user_email
+      WHERE r.id = NEW.run_id AND p.id = NEW.user_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'You can only share your own runs';
+      END IF;
+
+      v_points := COALESCE(jsonb_array_length(v_run.route->'coordinates'), 0);
+
+      NEW.attachment := jsonb_build_object(
+        'type', 'run',
+        'distance', round(route_length_m(v_run.route)),
+        'area', round(COALESCE(v_run.area_m2, 0)),
+        'date', COALESCE(v_run.recorded_at, v_run.created_at),
+        -- At most ~200 points is plenty for a thumbnail
+        'route', (
+          SELECT COALESCE(jsonb_agg(point ORDER BY i), '[]'::jsonb)
+          FROM jsonb_array_elements(v_run.route->'coordinates') WITH ORDINALITY AS t(point, i)
+          WHERE (i - 1) % GREATEST(1, ceil(v_points / 200.0)::INTEGER) = 0 OR i = v_points
+        )
+      );
+    ELSIF NEW.region_id IS NOT NULL THEN
+      SELECT * INTO v_region FROM regions WHERE id = NEW.region_id AND owner_id = NEW.user_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'You can only share zones you own';
+      END IF;
+
+      NEW.attachment := jsonb_build_object(
+        'type', 'zone',
+        'name', v_region.name,
+        'area', round(v_region.area),
+        'outline', v_region.coordinates
+      );
+    END IF;
+  END IF;
+
+  IF NEW.attachment->>'type' = 'run' THEN
+    NEW.lng := (NEW.attachment->'route'->0->>0)::DOUBLE PRECISION;
+    NEW.lat := (NEW.attachment->'route'->0->>1)::DOUBLE PRECISION;
+  ELSIF NEW.attachment->>'type' = 'zone' THEN
+    SELECT avg((point->>'lat')::DOUBLE PRECISION), avg((point->>'lng')::DOUBLE PRECISION)
+    INTO NEW.lat, NEW.lng
+    FROM jsonb_array_elements(NEW.attachment->'outline') AS point;
+  ELSE
+    NEW.lat := NULL;
+    NEW.lng := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Place existing posts; the trigger fills lat and lng from the attachment
+UPDATE public.community_posts SET updated_at = updated_at WHERE attachment IS NOT NULL;
+
+-- One page of a feed tab, newest first. Pass the created_at and id of the last
+-- row seen to get the next page. Nearby needs a point; the radius is in km.
+CREATE OR REPLACE FUNCTION public.get_community_feed(
+  p_tab TEXT DEFAULT 'global',
+  p_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_before_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_lat DOUBLE PRECISION DEFAULT NULL,
+  p_lng DOUBLE PRECISION DEFAULT NULL,
+  p_radius_km DOUBLE PRECISION DEFAULT 10
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  username TEXT,
+  avatar_url TEXT,
+  content TEXT,
+  image_url TEXT,
+  location TEXT,
+  likes_count INTEGER,
+  reposts_count INTEGER,
+  post_type TEXT,
+  attachment JSONB,
+  created_at TIMESTAMP WITH TIME ZONE,
+  has_liked BOOLEAN,
+  is_following BOOLEAN,
+  comments JSONB
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_me profiles%ROWTYPE;
+  v_lat_span DOUBLE PRECISION := p_radius_km / 111.0;
+  v_lng_span DOUBLE PRECISION := p_radius_km / (111.0 * GREATEST(cos(radians(COALESCE(p_lat, 0))), 0.01));
+BEGIN
+  IF p_tab NOT IN ('following', 'nearby', 'groups', 'global') THEN
+    RAISE EXCEPTION 'Unknown feed tab %', p_tab;
+  END IF;
+
+  IF p_tab = 'nearby' AND (p_lat IS NULL OR p_lng IS NULL) THEN
+    RAISE EXCEPTION 'The nearby feed needs a location';
+  END IF;
+
+  SELECT * INTO v_me FROM profiles WHERE profiles.user_id = auth.uid();
+
+  IF p_tab IN ('following', 'groups') AND v_me.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    cp.id,
+    cp.user_id,
+    author.username,
+    author.avatar_url,
+    cp.content,
+    cp.image_url,
+    cp.location,
+    COALESCE(cp.likes_count, 0),
+    COALESCE(cp.reposts_count, 0),
+    cp.post_type,
+    cp.attachment,
+    cp.created_at,
+    EXISTS (SELECT 1 FROM post_likes pl WHERE pl.post_id = cp.id AND pl.user_id = v_me.id),
+    EXISTS (SELECT 1 FROM follows f WHERE f.follower_id = v_me.id AND f.following_id = cp.user_id),
+    (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', pc.id,
+        'user_id', pc.user_id,
+        'username', commenter.username,
+        'avatar_url', commenter.avatar_url,
+        'content', pc.content,
+        'created_at', pc.created_at
+      ) ORDER BY pc.created_at), '[]'::jsonb)
+      FROM post_comments pc
+      LEFT JOIN profiles commenter ON commenter.id = pc.user_id
+      WHERE pc.post_id = cp.id
+    )
+  FROM community_posts cp
+  LEFT JOIN profiles author ON author.id = cp.user_id
+  WHERE (p_before IS NULL OR (cp.created_at, cp.id) < (p_before, COALESCE(p_before_id, 'ffffffff-ffff-ffff-ffff-ffffffffffff'::UUID)))
+  AND CASE p_tab
+    WHEN 'following' THEN
+      cp.user_id = v_me.id
+      OR cp.user_id IN (SELECT f.following_id FROM follows f WHERE f.follower_id = v_me.id)
+    WHEN 'nearby' THEN
+      cp.lat BETWEEN p_lat - v_lat_span AND p_lat + v_lat_span
+      AND cp.lng BETWEEN p_lng - v_lng_span AND p_lng + v_lng_span
+      AND 6371 * 2 * asin(sqrt(
+        sin(radians(cp.lat - p_lat) / 2) ^ 2
+        + cos(radians(p_lat)) * cos(radians(cp.lat)) * sin(radians(cp.lng - p_lng) / 2) ^ 2
+      )) <= p_radius_km
+    WHEN 'groups' THEN
+      EXISTS (
+        SELECT 1
+        FROM group_members mine
+        JOIN group_members theirs ON theirs.group_id = mine.group_id
+        JOIN profiles member ON member.email = theirs.user_email
+        WHERE mine.user_email = v_me.email AND member.id = cp.user_id
+      )
+    ELSE true
+  END
+  ORDER BY cp.created_at DESC, cp.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_community_feed(TEXT, TIMESTAMP WITH TIME ZONE, UUID, INTEGER, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_community_feed(TEXT, TIMESTAMP WITH TIME ZONE, UUID, INTEGER, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO authenticated;
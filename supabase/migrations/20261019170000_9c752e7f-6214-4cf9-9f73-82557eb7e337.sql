@@ -0,0 +1,310 @@
+-- Group territories
+-- A running club can hold territory together. A member assigns one of their own
+-- zones to a club they belong to; the zone keeps its owner but is drawn in the
+-- club colour, club members run through it rent free, and rent paid by anyone
+-- else is split among the members by their rent_share weights (the zone owner
+-- keeps the rounding remainder). A zone leaves the club when it changes hands or
+-- its owner leaves. group_standings ranks clubs by the land they hold.
+
+ALTER TABLE public.groups
+ADD COLUMN IF NOT EXISTS color TEXT NOT NULL DEFAULT '#22C55E';
+
+ALTER TABLE public.groups
+DROP CONSTRAINT IF EXISTS groups_color_check;
+ALTER TABLE public.groups
+ADD CONSTRAINT groups_color_check CHECK (color ~ '^#[0-9A-Fa-f]{6}$');
+
+ALTER TABLE public.group_members
+ADD COLUMN IF NOT EXISTS rent_share NUMERIC NOT NULL DEFAULT 1;
+
+ALTER TABLE public.group_members
+DROP CONSTRAINT IF EXISTS group_members_rent_share_check;
+ALTER TABLE public.group_members
+ADD CONSTRAINT group_members_rent_share_check CHECK (rent_share >= 0 AND rent_share <= 100);
+
+ALTER TABLE public.regions
+ADD COLUMN IF NOT EXISTS group_id UUID REFERENCES public.groups(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_regions_group_id ON public.regions(group_id) WHERE group_id IS NOT NULL;
+
+-- Creators were never added to their own group; the club owner is a member too
+INSERT INTO public.group_members (group_id, user_email, role)
+SELECT g.id, g.owner_email, 'admin'
+FROM public.groups g
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.group_members gm
+  WHERE gm.group_id = g.id AND gm.user_email = g.owner_email
+);
+
+CREATE OR REPLACE FUNCTION public.is_group_member(p_group_id UUID, p_profile_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM group_members gm
+    JOIN profiles p ON p.email = gm.user_email
+    WHERE gm.group_id = p_group_id AND p.id = p_profile_id
+  );
+$$;
+
+-- Only a member can put their zone in a club, and a zone that changes hands leaves it
+CREATE OR REPLACE FUNCTION public.check_region_group()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.group_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.owner_id IS DISTINCT FROM OLD.owner_id AND NEW.group_id IS NOT DISTINCT FROM OLD.group_id THEN
+    IF NOT is_group_member(NEW.group_id, NEW.owner_id) THEN
+      NEW.group_id := NULL;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.owner_id IS NULL OR NOT is_group_member(NEW.group_id, NEW.owner_id) THEN
+    RAISE EXCEPTION 'Only club members can add zones to the club';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_region_group ON public.regions;
+CREATE TRIGGER check_region_group
+  BEFORE INSERT OR UPDATE OF owner_id, group_id ON public.regions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_region_group();
+
+-- A member who leaves takes their zones with them
+CREATE OR REPLACE FUNCTION public.release_member_zones()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE regions r
+  SET group_id = NULL
+  FROM profiles p
+  WHERE p.email = OLD.user_email
+  AND r.owner_id = p.id
+  AND r.group_id = OLD.group_id;
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS release_member_zones ON public.group_members;
+CREATE TRIGGER release_member_zones
+  AFTER DELETE ON public.group_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.release_member_zones();
+
+-- Put one of your zones in a club, or take it out by leaving the group out
+CREATE OR REPLACE FUNCTION public.assign_zone_to_group(p_region_id TEXT, p_group_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_owner_id UUID;
+BEGIN
+  SELECT owner_id INTO v_owner_id FROM regions WHERE id = p_region_id FOR UPDATE;
+
+  IF v_owner_id IS NULL THEN
+    RAISE EXCEPTION 'Zone not found';
+  END IF;
+
+  PERFORM require_own_profile(v_owner_id);
+
+  UPDATE regions SET group_id = p_group_id, updated_at = now() WHERE id = p_region_id;
+END;
+$$;
+
+-- The club owner sets how rent is split; shares are weights, not percentages
+CREATE OR REPLACE FUNCTION public.set_group_rent_share(p_group_id UUID, p_member_id UUID, p_share NUMERIC)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM groups g
+    JOIN profiles p ON p.email = g.owner_email
+    WHERE g.id = p_group_id AND p.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the club owner can change rent shares';
+  END IF;
+
+  UPDATE group_members gm
+  SET rent_share = p_share
+  FROM profiles p
+  WHERE gm.group_id = p_group_id
+  AND gm.user_email = p.email
+  AND p.id = p_member_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a member of this club';
+  END IF;
+END;
+$$;
+
+-- Members with their rent share as a fraction of the whole club
+CREATE OR REPLACE FUNCTION public.group_rent_shares(p_group_id UUID)
+RETURNS TABLE (
+  profile_id UUID,
+  username TEXT,
+  avatar_url TEXT,
+  role TEXT,
+  rent_share NUMERIC,
+  share_fraction NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.username,
+    p.avatar_url,
+    gm.role,
+    gm.rent_share,
+    CASE WHEN sum(gm.rent_share) OVER () > 0 THEN gm.rent_share / sum(gm.rent_share) OVER () ELSE 0 END
+  FROM group_members gm
+  JOIN profiles p ON p.email = gm.user_email
+  WHERE gm.group_id = p_group_id
+  ORDER BY gm.rent_share DESC, p.username;
+$$;
+
+-- Rent on a club zone is shared out among the club; club members pay none
+CREATE OR REPLACE FUNCTION public.pay_zone_rent(
+  p_profile_id UUID,
+  p_region_id public.regions.id%TYPE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_owner_id UUID;
+  v_group_id UUID;
+  v_amount INTEGER;
+  v_entry_id UUID;
+  v_paid INTEGER := 0;
+  v_member RECORD;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  SELECT group_id INTO v_group_id FROM regions WHERE id = p_region_id FOR UPDATE;
+
+  SELECT owner_id, effective_rent INTO v_owner_id, v_amount
+  FROM region_health
+  WHERE id = p_region_id;
+
+  IF v_owner_id IS NULL THEN
+    RAISE EXCEPTION 'Territory owner not found';
+  END IF;
+
+  IF v_owner_id = p_profile_id THEN
+    RAISE EXCEPTION 'Owners do not pay rent on their own zone';
+  END IF;
+
+  IF v_group_id IS NOT NULL AND is_group_member(v_group_id, p_profile_id) THEN
+    RAISE EXCEPTION 'Club members do not pay rent on club zones';
+  END IF;
+
+  IF v_group_id IS NOT NULL THEN
+    FOR v_member IN
+      SELECT s.profile_id, floor(v_amount * s.share_fraction)::INTEGER AS part
+      FROM group_rent_shares(v_group_id) s
+      WHERE s.profile_id <> v_owner_id
+    LOOP
+      CONTINUE WHEN v_member.part <= 0;
+
+      v_entry_id := post_xp_entry(
+        p_profile_id,
+        v_member.profile_id,
+        v_member.part,
+        'rent',
+        'Club share of zone rent for zone ' || p_region_id,
+        jsonb_build_object('zoneId', p_region_id, 'renterId', p_profile_id, 'ownerId', v_owner_id, 'groupId', v_group_id)
+      );
+
+      INSERT INTO transactions (from_user_id, to_user_id, amount, type, region_id, status, metadata)
+      VALUES (p_profile_id, v_member.profile_id, v_member.part, 'rent', p_region_id, 'completed',
+              jsonb_build_object('entryId', v_entry_id, 'groupId', v_group_id, 'timestamp', now()));
+
+      v_paid := v_paid + v_member.part;
+    END LOOP;
+  END IF;
+
+  -- The owner gets their own share plus whatever rounding left over
+  IF v_amount - v_paid > 0 THEN
+    v_entry_id := post_xp_entry(
+      p_profile_id,
+      v_owner_id,
+      v_amount - v_paid,
+      'rent',
+      'Zone rent for zone ' || p_region_id,
+      jsonb_build_object('zoneId', p_region_id, 'renterId', p_profile_id, 'ownerId', v_owner_id, 'groupId', v_group_id)
+    );
+
+    INSERT INTO transactions (from_user_id, to_user_id, amount, type, region_id, status, metadata)
+    VALUES (p_profile_id, v_owner_id, v_amount - v_paid, 'rent', p_region_id, 'completed',
+            jsonb_build_object('entryId', v_entry_id, 'groupId', v_group_id, 'timestamp', now()));
+  END IF;
+
+  UPDATE regions
+  SET total_earnings = COALESCE(total_earnings, 0) + v_amount
+  WHERE id = p_region_id;
+
+  RETURN jsonb_build_object(
+    'entry_id', v_entry_id,
+    'amount', v_amount,
+    'balance', (SELECT xp FROM profiles WHERE id = p_profile_id)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_region_group() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_member_zones() FROM PUBLIC, anon, authenticated;
+
+-- Clubs ranked by the land their members have pooled, with rent shared out this week
+CREATE OR REPLACE VIEW public.group_standings AS
+SELECT
+  g.id,
+  g.name,
+  g.color,
+  (SELECT count(*) FROM public.group_members gm WHERE gm.group_id = g.id) AS members,
+  count(r.id) AS zones,
+  COALESCE(sum(r.area), 0) AS area,
+  (
+    SELECT COALESCE(sum(t.amount), 0)
+    FROM public.transactions t
+    WHERE t.type = 'rent'
+    AND t.metadata->>'groupId' = g.id::TEXT
+    AND t.created_at >= date_trunc('week', now())
+  ) AS weekly_rent,
+  rank() OVER (ORDER BY COALESCE(sum(r.area), 0) DESC) AS rank
+FROM public.groups g
+LEFT JOIN public.regions r ON r.group_id = g.id
+GROUP BY g.id;
+
+REVOKE ALL ON public.group_standings FROM anon;
+GRANT SELECT ON public.group_standings TO authenticated;
+
+COMMENT ON VIEW public.group_standings IS 'Clubs ranked by pooled zone area - authenticated users only';
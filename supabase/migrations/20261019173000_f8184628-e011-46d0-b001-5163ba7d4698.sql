@@ -0,0 +1,693 @@
+-- Club roles and moderation
+-- Every club has exactly one owner, any number of admins, and members. Membership
+-- only changes through the functions below, never by writing group_members
+-- directly, so each rule is enforced in one place:
+-- * public clubs can be joined straight away, private clubs take a join request
+--   that an owner or admin approves
+-- * owners and admins hand out invite codes that expire and may be capped; an
+--   invite skips approval
+-- * admins remove or ban members, the owner also removes or bans admins, and a
+--   banned runner cannot rejoin until unbanned
+-- * the owner promotes and demotes admins and can hand the club to another member
+-- Every change is written to audit_logs (table_name 'groups', record_id the club),
+-- where the club's owner and admins can read it.
+
+ALTER TABLE public.groups
+ADD COLUMN IF NOT EXISTS is_private BOOLEAN NOT NULL DEFAULT false;
+
+-- One row per runner and club, and only the three roles; the earliest join is kept
+DELETE FROM public.group_members gm
+USING (
+  SELECT id, row_number() OVER (
+    PARTITION BY group_id, user_email
+    ORDER BY COALESCE(joined_at, '-infinity'), id::TEXT
+  ) AS n
+  FROM public.group_members
+) d
+WHERE gm.id = d.id AND d.n > 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_group_members_unique ON public.group_members(group_id, user_email);
+
+UPDATE public.group_members gm
+SET role = 'owner'
+FROM public.groups g
+WHERE g.id = gm.group_id AND g.owner_email = gm.user_email AND gm.role IS DISTINCT FROM 'owner';
+
+UPDATE public.group_members
+SET role = 'member'
+WHERE role IS NULL OR role NOT IN ('owner', 'admin', 'member');
+
+ALTER TABLE public.group_members
+ALTER COLUMN role SET DEFAULT 'member',
+ALTER COLUMN role SET NOT NULL;
+
+ALTER TABLE public.group_members
+DROP CONSTRAINT IF EXISTS group_members_role_check;
+ALTER TABLE public.group_members
+ADD CONSTRAINT group_members_role_check CHECK (role IN ('owner', 'admin', 'member'));
+
+CREATE TABLE IF NOT EXISTS public.group_invites (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  group_id UUID NOT NULL REFERENCES public.groups(id) ON DELETE CASCADE,
+  code TEXT NOT NULL,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0),
+  uses INTEGER NOT NULL DEFAULT 0,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_group_invites_code ON public.group_invites(upper(code));
+CREATE INDEX IF NOT EXISTS idx_group_invites_group ON public.group_invites(group_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.group_join_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  group_id UUID NOT NULL REFERENCES public.groups(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  message TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  decided_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  decided_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_group_join_requests_pending
+ON public.group_join_requests(group_id, profile_id) WHERE status = 'pending';
+
+CREATE TABLE IF NOT EXISTS public.group_bans (
+  group_id UUID NOT NULL REFERENCES public.groups(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  banned_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (group_id, profile_id)
+);
+
+-- A runner's role in a club, NULL when they are not a member
+CREATE OR REPLACE FUNCTION public.group_role(p_group_id UUID, p_profile_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT gm.role
+  FROM group_members gm
+  JOIN profiles p ON p.email = gm.user_email
+  WHERE gm.group_id = p_group_id AND p.id = p_profile_id;
+$$;
+
+-- The signed in runner's role, for policies
+CREATE OR REPLACE FUNCTION public.my_group_role(p_group_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT group_role(p_group_id, (SELECT id FROM profiles WHERE user_id = auth.uid()));
+$$;
+
+CREATE OR REPLACE FUNCTION public.require_group_role(p_group_id UUID, p_profile_id UUID, p_roles TEXT[])
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role TEXT := group_role(p_group_id, p_profile_id);
+BEGIN
+  IF v_role IS NULL OR NOT v_role = ANY(p_roles) THEN
+    RAISE EXCEPTION 'You do not have permission to do that in this club';
+  END IF;
+
+  RETURN v_role;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_group_action(p_group_id UUID, p_actor_id UUID, p_action TEXT, p_target_id UUID DEFAULT NULL, p_metadata JSONB DEFAULT '{}'::jsonb)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO audit_logs (user_id, action, table_name, record_id, metadata)
+  VALUES (p_actor_id, p_action, 'groups', p_group_id,
+          COALESCE(p_metadata, '{}'::jsonb) || jsonb_build_object('target_id', p_target_id));
+$$;
+
+CREATE OR REPLACE FUNCTION public.add_group_member(p_group_id UUID, p_profile_id UUID, p_role TEXT DEFAULT 'member')
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM group_bans WHERE group_id = p_group_id AND profile_id = p_profile_id) THEN
+    RAISE EXCEPTION 'You are banned from this club';
+  END IF;
+
+  INSERT INTO group_members (group_id, user_email, role)
+  SELECT p_group_id, email, p_role FROM profiles WHERE id = p_profile_id
+  ON CONFLICT (group_id, user_email) DO NOTHING;
+
+  UPDATE group_join_requests
+  SET status = 'approved', decided_at = now()
+  WHERE group_id = p_group_id AND profile_id = p_profile_id AND status = 'pending';
+END;
+$$;
+
+-- Owners and admins of a club, for notifications
+CREATE OR REPLACE FUNCTION public.group_managers(p_group_id UUID)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id
+  FROM group_members gm
+  JOIN profiles p ON p.email = gm.user_email
+  WHERE gm.group_id = p_group_id AND gm.role IN ('owner', 'admin');
+$$;
+
+-- The creator becomes the owner of a new club
+CREATE OR REPLACE FUNCTION public.add_group_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO group_members (group_id, user_email, role)
+  VALUES (NEW.id, NEW.owner_email, 'owner')
+  ON CONFLICT (group_id, user_email) DO UPDATE SET role = 'owner';
+
+  PERFORM log_group_action(NEW.id, p.id, 'created')
+  FROM profiles p
+  WHERE p.email = NEW.owner_email;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS add_group_owner ON public.groups;
+CREATE TRIGGER add_group_owner
+  AFTER INSERT ON public.groups
+  FOR EACH ROW
+  EXECUTE FUNCTION public.add_group_owner();
+
+-- Join a public club now, or ask to join a private one
+-- Returns 'joined', 'requested' or 'member' when already in the club
+CREATE OR REPLACE FUNCTION public.join_group(p_profile_id UUID, p_group_id UUID, p_message TEXT DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group groups%ROWTYPE;
+  v_username TEXT;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  SELECT * INTO v_group FROM groups WHERE id = p_group_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Club not found';
+  END IF;
+
+  IF group_role(p_group_id, p_profile_id) IS NOT NULL THEN
+    RETURN 'member';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM group_bans WHERE group_id = p_group_id AND profile_id = p_profile_id) THEN
+    RAISE EXCEPTION 'You are banned from this club';
+  END IF;
+
+  IF NOT v_group.is_private THEN
+    PERFORM add_group_member(p_group_id, p_profile_id);
+    PERFORM log_group_action(p_group_id, p_profile_id, 'joined');
+    RETURN 'joined';
+  END IF;
+
+  INSERT INTO group_join_requests (group_id, profile_id, message)
+  VALUES (p_group_id, p_profile_id, NULLIF(trim(p_message), ''))
+  ON CONFLICT (group_id, profile_id) WHERE status = 'pending' DO NOTHING;
+
+  IF FOUND THEN
+    SELECT username INTO v_username FROM profiles WHERE id = p_profile_id;
+
+    PERFORM notify(manager, 'group_join_request', 'New join request',
+      COALESCE(v_username, 'A runner') || ' wants to join ' || v_group.name,
+      jsonb_build_object('groupId', p_group_id, 'profileId', p_profile_id))
+    FROM group_managers(p_group_id) AS manager;
+
+    PERFORM log_group_action(p_group_id, p_profile_id, 'join_requested');
+  END IF;
+
+  RETURN 'requested';
+END;
+$$;
+
+-- Owner or admin: approve or reject a pending request
+CREATE OR REPLACE FUNCTION public.decide_join_request(p_profile_id UUID, p_request_id UUID, p_approve BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request group_join_requests%ROWTYPE;
+  v_group_name TEXT;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  SELECT * INTO v_request FROM group_join_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND OR v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been handled';
+  END IF;
+
+  PERFORM require_group_role(v_request.group_id, p_profile_id, ARRAY['owner', 'admin']);
+
+  SELECT name INTO v_group_name FROM groups WHERE id = v_request.group_id;
+
+  IF p_approve THEN
+    PERFORM add_group_member(v_request.group_id, v_request.profile_id);
+  END IF;
+
+  UPDATE group_join_requests
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      decided_by = p_profile_id,
+      decided_at = now()
+  WHERE id = p_request_id;
+
+  PERFORM notify(v_request.profile_id, 'group_join_decision',
+    CASE WHEN p_approve THEN 'Welcome to ' || v_group_name ELSE 'Join request declined' END,
+    CASE WHEN p_approve THEN 'Your request to join ' || v_group_name || ' was approved.'
+         ELSE 'Your request to join ' || v_group_name || ' was declined.' END,
+    jsonb_build_object('groupId', v_request.group_id));
+
+  PERFORM log_group_action(v_request.group_id, p_profile_id,
+    CASE WHEN p_approve THEN 'join_approved' ELSE 'join_rejected' END, v_request.profile_id);
+END;
+$$;
+
+-- Owner or admin: a code that lets anyone in without approval until it expires
+CREATE OR REPLACE FUNCTION public.create_group_invite(p_profile_id UUID, p_group_id UUID, p_expires_in_hours INTEGER DEFAULT 72, p_max_uses INTEGER DEFAULT NULL)
+RETURNS public.group_invites
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite group_invites%ROWTYPE;
+  v_code TEXT;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+  PERFORM require_group_role(p_group_id, p_profile_id, ARRAY['owner', 'admin']);
+
+  IF p_expires_in_hours NOT BETWEEN 1 AND 720 THEN
+    RAISE EXCEPTION 'Invites can last from 1 hour to 30 days';
+  END IF;
+
+  -- Eight characters without look-alikes (0/O, 1/I)
+  LOOP
+    SELECT string_agg(substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', 1 + floor(random() * 32)::INTEGER, 1), '')
+    INTO v_code
+    FROM generate_series(1, 8);
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM group_invites WHERE upper(code) = v_code);
+  END LOOP;
+
+  INSERT INTO group_invites (group_id, code, created_by, expires_at, max_uses)
+  VALUES (p_group_id, v_code, p_profile_id, now() + make_interval(hours => p_expires_in_hours), p_max_uses)
+  RETURNING * INTO v_invite;
+
+  PERFORM log_group_action(p_group_id, p_profile_id, 'invite_created', NULL,
+    jsonb_build_object('invite_id', v_invite.id, 'expires_at', v_invite.expires_at, 'max_uses', p_max_uses));
+
+  RETURN v_invite;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_group_invite(p_profile_id UUID, p_invite_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group_id UUID;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  SELECT group_id INTO v_group_id FROM group_invites WHERE id = p_invite_id;
+  IF v_group_id IS NULL THEN
+    RAISE EXCEPTION 'Invite not found';
+  END IF;
+
+  PERFORM require_group_role(v_group_id, p_profile_id, ARRAY['owner', 'admin']);
+
+  UPDATE group_invites SET revoked_at = now() WHERE id = p_invite_id AND revoked_at IS NULL;
+
+  PERFORM log_group_action(v_group_id, p_profile_id, 'invite_revoked', NULL, jsonb_build_object('invite_id', p_invite_id));
+END;
+$$;
+
+-- Join by invite code; returns the club. Joining twice is a no-op.
+CREATE OR REPLACE FUNCTION public.join_group_with_invite(p_profile_id UUID, p_code TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite group_invites%ROWTYPE;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  SELECT * INTO v_invite
+  FROM group_invites
+  WHERE upper(code) = upper(trim(p_code))
+  FOR UPDATE;
+
+  IF v_invite.id IS NULL OR v_invite.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invite is not valid';
+  END IF;
+
+  IF group_role(v_invite.group_id, p_profile_id) IS NOT NULL THEN
+    RETURN v_invite.group_id;
+  END IF;
+
+  IF v_invite.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invite has expired';
+  END IF;
+
+  IF v_invite.max_uses IS NOT NULL AND v_invite.uses >= v_invite.max_uses THEN
+    RAISE EXCEPTION 'This invite has been used up';
+  END IF;
+
+  PERFORM add_group_member(v_invite.group_id, p_profile_id);
+
+  UPDATE group_invites SET uses = uses + 1 WHERE id = v_invite.id;
+
+  PERFORM log_group_action(v_invite.group_id, p_profile_id, 'joined_with_invite', NULL, jsonb_build_object('invite_id', v_invite.id));
+
+  RETURN v_invite.group_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.leave_group(p_profile_id UUID, p_group_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role TEXT;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  v_role := group_role(p_group_id, p_profile_id);
+  IF v_role IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF v_role = 'owner' THEN
+    RAISE EXCEPTION 'Hand the club to another member before leaving';
+  END IF;
+
+  DELETE FROM group_members gm
+  USING profiles p
+  WHERE gm.group_id = p_group_id AND gm.user_email = p.email AND p.id = p_profile_id;
+
+  PERFORM log_group_action(p_group_id, p_profile_id, 'left');
+END;
+$$;
+
+-- Owner only: make a member an admin or an admin a member
+CREATE OR REPLACE FUNCTION public.set_group_member_role(p_profile_id UUID, p_group_id UUID, p_member_id UUID, p_role TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old_role TEXT;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+  PERFORM require_group_role(p_group_id, p_profile_id, ARRAY['owner']);
+
+  IF p_role NOT IN ('admin', 'member') THEN
+    RAISE EXCEPTION 'Use a transfer to change the owner';
+  END IF;
+
+  v_old_role := group_role(p_group_id, p_member_id);
+  IF v_old_role IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this club';
+  END IF;
+  IF v_old_role = 'owner' THEN
+    RAISE EXCEPTION 'Use a transfer to change the owner';
+  END IF;
+
+  UPDATE group_members gm
+  SET role = p_role
+  FROM profiles p
+  WHERE gm.group_id = p_group_id AND gm.user_email = p.email AND p.id = p_member_id;
+
+  PERFORM log_group_action(p_group_id, p_profile_id, 'role_changed', p_member_id,
+    jsonb_build_object('old_role', v_old_role, 'new_role', p_role));
+END;
+$$;
+
+-- Remove a runner from the club, optionally banning them. Admins can remove
+-- members; only the owner can remove admins; nobody can remove the owner.
+CREATE OR REPLACE FUNCTION public.remove_group_member(p_profile_id UUID, p_group_id UUID, p_member_id UUID, p_ban BOOLEAN DEFAULT false, p_reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_role TEXT;
+  v_member_role TEXT;
+  v_group_name TEXT;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+  v_actor_role := require_group_role(p_group_id, p_profile_id, ARRAY['owner', 'admin']);
+
+  IF p_member_id = p_profile_id THEN
+    RAISE EXCEPTION 'Leave the club instead of removing yourself';
+  END IF;
+
+  v_member_role := group_role(p_group_id, p_member_id);
+
+  IF v_member_role IS NULL AND NOT p_ban THEN
+    RAISE EXCEPTION 'Not a member of this club';
+  END IF;
+  IF v_member_role = 'owner' OR (v_member_role = 'admin' AND v_actor_role <> 'owner') THEN
+    RAISE EXCEPTION 'You do not have permission to do that in this club';
+  END IF;
+
+  DELETE FROM group_members gm
+  USING profiles p
+  WHERE gm.group_id = p_group_id AND gm.user_email = p.email AND p.id = p_member_id;
+
+  IF p_ban THEN
+    INSERT INTO group_bans (group_id, profile_id, banned_by, reason)
+    VALUES (p_group_id, p_member_id, p_profile_id, NULLIF(trim(p_reason), ''))
+    ON CONFLICT (group_id, profile_id) DO UPDATE SET banned_by = EXCLUDED.banned_by, reason = EXCLUDED.reason, created_at = now();
+
+    UPDATE group_join_requests
+    SET status = 'rejected', decided_by = p_profile_id, decided_at = now()
+    WHERE group_id = p_group_id AND profile_id = p_member_id AND status = 'pending';
+  END IF;
+
+  SELECT name INTO v_group_name FROM groups WHERE id = p_group_id;
+
+  IF v_member_role IS NOT NULL THEN
+    PERFORM notify(p_member_id, 'group_removed',
+      CASE WHEN p_ban THEN 'Banned from ' ELSE 'Removed from ' END || v_group_name,
+      COALESCE(NULLIF(trim(p_reason), ''), 'A club admin removed you from ' || v_group_name || '.'),
+      jsonb_build_object('groupId', p_group_id));
+  END IF;
+
+  PERFORM log_group_action(p_group_id, p_profile_id, CASE WHEN p_ban THEN 'banned' ELSE 'kicked' END, p_member_id,
+    jsonb_build_object('reason', NULLIF(trim(p_reason), ''), 'role', v_member_role));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.unban_group_member(p_profile_id UUID, p_group_id UUID, p_member_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+  PERFORM require_group_role(p_group_id, p_profile_id, ARRAY['owner', 'admin']);
+
+  DELETE FROM group_bans WHERE group_id = p_group_id AND profile_id = p_member_id;
+
+  IF FOUND THEN
+    PERFORM log_group_action(p_group_id, p_profile_id, 'unbanned', p_member_id);
+  END IF;
+END;
+$$;
+
+-- Owner only: hand the club to another member; the old owner stays on as an admin
+CREATE OR REPLACE FUNCTION public.transfer_group_ownership(p_profile_id UUID, p_group_id UUID, p_new_owner_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group_name TEXT;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+  PERFORM require_group_role(p_group_id, p_profile_id, ARRAY['owner']);
+
+  IF p_new_owner_id = p_profile_id THEN
+    RETURN;
+  END IF;
+
+  IF group_role(p_group_id, p_new_owner_id) IS NULL THEN
+    RAISE EXCEPTION 'The new owner must be a member of the club';
+  END IF;
+
+  UPDATE group_members gm
+  SET role = CASE WHEN p.id = p_new_owner_id THEN 'owner' ELSE 'admin' END
+  FROM profiles p
+  WHERE gm.group_id = p_group_id AND gm.user_email = p.email AND p.id IN (p_profile_id, p_new_owner_id);
+
+  UPDATE groups g
+  SET owner_email = p.email
+  FROM profiles p
+  WHERE g.id = p_group_id AND p.id = p_new_owner_id
+  RETURNING g.name INTO v_group_name;
+
+  PERFORM notify(p_new_owner_id, 'group_ownership', 'You now own ' || v_group_name,
+    'The club has been handed over to you.', jsonb_build_object('groupId', p_group_id));
+
+  PERFORM log_group_action(p_group_id, p_profile_id, 'ownership_transferred', p_new_owner_id);
+END;
+$$;
+
+-- Rent shares are still the owner's call, now by role
+CREATE OR REPLACE FUNCTION public.set_group_rent_share(p_group_id UUID, p_member_id UUID, p_share NUMERIC)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id UUID := (SELECT id FROM profiles WHERE user_id = auth.uid());
+BEGIN
+  IF group_role(p_group_id, v_actor_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the club owner can change rent shares';
+  END IF;
+
+  UPDATE group_members gm
+  SET rent_share = p_share
+  FROM profiles p
+  WHERE gm.group_id = p_group_id
+  AND gm.user_email = p.email
+  AND p.id = p_member_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a member of this club';
+  END IF;
+
+  PERFORM log_group_action(p_group_id, v_actor_id, 'rent_share_changed', p_member_id, jsonb_build_object('share', p_share));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.require_group_role(UUID, UUID, TEXT[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.log_group_action(UUID, UUID, TEXT, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.add_group_member(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.group_managers(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.add_group_owner() FROM PUBLIC, anon, authenticated;
+
+-- Policies: clubs are readable by everyone, edited by their owner and admins and
+-- deleted by their owner. Membership is written only by the functions above.
+ALTER TABLE public.groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_invites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_join_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_bans ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view groups" ON public.groups;
+DROP POLICY IF EXISTS "Anyone can view public groups" ON public.groups;
+DROP POLICY IF EXISTS "Groups are viewable by everyone" ON public.groups;
+DROP POLICY IF EXISTS "Groups are viewable" ON public.groups;
+DROP POLICY IF EXISTS "Users can create groups" ON public.groups;
+DROP POLICY IF EXISTS "Group creators can update" ON public.groups;
+DROP POLICY IF EXISTS "Group creators can update their groups" ON public.groups;
+DROP POLICY IF EXISTS "Users can update own groups" ON public.groups;
+
+CREATE POLICY "Clubs are viewable by everyone"
+ON public.groups
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Runners can create clubs they own"
+ON public.groups
+FOR INSERT
+WITH CHECK (owner_email IN (SELECT email FROM profiles WHERE user_id = auth.uid()));
+
+CREATE POLICY "Owners and admins can edit their club"
+ON public.groups
+FOR UPDATE
+USING (public.my_group_role(id) IN ('owner', 'admin'));
+
+CREATE POLICY "Owners can delete their club"
+ON public.groups
+FOR DELETE
+USING (public.my_group_role(id) = 'owner');
+
+-- Ownership only moves through transfer_group_ownership
+REVOKE UPDATE ON public.groups FROM anon, authenticated;
+GRANT UPDATE (name, description, location, color, is_private, image_walrus_cid) ON public.groups TO authenticated;
+
+DROP POLICY IF EXISTS "Anyone can view group members" ON public.group_members;
+DROP POLICY IF EXISTS "Members can view group members" ON public.group_members;
+DROP POLICY IF EXISTS "View group members" ON public.group_members;
+DROP POLICY IF EXISTS "Users can join groups" ON public.group_members;
+DROP POLICY IF EXISTS "Join groups" ON public.group_members;
+DROP POLICY IF EXISTS "Users can leave groups" ON public.group_members;
+DROP POLICY IF EXISTS "Leave groups" ON public.group_members;
+
+CREATE POLICY "Club members are viewable by everyone"
+ON public.group_members
+FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Managers can view club invites" ON public.group_invites;
+CREATE POLICY "Managers can view club invites"
+ON public.group_invites
+FOR SELECT
+USING (public.my_group_role(group_id) IN ('owner', 'admin'));
+
+DROP POLICY IF EXISTS "Runners and managers can view join requests" ON public.group_join_requests;
+CREATE POLICY "Runners and managers can view join requests"
+ON public.group_join_requests
+FOR SELECT
+USING (
+  profile_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+  OR public.my_group_role(group_id) IN ('owner', 'admin')
+);
+
+DROP POLICY IF EXISTS "Managers can view club bans" ON public.group_bans;
+CREATE POLICY "Managers can view club bans"
+ON public.group_bans
+FOR SELECT
+USING (public.my_group_role(group_id) IN ('owner', 'admin'));
+
+DROP POLICY IF EXISTS "Managers view club audit logs" ON public.audit_logs;
+CREATE POLICY "Managers view club audit logs"
+ON public.audit_logs
+FOR SELECT
+USING (table_name = 'groups' AND public.my_group_role(record_id) IN ('owner', 'admin'));
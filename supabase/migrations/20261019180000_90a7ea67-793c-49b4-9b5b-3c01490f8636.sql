@@ -0,0 +1,111 @@
+-- Bounding-box region lookups
+-- The map used to load every region. Each region now carries its polygon as a
+-- PostGIS geometry, derived from coordinates by a trigger and indexed with GiST,
+-- so the map can ask for just the regions around the area on screen.
+-- regions.coordinates stays the { lat, lng } array the app draws from.
+
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA extensions;
+
+-- A { lat, lng } point array to a valid multipolygon, or NULL
+CREATE OR REPLACE FUNCTION public.region_geometry(p_coordinates JSONB)
+RETURNS extensions.geometry
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_ring geometry;
+  v_area geometry;
+BEGIN
+  IF p_coordinates IS NULL OR jsonb_typeof(p_coordinates) <> 'array' OR jsonb_array_length(p_coordinates) < 3 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT ST_MakeLine(ST_MakePoint((point->>'lng')::DOUBLE PRECISION, (point->>'lat')::DOUBLE PRECISION) ORDER BY i)
+  INTO v_ring
+  FROM jsonb_array_elements(p_coordinates) WITH ORDINALITY AS t(point, i);
+
+  IF NOT ST_Equals(ST_StartPoint(v_ring), ST_EndPoint(v_ring)) THEN
+    v_ring := ST_AddPoint(v_ring, ST_StartPoint(v_ring));
+  END IF;
+
+  -- Run loops often cross themselves; MakeValid splits them into clean parts
+  v_area := ST_CollectionExtract(ST_MakeValid(ST_MakePolygon(v_ring)), 3);
+  IF ST_IsEmpty(v_area) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN ST_SetSRID(ST_Multi(v_area), 4326);
+EXCEPTION WHEN OTHERS THEN
+  RETURN NULL;
+END;
+$$;
+
+ALTER TABLE public.regions
+ADD COLUMN IF NOT EXISTS geom extensions.geometry(MultiPolygon, 4326);
+
+UPDATE public.regions SET geom = region_geometry(coordinates);
+
+CREATE OR REPLACE FUNCTION public.set_region_geometry()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+BEGIN
+  NEW.geom := region_geometry(NEW.coordinates);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_region_geometry ON public.regions;
+CREATE TRIGGER set_region_geometry
+BEFORE INSERT OR UPDATE OF coordinates ON public.regions
+FOR EACH ROW EXECUTE FUNCTION public.set_region_geometry();
+
+CREATE INDEX IF NOT EXISTS idx_regions_geom ON public.regions USING gist (geom);
+
+-- Regions overlapping the box, nearest to its centre first so a cap drops the edges
+CREATE OR REPLACE FUNCTION public.regions_in_bbox(
+  p_west DOUBLE PRECISION,
+  p_south DOUBLE PRECISION,
+  p_east DOUBLE PRECISION,
+  p_north DOUBLE PRECISION,
+  p_limit INTEGER DEFAULT 2000
+)
+RETURNS TABLE (
+  id public.regions.id%TYPE,
+  name public.regions.name%TYPE,
+  coordinates public.regions.coordinates%TYPE,
+  area public.regions.area%TYPE,
+  color public.regions.color%TYPE,
+  rent_price public.regions.rent_price%TYPE,
+  owner_id public.regions.owner_id%TYPE,
+  owner_username public.profiles.username%TYPE,
+  group_id public.regions.group_id%TYPE,
+  group_name public.groups.name%TYPE,
+  group_color public.groups.color%TYPE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT
+    r.id,
+    r.name,
+    r.coordinates,
+    r.area,
+    r.color,
+    r.rent_price,
+    r.owner_id,
+    p.username,
+    r.group_id,
+    g.name,
+    g.color
+  FROM regions r
+  LEFT JOIN profiles p ON p.id = r.owner_id
+  LEFT JOIN groups g ON g.id = r.group_id
+  WHERE r.geom && ST_MakeEnvelope(p_west, p_south, p_east, p_north, 4326)
+  ORDER BY r.geom <-> ST_Centroid(ST_MakeEnvelope(p_west, p_south, p_east, p_north, 4326))
+  LIMIT LEAST(GREATEST(p_limit, 1), 5000);
+$$;
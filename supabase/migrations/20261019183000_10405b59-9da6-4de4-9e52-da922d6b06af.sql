@@ -0,0 +1,218 @@
+-- PostGIS geometry for regions and runs
+-- Regions already carry geom, derived from regions.coordinates for the viewport
+-- lookups. Runs get a route line and a covered area as geometry, replacing the
+-- polygon and bbox JSON columns; the area is buffered from the route on the
+-- server when the client sends none.
+-- Spatial questions are answered by the RPCs at the bottom:
+-- * regions_intersecting: regions touching a GeoJSON geometry
+-- * regions_within_radius: regions within a distance of a point
+-- * region_at_point: the region a point lies in
+
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA extensions;
+
+-- GeoJSON (a geometry or a Feature) to geometry, or NULL if it can't be read
+CREATE OR REPLACE FUNCTION public.geojson_geometry(p_geojson JSONB)
+RETURNS extensions.geometry
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF p_geojson IS NULL OR jsonb_typeof(p_geojson) <> 'object' THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_geojson->>'type' = 'Feature' THEN
+    p_geojson := p_geojson->'geometry';
+  END IF;
+
+  RETURN ST_SetSRID(ST_GeomFromGeoJSON(p_geojson::TEXT), 4326);
+EXCEPTION WHEN OTHERS THEN
+  RETURN NULL;
+END;
+$$;
+
+-- Regions
+
+-- Radius lookups measure in meters
+CREATE INDEX IF NOT EXISTS idx_regions_geog ON public.regions USING gist ((geom::extensions.geography));
+
+-- Runs
+
+ALTER TABLE public.runs
+ADD COLUMN IF NOT EXISTS route_geom extensions.geometry(LineString, 4326),
+ADD COLUMN IF NOT EXISTS area_geom extensions.geometry(MultiPolygon, 4326);
+
+-- Route and covered area; the area is the route buffered by 10 m, as the app used to do
+CREATE OR REPLACE FUNCTION public.run_geometry(p_route JSONB, p_polygon JSONB DEFAULT NULL)
+RETURNS TABLE (route_geom extensions.geometry, area_geom extensions.geometry)
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_route geometry := geojson_geometry(p_route);
+  v_area geometry := geojson_geometry(p_polygon);
+BEGIN
+  IF v_route IS NOT NULL AND (GeometryType(v_route) <> 'LINESTRING' OR ST_NPoints(v_route) < 2) THEN
+    v_route := NULL;
+  END IF;
+
+  IF v_area IS NOT NULL THEN
+    v_area := ST_CollectionExtract(ST_MakeValid(v_area), 3);
+  ELSIF v_route IS NOT NULL AND ST_NPoints(v_route) >= 3 THEN
+    v_area := ST_Buffer(v_route::geography, 10)::geometry;
+  END IF;
+
+  IF v_area IS NOT NULL AND ST_IsEmpty(v_area) THEN
+    v_area := NULL;
+  END IF;
+
+  route_geom := v_route;
+  area_geom := ST_SetSRID(ST_Multi(v_area), 4326);
+  RETURN NEXT;
+END;
+$$;
+
+UPDATE public.runs
+SET (route_geom, area_geom) = (SELECT g.route_geom, g.area_geom FROM run_geometry(route, polygon) g);
+
+UPDATE public.runs
+SET area_m2 = extensions.ST_Area(area_geom::extensions.geography)
+WHERE area_m2 IS NULL AND area_geom IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.set_run_geometry()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+BEGIN
+  SELECT g.route_geom, g.area_geom INTO NEW.route_geom, NEW.area_geom
+  FROM run_geometry(NEW.route) g;
+
+  IF NEW.area_m2 IS NULL AND NEW.area_geom IS NOT NULL THEN
+    NEW.area_m2 := ST_Area(NEW.area_geom::geography);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_run_geometry ON public.runs;
+CREATE TRIGGER set_run_geometry
+BEFORE INSERT OR UPDATE OF route ON public.runs
+FOR EACH ROW EXECUTE FUNCTION public.set_run_geometry();
+
+CREATE INDEX IF NOT EXISTS idx_runs_route_geom ON public.runs USING gist (route_geom);
+CREATE INDEX IF NOT EXISTS idx_runs_area_geom ON public.runs USING gist (area_geom);
+
+ALTER TABLE public.runs
+DROP COLUMN IF EXISTS polygon,
+DROP COLUMN IF EXISTS bbox;
+
+-- Queries
+
+-- Regions within the radius of a point, nearest first; same shape as regions_in_bbox
+CREATE OR REPLACE FUNCTION public.regions_within_radius(
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION,
+  p_radius_m DOUBLE PRECISION,
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS TABLE (
+  id public.regions.id%TYPE,
+  name public.regions.name%TYPE,
+  coordinates public.regions.coordinates%TYPE,
+  area public.regions.area%TYPE,
+  color public.regions.color%TYPE,
+  rent_price public.regions.rent_price%TYPE,
+  owner_id public.regions.owner_id%TYPE,
+  owner_username public.profiles.username%TYPE,
+  group_id public.regions.group_id%TYPE,
+  group_name public.groups.name%TYPE,
+  group_color public.groups.color%TYPE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT
+    r.id,
+    r.name,
+    r.coordinates,
+    r.area,
+    r.color,
+    r.rent_price,
+    r.owner_id,
+    p.username,
+    r.group_id,
+    g.name,
+    g.color
+  FROM regions r
+  LEFT JOIN profiles p ON p.id = r.owner_id
+  LEFT JOIN groups g ON g.id = r.group_id
+  WHERE ST_DWithin(r.geom::geography, ST_MakePoint(p_lng, p_lat)::geography, LEAST(GREATEST(p_radius_m, 0), 50000))
+  ORDER BY r.geom <-> ST_SetSRID(ST_MakePoint(p_lng, p_lat), 4326)
+  LIMIT LEAST(GREATEST(p_limit, 1), 5000);
+$$;
+
+-- Regions touching a GeoJSON geometry, e.g. a zone being claimed or a run's route
+CREATE OR REPLACE FUNCTION public.regions_intersecting(p_geometry JSONB)
+RETURNS TABLE (
+  id public.regions.id%TYPE,
+  name public.regions.name%TYPE,
+  owner_id public.regions.owner_id%TYPE,
+  coordinates public.regions.coordinates%TYPE,
+  metadata public.regions.metadata%TYPE,
+  overlap_m2 DOUBLE PRECISION
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_geometry geometry := geojson_geometry(p_geometry);
+BEGIN
+  IF v_geometry IS NULL THEN
+    RAISE EXCEPTION 'Invalid GeoJSON geometry';
+  END IF;
+
+  v_geometry := ST_MakeValid(v_geometry);
+
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.name,
+    r.owner_id,
+    r.coordinates,
+    r.metadata,
+    CASE WHEN ST_Dimension(v_geometry) = 2
+      THEN ST_Area(ST_Intersection(r.geom, v_geometry)::geography)
+      ELSE 0
+    END
+  FROM regions r
+  WHERE ST_Intersects(r.geom, v_geometry);
+END;
+$$;
+
+-- The region a point lies in; the smallest one if regions overlap
+CREATE OR REPLACE FUNCTION public.region_at_point(p_lat DOUBLE PRECISION, p_lng DOUBLE PRECISION)
+RETURNS TABLE (
+  id public.regions.id%TYPE,
+  name public.regions.name%TYPE,
+  owner_id public.regions.owner_id%TYPE,
+  group_id public.regions.group_id%TYPE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT r.id, r.name, r.owner_id, r.group_id
+  FROM regions r
+  WHERE ST_Intersects(r.geom, ST_SetSRID(ST_MakePoint(p_lng, p_lat), 4326))
+  ORDER BY ST_Area(r.geom)
+  LIMIT 1;
+$$;
@@ -0,0 +1,290 @@
+-- Zone visits
+-- The run tracker reports every time a runner enters or leaves a zone. Each
+-- enter opens a visit and the matching exit closes it with the time spent and
+-- the distance run inside. Whether the runner owes rent is decided when the
+-- visit opens, and rent or the entry penalty is settled against the visit, so a
+-- zone is charged at most once per run. Owners can see who crossed their land.
+
+INSERT INTO public.economy_settings (key, value, description)
+VALUES
+  ('zone_rent_grace_s', 30, 'Seconds a rival can stay in a zone without paying rent before the entry penalty applies'),
+  ('zone_visit_tolerance_m', 20, 'How far outside a zone an enter event may be reported, to allow for GPS error')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.zone_visits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  region_id TEXT NOT NULL REFERENCES public.regions(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  client_run_id TEXT NOT NULL,
+  access TEXT NOT NULL CHECK (access IN ('open', 'owner', 'club', 'rent')),
+  rent_status TEXT NOT NULL DEFAULT 'none' CHECK (rent_status IN ('none', 'due', 'paid', 'penalized')),
+  rent_entry_id UUID,
+  entered_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  exited_at TIMESTAMP WITH TIME ZONE,
+  entry_point extensions.geometry(Point, 4326),
+  exit_point extensions.geometry(Point, 4326),
+  entered_run_m NUMERIC NOT NULL DEFAULT 0, -- run distance when the runner entered
+  distance_m NUMERIC CHECK (distance_m >= 0),
+  dwell_s INTEGER GENERATED ALWAYS AS (EXTRACT(EPOCH FROM exited_at - entered_at)::INTEGER) STORED,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (exited_at IS NULL OR exited_at >= entered_at)
+);
+
+-- A replayed enter event opens nothing new
+CREATE UNIQUE INDEX IF NOT EXISTS idx_zone_visits_event
+ON public.zone_visits(profile_id, client_run_id, region_id, entered_at);
+
+CREATE INDEX IF NOT EXISTS idx_zone_visits_open
+ON public.zone_visits(profile_id, client_run_id, region_id)
+WHERE exited_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_zone_visits_region ON public.zone_visits(region_id, entered_at DESC);
+
+ALTER TABLE public.zone_visits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own zone visits"
+ON public.zone_visits FOR SELECT
+USING (profile_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid()));
+
+CREATE POLICY "Owners can view visits to their zones"
+ON public.zone_visits FOR SELECT
+USING (region_id IN (
+  SELECT r.id FROM public.regions r
+  JOIN public.profiles p ON p.id = r.owner_id
+  WHERE p.user_id = auth.uid()
+));
+
+-- Open a visit when the runner enters a zone; returns the visit and whether rent is due
+CREATE OR REPLACE FUNCTION public.record_zone_enter(
+  p_profile_id UUID,
+  p_client_run_id TEXT,
+  p_region_id public.regions.id%TYPE,
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION,
+  p_entered_at TIMESTAMP WITH TIME ZONE,
+  p_run_distance_m NUMERIC
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_region RECORD;
+  v_point geometry := ST_SetSRID(ST_MakePoint(p_lng, p_lat), 4326);
+  v_access TEXT;
+  v_rent_status TEXT := 'none';
+  v_visit zone_visits;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  SELECT id, owner_id, group_id, geom INTO v_region FROM regions WHERE id = p_region_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Zone not found';
+  END IF;
+
+  IF v_region.geom IS NULL
+    OR NOT ST_DWithin(v_region.geom::geography, v_point::geography, economy_setting('zone_visit_tolerance_m', 20)) THEN
+    RAISE EXCEPTION 'Point is not inside the zone';
+  END IF;
+
+  -- Already inside on this run: the open visit stands
+  SELECT * INTO v_visit
+  FROM zone_visits
+  WHERE profile_id = p_profile_id
+  AND client_run_id = p_client_run_id
+  AND region_id = p_region_id
+  AND exited_at IS NULL;
+
+  IF NOT FOUND THEN
+    v_access := CASE
+      WHEN v_region.owner_id IS NULL THEN 'open'
+      WHEN v_region.owner_id = p_profile_id THEN 'owner'
+      WHEN v_region.group_id IS NOT NULL AND is_group_member(v_region.group_id, p_profile_id) THEN 'club'
+      ELSE 'rent'
+    END;
+
+    -- Once rent or the penalty is settled the runner may come back on the same run
+    IF v_access = 'rent' AND NOT EXISTS (
+      SELECT 1 FROM zone_visits
+      WHERE profile_id = p_profile_id
+      AND client_run_id = p_client_run_id
+      AND region_id = p_region_id
+      AND rent_status IN ('paid', 'penalized')
+    ) THEN
+      v_rent_status := 'due';
+    END IF;
+
+    INSERT INTO zone_visits (region_id, profile_id, client_run_id, access, rent_status, entered_at, entry_point, entered_run_m)
+    VALUES (
+      p_region_id,
+      p_profile_id,
+      p_client_run_id,
+      v_access,
+      v_rent_status,
+      LEAST(COALESCE(p_entered_at, now()), now()),
+      v_point,
+      LEAST(GREATEST(COALESCE(p_run_distance_m, 0), 0), 1000000)
+    )
+    ON CONFLICT (profile_id, client_run_id, region_id, entered_at) DO NOTHING;
+
+    SELECT * INTO v_visit
+    FROM zone_visits
+    WHERE profile_id = p_profile_id
+    AND client_run_id = p_client_run_id
+    AND region_id = p_region_id
+    ORDER BY entered_at DESC
+    LIMIT 1;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'visit_id', v_visit.id,
+    'access', v_visit.access,
+    'rent_status', v_visit.rent_status,
+    'owner_id', v_region.owner_id
+  );
+END;
+$$;
+
+-- Close the runner's open visit to a zone; returns its id, or null when none was open
+CREATE OR REPLACE FUNCTION public.record_zone_exit(
+  p_profile_id UUID,
+  p_client_run_id TEXT,
+  p_region_id public.regions.id%TYPE,
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION,
+  p_exited_at TIMESTAMP WITH TIME ZONE,
+  p_run_distance_m NUMERIC
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_visit zone_visits;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  UPDATE zone_visits
+  SET exited_at = GREATEST(LEAST(COALESCE(p_exited_at, now()), now()), entered_at),
+      exit_point = ST_SetSRID(ST_MakePoint(p_lng, p_lat), 4326),
+      distance_m = LEAST(GREATEST(COALESCE(p_run_distance_m, 0) - entered_run_m, 0), 50000)
+  WHERE profile_id = p_profile_id
+  AND client_run_id = p_client_run_id
+  AND region_id = p_region_id
+  AND exited_at IS NULL
+  RETURNING * INTO v_visit;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- An owner running through the zone keeps it from decaying
+  IF v_visit.access = 'owner' AND v_visit.distance_m > 0 THEN
+    UPDATE regions
+    SET last_visited = GREATEST(COALESCE(last_visited, v_visit.exited_at), v_visit.exited_at)
+    WHERE id = p_region_id;
+  END IF;
+
+  RETURN v_visit.id;
+END;
+$$;
+
+-- Pay the rent due on a visit, or charge the entry penalty once the grace period is over
+CREATE OR REPLACE FUNCTION public.settle_zone_visit(
+  p_profile_id UUID,
+  p_visit_id UUID,
+  p_action TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_visit zone_visits;
+  v_result JSONB;
+  v_status TEXT;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  SELECT * INTO v_visit FROM zone_visits WHERE id = p_visit_id AND profile_id = p_profile_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Visit not found';
+  END IF;
+
+  IF v_visit.rent_status <> 'due' THEN
+    RAISE EXCEPTION 'No rent is due for this visit';
+  END IF;
+
+  IF p_action = 'pay' THEN
+    v_result := pay_zone_rent(p_profile_id, v_visit.region_id);
+    v_status := 'paid';
+  ELSIF p_action = 'penalty' THEN
+    -- Runners who leave within the grace period owe nothing
+    IF COALESCE(v_visit.exited_at, now()) - v_visit.entered_at
+      < make_interval(secs => economy_setting('zone_rent_grace_s', 30)::DOUBLE PRECISION) THEN
+      RAISE EXCEPTION 'The grace period for this visit has not run out';
+    END IF;
+
+    v_result := apply_entry_penalty(p_profile_id, v_visit.region_id);
+    v_status := 'penalized';
+  ELSE
+    RAISE EXCEPTION 'Unknown settlement: %', p_action;
+  END IF;
+
+  UPDATE zone_visits
+  SET rent_status = v_status,
+      rent_entry_id = (v_result->>'entry_id')::UUID
+  WHERE id = p_visit_id;
+
+  RETURN v_result || jsonb_build_object('visit_id', p_visit_id, 'rent_status', v_status);
+END;
+$$;
+
+-- Latest visits by other runners to the zones a profile owns
+CREATE OR REPLACE FUNCTION public.zone_visitors(p_profile_id UUID, p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  visit_id UUID,
+  region_id public.regions.id%TYPE,
+  region_name public.regions.name%TYPE,
+  visitor_id UUID,
+  visitor_username public.profiles.username%TYPE,
+  access TEXT,
+  rent_status TEXT,
+  entered_at TIMESTAMP WITH TIME ZONE,
+  exited_at TIMESTAMP WITH TIME ZONE,
+  dwell_s INTEGER,
+  distance_m NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  RETURN QUERY
+  SELECT
+    v.id,
+    r.id,
+    r.name,
+    v.profile_id,
+    p.username,
+    v.access,
+    v.rent_status,
+    v.entered_at,
+    v.exited_at,
+    v.dwell_s,
+    v.distance_m
+  FROM zone_visits v
+  JOIN regions r ON r.id = v.region_id
+  LEFT JOIN profiles p ON p.id = v.profile_id
+  WHERE r.owner_id = p_profile_id
+  AND v.profile_id <> p_profile_id
+  ORDER BY v.entered_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 500);
+END;
+$$;
@@ -0,0 +1,49 @@
+-- Server-side zone overlap check
+-- The client resolves overlaps before minting (reject, clip or contest), but
+-- that policy lives in the app bundle. Every new region is checked here too: a
+-- zone may not be registered on land that already belongs to another zone.
+
+INSERT INTO public.economy_settings (key, value, description)
+VALUES ('zone_overlap_min_m2', 5, 'Shared area below which a new zone does not count as overlapping an existing one')
+ON CONFLICT (key) DO NOTHING;
+
+-- Regions split by the server (contest transfers) set strun.zone_split to skip the check
+CREATE OR REPLACE FUNCTION public.check_region_overlap()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_geom geometry := region_geometry(NEW.coordinates);
+  v_overlap RECORD;
+BEGIN
+  IF COALESCE(current_setting('strun.zone_split', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_geom IS NULL THEN
+    RAISE EXCEPTION 'Zone outline is not a valid polygon';
+  END IF;
+
+  SELECT r.id, r.name, ST_Area(ST_Intersection(r.geom, v_geom)::geography) AS area
+  INTO v_overlap
+  FROM regions r
+  WHERE r.id <> NEW.id
+  AND ST_Intersects(r.geom, v_geom)
+  AND ST_Area(ST_Intersection(r.geom, v_geom)::geography) >= economy_setting('zone_overlap_min_m2', 5)
+  ORDER BY 3 DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'This zone overlaps "%" by % m²', v_overlap.name, round(v_overlap.area::NUMERIC);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_region_overlap ON public.regions;
+CREATE TRIGGER check_region_overlap
+  BEFORE INSERT ON public.regions
+  FOR EACH ROW EXECUTE FUNCTION public.check_region_overlap();
@@ -0,0 +1,449 @@
+-- Zone activity from stored runs, and contests that transfer only the claimed land
+-- record_zone_activity used to take loops and distance from the client. It now
+-- takes the client run id only and measures the run's stored route against the
+-- zone, so a contest needs a verified run that actually went there. A challenger
+-- who wins an overlap contest is given the land their claim covered, split out of
+-- the defender's zone, instead of the whole zone.
+
+-- Loops around and distance inside a zone for one route, as measureZoneActivity
+-- does on the client: a loop is one full turn around the zone's centre while
+-- within 30 m of it
+CREATE OR REPLACE FUNCTION public.zone_run_activity(
+  p_route extensions.geometry,
+  p_zone extensions.geometry,
+  OUT loops INTEGER,
+  OUT distance_m NUMERIC
+)
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_near geometry;
+  v_centre geometry;
+  v_point geometry;
+  v_previous geometry;
+  v_is_near BOOLEAN;
+  v_was_near BOOLEAN := false;
+  v_turn DOUBLE PRECISION;
+  v_winding DOUBLE PRECISION := 0;
+BEGIN
+  loops := 0;
+  distance_m := 0;
+
+  IF p_route IS NULL OR p_zone IS NULL THEN
+    RETURN;
+  END IF;
+
+  distance_m := LEAST(ST_Length(ST_Intersection(p_route, p_zone)::geography), 50000);
+
+  v_near := ST_Buffer(p_zone::geography, 30)::geometry;
+  v_centre := ST_Centroid(p_zone);
+
+  FOR v_point IN SELECT geom FROM ST_DumpPoints(p_route) ORDER BY path LOOP
+    v_is_near := ST_Intersects(v_near, v_point);
+
+    IF v_was_near AND v_is_near THEN
+      v_turn := atan2(ST_Y(v_point) - ST_Y(v_centre), ST_X(v_point) - ST_X(v_centre))
+        - atan2(ST_Y(v_previous) - ST_Y(v_centre), ST_X(v_previous) - ST_X(v_centre));
+      IF v_turn > pi() THEN v_turn := v_turn - 2 * pi(); END IF;
+      IF v_turn < -pi() THEN v_turn := v_turn + 2 * pi(); END IF;
+      v_winding := v_winding + v_turn;
+    END IF;
+
+    v_previous := v_point;
+    v_was_near := v_is_near;
+  END LOOP;
+
+  loops := floor(abs(v_winding) / (2 * pi()))::INTEGER;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.record_zone_activity(UUID, TEXT, TEXT, INTEGER, NUMERIC);
+
+-- Rival runs count as visits and open contests. Loops and distance come from the
+-- stored run.
+CREATE OR REPLACE FUNCTION public.record_zone_activity(p_profile_id UUID, p_region_id TEXT, p_client_run_id TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_run runs%ROWTYPE;
+  v_run_at TIMESTAMP WITH TIME ZONE;
+  v_region regions%ROWTYPE;
+  v_window_start TIMESTAMP WITH TIME ZONE := now() - make_interval(days => economy_setting('contest_window_days', 7)::INTEGER);
+  v_run_loops INTEGER;
+  v_run_distance NUMERIC;
+  v_activity_id UUID;
+  v_loops INTEGER;
+  v_challenger_distance NUMERIC;
+  v_defender_distance NUMERIC;
+  v_reason TEXT;
+  v_contest_id UUID;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  SELECT r.* INTO v_run
+  FROM runs r
+  JOIN profiles p ON p.email = r.user_email
+  WHERE p.id = p_profile_id
+  AND r.client_run_id = p_client_run_id;
+
+  IF v_run.id IS NULL THEN
+    RAISE EXCEPTION 'Run not found';
+  END IF;
+
+  IF v_run.verification_status <> 'verified' OR v_run.source <> 'recorded' THEN
+    RAISE EXCEPTION 'Only verified recorded runs count towards zones';
+  END IF;
+
+  v_run_at := COALESCE(v_run.recorded_at, v_run.created_at);
+
+  SELECT * INTO v_region FROM regions WHERE id = p_region_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Zone not found';
+  END IF;
+
+  SELECT a.loops, a.distance_m INTO v_run_loops, v_run_distance
+  FROM zone_run_activity(v_run.route_geom, v_region.geom) a;
+
+  -- The run never went there
+  IF v_run_loops = 0 AND v_run_distance = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO zone_activity (region_id, profile_id, client_run_id, loops, distance_m, created_at)
+  VALUES (p_region_id, p_profile_id, p_client_run_id, v_run_loops, v_run_distance, v_run_at)
+  ON CONFLICT (region_id, profile_id, client_run_id) WHERE client_run_id IS NOT NULL DO NOTHING
+  RETURNING id INTO v_activity_id;
+
+  -- A replayed run changes nothing
+  IF v_activity_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_region.owner_id IS NULL OR v_region.owner_id = p_profile_id THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE regions SET visitors = COALESCE(visitors, 0) + 1 WHERE id = p_region_id;
+
+  IF EXISTS (SELECT 1 FROM zone_contests WHERE region_id = p_region_id AND status = 'open') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(SUM(loops), 0) INTO v_loops
+  FROM zone_activity
+  WHERE region_id = p_region_id AND profile_id = p_profile_id AND created_at >= v_window_start;
+
+  v_challenger_distance := zone_distance(p_region_id, p_profile_id, v_window_start, now() + interval '1 second');
+  v_defender_distance := zone_distance(p_region_id, v_region.owner_id, v_window_start, now() + interval '1 second');
+
+  IF v_loops >= economy_setting('contest_capture_loops', 3) THEN
+    v_reason := 'loops';
+  ELSIF v_challenger_distance >= economy_setting('contest_min_distance_m', 500)
+    AND v_challenger_distance > v_defender_distance THEN
+    v_reason := 'distance';
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO zone_contests (region_id, challenger_id, defender_id, reason, resolves_at)
+  VALUES (
+    p_region_id,
+    p_profile_id,
+    v_region.owner_id,
+    v_reason,
+    now() + make_interval(hours => economy_setting('contest_duration_hours', 48)::INTEGER)
+  )
+  ON CONFLICT (region_id, challenger_id) WHERE status = 'open' DO NOTHING
+  RETURNING id INTO v_contest_id;
+
+  IF v_contest_id IS NOT NULL THEN
+    PERFORM notify(p_profile_id, 'contest_opened', 'Contest opened',
+      format('You are challenging "%s". Out-run the owner inside it before the timer ends.', v_region.name),
+      jsonb_build_object('contestId', v_contest_id, 'regionId', p_region_id));
+    PERFORM notify(v_region.owner_id, 'contest_opened', 'Your zone is under attack',
+      format('A rival is contesting "%s". Run inside it to defend it.', v_region.name),
+      jsonb_build_object('contestId', v_contest_id, 'regionId', p_region_id));
+  END IF;
+
+  RETURN v_contest_id;
+END;
+$$;
+
+-- Splitting contested land
+
+-- The outline of a contest claim (a ZoneClaim with its zone polygon, or its bbox)
+CREATE OR REPLACE FUNCTION public.zone_claim_geometry(p_claim JSONB)
+RETURNS extensions.geometry
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+  SELECT COALESCE(
+    region_geometry(p_claim->'zone'->'polygon'),
+    CASE WHEN p_claim->'zone'->'bbox' IS NOT NULL THEN
+      ST_Multi(ST_MakeEnvelope(
+        (p_claim->'zone'->'bbox'->>'lonMin')::DOUBLE PRECISION,
+        (p_claim->'zone'->'bbox'->>'latMin')::DOUBLE PRECISION,
+        (p_claim->'zone'->'bbox'->>'lonMax')::DOUBLE PRECISION,
+        (p_claim->'zone'->'bbox'->>'latMax')::DOUBLE PRECISION,
+        4326
+      ))
+    END
+  );
+$$;
+
+-- The largest polygon of a geometry, or NULL if it has no area
+CREATE OR REPLACE FUNCTION public.largest_polygon(p_geometry extensions.geometry)
+RETURNS extensions.geometry
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+  SELECT d.geom
+  FROM ST_Dump(ST_CollectionExtract(p_geometry, 3)) d
+  ORDER BY ST_Area(d.geom) DESC
+  LIMIT 1;
+$$;
+
+-- A polygon's outer ring as the { lat, lng } array regions.coordinates holds
+CREATE OR REPLACE FUNCTION public.polygon_coordinates(p_polygon extensions.geometry)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+  SELECT jsonb_agg(jsonb_build_object('lat', ST_Y(d.geom), 'lng', ST_X(d.geom)) ORDER BY d.path)
+  FROM ST_DumpPoints(ST_ExteriorRing(p_polygon)) d
+  WHERE d.path[1] < ST_NPoints(ST_ExteriorRing(p_polygon));
+$$;
+
+-- The defender's land left after cutting out a claim, NULL when nothing usable is
+-- left. Zones are stored as one outline, so a claim that would punch a hole in the
+-- defender's zone cannot be split off.
+CREATE OR REPLACE FUNCTION public.contest_remainder(p_region_geom extensions.geometry, p_claim JSONB, OUT kept extensions.geometry, OUT splittable BOOLEAN)
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+BEGIN
+  kept := largest_polygon(ST_Difference(p_region_geom, ST_MakeValid(zone_claim_geometry(p_claim))));
+  splittable := kept IS NULL OR ST_NumInteriorRings(kept) = 0;
+
+  IF kept IS NOT NULL AND ST_Area(kept::geography) < economy_setting('zone_overlap_min_m2', 5) THEN
+    kept := NULL;
+  END IF;
+END;
+$$;
+
+-- Overlap contests must be splittable when they resolve
+CREATE OR REPLACE FUNCTION public.open_zone_contest(p_profile_id UUID, p_region_id TEXT, p_claim JSONB, p_overlap_area NUMERIC)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_region regions%ROWTYPE;
+  v_contest_id UUID;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  SELECT * INTO v_region
+  FROM regions
+  WHERE id = p_region_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Zone not found';
+  END IF;
+
+  IF v_region.owner_id = p_profile_id THEN
+    RAISE EXCEPTION 'You cannot contest your own zone';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM profiles WHERE id = p_profile_id AND xp_debt > 0) THEN
+    RAISE EXCEPTION 'Repay your XP debt before contesting zones';
+  END IF;
+
+  IF zone_claim_geometry(p_claim) IS NULL
+    OR NOT ST_Intersects(v_region.geom, zone_claim_geometry(p_claim)) THEN
+    RAISE EXCEPTION 'The claim does not overlap this zone';
+  END IF;
+
+  IF NOT (SELECT splittable FROM contest_remainder(v_region.geom, p_claim)) THEN
+    RAISE EXCEPTION 'This claim lies inside "%" and cannot be split from it; run loops around the zone to contest all of it', v_region.name;
+  END IF;
+
+  -- Reopening an existing contest returns it instead of failing
+  SELECT id INTO v_contest_id
+  FROM zone_contests
+  WHERE region_id = p_region_id AND challenger_id = p_profile_id AND status = 'open';
+
+  IF v_contest_id IS NOT NULL THEN
+    RETURN v_contest_id;
+  END IF;
+
+  INSERT INTO zone_contests (region_id, challenger_id, defender_id, claim, overlap_area, resolves_at)
+  VALUES (
+    p_region_id,
+    p_profile_id,
+    v_region.owner_id,
+    COALESCE(p_claim, '{}'::jsonb),
+    p_overlap_area,
+    now() + make_interval(hours => economy_setting('contest_duration_hours', 48)::INTEGER)
+  )
+  RETURNING id INTO v_contest_id;
+
+  RETURN v_contest_id;
+END;
+$$;
+
+ALTER TABLE public.zone_contests
+ADD COLUMN IF NOT EXISTS awarded_region_id TEXT REFERENCES public.regions(id) ON DELETE SET NULL;
+
+-- Zones split off by a contest are not new mints
+CREATE OR REPLACE FUNCTION public.block_mint_with_debt()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(current_setting('strun.zone_split', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM profiles WHERE id = NEW.owner_id AND xp_debt > 0) THEN
+    RAISE EXCEPTION 'Zones cannot be minted while you have outstanding XP debt';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Settle every contest whose timer has run out; safe to call from any client
+-- Activity contests (loops, distance) were fought over the whole zone and move it;
+-- overlap contests move only the land the challenger's claim covered
+CREATE OR REPLACE FUNCTION public.resolve_due_zone_contests()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_contest zone_contests%ROWTYPE;
+  v_region regions%ROWTYPE;
+  v_challenger_distance NUMERIC;
+  v_defender_distance NUMERIC;
+  v_challenger_won BOOLEAN;
+  v_remainder RECORD;
+  v_taken geometry;
+  v_awarded_id TEXT;
+  v_whole BOOLEAN;
+  v_resolved INTEGER := 0;
+BEGIN
+  FOR v_contest IN
+    SELECT * FROM zone_contests
+    WHERE status = 'open' AND resolves_at <= now()
+    ORDER BY resolves_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    SELECT * INTO v_region FROM regions WHERE id = v_contest.region_id FOR UPDATE;
+
+    -- The zone changed hands some other way while the contest ran
+    IF v_region.owner_id IS DISTINCT FROM v_contest.defender_id THEN
+      UPDATE zone_contests SET status = 'cancelled', resolved_at = now() WHERE id = v_contest.id;
+      v_resolved := v_resolved + 1;
+      CONTINUE;
+    END IF;
+
+    v_challenger_distance := zone_distance(v_contest.region_id, v_contest.challenger_id, v_contest.opened_at, v_contest.resolves_at);
+    v_defender_distance := zone_distance(v_contest.region_id, v_contest.defender_id, v_contest.opened_at, v_contest.resolves_at);
+    v_challenger_won := v_challenger_distance > v_defender_distance;
+    v_whole := v_contest.reason <> 'overlap';
+    v_awarded_id := NULL;
+
+    IF v_challenger_won AND NOT v_whole THEN
+      SELECT * INTO v_remainder FROM contest_remainder(v_region.geom, v_contest.claim);
+      v_taken := largest_polygon(ST_Intersection(v_region.geom, ST_MakeValid(zone_claim_geometry(v_contest.claim))));
+
+      -- The claim no longer touches the zone, or would leave a hole in it
+      IF v_taken IS NULL OR NOT v_remainder.splittable THEN
+        UPDATE zone_contests SET status = 'cancelled', resolved_at = now() WHERE id = v_contest.id;
+        v_resolved := v_resolved + 1;
+        CONTINUE;
+      END IF;
+
+      -- The claim covered the whole zone
+      v_whole := v_remainder.kept IS NULL;
+    END IF;
+
+    IF v_challenger_won AND NOT v_whole THEN
+      v_awarded_id := v_region.id || '-' || left(v_contest.id::TEXT, 8);
+
+      PERFORM set_config('strun.zone_split', 'on', true);
+
+      UPDATE regions
+      SET coordinates = polygon_coordinates(v_remainder.kept),
+          area = ST_Area(v_remainder.kept::geography),
+          updated_at = now()
+      WHERE id = v_region.id;
+
+      INSERT INTO regions (id, name, description, coordinates, area, owner_id, rent_price, color, metadata, claimed_at)
+      VALUES (
+        v_awarded_id,
+        COALESCE(v_contest.claim->>'name', v_region.name),
+        v_contest.claim->>'description',
+        polygon_coordinates(v_taken),
+        ST_Area(v_taken::geography),
+        v_contest.challenger_id,
+        COALESCE((v_contest.claim->>'rentPrice')::INTEGER, v_region.rent_price),
+        v_region.color,
+        jsonb_build_object('splitFrom', v_region.id, 'contestId', v_contest.id),
+        now()
+      );
+
+      PERFORM set_config('strun.zone_split', 'off', true);
+    END IF;
+
+    UPDATE zone_contests
+    SET status = CASE WHEN v_challenger_won THEN 'challenger_won' ELSE 'defender_won' END,
+        challenger_distance = v_challenger_distance,
+        defender_distance = v_defender_distance,
+        awarded_region_id = v_awarded_id,
+        nft_transfer_status = CASE WHEN v_challenger_won AND v_whole AND v_region.nft_id IS NOT NULL THEN 'pending' ELSE 'none' END,
+        resolved_at = now()
+    WHERE id = v_contest.id;
+
+    IF v_challenger_won AND v_whole THEN
+      UPDATE regions
+      SET owner_id = v_contest.challenger_id,
+          claimed_at = now(),
+          updated_at = now()
+      WHERE id = v_contest.region_id;
+
+      -- Other challengers were fighting the previous owner
+      UPDATE zone_contests
+      SET status = 'cancelled', resolved_at = now()
+      WHERE region_id = v_contest.region_id AND status = 'open';
+    END IF;
+
+    PERFORM notify(v_contest.challenger_id, 'contest_resolved',
+      CASE WHEN NOT v_challenger_won THEN 'Contest lost' WHEN v_whole THEN 'Zone captured' ELSE 'Land captured' END,
+      format('"%s": you ran %s m, the owner ran %s m.', v_region.name, round(v_challenger_distance), round(v_defender_distance)),
+      jsonb_build_object('contestId', v_contest.id, 'regionId', COALESCE(v_awarded_id, v_contest.region_id), 'won', v_challenger_won));
+    PERFORM notify(v_contest.defender_id, 'contest_resolved',
+      CASE WHEN NOT v_challenger_won THEN 'Zone defended' WHEN v_whole THEN 'Zone lost' ELSE 'Land lost' END,
+      format('"%s": you ran %s m, the challenger ran %s m.', v_region.name, round(v_defender_distance), round(v_challenger_distance)),
+      jsonb_build_object('contestId', v_contest.id, 'regionId', v_contest.region_id, 'won', NOT v_challenger_won));
+
+    v_resolved := v_resolved + 1;
+  END LOOP;
+
+  RETURN v_resolved;
+END;
+$$;
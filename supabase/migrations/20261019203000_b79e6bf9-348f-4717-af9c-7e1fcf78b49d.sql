@@ -0,0 +1,84 @@
+-- Rate-limited profile timezone changes
+-- Switching timezones would open a fresh daily earning window on demand, so the
+-- timezone can only move through set_profile_timezone, at most once per cooldown.
+
+INSERT INTO public.economy_settings (key, value, description)
+VALUES ('timezone_change_cooldown_days', 7, 'Days a profile must wait between timezone changes')
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS timezone_changed_at TIMESTAMP WITH TIME ZONE;
+
+-- Direct profile updates cannot touch the timezone; it goes through set_profile_timezone
+CREATE OR REPLACE FUNCTION public.guard_profile_timezone()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(current_setting('strun.profile_timezone', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.timezone IS DISTINCT FROM OLD.timezone
+  OR NEW.timezone_changed_at IS DISTINCT FROM OLD.timezone_changed_at THEN
+    RAISE EXCEPTION 'Timezone can only be changed through set_profile_timezone';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_profile_timezone ON public.profiles;
+CREATE TRIGGER guard_profile_timezone
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.guard_profile_timezone();
+
+-- Move a profile to a new timezone at most once per cooldown. The first change
+-- away from the default is free so new accounts pick up their local day.
+CREATE OR REPLACE FUNCTION public.set_profile_timezone(p_profile_id UUID, p_timezone TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current TEXT;
+  v_changed_at TIMESTAMPTZ;
+  v_next_change_at TIMESTAMPTZ;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  IF safe_timezone(p_timezone) <> p_timezone THEN
+    RAISE EXCEPTION 'Unknown timezone %', p_timezone;
+  END IF;
+
+  SELECT timezone, timezone_changed_at INTO v_current, v_changed_at
+  FROM profiles
+  WHERE id = p_profile_id
+  FOR UPDATE;
+
+  v_next_change_at := v_changed_at
+    + make_interval(days => economy_setting('timezone_change_cooldown_days', 7)::INTEGER);
+
+  IF v_current = p_timezone OR (v_changed_at IS NOT NULL AND now() < v_next_change_at) THEN
+    RETURN jsonb_build_object(
+      'timezone', v_current,
+      'changed', false,
+      'next_change_at', CASE WHEN v_current = p_timezone THEN NULL ELSE v_next_change_at END
+    );
+  END IF;
+
+  PERFORM set_config('strun.profile_timezone', 'on', true);
+
+  UPDATE profiles
+  SET timezone = p_timezone,
+      timezone_changed_at = now(),
+      updated_at = now()
+  WHERE id = p_profile_id;
+
+  PERFORM set_config('strun.profile_timezone', 'off', true);
+
+  RETURN jsonb_build_object('timezone', p_timezone, 'changed', true, 'next_change_at', NULL);
+END;
+$$;
@@ -0,0 +1,328 @@
+-- Speed-bounded lobby progress and capped lobby payouts
+-- Reported progress can grow no faster than a runner can move, so a lobby cannot
+-- be won from the sofa. Lobby prizes are paid through award_profile_xp, which
+-- award_xp now delegates to, so they are idempotent per lobby and count towards
+-- the same daily cap as run and zone XP.
+
+INSERT INTO public.economy_settings (key, value, description)
+VALUES ('lobby_max_speed_mps', 7, 'Fastest a runner''s reported lobby distance may grow, in meters per second')
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE public.lobby_participants
+ADD COLUMN IF NOT EXISTS progress_at TIMESTAMP WITH TIME ZONE;
+
+-- The daily window without the caller check, for server-side awards
+CREATE OR REPLACE FUNCTION public.daily_earnings_window(p_profile_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_timezone TEXT;
+  v_window_start TIMESTAMPTZ;
+  v_limit INTEGER := economy_setting('max_daily_earnings', 100)::INTEGER;
+  v_earned INTEGER;
+BEGIN
+  SELECT safe_timezone(timezone) INTO v_timezone FROM profiles WHERE id = p_profile_id;
+
+  IF v_timezone IS NULL THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  v_window_start := date_trunc('day', now() AT TIME ZONE v_timezone) AT TIME ZONE v_timezone;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_earned
+  FROM xp_transactions
+  WHERE user_id = p_profile_id
+  AND type IN ('run', 'zone', 'import', 'lobby')
+  AND amount > 0
+  AND created_at >= v_window_start;
+
+  RETURN jsonb_build_object(
+    'limit', v_limit,
+    'earned_today', v_earned,
+    'remaining', GREATEST(0, v_limit - v_earned),
+    'timezone', v_timezone,
+    'window_start', v_window_start,
+    'resets_at', v_window_start + interval '1 day'
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_daily_earnings(p_profile_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    PERFORM require_own_profile(p_profile_id);
+  END IF;
+
+  RETURN daily_earnings_window(p_profile_id);
+END;
+$$;
+
+-- Credit XP to a profile, applying the daily cap to activity earnings and
+-- replaying an award whose idempotencyKey was already credited
+CREATE OR REPLACE FUNCTION public.award_profile_xp(p_profile_id UUID, p_amount INTEGER, p_type TEXT, p_description TEXT, p_metadata JSONB DEFAULT '{}'::jsonb)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id UUID;
+  v_window JSONB;
+  v_awarded INTEGER := p_amount;
+  v_capped BOOLEAN := p_type IN ('run', 'zone', 'lobby');
+  v_previous xp_transactions%ROWTYPE;
+BEGIN
+  -- Serialize concurrent awards
+  PERFORM 1 FROM profiles WHERE id = p_profile_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  IF p_metadata ? 'idempotencyKey' THEN
+    SELECT * INTO v_previous
+    FROM xp_transactions
+    WHERE user_id = p_profile_id
+    AND type = p_type
+    AND amount > 0
+    AND metadata->>'idempotencyKey' = p_metadata->>'idempotencyKey'
+    LIMIT 1;
+
+    IF v_previous.id IS NOT NULL THEN
+      IF v_capped THEN
+        v_window := daily_earnings_window(p_profile_id);
+      END IF;
+
+      RETURN jsonb_build_object(
+        'entry_id', v_previous.entry_id,
+        'requested', p_amount,
+        'awarded', v_previous.amount,
+        'capped', v_previous.amount < p_amount,
+        'remaining', v_window->'remaining',
+        'resets_at', v_window->'resets_at',
+        'balance', (SELECT xp FROM profiles WHERE id = p_profile_id),
+        'duplicate', true
+      );
+    END IF;
+  END IF;
+
+  -- Activity earnings are capped per local day
+  IF v_capped THEN
+    v_window := daily_earnings_window(p_profile_id);
+    v_awarded := LEAST(p_amount, (v_window->>'remaining')::INTEGER);
+  END IF;
+
+  IF v_awarded > 0 THEN
+    v_entry_id := post_xp_entry(
+      xp_system_account(),
+      p_profile_id,
+      v_awarded,
+      p_type,
+      p_description,
+      CASE WHEN v_awarded < p_amount
+        THEN COALESCE(p_metadata, '{}'::jsonb) || jsonb_build_object('requested', p_amount, 'capped', true)
+        ELSE p_metadata
+      END
+    );
+
+    PERFORM garnish_xp_debt(p_profile_id, v_awarded, v_entry_id);
+  END IF;
+
+  IF v_window IS NOT NULL THEN
+    v_window := daily_earnings_window(p_profile_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'entry_id', v_entry_id,
+    'requested', p_amount,
+    'awarded', GREATEST(v_awarded, 0),
+    'capped', v_awarded < p_amount,
+    'remaining', v_window->'remaining',
+    'resets_at', v_window->'resets_at',
+    'balance', (SELECT xp FROM profiles WHERE id = p_profile_id)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.daily_earnings_window(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.award_profile_xp(UUID, INTEGER, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.award_xp(p_user_id uuid, p_amount integer, p_type text, p_description text, p_metadata jsonb DEFAULT '{}'::jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_profile_id UUID;
+BEGIN
+  -- Callers may only award themselves; the service role has no auth.uid()
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Not authorized to award XP to this user';
+  END IF;
+
+  SELECT id INTO v_profile_id
+  FROM profiles
+  WHERE user_id = p_user_id;
+
+  IF v_profile_id IS NULL THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  -- Award XP only for valid transaction types
+  IF p_type NOT IN ('run', 'zone', 'referral', 'challenge', 'competition', 'bonus') THEN
+    RAISE EXCEPTION 'Invalid XP transaction type';
+  END IF;
+
+  RETURN award_profile_xp(v_profile_id, p_amount, p_type, p_description, p_metadata);
+END;
+$function$;
+
+-- Rank everyone and pay out XP; runs once per lobby
+CREATE OR REPLACE FUNCTION public.settle_lobby(p_lobby_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lobby private_lobbies%ROWTYPE;
+  v_participant RECORD;
+  v_finishers INTEGER;
+  v_winner_xp INTEGER := economy_setting('lobby_xp_winner', 150)::INTEGER;
+  v_finisher_xp INTEGER := economy_setting('lobby_xp_finisher', 25)::INTEGER;
+  v_xp INTEGER;
+  v_award JSONB;
+BEGIN
+  SELECT * INTO v_lobby FROM private_lobbies WHERE id = p_lobby_id FOR UPDATE;
+
+  IF v_lobby.status IS DISTINCT FROM 'running' THEN
+    RETURN;
+  END IF;
+
+  SELECT count(*) INTO v_finishers
+  FROM lobby_participants
+  WHERE lobby_id = p_lobby_id AND finished_at IS NOT NULL;
+
+  FOR v_participant IN
+    SELECT id, user_id, finished_at,
+      row_number() OVER (
+        ORDER BY finished_at ASC NULLS LAST,
+          CASE WHEN v_lobby.target_distance IS NOT NULL THEN distance_completed ELSE area_completed END DESC NULLS LAST,
+          joined_at
+      ) AS rank
+    FROM lobby_participants
+    WHERE lobby_id = p_lobby_id
+  LOOP
+    -- Finishers share a sliding scale from the winner's prize down to the finisher prize
+    v_xp := 0;
+    IF v_participant.finished_at IS NOT NULL THEN
+      v_xp := CASE WHEN v_finishers = 1 THEN v_winner_xp
+        ELSE round(v_winner_xp - (v_winner_xp - v_finisher_xp) * (v_participant.rank - 1)::NUMERIC / (v_finishers - 1))::INTEGER
+      END;
+    END IF;
+
+    -- Prizes count towards the daily cap, so only part of one may be credited
+    IF v_xp > 0 THEN
+      v_award := award_profile_xp(v_participant.user_id, v_xp, 'lobby',
+        format('Lobby race "%s": #%s', v_lobby.name, v_participant.rank),
+        jsonb_build_object('lobbyId', p_lobby_id, 'rank', v_participant.rank, 'idempotencyKey', 'lobby:' || p_lobby_id));
+      v_xp := (v_award->>'awarded')::INTEGER;
+    END IF;
+
+    UPDATE lobby_participants
+    SET rank = v_participant.rank, xp_awarded = v_xp, updated_at = now()
+    WHERE id = v_participant.id;
+
+    PERFORM notify(v_participant.user_id, 'lobby_finished', 'Race results are in',
+      CASE WHEN v_xp > 0
+        THEN format('You finished #%s in "%s" and earned %s XP', v_participant.rank, v_lobby.name, v_xp)
+        ELSE format('You placed #%s in "%s"', v_participant.rank, v_lobby.name)
+      END,
+      jsonb_build_object('lobbyId', p_lobby_id, 'rank', v_participant.rank));
+  END LOOP;
+
+  UPDATE private_lobbies
+  SET status = 'finished', end_time = now(), updated_at = now()
+  WHERE id = p_lobby_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.settle_lobby(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Report a runner's progress; the race settles once everyone has reached the target
+-- Progress only moves forward so a replayed or late update cannot undo it. Distance
+-- may grow by at most the max speed times the time since the last accepted report
+-- (or the start), and area by no more than a loop of the distance run could enclose.
+CREATE OR REPLACE FUNCTION public.report_lobby_progress(
+  p_profile_id UUID,
+  p_lobby_id UUID,
+  p_distance NUMERIC,
+  p_area NUMERIC DEFAULT 0
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lobby private_lobbies%ROWTYPE;
+  v_participant lobby_participants%ROWTYPE;
+  v_max_distance NUMERIC;
+  v_distance NUMERIC;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  SELECT * INTO v_lobby FROM private_lobbies WHERE id = p_lobby_id;
+
+  IF v_lobby.status IS DISTINCT FROM 'running' THEN
+    RETURN v_lobby.status;
+  END IF;
+
+  SELECT * INTO v_participant
+  FROM lobby_participants
+  WHERE lobby_id = p_lobby_id AND user_id = p_profile_id
+  FOR UPDATE;
+
+  IF v_participant.id IS NULL THEN
+    RAISE EXCEPTION 'You are not in this race';
+  END IF;
+
+  v_max_distance := COALESCE(v_participant.distance_completed, 0)
+    + economy_setting('lobby_max_speed_mps', 7)
+      * EXTRACT(EPOCH FROM now() - GREATEST(v_participant.progress_at, v_lobby.start_time));
+  v_distance := GREATEST(COALESCE(v_participant.distance_completed, 0), LEAST(COALESCE(p_distance, 0), v_max_distance));
+
+  UPDATE lobby_participants
+  SET distance_completed = v_distance,
+      area_completed = GREATEST(COALESCE(area_completed, 0), LEAST(COALESCE(p_area, 0), v_distance ^ 2 / (4 * pi()))),
+      progress_at = now(),
+      updated_at = now()
+  WHERE id = v_participant.id
+  RETURNING * INTO v_participant;
+
+  IF v_participant.finished_at IS NULL AND (
+    (v_lobby.target_distance IS NOT NULL AND v_participant.distance_completed >= v_lobby.target_distance)
+    OR (v_lobby.target_area IS NOT NULL AND v_participant.area_completed >= v_lobby.target_area)
+  ) THEN
+    UPDATE lobby_participants SET finished_at = now() WHERE id = v_participant.id;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM lobby_participants WHERE lobby_id = p_lobby_id AND finished_at IS NULL) THEN
+    PERFORM settle_lobby(p_lobby_id);
+    RETURN 'finished';
+  END IF;
+
+  RETURN 'running';
+END;
+$$;
@@ -0,0 +1,20 @@
+-- Runner-proof competition announcements
+-- Announcements are only written by finalize_due_competitions, which bypasses RLS;
+-- runners can neither post one nor turn a post into one or edit one they appear in.
+
+DROP POLICY IF EXISTS "Users can create their own posts" ON public.community_posts;
+CREATE POLICY "Users can create their own posts"
+ON public.community_posts FOR INSERT
+WITH CHECK (
+  post_type = 'user'
+  AND auth.uid() IN (SELECT user_id FROM profiles WHERE id = community_posts.user_id)
+);
+
+DROP POLICY IF EXISTS "Users can update their own posts" ON public.community_posts;
+CREATE POLICY "Users can update their own posts"
+ON public.community_posts FOR UPDATE
+USING (
+  post_type = 'user'
+  AND auth.uid() IN (SELECT user_id FROM profiles WHERE id = community_posts.user_id)
+)
+WITH CHECK (post_type = 'user');
@@ -0,0 +1,149 @@
+-- Leaderboards ranked on read
+-- Storing a score no longer re-ranks the boards, so a run never locks anyone
+-- else's row. leaderboard_rankings computes the live rank when a board is read,
+-- and a scheduled job snapshots ranks into the table every few minutes;
+-- previous_rank is the rank held before the last snapshot that moved, for
+-- movement arrows.
+
+DROP INDEX IF EXISTS public.idx_leaderboard_entries_board;
+CREATE INDEX idx_leaderboard_entries_board
+ON public.leaderboard_entries(category, period, period_start, value DESC, updated_at);
+
+-- Snapshot one board's ranks; only rows whose rank moves are touched so previous_rank
+-- keeps the last rank that was different. Rows a score update holds are skipped
+-- until the next snapshot rather than waited on.
+CREATE OR REPLACE FUNCTION public.rank_leaderboard(p_category TEXT, p_period TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH ranked AS (
+    SELECT id, row_number() OVER (ORDER BY value DESC, updated_at) AS new_rank
+    FROM leaderboard_entries
+    WHERE category = p_category
+    AND period = p_period
+    AND period_start IS NOT DISTINCT FROM leaderboard_period_start(p_period)
+    AND value > 0
+  ),
+  moved AS (
+    SELECT le.id, r.new_rank
+    FROM leaderboard_entries le
+    JOIN ranked r ON r.id = le.id
+    WHERE le.rank IS DISTINCT FROM r.new_rank
+    FOR UPDATE OF le SKIP LOCKED
+  )
+  UPDATE leaderboard_entries le
+  SET previous_rank = le.rank,
+      rank = m.new_rank
+  FROM moved m
+  WHERE le.id = m.id;
+$$;
+
+-- Snapshot every board; scheduled below
+CREATE OR REPLACE FUNCTION public.rank_leaderboards()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_category TEXT;
+  v_period TEXT;
+BEGIN
+  FOREACH v_category IN ARRAY ARRAY['distance', 'area', 'xp', 'zones'] LOOP
+    FOREACH v_period IN ARRAY ARRAY['daily', 'weekly', 'monthly', 'all_time'] LOOP
+      PERFORM rank_leaderboard(v_category, v_period);
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+-- Recompute a runner's entries in the given categories for every period
+CREATE OR REPLACE FUNCTION public.refresh_leaderboard_entries(p_profile_id UUID, p_categories TEXT[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_category TEXT;
+  v_period TEXT;
+BEGIN
+  IF p_profile_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  FOREACH v_category IN ARRAY p_categories LOOP
+    FOREACH v_period IN ARRAY ARRAY['daily', 'weekly', 'monthly', 'all_time'] LOOP
+      PERFORM store_leaderboard_value(p_profile_id, v_category, v_period,
+        leaderboard_value(p_profile_id, v_category, v_period));
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+-- Kept for existing callers, but values now come from the server only
+CREATE OR REPLACE FUNCTION public.update_leaderboard_entry(p_user_id uuid, p_category text, p_period text, p_value numeric)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile_id UUID;
+BEGIN
+  SELECT id INTO v_profile_id FROM profiles WHERE user_id = p_user_id;
+
+  IF v_profile_id IS NULL THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  PERFORM store_leaderboard_value(v_profile_id, p_category, p_period, p_value);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rank_leaderboards() FROM PUBLIC, anon, authenticated;
+
+-- Boards as they stand now, runners with a score only, ranked on read. The stored
+-- rank is the last snapshot, so it becomes previous_rank once the live rank moves
+-- away from it. The runner and public profiles are named; everyone else is an
+-- anonymous row with rank, score and country only.
+CREATE OR REPLACE VIEW public.leaderboard_rankings AS
+SELECT
+  le.id,
+  le.category,
+  le.period,
+  le.period_start,
+  le.live_rank::INTEGER AS rank,
+  CASE WHEN le.rank IS DISTINCT FROM le.live_rank THEN le.rank ELSE le.previous_rank END AS previous_rank,
+  le.value,
+  le.country,
+  (p.user_id = auth.uid()) AS is_me,
+  NOT v.visible AS is_anonymous,
+  CASE WHEN v.visible THEN p.id END AS profile_id,
+  CASE WHEN v.visible THEN p.username END AS username,
+  CASE WHEN v.visible THEN p.avatar_url END AS avatar_url
+FROM (
+  SELECT
+    e.*,
+    row_number() OVER (PARTITION BY e.category, e.period ORDER BY e.value DESC, e.updated_at) AS live_rank
+  FROM public.leaderboard_entries e
+  WHERE e.value > 0
+  AND e.period_start IS NOT DISTINCT FROM public.leaderboard_period_start(e.period)
+) le
+JOIN public.profiles p ON p.id = le.user_id
+CROSS JOIN LATERAL (
+  SELECT p.user_id = auth.uid() OR NOT EXISTS (
+    SELECT 1 FROM public.user_settings us
+    WHERE us.user_id = p.id AND us.privacy_mode <> 'public'
+  ) AS visible
+) v;
+
+REVOKE ALL ON public.leaderboard_rankings FROM anon;
+GRANT SELECT ON public.leaderboard_rankings TO authenticated;
+
+-- Snapshot ranks every five minutes
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('rank-leaderboards', '*/5 * * * *', 'SELECT public.rank_leaderboards()');
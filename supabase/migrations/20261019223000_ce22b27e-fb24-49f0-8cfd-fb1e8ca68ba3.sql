@@ -0,0 +1,217 @@
+-- Club rent waiver for established members only
+-- New club members start with no rent share and pay rent on club zones like
+-- anyone else until the club owner gives them a share or they have been in the
+-- club for club_rent_waiver_days, so joining a club just to cross its land costs
+-- nothing but buys nothing. Members who joined before this change keep their share.
+
+INSERT INTO public.economy_settings (key, value, description)
+VALUES ('club_rent_waiver_days', 7, 'Days a runner must have been in a club before its zones are rent free for them')
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE public.group_members
+ALTER COLUMN rent_share SET DEFAULT 0;
+
+-- Club zones are rent free for the club's owner and admins, members the owner has
+-- given a rent share, and members who joined at least club_rent_waiver_days ago
+CREATE OR REPLACE FUNCTION public.has_group_rent_waiver(p_group_id UUID, p_profile_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM group_members gm
+    JOIN profiles p ON p.email = gm.user_email
+    WHERE gm.group_id = p_group_id AND p.id = p_profile_id
+    AND (
+      gm.role IN ('owner', 'admin')
+      OR gm.rent_share > 0
+      OR gm.joined_at <= now() - make_interval(days => economy_setting('club_rent_waiver_days', 7)::INTEGER)
+    )
+  );
+$$;
+
+-- Rent on a club zone is shared out among the club; established club members pay none
+CREATE OR REPLACE FUNCTION public.pay_zone_rent(
+  p_profile_id UUID,
+  p_region_id public.regions.id%TYPE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_owner_id UUID;
+  v_group_id UUID;
+  v_amount INTEGER;
+  v_entry_id UUID;
+  v_paid INTEGER := 0;
+  v_member RECORD;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  SELECT group_id INTO v_group_id FROM regions WHERE id = p_region_id FOR UPDATE;
+
+  SELECT owner_id, effective_rent INTO v_owner_id, v_amount
+  FROM region_health
+  WHERE id = p_region_id;
+
+  IF v_owner_id IS NULL THEN
+    RAISE EXCEPTION 'Territory owner not found';
+  END IF;
+
+  IF v_owner_id = p_profile_id THEN
+    RAISE EXCEPTION 'Owners do not pay rent on their own zone';
+  END IF;
+
+  IF v_group_id IS NOT NULL AND has_group_rent_waiver(v_group_id, p_profile_id) THEN
+    RAISE EXCEPTION 'Club members do not pay rent on club zones';
+  END IF;
+
+  IF v_group_id IS NOT NULL THEN
+    FOR v_member IN
+      SELECT s.profile_id, floor(v_amount * s.share_fraction)::INTEGER AS part
+      FROM group_rent_shares(v_group_id) s
+      WHERE s.profile_id <> v_owner_id
+    LOOP
+      CONTINUE WHEN v_member.part <= 0;
+
+      v_entry_id := post_xp_entry(
+        p_profile_id,
+        v_member.profile_id,
+        v_member.part,
+        'rent',
+        'Club share of zone rent for zone ' || p_region_id,
+        jsonb_build_object('zoneId', p_region_id, 'renterId', p_profile_id, 'ownerId', v_owner_id, 'groupId', v_group_id)
+      );
+
+      INSERT INTO transactions (from_user_id, to_user_id, amount, type, region_id, status, metadata)
+      VALUES (p_profile_id, v_member.profile_id, v_member.part, 'rent', p_region_id, 'completed',
+              jsonb_build_object('entryId', v_entry_id, 'groupId', v_group_id, 'timestamp', now()));
+
+      v_paid := v_paid + v_member.part;
+    END LOOP;
+  END IF;
+
+  -- The owner gets their own share plus whatever rounding left over
+  IF v_amount - v_paid > 0 THEN
+    v_entry_id := post_xp_entry(
+      p_profile_id,
+      v_owner_id,
+      v_amount - v_paid,
+      'rent',
+      'Zone rent for zone ' || p_region_id,
+      jsonb_build_object('zoneId', p_region_id, 'renterId', p_profile_id, 'ownerId', v_owner_id, 'groupId', v_group_id)
+    );
+
+    INSERT INTO transactions (from_user_id, to_user_id, amount, type, region_id, status, metadata)
+    VALUES (p_profile_id, v_owner_id, v_amount - v_paid, 'rent', p_region_id, 'completed',
+            jsonb_build_object('entryId', v_entry_id, 'groupId', v_group_id, 'timestamp', now()));
+  END IF;
+
+  UPDATE regions
+  SET total_earnings = COALESCE(total_earnings, 0) + v_amount
+  WHERE id = p_region_id;
+
+  RETURN jsonb_build_object(
+    'entry_id', v_entry_id,
+    'amount', v_amount,
+    'balance', (SELECT xp FROM profiles WHERE id = p_profile_id)
+  );
+END;
+$$;
+
+-- Open a visit when the runner enters a zone; returns the visit and whether rent is due
+CREATE OR REPLACE FUNCTION public.record_zone_enter(
+  p_profile_id UUID,
+  p_client_run_id TEXT,
+  p_region_id public.regions.id%TYPE,
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION,
+  p_entered_at TIMESTAMP WITH TIME ZONE,
+  p_run_distance_m NUMERIC
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_region RECORD;
+  v_point geometry := ST_SetSRID(ST_MakePoint(p_lng, p_lat), 4326);
+  v_access TEXT;
+  v_rent_status TEXT := 'none';
+  v_visit zone_visits;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  SELECT id, owner_id, group_id, geom INTO v_region FROM regions WHERE id = p_region_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Zone not found';
+  END IF;
+
+  IF v_region.geom IS NULL
+    OR NOT ST_DWithin(v_region.geom::geography, v_point::geography, economy_setting('zone_visit_tolerance_m', 20)) THEN
+    RAISE EXCEPTION 'Point is not inside the zone';
+  END IF;
+
+  -- Already inside on this run: the open visit stands
+  SELECT * INTO v_visit
+  FROM zone_visits
+  WHERE profile_id = p_profile_id
+  AND client_run_id = p_client_run_id
+  AND region_id = p_region_id
+  AND exited_at IS NULL;
+
+  IF NOT FOUND THEN
+    v_access := CASE
+      WHEN v_region.owner_id IS NULL THEN 'open'
+      WHEN v_region.owner_id = p_profile_id THEN 'owner'
+      WHEN v_region.group_id IS NOT NULL AND has_group_rent_waiver(v_region.group_id, p_profile_id) THEN 'club'
+      ELSE 'rent'
+    END;
+
+    -- Once rent or the penalty is settled the runner may come back on the same run
+    IF v_access = 'rent' AND NOT EXISTS (
+      SELECT 1 FROM zone_visits
+      WHERE profile_id = p_profile_id
+      AND client_run_id = p_client_run_id
+      AND region_id = p_region_id
+      AND rent_status IN ('paid', 'penalized')
+    ) THEN
+      v_rent_status := 'due';
+    END IF;
+
+    INSERT INTO zone_visits (region_id, profile_id, client_run_id, access, rent_status, entered_at, entry_point, entered_run_m)
+    VALUES (
+      p_region_id,
+      p_profile_id,
+      p_client_run_id,
+      v_access,
+      v_rent_status,
+      LEAST(COALESCE(p_entered_at, now()), now()),
+      v_point,
+      LEAST(GREATEST(COALESCE(p_run_distance_m, 0), 0), 1000000)
+    )
+    ON CONFLICT (profile_id, client_run_id, region_id, entered_at) DO NOTHING;
+
+    SELECT * INTO v_visit
+    FROM zone_visits
+    WHERE profile_id = p_profile_id
+    AND client_run_id = p_client_run_id
+    AND region_id = p_region_id
+    ORDER BY entered_at DESC
+    LIMIT 1;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'visit_id', v_visit.id,
+    'access', v_visit.access,
+    'rent_status', v_visit.rent_status,
+    'owner_id', v_region.owner_id
+  );
+END;
+$$;
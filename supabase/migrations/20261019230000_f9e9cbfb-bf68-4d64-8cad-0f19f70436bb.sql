@@ -0,0 +1,273 @@
+-- Server-settled zone rent
+-- The server settles unpaid rent itself: a visit that closes after the grace
+-- period with rent still due is penalized, and visits whose exit never arrives
+-- are closed and settled by a scheduled sweep. Zone decay is refreshed from
+-- verified runs whose route crosses the zone, not from visit events. Owners see
+-- who crossed their land through zone_visitors only.
+
+INSERT INTO public.economy_settings (key, value, description)
+VALUES ('zone_visit_max_open_h', 6, 'Hours a zone visit may stay open without an exit before it is closed and settled')
+ON CONFLICT (key) DO NOTHING;
+
+DROP POLICY IF EXISTS "Owners can view visits to their zones" ON public.zone_visits;
+
+-- The entry penalty without the caller check, for settlements the server makes itself
+CREATE OR REPLACE FUNCTION public.charge_entry_penalty(
+  p_profile_id UUID,
+  p_region_id public.regions.id%TYPE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_penalty INTEGER;
+  v_balance INTEGER;
+  v_charged INTEGER;
+  v_entry_id UUID;
+  v_debt INTEGER;
+BEGIN
+  SELECT COALESCE(rent_price, 10)::INTEGER * 2 INTO v_penalty
+  FROM regions
+  WHERE id = p_region_id;
+
+  IF v_penalty IS NULL THEN
+    RAISE EXCEPTION 'Territory not found';
+  END IF;
+
+  SELECT COALESCE(xp, 0), xp_debt INTO v_balance, v_debt FROM profiles WHERE id = p_profile_id FOR UPDATE;
+  v_charged := LEAST(v_balance, v_penalty);
+
+  IF v_charged > 0 THEN
+    v_entry_id := post_xp_entry(
+      p_profile_id,
+      xp_system_account(),
+      v_charged,
+      'penalty',
+      'Unauthorized zone entry penalty for zone ' || p_region_id,
+      jsonb_build_object('zoneId', p_region_id, 'penalty', v_penalty, 'shortfall', v_penalty - v_charged)
+    );
+  END IF;
+
+  IF v_penalty > v_charged THEN
+    v_debt := adjust_xp_debt(p_profile_id, v_penalty - v_charged, 'penalty', v_entry_id,
+      jsonb_build_object('zoneId', p_region_id, 'penalty', v_penalty));
+  END IF;
+
+  RETURN jsonb_build_object(
+    'entry_id', v_entry_id,
+    'penalty', v_penalty,
+    'charged', v_charged,
+    'shortfall', v_penalty - v_charged,
+    'debt', v_debt,
+    'balance', (SELECT xp FROM profiles WHERE id = p_profile_id)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_entry_penalty(
+  p_profile_id UUID,
+  p_region_id public.regions.id%TYPE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  RETURN charge_entry_penalty(p_profile_id, p_region_id);
+END;
+$$;
+
+-- Charge the penalty on a visit whose rent is still due after the grace period;
+-- returns null when nothing is owed yet
+CREATE OR REPLACE FUNCTION public.penalize_overdue_visit(p_visit_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_visit zone_visits;
+  v_result JSONB;
+BEGIN
+  SELECT * INTO v_visit FROM zone_visits WHERE id = p_visit_id FOR UPDATE;
+
+  IF NOT FOUND
+    OR v_visit.rent_status <> 'due'
+    OR COALESCE(v_visit.exited_at, now()) - v_visit.entered_at
+      < make_interval(secs => economy_setting('zone_rent_grace_s', 30)::DOUBLE PRECISION) THEN
+    RETURN NULL;
+  END IF;
+
+  v_result := charge_entry_penalty(v_visit.profile_id, v_visit.region_id);
+
+  UPDATE zone_visits
+  SET rent_status = 'penalized',
+      rent_entry_id = (v_result->>'entry_id')::UUID
+  WHERE id = p_visit_id;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Close the runner's open visit to a zone; returns its id, or null when none was open
+CREATE OR REPLACE FUNCTION public.record_zone_exit(
+  p_profile_id UUID,
+  p_client_run_id TEXT,
+  p_region_id public.regions.id%TYPE,
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION,
+  p_exited_at TIMESTAMP WITH TIME ZONE,
+  p_run_distance_m NUMERIC
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_visit zone_visits;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  UPDATE zone_visits
+  SET exited_at = GREATEST(LEAST(COALESCE(p_exited_at, now()), now()), entered_at),
+      exit_point = ST_SetSRID(ST_MakePoint(p_lng, p_lat), 4326),
+      distance_m = LEAST(GREATEST(COALESCE(p_run_distance_m, 0) - entered_run_m, 0), 50000)
+  WHERE profile_id = p_profile_id
+  AND client_run_id = p_client_run_id
+  AND region_id = p_region_id
+  AND exited_at IS NULL
+  RETURNING * INTO v_visit;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Left after the grace period without paying: the penalty applies
+  PERFORM penalize_overdue_visit(v_visit.id);
+
+  RETURN v_visit.id;
+END;
+$$;
+
+-- Pay the rent due on a visit, or charge the entry penalty once the grace period is over
+CREATE OR REPLACE FUNCTION public.settle_zone_visit(
+  p_profile_id UUID,
+  p_visit_id UUID,
+  p_action TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_visit zone_visits;
+  v_result JSONB;
+  v_status TEXT;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  SELECT * INTO v_visit FROM zone_visits WHERE id = p_visit_id AND profile_id = p_profile_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Visit not found';
+  END IF;
+
+  IF v_visit.rent_status <> 'due' THEN
+    RAISE EXCEPTION 'No rent is due for this visit';
+  END IF;
+
+  IF p_action = 'pay' THEN
+    v_result := pay_zone_rent(p_profile_id, v_visit.region_id);
+    v_status := 'paid';
+  ELSIF p_action = 'penalty' THEN
+    -- Runners who leave within the grace period owe nothing
+    v_result := penalize_overdue_visit(p_visit_id);
+
+    IF v_result IS NULL THEN
+      RAISE EXCEPTION 'The grace period for this visit has not run out';
+    END IF;
+
+    v_status := 'penalized';
+  ELSE
+    RAISE EXCEPTION 'Unknown settlement: %', p_action;
+  END IF;
+
+  UPDATE zone_visits
+  SET rent_status = v_status,
+      rent_entry_id = (v_result->>'entry_id')::UUID
+  WHERE id = p_visit_id;
+
+  RETURN v_result || jsonb_build_object('visit_id', p_visit_id, 'rent_status', v_status);
+END;
+$$;
+
+-- Close visits whose exit never arrived and settle the rent they left unpaid
+CREATE OR REPLACE FUNCTION public.close_stale_zone_visits()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_visit RECORD;
+  v_closed INTEGER := 0;
+BEGIN
+  FOR v_visit IN
+    UPDATE zone_visits
+    SET exited_at = now()
+    WHERE exited_at IS NULL
+    AND entered_at < now() - make_interval(hours => economy_setting('zone_visit_max_open_h', 6)::INTEGER)
+    RETURNING id
+  LOOP
+    PERFORM penalize_overdue_visit(v_visit.id);
+    v_closed := v_closed + 1;
+  END LOOP;
+
+  RETURN v_closed;
+END;
+$$;
+
+-- A verified run keeps the runner's zones that its route crosses from decaying
+CREATE OR REPLACE FUNCTION public.refresh_zones_on_run()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_run_at TIMESTAMP WITH TIME ZONE := LEAST(COALESCE(NEW.recorded_at, NEW.created_at, now()), now());
+BEGIN
+  IF NEW.verification_status = 'verified'
+    AND NEW.source = 'recorded'
+    AND NEW.route_geom IS NOT NULL
+    AND (TG_OP = 'INSERT' OR OLD.verification_status IS DISTINCT FROM 'verified') THEN
+    UPDATE regions r
+    SET last_visited = GREATEST(COALESCE(r.last_visited, v_run_at), v_run_at)
+    FROM profiles p
+    WHERE p.email = NEW.user_email
+    AND r.owner_id = p.id
+    AND ST_Intersects(r.geom, NEW.route_geom);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_zones_on_run ON public.runs;
+CREATE TRIGGER refresh_zones_on_run
+  AFTER INSERT OR UPDATE OF verification_status ON public.runs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_zones_on_run();
+
+REVOKE EXECUTE ON FUNCTION public.charge_entry_penalty(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.penalize_overdue_visit(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.close_stale_zone_visits() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_zones_on_run() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('close-stale-zone-visits', '*/15 * * * *', 'SELECT public.close_stale_zone_visits()');
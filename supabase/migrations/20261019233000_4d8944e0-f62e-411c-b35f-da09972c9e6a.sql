@@ -0,0 +1,155 @@
+-- Zone decay from stored runs
+-- Owner runs restore a zone's health and a rival's run can reclaim a zone that has
+-- fully decayed. Both used to go by the loops and distance the client reported;
+-- record_zone_activity now measures them from the stored, verified run.
+
+-- Owner runs restore the zone, rival runs count as visits, open contests and can
+-- reclaim a dead zone
+CREATE OR REPLACE FUNCTION public.record_zone_activity(p_profile_id UUID, p_region_id TEXT, p_client_run_id TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_run runs%ROWTYPE;
+  v_run_at TIMESTAMP WITH TIME ZONE;
+  v_region regions%ROWTYPE;
+  v_window_start TIMESTAMP WITH TIME ZONE := now() - make_interval(days => economy_setting('contest_window_days', 7)::INTEGER);
+  v_run_loops INTEGER;
+  v_run_distance NUMERIC;
+  v_activity_id UUID;
+  v_loops INTEGER;
+  v_challenger_distance NUMERIC;
+  v_defender_distance NUMERIC;
+  v_reason TEXT;
+  v_contest_id UUID;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  SELECT r.* INTO v_run
+  FROM runs r
+  JOIN profiles p ON p.email = r.user_email
+  WHERE p.id = p_profile_id
+  AND r.client_run_id = p_client_run_id;
+
+  IF v_run.id IS NULL THEN
+    RAISE EXCEPTION 'Run not found';
+  END IF;
+
+  IF v_run.verification_status <> 'verified' OR v_run.source <> 'recorded' THEN
+    RAISE EXCEPTION 'Only verified recorded runs count towards zones';
+  END IF;
+
+  v_run_at := COALESCE(v_run.recorded_at, v_run.created_at);
+
+  SELECT * INTO v_region FROM regions WHERE id = p_region_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Zone not found';
+  END IF;
+
+  SELECT a.loops, a.distance_m INTO v_run_loops, v_run_distance
+  FROM zone_run_activity(v_run.route_geom, v_region.geom) a;
+
+  -- The run never went there
+  IF v_run_loops = 0 AND v_run_distance = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO zone_activity (region_id, profile_id, client_run_id, loops, distance_m, created_at)
+  VALUES (p_region_id, p_profile_id, p_client_run_id, v_run_loops, v_run_distance, v_run_at)
+  ON CONFLICT (region_id, profile_id, client_run_id) WHERE client_run_id IS NOT NULL DO NOTHING
+  RETURNING id INTO v_activity_id;
+
+  -- A replayed run changes nothing
+  IF v_activity_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_region.owner_id IS NULL OR v_region.owner_id = p_profile_id THEN
+    UPDATE regions SET last_visited = GREATEST(last_visited, v_run_at) WHERE id = p_region_id;
+    RETURN NULL;
+  END IF;
+
+  UPDATE regions SET visitors = COALESCE(visitors, 0) + 1 WHERE id = p_region_id;
+
+  -- A fully decayed zone goes to the first rival who runs a loop or enough distance in it
+  IF (SELECT reclaimable FROM region_health WHERE id = p_region_id)
+    AND (v_run_loops >= 1 OR v_run_distance >= economy_setting('contest_min_distance_m', 500)) THEN
+    UPDATE zone_contests
+    SET status = 'cancelled', resolved_at = now()
+    WHERE region_id = p_region_id AND status = 'open';
+
+    INSERT INTO zone_contests (region_id, challenger_id, defender_id, reason, status, resolves_at, resolved_at, nft_transfer_status)
+    VALUES (
+      p_region_id,
+      p_profile_id,
+      v_region.owner_id,
+      'reclaim',
+      'challenger_won',
+      now(),
+      now(),
+      CASE WHEN v_region.nft_id IS NOT NULL THEN 'pending' ELSE 'none' END
+    )
+    RETURNING id INTO v_contest_id;
+
+    UPDATE regions
+    SET owner_id = p_profile_id,
+        claimed_at = now(),
+        last_visited = now(),
+        updated_at = now()
+    WHERE id = p_region_id;
+
+    PERFORM notify(p_profile_id, 'zone_reclaimed', 'Zone reclaimed',
+      format('"%s" had been abandoned and is now yours.', v_region.name),
+      jsonb_build_object('contestId', v_contest_id, 'regionId', p_region_id));
+    PERFORM notify(v_region.owner_id, 'zone_reclaimed', 'Zone lost to decay',
+      format('"%s" decayed after you stopped running in it and was reclaimed by a rival.', v_region.name),
+      jsonb_build_object('contestId', v_contest_id, 'regionId', p_region_id));
+
+    RETURN v_contest_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM zone_contests WHERE region_id = p_region_id AND status = 'open') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(SUM(loops), 0) INTO v_loops
+  FROM zone_activity
+  WHERE region_id = p_region_id AND profile_id = p_profile_id AND created_at >= v_window_start;
+
+  v_challenger_distance := zone_distance(p_region_id, p_profile_id, v_window_start, now() + interval '1 second');
+  v_defender_distance := zone_distance(p_region_id, v_region.owner_id, v_window_start, now() + interval '1 second');
+
+  IF v_loops >= economy_setting('contest_capture_loops', 3) THEN
+    v_reason := 'loops';
+  ELSIF v_challenger_distance >= economy_setting('contest_min_distance_m', 500)
+    AND v_challenger_distance > v_defender_distance THEN
+    v_reason := 'distance';
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO zone_contests (region_id, challenger_id, defender_id, reason, resolves_at)
+  VALUES (
+    p_region_id,
+    p_profile_id,
+    v_region.owner_id,
+    v_reason,
+    now() + make_interval(hours => economy_setting('contest_duration_hours', 48)::INTEGER)
+  )
+  ON CONFLICT (region_id, challenger_id) WHERE status = 'open' DO NOTHING
+  RETURNING id INTO v_contest_id;
+
+  IF v_contest_id IS NOT NULL THEN
+    PERFORM notify(p_profile_id, 'contest_opened', 'Contest opened',
+      format('You are challenging "%s". Out-run the owner inside it before the timer ends.', v_region.name),
+      jsonb_build_object('contestId', v_contest_id, 'regionId', p_region_id));
+    PERFORM notify(v_region.owner_id, 'contest_opened', 'Your zone is under attack',
+      format('A rival is contesting "%s". Run inside it to defend it.', v_region.name),
+      jsonb_build_object('contestId', v_contest_id, 'regionId', p_region_id));
+  END IF;
+
+  RETURN v_contest_id;
+END;
+$$;
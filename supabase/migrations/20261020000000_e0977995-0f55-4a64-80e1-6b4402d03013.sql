@@ -0,0 +1,548 @@
+-- Server-side run verdicts
+-- The anti-cheat verdict used to be whatever the client saved with the run. Runs
+-- saved by a client now always start in 'review', and the server scores the
+-- stored route and point times itself as soon as the run is inserted: teleport
+-- jumps, vehicle-like constant speed, ruler-straight lines, repeated timestamps,
+-- impossible pace and replays of the runner's earlier routes. Only a run the
+-- server verified earns XP, counts towards zones or can claim one; new zones and
+-- overlap contests must name the verified run they came from.
+
+INSERT INTO public.economy_settings (key, value, description)
+VALUES
+  ('anti_cheat_review_score', 0.5, 'Anti-cheat score from which a run is held for review'),
+  ('anti_cheat_max_speed_mps', 14, 'Fastest a runner can move, in meters per second'),
+  ('zone_claim_route_tolerance_m', 30, 'How far outside the route of its run a claimed zone may reach, to allow for GPS error')
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE public.runs
+ALTER COLUMN verification_status SET DEFAULT 'review',
+ADD COLUMN IF NOT EXISTS assessed_at TIMESTAMP WITH TIME ZONE;
+
+-- Great-circle distance in meters between two points
+CREATE OR REPLACE FUNCTION public.point_distance_m(
+  p_lat1 DOUBLE PRECISION,
+  p_lng1 DOUBLE PRECISION,
+  p_lat2 DOUBLE PRECISION,
+  p_lng2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT 6371000 * 2 * asin(sqrt(
+    sin(radians(p_lat2 - p_lat1) / 2) ^ 2
+    + cos(radians(p_lat1)) * cos(radians(p_lat2)) * sin(radians(p_lng2 - p_lng1) / 2) ^ 2
+  ));
+$$;
+
+-- Anti-cheat findings for a GeoJSON route whose point times (epoch ms) ride along
+-- as a timestamps member; the same detectors and weights as src/lib/anti-cheat.ts
+CREATE OR REPLACE FUNCTION public.run_trace_reasons(p_route JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_coordinates JSONB := p_route->'coordinates';
+  v_timestamps JSONB := p_route->'timestamps';
+  v_max_speed DOUBLE PRECISION := economy_setting('anti_cheat_max_speed_mps', 14);
+  v_count INTEGER;
+  v_lat DOUBLE PRECISION[] := '{}';
+  v_lng DOUBLE PRECISION[] := '{}';
+  v_time DOUBLE PRECISION[] := '{}';
+  v_x DOUBLE PRECISION[] := '{}';
+  v_y DOUBLE PRECISION[] := '{}';
+  v_meters DOUBLE PRECISION[] := '{}';
+  v_seconds DOUBLE PRECISION[] := '{}';
+  v_speeds DOUBLE PRECISION[] := '{}';
+  v_speed_seconds DOUBLE PRECISION[] := '{}';
+  v_reasons JSONB := '[]'::jsonb;
+  v_jumps INTEGER := 0;
+  v_fastest DOUBLE PRECISION := 0;
+  v_duplicates INTEGER := 0;
+  v_total_m DOUBLE PRECISION := 0;
+  v_total_s DOUBLE PRECISION;
+  v_speed DOUBLE PRECISION;
+  v_start INTEGER;
+  v_end INTEGER;
+  v_window INTEGER;
+  v_sum DOUBLE PRECISION;
+  v_sum_squares DOUBLE PRECISION;
+  v_window_s DOUBLE PRECISION;
+  v_mean DOUBLE PRECISION;
+  v_variation DOUBLE PRECISION;
+  v_longest_s DOUBLE PRECISION := 0;
+  v_longest_speed DOUBLE PRECISION := 0;
+  v_chord DOUBLE PRECISION;
+  v_deviation DOUBLE PRECISION;
+  v_straight_m DOUBLE PRECISION := 0;
+  v_ratio DOUBLE PRECISION;
+BEGIN
+  IF v_coordinates IS NULL OR jsonb_typeof(v_coordinates) <> 'array' OR jsonb_array_length(v_coordinates) < 2 THEN
+    RETURN v_reasons;
+  END IF;
+
+  v_count := jsonb_array_length(v_coordinates);
+
+  -- Without point times none of the speed checks can clear the run
+  IF v_timestamps IS NULL OR jsonb_typeof(v_timestamps) <> 'array' OR jsonb_array_length(v_timestamps) <> v_count THEN
+    RETURN jsonb_build_array(jsonb_build_object(
+      'code', 'missing_timestamps',
+      'message', 'The route has no point times to check',
+      'weight', 0.5
+    ));
+  END IF;
+
+  FOR i IN 0 .. v_count - 1 LOOP
+    v_lng := v_lng || (v_coordinates->i->>0)::DOUBLE PRECISION;
+    v_lat := v_lat || (v_coordinates->i->>1)::DOUBLE PRECISION;
+    v_time := v_time || (v_timestamps->>i)::DOUBLE PRECISION / 1000;
+    -- Equirectangular projection, accurate enough over the span of a run
+    v_x := v_x || (v_lng[i + 1] - v_lng[1]) * 111320 * cos(radians(v_lat[1]));
+    v_y := v_y || (v_lat[i + 1] - v_lat[1]) * 110540;
+  END LOOP;
+
+  FOR i IN 2 .. v_count LOOP
+    v_meters := v_meters || point_distance_m(v_lat[i - 1], v_lng[i - 1], v_lat[i], v_lng[i]);
+    v_seconds := v_seconds || (v_time[i] - v_time[i - 1]);
+    v_total_m := v_total_m + v_meters[i - 1];
+
+    IF v_seconds[i - 1] > 0 THEN
+      v_speeds := v_speeds || v_meters[i - 1] / v_seconds[i - 1];
+      v_speed_seconds := v_speed_seconds || v_seconds[i - 1];
+    ELSIF v_seconds[i - 1] = 0 THEN
+      v_duplicates := v_duplicates + 1;
+    END IF;
+
+    -- Large jumps between consecutive samples that no runner could cover
+    IF v_meters[i - 1] >= 50 AND (v_seconds[i - 1] <= 0 OR v_meters[i - 1] / v_seconds[i - 1] > v_max_speed * 1.5) THEN
+      v_jumps := v_jumps + 1;
+      v_fastest := GREATEST(v_fastest, CASE WHEN v_seconds[i - 1] > 0 THEN v_meters[i - 1] / v_seconds[i - 1] ELSE 'Infinity' END);
+    END IF;
+  END LOOP;
+
+  IF v_jumps > 0 THEN
+    v_reasons := v_reasons || jsonb_build_object(
+      'code', 'teleport',
+      'message', CASE WHEN v_fastest < 'Infinity'
+        THEN format('%s position jump%s up to %s m/s', v_jumps, CASE WHEN v_jumps > 1 THEN 's' ELSE '' END, round(v_fastest::NUMERIC, 1))
+        ELSE format('%s position jump%s with no elapsed time', v_jumps, CASE WHEN v_jumps > 1 THEN 's' ELSE '' END)
+      END,
+      'weight', LEAST(0.9, 0.35 + 0.15 * (v_jumps - 1))
+    );
+  END IF;
+
+  -- Long stretches held at an almost perfectly steady speed, like cruise control
+  v_start := 1;
+  WHILE v_start <= COALESCE(array_length(v_speeds, 1), 0) LOOP
+    v_end := v_start;
+    v_sum := 0;
+    v_sum_squares := 0;
+    v_window_s := 0;
+
+    WHILE v_end <= array_length(v_speeds, 1) LOOP
+      v_speed := v_speeds[v_end];
+      v_window := v_end - v_start + 1;
+      v_mean := (v_sum + v_speed) / v_window;
+      v_variation := CASE WHEN v_mean > 0
+        THEN sqrt(GREATEST(0, (v_sum_squares + v_speed ^ 2) / v_window - v_mean ^ 2)) / v_mean
+        ELSE 'Infinity'
+      END;
+      EXIT WHEN v_window > 1 AND v_variation > 0.03;
+
+      v_sum := v_sum + v_speed;
+      v_sum_squares := v_sum_squares + v_speed ^ 2;
+      v_window_s := v_window_s + v_speed_seconds[v_end];
+      v_end := v_end + 1;
+    END LOOP;
+
+    v_mean := v_sum / GREATEST(1, v_end - v_start);
+    IF v_window_s > v_longest_s AND v_mean >= 1.5 THEN
+      v_longest_s := v_window_s;
+      v_longest_speed := v_mean;
+    END IF;
+
+    v_start := GREATEST(v_start + 1, v_end);
+  END LOOP;
+
+  IF v_longest_s >= 60 THEN
+    v_reasons := v_reasons || jsonb_build_object(
+      'code', 'vehicle_speed',
+      'message', format('Held %s km/h with almost no variation for %ss', round((v_longest_speed * 3.6)::NUMERIC, 1), round(v_longest_s)),
+      'weight', CASE WHEN v_longest_speed > 6.5 THEN 0.7 ELSE 0.4 END
+    );
+  END IF;
+
+  -- Segments that follow a ruler-straight line, which real GPS noise never produces
+  v_start := 1;
+  WHILE v_start <= v_count - 9 LOOP
+    v_end := v_start + 2;
+
+    LOOP
+      EXIT WHEN v_end > v_count;
+      v_chord := sqrt((v_x[v_end] - v_x[v_start]) ^ 2 + (v_y[v_end] - v_y[v_start]) ^ 2);
+      EXIT WHEN v_chord = 0;
+
+      v_deviation := 0;
+      FOR i IN v_start + 1 .. v_end - 1 LOOP
+        v_deviation := GREATEST(v_deviation, abs(
+          (v_x[v_end] - v_x[v_start]) * (v_y[v_start] - v_y[i]) - (v_x[v_start] - v_x[i]) * (v_y[v_end] - v_y[v_start])
+        ) / v_chord);
+      END LOOP;
+      EXIT WHEN v_deviation > 0.5;
+
+      v_end := v_end + 1;
+    END LOOP;
+
+    v_end := v_end - 1;
+    v_chord := sqrt((v_x[v_end] - v_x[v_start]) ^ 2 + (v_y[v_end] - v_y[v_start]) ^ 2);
+
+    IF v_end - v_start + 1 >= 10 AND v_chord >= 200 THEN
+      v_straight_m := v_straight_m + v_chord;
+      v_start := v_end;
+    ELSE
+      v_start := v_start + 1;
+    END IF;
+  END LOOP;
+
+  IF v_straight_m > 0 THEN
+    v_reasons := v_reasons || jsonb_build_object(
+      'code', 'synthetic_line',
+      'message', format('%sm of the route is a perfectly straight line', round(v_straight_m)),
+      'weight', LEAST(0.8, 0.3 + CASE WHEN v_total_m > 0 THEN LEAST(1, v_straight_m / v_total_m) ELSE 1 END * 0.5)
+    );
+  END IF;
+
+  -- Several samples sharing one timestamp point to a generated or edited file
+  v_ratio := v_duplicates::DOUBLE PRECISION / (v_count - 1);
+  IF v_duplicates >= 3 AND v_ratio >= 0.1 THEN
+    v_reasons := v_reasons || jsonb_build_object(
+      'code', 'duplicate_timestamps',
+      'message', format('%s samples repeat the previous timestamp', v_duplicates),
+      'weight', LEAST(0.8, 0.3 + v_ratio)
+    );
+  END IF;
+
+  -- Overall pace beyond what a runner can reach
+  v_total_s := v_time[v_count] - v_time[1];
+  IF v_total_s > 0 AND v_total_m / v_total_s > v_max_speed THEN
+    v_reasons := v_reasons || jsonb_build_object(
+      'code', 'impossible_speed',
+      'message', format('Average speed %s m/s exceeds maximum', round((v_total_m / v_total_s)::NUMERIC, 1)),
+      'weight', 0.8
+    );
+  ELSIF (SELECT max(s) FROM unnest(v_speeds) s) > v_max_speed * 1.2 THEN
+    v_reasons := v_reasons || jsonb_build_object(
+      'code', 'impossible_speed',
+      'message', format('Max speed %s m/s is impossible', round((SELECT max(s) FROM unnest(v_speeds) s)::NUMERIC, 1)),
+      'weight', 0.3
+    );
+  END IF;
+
+  RETURN v_reasons;
+END;
+$$;
+
+-- Score a run from its stored route and record the verdict; a run that was already
+-- assessed or signed off by a reviewer keeps its verdict
+CREATE OR REPLACE FUNCTION public.assess_run(p_run_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_run runs%ROWTYPE;
+  v_reasons JSONB;
+  v_length DOUBLE PRECISION;
+  v_replay_m DOUBLE PRECISION;
+  v_score NUMERIC;
+  v_status TEXT;
+BEGIN
+  SELECT * INTO v_run FROM runs WHERE id = p_run_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Run not found';
+  END IF;
+
+  IF v_run.assessed_at IS NOT NULL OR v_run.reviewed_at IS NOT NULL THEN
+    RETURN jsonb_build_object('status', v_run.verification_status, 'score', v_run.anti_cheat_score, 'reasons', v_run.anti_cheat_reasons);
+  END IF;
+
+  v_reasons := run_trace_reasons(v_run.route);
+
+  -- The same recording submitted again lines up with an earlier run almost exactly:
+  -- same start, same length, and on average within 1.5 m of it every 10 m
+  v_length := ST_Length(v_run.route_geom::geography);
+  IF v_length >= 200 THEN
+    SELECT min((
+      SELECT avg(ST_Distance(d.geom::geography, earlier.route_geom::geography))
+      FROM ST_DumpPoints(ST_LineInterpolatePoints(v_run.route_geom, LEAST(1, 10 / v_length))) d
+    ))
+    INTO v_replay_m
+    FROM (
+      SELECT r.route_geom
+      FROM runs r
+      WHERE r.user_email = v_run.user_email
+      AND r.id <> v_run.id
+      AND r.created_at <= v_run.created_at
+      AND r.route_geom IS NOT NULL
+      AND ST_DWithin(ST_StartPoint(r.route_geom)::geography, ST_StartPoint(v_run.route_geom)::geography, 20)
+      AND abs(ST_Length(r.route_geom::geography) - v_length) <= v_length * 0.1
+      ORDER BY r.created_at DESC
+      LIMIT 20
+    ) earlier;
+
+    IF v_replay_m <= 1.5 THEN
+      v_reasons := v_reasons || jsonb_build_object(
+        'code', 'replayed_trace',
+        'message', format('Route matches an earlier run within %sm on average', round(v_replay_m::NUMERIC, 1)),
+        'weight', 0.9
+      );
+    END IF;
+  END IF;
+
+  -- Independent signals reinforce each other without ever exceeding 1
+  SELECT round((1 - COALESCE(exp(sum(ln(1 - (reason->>'weight')::NUMERIC))), 1))::NUMERIC, 2),
+    COALESCE(jsonb_agg(reason ORDER BY (reason->>'weight')::NUMERIC DESC), '[]'::jsonb)
+  INTO v_score, v_reasons
+  FROM jsonb_array_elements(v_reasons) reason;
+
+  v_status := CASE WHEN v_score >= economy_setting('anti_cheat_review_score', 0.5) THEN 'review' ELSE 'verified' END;
+
+  PERFORM set_config('strun.run_verdict', 'on', true);
+
+  UPDATE runs
+  SET verification_status = v_status,
+      anti_cheat_score = v_score,
+      anti_cheat_reasons = v_reasons,
+      assessed_at = now()
+  WHERE id = p_run_id;
+
+  PERFORM set_config('strun.run_verdict', 'off', true);
+
+  RETURN jsonb_build_object('status', v_status, 'score', v_score, 'reasons', v_reasons);
+END;
+$$;
+
+-- Owners may update their runs (e.g. nft_minted) but only the server or a reviewer
+-- sets the verdict
+CREATE OR REPLACE FUNCTION public.guard_run_verification()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF COALESCE(current_setting('strun.run_verdict', true), '') <> 'on' AND (
+    NEW.verification_status IS DISTINCT FROM OLD.verification_status
+    OR NEW.anti_cheat_score IS DISTINCT FROM OLD.anti_cheat_score
+    OR NEW.anti_cheat_reasons IS DISTINCT FROM OLD.anti_cheat_reasons
+    OR NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at
+    OR NEW.assessed_at IS DISTINCT FROM OLD.assessed_at
+  ) THEN
+    RAISE EXCEPTION 'Run verification can only be changed by a reviewer';
+  END IF;
+
+  IF NEW.source IS DISTINCT FROM OLD.source
+    OR NEW.recorded_at IS DISTINCT FROM OLD.recorded_at
+    OR NEW.import_hash IS DISTINCT FROM OLD.import_hash
+    OR NEW.route IS DISTINCT FROM OLD.route THEN
+    RAISE EXCEPTION 'A saved run cannot be altered';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Whatever verdict a client sends is discarded; the run waits for the server's
+CREATE OR REPLACE FUNCTION public.guard_new_run_verification()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    NEW.verification_status := 'review';
+    NEW.anti_cheat_score := NULL;
+    NEW.anti_cheat_reasons := '[]'::jsonb;
+    NEW.reviewed_at := NULL;
+    NEW.assessed_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Score every new run that is waiting for a verdict
+CREATE OR REPLACE FUNCTION public.assess_new_run()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.verification_status = 'review' AND NEW.assessed_at IS NULL AND NEW.reviewed_at IS NULL THEN
+    BEGIN
+      PERFORM assess_run(NEW.id);
+    EXCEPTION WHEN OTHERS THEN
+      -- A route the checks cannot read stays held for a reviewer
+      RAISE WARNING 'Run % could not be assessed: %', NEW.id, SQLERRM;
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assess_new_run ON public.runs;
+CREATE TRIGGER assess_new_run
+  AFTER INSERT ON public.runs
+  FOR EACH ROW EXECUTE FUNCTION public.assess_new_run();
+
+-- Zones come from verified runs
+
+ALTER TABLE public.regions
+ADD COLUMN IF NOT EXISTS run_id UUID REFERENCES public.runs(id) ON DELETE SET NULL;
+
+-- One zone per run
+CREATE UNIQUE INDEX IF NOT EXISTS idx_regions_run_id ON public.regions(run_id) WHERE run_id IS NOT NULL;
+
+-- Raise unless the run is the profile's own verified recorded run and its route
+-- reaches around the zone
+CREATE OR REPLACE FUNCTION public.require_claim_run(p_profile_id UUID, p_run_id UUID, p_zone extensions.geometry)
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_run runs%ROWTYPE;
+BEGIN
+  SELECT r.* INTO v_run
+  FROM runs r
+  JOIN profiles p ON p.email = r.user_email
+  WHERE r.id = p_run_id AND p.id = p_profile_id;
+
+  IF v_run.id IS NULL THEN
+    RAISE EXCEPTION 'A zone must be claimed with one of your runs';
+  END IF;
+
+  IF v_run.verification_status <> 'verified' OR v_run.source <> 'recorded' THEN
+    RAISE EXCEPTION 'Only verified recorded runs can claim zones';
+  END IF;
+
+  IF p_zone IS NULL OR v_run.route_geom IS NULL OR NOT ST_Covers(
+    ST_Buffer(ST_Envelope(v_run.route_geom)::geography, economy_setting('zone_claim_route_tolerance_m', 30))::geometry,
+    p_zone
+  ) THEN
+    RAISE EXCEPTION 'The zone lies outside the route of its run';
+  END IF;
+END;
+$$;
+
+-- Regions split by the server (contest transfers) set strun.zone_split to skip the
+-- check, as do zones inserted with the service role
+CREATE OR REPLACE FUNCTION public.check_region_run()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR COALESCE(current_setting('strun.zone_split', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM require_claim_run(NEW.owner_id, NEW.run_id, region_geometry(NEW.coordinates));
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_region_run ON public.regions;
+CREATE TRIGGER check_region_run
+  BEFORE INSERT ON public.regions
+  FOR EACH ROW EXECUTE FUNCTION public.check_region_run();
+
+-- Overlap contests must be splittable when they resolve and come from a verified run
+CREATE OR REPLACE FUNCTION public.open_zone_contest(p_profile_id UUID, p_region_id TEXT, p_claim JSONB, p_overlap_area NUMERIC)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_region regions%ROWTYPE;
+  v_run_id UUID;
+  v_contest_id UUID;
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  SELECT * INTO v_region
+  FROM regions
+  WHERE id = p_region_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Zone not found';
+  END IF;
+
+  IF v_region.owner_id = p_profile_id THEN
+    RAISE EXCEPTION 'You cannot contest your own zone';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM profiles WHERE id = p_profile_id AND xp_debt > 0) THEN
+    RAISE EXCEPTION 'Repay your XP debt before contesting zones';
+  END IF;
+
+  IF zone_claim_geometry(p_claim) IS NULL
+    OR NOT ST_Intersects(v_region.geom, zone_claim_geometry(p_claim)) THEN
+    RAISE EXCEPTION 'The claim does not overlap this zone';
+  END IF;
+
+  SELECT r.id INTO v_run_id
+  FROM runs r
+  JOIN profiles p ON p.email = r.user_email
+  WHERE p.id = p_profile_id AND r.client_run_id = p_claim->>'clientRunId';
+
+  PERFORM require_claim_run(p_profile_id, v_run_id, zone_claim_geometry(p_claim));
+
+  IF NOT (SELECT splittable FROM contest_remainder(v_region.geom, p_claim)) THEN
+    RAISE EXCEPTION 'This claim lies inside "%" and cannot be split from it; run loops around the zone to contest all of it', v_region.name;
+  END IF;
+
+  -- Reopening an existing contest returns it instead of failing
+  SELECT id INTO v_contest_id
+  FROM zone_contests
+  WHERE region_id = p_region_id AND challenger_id = p_profile_id AND status = 'open';
+
+  IF v_contest_id IS NOT NULL THEN
+    RETURN v_contest_id;
+  END IF;
+
+  INSERT INTO zone_contests (region_id, challenger_id, defender_id, claim, overlap_area, resolves_at)
+  VALUES (
+    p_region_id,
+    p_profile_id,
+    v_region.owner_id,
+    COALESCE(p_claim, '{}'::jsonb),
+    p_overlap_area,
+    now() + make_interval(hours => economy_setting('contest_duration_hours', 48)::INTEGER)
+  )
+  RETURNING id INTO v_contest_id;
+
+  RETURN v_contest_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.run_trace_reasons(JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.assess_run(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.assess_new_run() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.require_claim_run(UUID, UUID, extensions.geometry) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.check_region_run() FROM PUBLIC, anon, authenticated;
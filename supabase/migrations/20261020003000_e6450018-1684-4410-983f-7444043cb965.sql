@@ -0,0 +1,107 @@
+-- Server-side run XP
+-- Live runs used to be credited whatever XP the app worked out for them. The app
+-- now only names the saved run; the server reads its verdict, distance and real
+-- duration from the stored route and pays through award_profile_xp, so the daily
+-- cap and the one-award-per-run rule apply as they do to every other earning.
+
+INSERT INTO public.economy_settings (key, value, description)
+VALUES ('run_xp_per_km', 1, 'XP per kilometer of a verified recorded run')
+ON CONFLICT (key) DO NOTHING;
+
+-- XP a run earns before the daily cap: a rate per kilometer, bonuses at 10 and
+-- 20 km, and 5 more for holding a steady 8-15 km/h
+CREATE OR REPLACE FUNCTION public.run_xp(p_route JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_km NUMERIC := route_length_m(p_route) / 1000;
+  v_hours NUMERIC;
+  v_xp INTEGER;
+BEGIN
+  v_xp := FLOOR(v_km * economy_setting('run_xp_per_km', 1))::INTEGER;
+
+  IF v_km >= 10 THEN
+    v_xp := v_xp + 10;
+  END IF;
+
+  IF v_km >= 20 THEN
+    v_xp := v_xp + 20;
+  END IF;
+
+  IF jsonb_typeof(p_route->'timestamps') = 'array' AND jsonb_array_length(p_route->'timestamps') > 1 THEN
+    v_hours := ((p_route->'timestamps'->>-1)::NUMERIC - (p_route->'timestamps'->>0)::NUMERIC) / 1000 / 3600;
+
+    IF v_hours > 0 AND v_km / v_hours BETWEEN 8 AND 15 THEN
+      v_xp := v_xp + 5;
+    END IF;
+  END IF;
+
+  RETURN v_xp;
+END;
+$$;
+
+-- Credit the caller's own recorded run once it has a verdict; runs held for review
+-- earn nothing until a reviewer signs them off
+CREATE OR REPLACE FUNCTION public.award_run_xp(p_run_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run runs%ROWTYPE;
+  v_profile_id UUID;
+  v_verdict JSONB;
+  v_requested INTEGER;
+  v_award JSONB;
+BEGIN
+  SELECT * INTO v_run FROM runs WHERE id = p_run_id;
+
+  IF v_run.id IS NULL OR v_run.user_email IS DISTINCT FROM (auth.jwt() ->> 'email') THEN
+    RAISE EXCEPTION 'Run not found';
+  END IF;
+
+  IF v_run.source <> 'recorded' THEN
+    RAISE EXCEPTION 'Only recorded runs are awarded here';
+  END IF;
+
+  SELECT id INTO v_profile_id FROM profiles WHERE user_id = auth.uid();
+
+  IF v_profile_id IS NULL THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  -- Runs are scored on insert; this only catches one the trigger could not score
+  v_verdict := assess_run(p_run_id);
+  v_requested := run_xp(v_run.route);
+
+  IF v_verdict->>'status' <> 'verified' THEN
+    RETURN jsonb_build_object(
+      'requested', v_requested,
+      'awarded', 0,
+      'capped', false,
+      'reason', 'review',
+      'verification', v_verdict,
+      'balance', (SELECT xp FROM profiles WHERE id = v_profile_id)
+    );
+  END IF;
+
+  v_award := award_profile_xp(
+    v_profile_id,
+    v_requested,
+    'run',
+    'Completed ' || round(route_length_m(v_run.route) / 1000, 2) || 'km run',
+    jsonb_build_object('idempotencyKey', 'run:' || p_run_id, 'runId', p_run_id)
+  );
+
+  RETURN v_award || jsonb_build_object(
+    'reason', CASE WHEN (v_award->>'capped')::BOOLEAN THEN 'daily_limit' END,
+    'verification', v_verdict
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.run_xp(JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,58 @@
+-- Zone XP on the server
+-- award_xp let any signed-in client credit itself XP under most earning types.
+-- Clients can no longer call it: run XP comes from award_run_xp, and the zone XP
+-- and first-zone bonus the app used to request after a claim are now paid when the
+-- region is inserted, which check_region_run only allows for a verified run.
+
+INSERT INTO public.economy_settings (key, value, description)
+VALUES
+  ('zone_creation_xp', 10, 'XP for claiming a new zone'),
+  ('first_zone_bonus_xp', 50, 'One-off XP bonus for claiming a first zone')
+ON CONFLICT (key) DO NOTHING;
+
+-- Land moved by contest resolution (strun.zone_split) is not a new claim
+CREATE OR REPLACE FUNCTION public.award_zone_xp()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.owner_id IS NULL OR COALESCE(current_setting('strun.zone_split', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM award_profile_xp(
+    NEW.owner_id,
+    economy_setting('zone_creation_xp', 10)::INTEGER,
+    'zone',
+    'Created zone: ' || NEW.name,
+    jsonb_build_object('idempotencyKey', 'zone:' || NEW.id, 'regionId', NEW.id)
+  );
+
+  IF NOT EXISTS (SELECT 1 FROM regions WHERE owner_id = NEW.owner_id AND id <> NEW.id) THEN
+    PERFORM award_profile_xp(
+      NEW.owner_id,
+      economy_setting('first_zone_bonus_xp', 50)::INTEGER,
+      'bonus',
+      'First zone bonus!',
+      jsonb_build_object('idempotencyKey', 'first-zone:' || NEW.owner_id, 'regionId', NEW.id)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS award_zone_xp ON public.regions;
+CREATE TRIGGER award_zone_xp
+  AFTER INSERT ON public.regions
+  FOR EACH ROW EXECUTE FUNCTION public.award_zone_xp();
+
+REVOKE EXECUTE ON FUNCTION public.award_zone_xp() FROM PUBLIC, anon, authenticated;
+
+-- Awards are only made by the server-side functions that own each earning
+REVOKE EXECUTE ON FUNCTION public.award_xp(UUID, INTEGER, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- The ledger is only posted to from SECURITY DEFINER functions
+REVOKE ALL ON FUNCTION public.post_xp_entry(UUID, UUID, INTEGER, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,416 @@
+-- Daily cap on every earning type
+-- The daily cap used to cover run, zone, import and lobby XP only, so challenge
+-- rewards and bonuses could be stacked on top of it. Every credit from the system
+-- account now counts towards the cap, and award_profile_xp caps every type except
+-- the ones listed in uncapped_xp_types. Those may only be paid by server functions
+-- that set strun.uncapped_xp for the duration of the award.
+
+UPDATE public.economy_settings
+SET description = 'Maximum XP a user can earn per local day, referral bonuses excepted'
+WHERE key = 'max_daily_earnings';
+
+-- Earnings paid in full regardless of the daily cap: both sides of a referral,
+-- which are fixed amounts paid once per referred account
+CREATE OR REPLACE FUNCTION public.uncapped_xp_types()
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ARRAY['referral'];
+$$;
+
+CREATE OR REPLACE FUNCTION public.daily_earnings_window(p_profile_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_timezone TEXT;
+  v_window_start TIMESTAMPTZ;
+  v_limit INTEGER := economy_setting('max_daily_earnings', 100)::INTEGER;
+  v_earned INTEGER;
+BEGIN
+  SELECT safe_timezone(timezone) INTO v_timezone FROM profiles WHERE id = p_profile_id;
+
+  IF v_timezone IS NULL THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  v_window_start := date_trunc('day', now() AT TIME ZONE v_timezone) AT TIME ZONE v_timezone;
+
+  -- Everything issued by the system; transfers such as rent are not earnings
+  SELECT COALESCE(SUM(amount), 0) INTO v_earned
+  FROM xp_transactions
+  WHERE user_id = p_profile_id
+  AND counterparty_id = xp_system_account()
+  AND amount > 0
+  AND type <> ALL(uncapped_xp_types())
+  AND created_at >= v_window_start;
+
+  RETURN jsonb_build_object(
+    'limit', v_limit,
+    'earned_today', v_earned,
+    'remaining', GREATEST(0, v_limit - v_earned),
+    'timezone', v_timezone,
+    'window_start', v_window_start,
+    'resets_at', v_window_start + interval '1 day'
+  );
+END;
+$$;
+
+-- Credit XP to a profile under the daily cap, replaying an award whose
+-- idempotencyKey was already credited
+CREATE OR REPLACE FUNCTION public.award_profile_xp(p_profile_id UUID, p_amount INTEGER, p_type TEXT, p_description TEXT, p_metadata JSONB DEFAULT '{}'::jsonb)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id UUID;
+  v_window JSONB;
+  v_awarded INTEGER := p_amount;
+  v_capped BOOLEAN := p_type <> ALL(uncapped_xp_types());
+  v_previous xp_transactions%ROWTYPE;
+BEGIN
+  IF NOT v_capped AND COALESCE(current_setting('strun.uncapped_xp', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'XP of type % can only be awarded by the server', p_type;
+  END IF;
+
+  -- Serialize concurrent awards
+  PERFORM 1 FROM profiles WHERE id = p_profile_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  IF p_metadata ? 'idempotencyKey' THEN
+    SELECT * INTO v_previous
+    FROM xp_transactions
+    WHERE user_id = p_profile_id
+    AND type = p_type
+    AND amount > 0
+    AND metadata->>'idempotencyKey' = p_metadata->>'idempotencyKey'
+    LIMIT 1;
+
+    IF v_previous.id IS NOT NULL THEN
+      IF v_capped THEN
+        v_window := daily_earnings_window(p_profile_id);
+      END IF;
+
+      RETURN jsonb_build_object(
+        'entry_id', v_previous.entry_id,
+        'requested', p_amount,
+        'awarded', v_previous.amount,
+        'capped', v_previous.amount < p_amount,
+        'remaining', v_window->'remaining',
+        'resets_at', v_window->'resets_at',
+        'balance', (SELECT xp FROM profiles WHERE id = p_profile_id),
+        'duplicate', true
+      );
+    END IF;
+  END IF;
+
+  IF v_capped THEN
+    v_window := daily_earnings_window(p_profile_id);
+    v_awarded := LEAST(p_amount, (v_window->>'remaining')::INTEGER);
+  END IF;
+
+  IF v_awarded > 0 THEN
+    v_entry_id := post_xp_entry(
+      xp_system_account(),
+      p_profile_id,
+      v_awarded,
+      p_type,
+      p_description,
+      CASE WHEN v_awarded < p_amount
+        THEN COALESCE(p_metadata, '{}'::jsonb) || jsonb_build_object('requested', p_amount, 'capped', true)
+        ELSE p_metadata
+      END
+    );
+
+    PERFORM garnish_xp_debt(p_profile_id, v_awarded, v_entry_id);
+  END IF;
+
+  IF v_window IS NOT NULL THEN
+    v_window := daily_earnings_window(p_profile_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'entry_id', v_entry_id,
+    'requested', p_amount,
+    'awarded', GREATEST(v_awarded, 0),
+    'capped', v_awarded < p_amount,
+    'remaining', v_window->'remaining',
+    'resets_at', v_window->'resets_at',
+    'balance', (SELECT xp FROM profiles WHERE id = p_profile_id)
+  );
+END;
+$$;
+
+-- Service-role awards; uncapped types are rejected by award_profile_xp
+CREATE OR REPLACE FUNCTION public.award_xp(p_user_id uuid, p_amount integer, p_type text, p_description text, p_metadata jsonb DEFAULT '{}'::jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_profile_id UUID;
+BEGIN
+  -- Callers may only award themselves; the service role has no auth.uid()
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Not authorized to award XP to this user';
+  END IF;
+
+  SELECT id INTO v_profile_id
+  FROM profiles
+  WHERE user_id = p_user_id;
+
+  IF v_profile_id IS NULL THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  -- Award XP only for valid transaction types
+  IF p_type NOT IN ('run', 'zone', 'challenge', 'competition', 'bonus') THEN
+    RAISE EXCEPTION 'Invalid XP transaction type';
+  END IF;
+
+  RETURN award_profile_xp(v_profile_id, p_amount, p_type, p_description, p_metadata);
+END;
+$function$;
+
+-- Referral bonus, claimed by the new user; each user can only be referred once
+CREATE OR REPLACE FUNCTION public.process_referral_bonus(p_referrer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile_id UUID;
+BEGIN
+  SELECT id INTO v_profile_id FROM profiles WHERE user_id = auth.uid() FOR UPDATE;
+
+  IF v_profile_id IS NULL THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  IF v_profile_id = p_referrer_id THEN
+    RAISE EXCEPTION 'You cannot refer yourself';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM xp_transactions
+    WHERE type = 'referral'
+    AND metadata->>'referredUserId' = v_profile_id::text
+  ) THEN
+    RAISE EXCEPTION 'Referral bonus already applied';
+  END IF;
+
+  PERFORM set_config('strun.uncapped_xp', 'on', true);
+
+  PERFORM award_profile_xp(p_referrer_id, 500, 'referral',
+    'Referral bonus for inviting a new user', jsonb_build_object('referredUserId', v_profile_id));
+
+  PERFORM award_profile_xp(v_profile_id, 100, 'referral',
+    'Welcome bonus for using referral code', jsonb_build_object('referrerId', p_referrer_id));
+
+  PERFORM set_config('strun.uncapped_xp', 'off', true);
+
+  UPDATE profiles
+  SET referral_count = COALESCE(referral_count, 0) + 1,
+      referral_xp_earned = COALESCE(referral_xp_earned, 0) + 500
+  WHERE id = p_referrer_id;
+
+  UPDATE profiles
+  SET referred_by = COALESCE(referred_by, p_referrer_id)
+  WHERE id = v_profile_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  referral_code_val TEXT;
+  ref_code TEXT;
+  referrer_profile_id UUID;
+  new_profile_id UUID;
+BEGIN
+  -- Check if profile already exists to prevent duplicates
+  IF EXISTS (SELECT 1 FROM public.profiles WHERE user_id = NEW.id) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Generate unique referral code
+  referral_code_val := UPPER(SUBSTRING(MD5(RANDOM()::TEXT || NOW()::TEXT), 1, 8));
+
+  -- Get referral code from metadata if exists
+  ref_code := NEW.raw_user_meta_data->>'referral_code';
+
+  -- Find referrer if code provided
+  IF ref_code IS NOT NULL THEN
+    SELECT id INTO referrer_profile_id FROM public.profiles WHERE referral_code = ref_code;
+  END IF;
+
+  -- Insert profile with error handling
+  BEGIN
+    INSERT INTO public.profiles (
+      user_id,
+      email,
+      username,
+      referral_code,
+      referred_by,
+      level,
+      xp,
+      total_runs,
+      total_distance,
+      total_area,
+      referral_count,
+      referral_xp_earned
+    )
+    VALUES (
+      NEW.id,
+      NEW.email,
+      COALESCE(NEW.raw_user_meta_data->>'username', SPLIT_PART(NEW.email, '@', 1)),
+      referral_code_val,
+      referrer_profile_id,
+      1,
+      0,
+      0,
+      0,
+      0,
+      0,
+      0
+    )
+    RETURNING id INTO new_profile_id;
+  EXCEPTION
+    WHEN unique_violation THEN
+      -- Profile already exists, ignore
+      RETURN NEW;
+    WHEN OTHERS THEN
+      -- Log error but don't block user creation
+      RAISE WARNING 'Failed to create profile for user %: %', NEW.id, SQLERRM;
+      RETURN NEW;
+  END;
+
+  -- If referred, credit both sides through the ledger (non-blocking)
+  IF referrer_profile_id IS NOT NULL THEN
+    BEGIN
+      PERFORM set_config('strun.uncapped_xp', 'on', true);
+
+      PERFORM public.award_profile_xp(referrer_profile_id, 500, 'referral',
+        'Referral bonus', jsonb_build_object('referredUserId', new_profile_id));
+
+      PERFORM public.award_profile_xp(new_profile_id, 100, 'referral',
+        'Welcome bonus for using referral code', jsonb_build_object('referrerId', referrer_profile_id));
+
+      PERFORM set_config('strun.uncapped_xp', 'off', true);
+
+      UPDATE public.profiles
+      SET referral_count = referral_count + 1,
+          referral_xp_earned = referral_xp_earned + 500
+      WHERE id = referrer_profile_id;
+    EXCEPTION
+      WHEN OTHERS THEN
+        -- Don't block on referral updates
+        NULL;
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Challenge rewards count towards the daily cap; completion still happens once
+CREATE OR REPLACE FUNCTION public.record_challenge_event(p_profile_id UUID, p_category TEXT, p_metric TEXT, p_amount NUMERIC)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_challenge RECORD;
+  v_progress user_challenges%ROWTYPE;
+  v_xp INTEGER;
+  v_completed INTEGER := 0;
+BEGIN
+  IF p_profile_id IS NULL OR COALESCE(round(p_amount), 0) <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_challenge IN
+    SELECT c.*, cc.period_start
+    FROM current_challenges() cc
+    JOIN challenges c ON c.id = cc.challenge_id
+    WHERE c.category = p_category AND c.metric = p_metric
+  LOOP
+    INSERT INTO user_challenges (user_id, challenge_id, period_start, progress)
+    VALUES (p_profile_id, v_challenge.id, v_challenge.period_start, 0)
+    ON CONFLICT (user_id, challenge_id, period_start) DO NOTHING;
+
+    -- The row lock makes completion, and so the reward, happen exactly once
+    UPDATE user_challenges
+    SET progress = LEAST(v_challenge.max_progress, COALESCE(progress, 0) + round(p_amount)::INTEGER),
+        updated_at = now()
+    WHERE user_id = p_profile_id
+    AND challenge_id = v_challenge.id
+    AND period_start IS NOT DISTINCT FROM v_challenge.period_start
+    AND NOT COALESCE(completed, false)
+    RETURNING * INTO v_progress;
+
+    IF FOUND AND v_progress.progress >= v_challenge.max_progress THEN
+      v_xp := 0;
+      IF v_challenge.xp_reward > 0 THEN
+        v_xp := (award_profile_xp(p_profile_id, v_challenge.xp_reward, 'challenge',
+          format('Challenge "%s" completed', v_challenge.title),
+          jsonb_build_object(
+            'challengeId', v_challenge.id,
+            'periodStart', v_challenge.period_start,
+            'idempotencyKey', 'challenge:' || v_challenge.id || ':' || COALESCE(v_challenge.period_start::TEXT, 'once')
+          ))->>'awarded')::INTEGER;
+      END IF;
+
+      UPDATE user_challenges
+      SET completed = true, completed_at = now(), xp_awarded = v_xp
+      WHERE id = v_progress.id;
+
+      PERFORM notify(p_profile_id, 'challenge_completed', 'Challenge completed',
+        format('"%s" done: +%s XP', v_challenge.title, v_xp),
+        jsonb_build_object('challengeId', v_challenge.id, 'xp', v_xp));
+
+      v_completed := v_completed + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_completed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.uncapped_xp_types() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.award_xp(UUID, INTEGER, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Uncapped types must stay out of reach of clients: none of the functions that can
+-- award an arbitrary type may be callable by them
+DO $$
+DECLARE
+  v_function TEXT;
+BEGIN
+  FOREACH v_function IN ARRAY ARRAY[
+    'public.award_profile_xp(UUID, INTEGER, TEXT, TEXT, JSONB)',
+    'public.award_xp(UUID, INTEGER, TEXT, TEXT, JSONB)',
+    'public.post_xp_entry(UUID, UUID, INTEGER, TEXT, TEXT, JSONB)'
+  ] LOOP
+    IF has_function_privilege('anon', v_function, 'EXECUTE')
+      OR has_function_privilege('authenticated', v_function, 'EXECUTE') THEN
+      RAISE EXCEPTION '% must not be callable by clients', v_function;
+    END IF;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,81 @@
+-- Server-timed zone exits and verdict-gated zone refresh
+-- A visit's exit time came from the client, so a runner could backdate an exit to
+-- slip inside the rent grace period. The exit is now stamped with the server time;
+-- a queued exit may claim an earlier time only within zone_visit_exit_skew_s of
+-- when it arrives. Zone decay is only refreshed by runs the server has judged,
+-- never by a verdict a client wrote.
+
+INSERT INTO public.economy_settings (key, value, description)
+VALUES ('zone_visit_exit_skew_s', 300, 'How far before its arrival a queued zone exit may be dated, in seconds')
+ON CONFLICT (key) DO NOTHING;
+
+-- Close the runner's open visit to a zone; returns its id, or null when none was open
+CREATE OR REPLACE FUNCTION public.record_zone_exit(
+  p_profile_id UUID,
+  p_client_run_id TEXT,
+  p_region_id public.regions.id%TYPE,
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION,
+  p_exited_at TIMESTAMP WITH TIME ZONE,
+  p_run_distance_m NUMERIC
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_visit zone_visits;
+  v_earliest TIMESTAMP WITH TIME ZONE := now()
+    - make_interval(secs => economy_setting('zone_visit_exit_skew_s', 300)::DOUBLE PRECISION);
+BEGIN
+  PERFORM require_own_profile(p_profile_id);
+
+  UPDATE zone_visits
+  SET exited_at = GREATEST(LEAST(COALESCE(p_exited_at, now()), now()), v_earliest, entered_at),
+      exit_point = ST_SetSRID(ST_MakePoint(p_lng, p_lat), 4326),
+      distance_m = LEAST(GREATEST(COALESCE(p_run_distance_m, 0) - entered_run_m, 0), 50000)
+  WHERE profile_id = p_profile_id
+  AND client_run_id = p_client_run_id
+  AND region_id = p_region_id
+  AND exited_at IS NULL
+  RETURNING * INTO v_visit;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Left after the grace period without paying: the penalty applies
+  PERFORM penalize_overdue_visit(v_visit.id);
+
+  RETURN v_visit.id;
+END;
+$$;
+
+-- A run the server verified keeps the runner's zones that its route crosses from
+-- decaying; runs inserted by clients only get there through assess_run or a reviewer
+CREATE OR REPLACE FUNCTION public.refresh_zones_on_run()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_run_at TIMESTAMP WITH TIME ZONE := LEAST(COALESCE(NEW.recorded_at, NEW.created_at, now()), now());
+BEGIN
+  IF NEW.verification_status = 'verified'
+    AND (NEW.assessed_at IS NOT NULL OR NEW.reviewed_at IS NOT NULL OR auth.uid() IS NULL)
+    AND NEW.source = 'recorded'
+    AND NEW.route_geom IS NOT NULL
+    AND (TG_OP = 'INSERT' OR OLD.verification_status IS DISTINCT FROM 'verified') THEN
+    UPDATE regions r
+    SET last_visited = GREATEST(COALESCE(r.last_visited, v_run_at), v_run_at)
+    FROM profiles p
+    WHERE p.email = NEW.user_email
+    AND r.owner_id = p.id
+    AND ST_Intersects(r.geom, NEW.route_geom);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;